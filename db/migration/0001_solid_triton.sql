@@ -0,0 +1,83 @@
+CREATE TABLE `invoice_items` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`invoice_id` int NOT NULL,
+	`service_item_id` int,
+	`description` varchar(255) NOT NULL,
+	`quantity` int NOT NULL DEFAULT 1,
+	`unit_price` decimal(12,2) NOT NULL DEFAULT '0.00',
+	`total_price` decimal(12,2) NOT NULL DEFAULT '0.00',
+	CONSTRAINT `invoice_items_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `invoices` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`invoice_number` varchar(50) NOT NULL,
+	`patient_id` int NOT NULL,
+	`created_by` int,
+	`invoice_date` timestamp NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'issued',
+	`subtotal` decimal(12,2) NOT NULL DEFAULT '0.00',
+	`is_hmo_covered` boolean NOT NULL DEFAULT false,
+	`hmo_name` varchar(255),
+	`covered_amount` decimal(12,2) NOT NULL DEFAULT '0.00',
+	`total_due` decimal(12,2) NOT NULL DEFAULT '0.00',
+	`notes` text,
+	`last_sent_at` timestamp,
+	`sent_count` int NOT NULL DEFAULT 0,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `invoices_id` PRIMARY KEY(`id`),
+	CONSTRAINT `invoices_invoice_number_unique` UNIQUE(`invoice_number`)
+);
+--> statement-breakpoint
+CREATE TABLE `payments` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`patient_id` int NOT NULL,
+	`receipt_id` int,
+	`invoice_id` int,
+	`amount` decimal(12,2) NOT NULL,
+	`method` varchar(50) NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'completed',
+	`recorded_by` int,
+	`paid_at` timestamp NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `payments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `receipts` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`receipt_number` varchar(50) NOT NULL,
+	`patient_id` int NOT NULL,
+	`invoice_id` int,
+	`created_by` int,
+	`receipt_date` timestamp NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'issued',
+	`amount_paid` decimal(12,2) NOT NULL DEFAULT '0.00',
+	`payment_method` varchar(50) NOT NULL,
+	`outstanding_after` decimal(12,2) NOT NULL DEFAULT '0.00',
+	`notes` text,
+	`last_sent_at` timestamp,
+	`sent_count` int NOT NULL DEFAULT 0,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `receipts_id` PRIMARY KEY(`id`),
+	CONSTRAINT `receipts_receipt_number_unique` UNIQUE(`receipt_number`)
+);
+--> statement-breakpoint
+ALTER TABLE `invoice_items` ADD CONSTRAINT `invoice_items_invoice_id_invoices_id_fk` FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `invoice_items` ADD CONSTRAINT `invoice_items_service_item_id_service_items_id_fk` FOREIGN KEY (`service_item_id`) REFERENCES `service_items`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `invoices` ADD CONSTRAINT `invoices_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `invoices` ADD CONSTRAINT `invoices_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `payments` ADD CONSTRAINT `payments_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `payments` ADD CONSTRAINT `payments_receipt_id_receipts_id_fk` FOREIGN KEY (`receipt_id`) REFERENCES `receipts`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `payments` ADD CONSTRAINT `payments_invoice_id_invoices_id_fk` FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `payments` ADD CONSTRAINT `payments_recorded_by_users_id_fk` FOREIGN KEY (`recorded_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `receipts` ADD CONSTRAINT `receipts_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `receipts` ADD CONSTRAINT `receipts_invoice_id_invoices_id_fk` FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `receipts` ADD CONSTRAINT `receipts_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO `invoices` (`invoice_number`, `patient_id`, `invoice_date`, `total_due`, `subtotal`, `notes`)
+SELECT CONCAT('OPENING-', `id`), `id`, NOW(), `outstanding`, `outstanding`, 'Opening balance carried over from patients.outstanding'
+FROM `patients` WHERE `outstanding` > 0;--> statement-breakpoint
+INSERT INTO `payments` (`patient_id`, `amount`, `method`, `paid_at`)
+SELECT `id`, -`outstanding`, 'opening_credit', NOW()
+FROM `patients` WHERE `outstanding` < 0;
@@ -0,0 +1,9 @@
+CREATE TABLE `document_sequences` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`document_type` varchar(20) NOT NULL,
+	`year` int NOT NULL,
+	`last_value` int NOT NULL DEFAULT 0,
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `document_sequences_id` PRIMARY KEY(`id`),
+	CONSTRAINT `document_sequences_type_year_idx` UNIQUE(`document_type`,`year`)
+);
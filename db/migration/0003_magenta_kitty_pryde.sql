@@ -0,0 +1,44 @@
+CREATE TABLE `installment_plans` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`patient_id` int NOT NULL,
+	`invoice_id` int NOT NULL,
+	`total_amount` decimal(12,2) NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'active',
+	`notes` text,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `installment_plans_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `installments` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`plan_id` int NOT NULL,
+	`sequence` int NOT NULL,
+	`due_date` timestamp NOT NULL,
+	`amount` decimal(12,2) NOT NULL,
+	CONSTRAINT `installments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `payment_allocations` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`payment_id` int NOT NULL,
+	`invoice_id` int NOT NULL,
+	`invoice_item_id` int,
+	`amount` decimal(12,2) NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `payment_allocations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `invoice_items` ADD `patient_share` decimal(12,2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE `installment_plans` ADD CONSTRAINT `installment_plans_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `installment_plans` ADD CONSTRAINT `installment_plans_invoice_id_invoices_id_fk` FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `installment_plans` ADD CONSTRAINT `installment_plans_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `installments` ADD CONSTRAINT `installments_plan_id_installment_plans_id_fk` FOREIGN KEY (`plan_id`) REFERENCES `installment_plans`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `payment_allocations` ADD CONSTRAINT `payment_allocations_payment_id_payments_id_fk` FOREIGN KEY (`payment_id`) REFERENCES `payments`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `payment_allocations` ADD CONSTRAINT `payment_allocations_invoice_id_invoices_id_fk` FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `payment_allocations` ADD CONSTRAINT `payment_allocations_invoice_item_id_invoice_items_id_fk` FOREIGN KEY (`invoice_item_id`) REFERENCES `invoice_items`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE `invoice_items` `ii` JOIN `invoices` `i` ON `ii`.`invoice_id` = `i`.`id`
+SET `ii`.`patient_share` = CASE WHEN `i`.`subtotal` > 0 THEN ROUND(`ii`.`total_price` * `i`.`total_due` / `i`.`subtotal`, 2) ELSE `ii`.`total_price` END;--> statement-breakpoint
+INSERT INTO `payment_allocations` (`payment_id`, `invoice_id`, `amount`)
+SELECT `id`, `invoice_id`, `amount` FROM `payments` WHERE `invoice_id` IS NOT NULL AND `status` = 'completed';
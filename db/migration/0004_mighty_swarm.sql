@@ -0,0 +1,28 @@
+CREATE TABLE `credit_notes` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`credit_note_number` varchar(50) NOT NULL,
+	`patient_id` int NOT NULL,
+	`receipt_id` int NOT NULL,
+	`payment_id` int,
+	`type` varchar(20) NOT NULL,
+	`amount` decimal(12,2) NOT NULL,
+	`refund_method` varchar(50),
+	`reason` text NOT NULL,
+	`invoice_voided` boolean NOT NULL DEFAULT false,
+	`created_by` int,
+	`issued_at` timestamp NOT NULL,
+	`last_sent_at` timestamp,
+	`sent_count` int NOT NULL DEFAULT 0,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `credit_notes_id` PRIMARY KEY(`id`),
+	CONSTRAINT `credit_notes_credit_note_number_unique` UNIQUE(`credit_note_number`)
+);
+--> statement-breakpoint
+ALTER TABLE `receipts` ADD `bills_invoice` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `credit_notes` ADD CONSTRAINT `credit_notes_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `credit_notes` ADD CONSTRAINT `credit_notes_receipt_id_receipts_id_fk` FOREIGN KEY (`receipt_id`) REFERENCES `receipts`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `credit_notes` ADD CONSTRAINT `credit_notes_payment_id_payments_id_fk` FOREIGN KEY (`payment_id`) REFERENCES `payments`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `credit_notes` ADD CONSTRAINT `credit_notes_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE `receipts` `r` JOIN `invoices` `i` ON `r`.`invoice_id` = `i`.`id`
+SET `r`.`bills_invoice` = true
+WHERE `i`.`invoice_date` = `r`.`receipt_date` AND ABS(TIMESTAMPDIFF(SECOND, `i`.`created_at`, `r`.`created_at`)) <= 1;
@@ -0,0 +1,40 @@
+CREATE TABLE `hmo_claims` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`invoice_id` int NOT NULL,
+	`patient_id` int NOT NULL,
+	`hmo_provider_id` int,
+	`hmo_name` varchar(255) NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'draft',
+	`claimed_amount` decimal(12,2) NOT NULL,
+	`approved_amount` decimal(12,2),
+	`authorization_code` varchar(100),
+	`rejection_reason` text,
+	`notes` text,
+	`submitted_at` timestamp,
+	`approved_at` timestamp,
+	`rejected_at` timestamp,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `hmo_claims_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `hmo_remittances` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`claim_id` int NOT NULL,
+	`amount` decimal(12,2) NOT NULL,
+	`remitted_at` timestamp NOT NULL,
+	`reference` varchar(100),
+	`method` varchar(50),
+	`notes` text,
+	`recorded_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `hmo_remittances_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `hmo_claims` ADD CONSTRAINT `hmo_claims_invoice_id_invoices_id_fk` FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `hmo_claims` ADD CONSTRAINT `hmo_claims_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `hmo_claims` ADD CONSTRAINT `hmo_claims_hmo_provider_id_hmo_providers_id_fk` FOREIGN KEY (`hmo_provider_id`) REFERENCES `hmo_providers`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `hmo_claims` ADD CONSTRAINT `hmo_claims_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `hmo_remittances` ADD CONSTRAINT `hmo_remittances_claim_id_hmo_claims_id_fk` FOREIGN KEY (`claim_id`) REFERENCES `hmo_claims`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `hmo_remittances` ADD CONSTRAINT `hmo_remittances_recorded_by_users_id_fk` FOREIGN KEY (`recorded_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
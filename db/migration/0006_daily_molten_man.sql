@@ -0,0 +1,34 @@
+CREATE TABLE `hmo_contract_tariffs` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`contract_id` int NOT NULL,
+	`service_item_id` int NOT NULL,
+	`price` decimal(12,2),
+	`co_pay_percent` decimal(5,2),
+	`is_excluded` boolean NOT NULL DEFAULT false,
+	CONSTRAINT `hmo_contract_tariffs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `hmo_contract_tariffs_contract_service_idx` UNIQUE(`contract_id`,`service_item_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `hmo_contracts` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`hmo_provider_id` int NOT NULL,
+	`name` varchar(255),
+	`default_co_pay_percent` decimal(5,2) NOT NULL DEFAULT '0.00',
+	`annual_cap` decimal(12,2),
+	`valid_from` timestamp NOT NULL,
+	`valid_to` timestamp,
+	`notes` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `hmo_contracts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `invoices` ADD `hmo_provider_id` int;--> statement-breakpoint
+ALTER TABLE `invoices` ADD `hmo_contract_id` int;--> statement-breakpoint
+ALTER TABLE `hmo_contract_tariffs` ADD CONSTRAINT `hmo_contract_tariffs_contract_id_hmo_contracts_id_fk` FOREIGN KEY (`contract_id`) REFERENCES `hmo_contracts`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `hmo_contract_tariffs` ADD CONSTRAINT `hmo_contract_tariffs_service_item_id_service_items_id_fk` FOREIGN KEY (`service_item_id`) REFERENCES `service_items`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `hmo_contracts` ADD CONSTRAINT `hmo_contracts_hmo_provider_id_hmo_providers_id_fk` FOREIGN KEY (`hmo_provider_id`) REFERENCES `hmo_providers`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `invoices` ADD CONSTRAINT `invoices_hmo_provider_id_hmo_providers_id_fk` FOREIGN KEY (`hmo_provider_id`) REFERENCES `hmo_providers`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `invoices` ADD CONSTRAINT `invoices_hmo_contract_id_hmo_contracts_id_fk` FOREIGN KEY (`hmo_contract_id`) REFERENCES `hmo_contracts`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE `invoices` `i` JOIN `hmo_providers` `h` ON `h`.`name` = `i`.`hmo_name`
+SET `i`.`hmo_provider_id` = `h`.`id`;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `patient_merges` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`survivor_id` int NOT NULL,
+	`merged_patient_id` int NOT NULL,
+	`merged_patient_snapshot` json NOT NULL,
+	`moved_records` json NOT NULL,
+	`filled_fields` json,
+	`outstanding_before` decimal(10,2) NOT NULL,
+	`outstanding_after` decimal(10,2) NOT NULL,
+	`reason` text,
+	`merged_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `patient_merges_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `patient_merges` ADD CONSTRAINT `patient_merges_survivor_id_patients_id_fk` FOREIGN KEY (`survivor_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_merges` ADD CONSTRAINT `patient_merges_merged_by_users_id_fk` FOREIGN KEY (`merged_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `tooth_conditions` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`dental_record_id` int NOT NULL,
+	`patient_id` int NOT NULL,
+	`tooth` int NOT NULL,
+	`surface` varchar(10),
+	`condition` varchar(20) NOT NULL,
+	`notes` varchar(255),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `tooth_conditions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `tooth_conditions` ADD CONSTRAINT `tooth_conditions_dental_record_id_dental_records_id_fk` FOREIGN KEY (`dental_record_id`) REFERENCES `dental_records`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `tooth_conditions` ADD CONSTRAINT `tooth_conditions_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `tooth_conditions_patient_tooth_idx` ON `tooth_conditions` (`patient_id`,`tooth`);--> statement-breakpoint
+CREATE INDEX `tooth_conditions_tooth_condition_idx` ON `tooth_conditions` (`tooth`,`condition`);
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `dental_record_revisions` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`dental_record_id` int NOT NULL,
+	`revision_number` int NOT NULL,
+	`action` varchar(20) NOT NULL,
+	`changed_fields` json NOT NULL,
+	`changes` json NOT NULL,
+	`reason` text,
+	`author_id` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `dental_record_revisions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `dental_record_revisions_record_number_idx` UNIQUE(`dental_record_id`,`revision_number`)
+);
+--> statement-breakpoint
+ALTER TABLE `dental_records` ADD `deleted_at` timestamp;--> statement-breakpoint
+ALTER TABLE `dental_records` ADD `deleted_by` int;--> statement-breakpoint
+ALTER TABLE `dental_records` ADD `deletion_reason` text;--> statement-breakpoint
+ALTER TABLE `dental_record_revisions` ADD CONSTRAINT `dental_record_revisions_dental_record_id_dental_records_id_fk` FOREIGN KEY (`dental_record_id`) REFERENCES `dental_records`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `dental_record_revisions` ADD CONSTRAINT `dental_record_revisions_author_id_users_id_fk` FOREIGN KEY (`author_id`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `dental_records` ADD CONSTRAINT `dental_records_deleted_by_users_id_fk` FOREIGN KEY (`deleted_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO `dental_record_revisions` (`dental_record_id`, `revision_number`, `action`, `changed_fields`, `changes`, `reason`, `author_id`, `created_at`) SELECT `id`, 1, 'created', JSON_ARRAY(), JSON_OBJECT(), 'Recorded before revision history was kept', `doctor_id`, `created_at` FROM `dental_records`;
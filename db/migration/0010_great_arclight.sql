@@ -0,0 +1,16 @@
+CREATE TABLE `dental_record_addenda` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`dental_record_id` int NOT NULL,
+	`content` text NOT NULL,
+	`author_id` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `dental_record_addenda_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `dental_records` ADD `signed_at` timestamp;--> statement-breakpoint
+ALTER TABLE `dental_records` ADD `signed_by` int;--> statement-breakpoint
+ALTER TABLE `dental_record_addenda` ADD CONSTRAINT `dental_record_addenda_dental_record_id_dental_records_id_fk` FOREIGN KEY (`dental_record_id`) REFERENCES `dental_records`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `dental_record_addenda` ADD CONSTRAINT `dental_record_addenda_author_id_users_id_fk` FOREIGN KEY (`author_id`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `dental_records` ADD CONSTRAINT `dental_records_signed_by_users_id_fk` FOREIGN KEY (`signed_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE `settings` SET `config` = JSON_SET(`config`, '$.patientManagement.canSignOffDentalRecord', JSON_ARRAY('doctor'))
+WHERE `name` = 'dashboardPermissions' AND JSON_EXTRACT(`config`, '$.patientManagement') IS NOT NULL AND JSON_EXTRACT(`config`, '$.patientManagement.canSignOffDentalRecord') IS NULL;
@@ -0,0 +1,37 @@
+CREATE TABLE `treatment_plan_procedures` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`plan_id` int NOT NULL,
+	`service_item_id` int,
+	`tooth` int,
+	`description` varchar(255) NOT NULL,
+	`price` decimal(12,2) NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'proposed',
+	`sequence` int NOT NULL DEFAULT 0,
+	`notes` text,
+	`completed_at` timestamp,
+	`completed_by` int,
+	`invoice_item_id` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `treatment_plan_procedures_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `treatment_plans` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`patient_id` int NOT NULL,
+	`dental_record_id` int,
+	`title` varchar(255) NOT NULL,
+	`notes` text,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `treatment_plans_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `treatment_plan_procedures` ADD CONSTRAINT `treatment_plan_procedures_plan_id_treatment_plans_id_fk` FOREIGN KEY (`plan_id`) REFERENCES `treatment_plans`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `treatment_plan_procedures` ADD CONSTRAINT `treatment_plan_procedures_service_item_id_service_items_id_fk` FOREIGN KEY (`service_item_id`) REFERENCES `service_items`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `treatment_plan_procedures` ADD CONSTRAINT `treatment_plan_procedures_completed_by_users_id_fk` FOREIGN KEY (`completed_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `treatment_plan_procedures` ADD CONSTRAINT `treatment_plan_procedures_invoice_item_id_invoice_items_id_fk` FOREIGN KEY (`invoice_item_id`) REFERENCES `invoice_items`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `treatment_plans` ADD CONSTRAINT `treatment_plans_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `treatment_plans` ADD CONSTRAINT `treatment_plans_dental_record_id_dental_records_id_fk` FOREIGN KEY (`dental_record_id`) REFERENCES `dental_records`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `treatment_plans` ADD CONSTRAINT `treatment_plans_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,62 @@
+CREATE TABLE `patient_allergies` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`patient_id` int NOT NULL,
+	`allergen` varchar(255) NOT NULL,
+	`reaction` varchar(255),
+	`severity` varchar(20) NOT NULL DEFAULT 'moderate',
+	`notes` text,
+	`is_active` boolean NOT NULL DEFAULT true,
+	`recorded_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `patient_allergies_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `patient_medical_histories` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`patient_id` int NOT NULL,
+	`conditions` json NOT NULL,
+	`other_conditions` text,
+	`notes` text,
+	`updated_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `patient_medical_histories_id` PRIMARY KEY(`id`),
+	CONSTRAINT `patient_medical_histories_patient_id_unique` UNIQUE(`patient_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `patient_medications` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`patient_id` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`dosage` varchar(100),
+	`frequency` varchar(100),
+	`is_critical` boolean NOT NULL DEFAULT false,
+	`is_active` boolean NOT NULL DEFAULT true,
+	`notes` text,
+	`recorded_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `patient_medications_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `patient_allergies` ADD CONSTRAINT `patient_allergies_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_allergies` ADD CONSTRAINT `patient_allergies_recorded_by_users_id_fk` FOREIGN KEY (`recorded_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_medical_histories` ADD CONSTRAINT `patient_medical_histories_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_medical_histories` ADD CONSTRAINT `patient_medical_histories_updated_by_users_id_fk` FOREIGN KEY (`updated_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_medications` ADD CONSTRAINT `patient_medications_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_medications` ADD CONSTRAINT `patient_medications_recorded_by_users_id_fk` FOREIGN KEY (`recorded_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO `patient_medical_histories` (`patient_id`, `conditions`)
+SELECT `patient_id`, CAST(CONCAT('[', CONCAT_WS(',',
+    IF(MAX(`medication_s`), '"sickle_cell"', NULL),
+    IF(MAX(`medication_h`), '"hypertension"', NULL),
+    IF(MAX(`medication_a`), '"asthma"', NULL),
+    IF(MAX(`medication_d`), '"diabetes"', NULL),
+    IF(MAX(`medication_e`), '"epilepsy"', NULL),
+    IF(MAX(`medication_pud`), '"peptic_ulcer"', NULL),
+    IF(MAX(`medication_blood_disorder`), '"blood_disorder"', NULL),
+    IF(MAX(`medication_allergy`), '"allergy_reported"', NULL),
+    IF(MAX(`medication_hiv`), '"hiv"', NULL),
+    IF(MAX(`medication_hepatitis`), '"hepatitis"', NULL)
+), ']') AS JSON)
+FROM `dental_records` WHERE `deleted_at` IS NULL GROUP BY `patient_id`;
@@ -0,0 +1,55 @@
+CREATE TABLE `drugs` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`generic_name` varchar(255),
+	`form` varchar(50),
+	`strength` varchar(50),
+	`default_dose` varchar(100),
+	`default_frequency` varchar(100),
+	`default_duration` varchar(100),
+	`allergen_classes` json,
+	`is_active` boolean NOT NULL DEFAULT true,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `drugs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `drugs_name_unique` UNIQUE(`name`)
+);
+--> statement-breakpoint
+CREATE TABLE `prescription_items` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`prescription_id` int NOT NULL,
+	`drug_id` int,
+	`drug_name` varchar(255) NOT NULL,
+	`dose` varchar(100) NOT NULL,
+	`frequency` varchar(100) NOT NULL,
+	`duration` varchar(100) NOT NULL,
+	`instructions` text,
+	CONSTRAINT `prescription_items_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `prescriptions` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`dental_record_id` int NOT NULL,
+	`patient_id` int NOT NULL,
+	`prescribed_by` int,
+	`notes` text,
+	`allergy_override_reason` text,
+	`emailed_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `prescriptions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `prescription_items` ADD CONSTRAINT `prescription_items_prescription_id_prescriptions_id_fk` FOREIGN KEY (`prescription_id`) REFERENCES `prescriptions`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `prescription_items` ADD CONSTRAINT `prescription_items_drug_id_drugs_id_fk` FOREIGN KEY (`drug_id`) REFERENCES `drugs`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `prescriptions` ADD CONSTRAINT `prescriptions_dental_record_id_dental_records_id_fk` FOREIGN KEY (`dental_record_id`) REFERENCES `dental_records`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `prescriptions` ADD CONSTRAINT `prescriptions_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `prescriptions` ADD CONSTRAINT `prescriptions_prescribed_by_users_id_fk` FOREIGN KEY (`prescribed_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT IGNORE INTO `drugs` (`name`, `generic_name`, `form`, `strength`, `default_dose`, `default_frequency`, `default_duration`, `allergen_classes`) VALUES
+('Amoxicillin 500mg', 'Amoxicillin', 'capsule', '500mg', '1 capsule', 'Every 8 hours', '5 days', JSON_ARRAY('penicillin')),
+('Augmentin 625mg', 'Amoxicillin/Clavulanic acid', 'tablet', '625mg', '1 tablet', 'Every 12 hours', '5 days', JSON_ARRAY('penicillin')),
+('Metronidazole 400mg', 'Metronidazole', 'tablet', '400mg', '1 tablet', 'Every 8 hours', '5 days', JSON_ARRAY('nitroimidazole')),
+('Clindamycin 300mg', 'Clindamycin', 'capsule', '300mg', '1 capsule', 'Every 6 hours', '5 days', JSON_ARRAY('lincosamide')),
+('Ibuprofen 400mg', 'Ibuprofen', 'tablet', '400mg', '1 tablet', 'Every 8 hours after meals', '3 days', JSON_ARRAY('nsaid')),
+('Paracetamol 500mg', 'Paracetamol', 'tablet', '500mg', '2 tablets', 'Every 8 hours', '3 days', JSON_ARRAY()),
+('Chlorhexidine 0.2% Mouthwash', 'Chlorhexidine gluconate', 'mouthwash', '0.2%', '10ml rinse for 1 minute', 'Twice daily', '7 days', JSON_ARRAY('chlorhexidine'));
@@ -0,0 +1,26 @@
+CREATE TABLE `patient_images` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`patient_id` int NOT NULL,
+	`dental_record_id` int,
+	`image_type` varchar(30) NOT NULL,
+	`tooth` int,
+	`captured_at` timestamp NOT NULL,
+	`storage_provider` varchar(20) NOT NULL,
+	`storage_key` varchar(1000) NOT NULL,
+	`url` varchar(1000),
+	`mime_type` varchar(100),
+	`file_size` int,
+	`original_filename` varchar(255),
+	`notes` text,
+	`uploaded_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `patient_images_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `patient_images` ADD CONSTRAINT `patient_images_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_images` ADD CONSTRAINT `patient_images_dental_record_id_dental_records_id_fk` FOREIGN KEY (`dental_record_id`) REFERENCES `dental_records`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_images` ADD CONSTRAINT `patient_images_uploaded_by_users_id_fk` FOREIGN KEY (`uploaded_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `patient_images_patient_idx` ON `patient_images` (`patient_id`,`captured_at`);--> statement-breakpoint
+INSERT INTO `patient_images` (`patient_id`, `dental_record_id`, `image_type`, `captured_at`, `storage_provider`, `storage_key`, `url`, `notes`, `uploaded_by`, `created_at`)
+SELECT `patient_id`, `id`, 'other', `created_at`, 'external', `xray_url`, `xray_url`, 'Linked from the dental record before the imaging library', `doctor_id`, `created_at`
+FROM `dental_records` WHERE `xray_url` IS NOT NULL AND `xray_url` <> '';
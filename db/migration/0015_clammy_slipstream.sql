@@ -0,0 +1,4 @@
+ALTER TABLE `patient_images` ADD `thumbnail_key` varchar(1000);--> statement-breakpoint
+ALTER TABLE `patient_images` ADD `thumbnail_url` varchar(1000);--> statement-breakpoint
+ALTER TABLE `patient_images` ADD `width` int;--> statement-breakpoint
+ALTER TABLE `patient_images` ADD `height` int;
\ No newline at end of file
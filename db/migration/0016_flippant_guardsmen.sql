@@ -0,0 +1,3 @@
+ALTER TABLE `patient_images` ADD `preview_key` varchar(1000);--> statement-breakpoint
+ALTER TABLE `patient_images` ADD `preview_url` varchar(1000);--> statement-breakpoint
+ALTER TABLE `patient_images` ADD `dicom_metadata` json;
\ No newline at end of file
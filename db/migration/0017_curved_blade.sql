@@ -0,0 +1,68 @@
+CREATE TABLE `consent_templates` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`procedure_type` varchar(30) NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`body` text NOT NULL,
+	`version` int NOT NULL DEFAULT 1,
+	`is_active` boolean NOT NULL DEFAULT true,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `consent_templates_id` PRIMARY KEY(`id`),
+	CONSTRAINT `consent_templates_name_unique` UNIQUE(`name`)
+);
+--> statement-breakpoint
+CREATE TABLE `patient_consents` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`patient_id` int NOT NULL,
+	`template_id` int,
+	`template_version` int NOT NULL,
+	`procedure_type` varchar(30) NOT NULL,
+	`dental_record_id` int,
+	`treatment_plan_procedure_id` int,
+	`tooth` int,
+	`form_text` text NOT NULL,
+	`storage_provider` varchar(20) NOT NULL,
+	`signature_key` varchar(1000) NOT NULL,
+	`signature_url` varchar(1000),
+	`form_key` varchar(1000) NOT NULL,
+	`form_url` varchar(1000),
+	`signer_name` varchar(255) NOT NULL,
+	`signer_relationship` varchar(50) NOT NULL DEFAULT 'self',
+	`witnessed_by` int,
+	`signed_at` timestamp NOT NULL,
+	`revoked_at` timestamp,
+	`revoked_by` int,
+	`revocation_reason` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `patient_consents_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `consent_templates` ADD CONSTRAINT `consent_templates_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_consents` ADD CONSTRAINT `patient_consents_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_consents` ADD CONSTRAINT `patient_consents_template_id_consent_templates_id_fk` FOREIGN KEY (`template_id`) REFERENCES `consent_templates`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_consents` ADD CONSTRAINT `patient_consents_dental_record_id_dental_records_id_fk` FOREIGN KEY (`dental_record_id`) REFERENCES `dental_records`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_consents` ADD CONSTRAINT `patient_consents_treatment_plan_procedure_id_treatment_plan_procedures_id_fk` FOREIGN KEY (`treatment_plan_procedure_id`) REFERENCES `treatment_plan_procedures`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_consents` ADD CONSTRAINT `patient_consents_witnessed_by_users_id_fk` FOREIGN KEY (`witnessed_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `patient_consents` ADD CONSTRAINT `patient_consents_revoked_by_users_id_fk` FOREIGN KEY (`revoked_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `patient_consents_patient_idx` ON `patient_consents` (`patient_id`,`signed_at`);--> statement-breakpoint
+INSERT IGNORE INTO `consent_templates` (`name`, `procedure_type`, `title`, `body`) VALUES
+('Tooth Extraction Consent', 'extraction', 'Consent for Tooth Extraction', 'I, {{patientName}}, agree to have {{procedure}}{{#if tooth}} (tooth {{tooth}}){{/if}} carried out{{#if doctorName}} by Dr. {{doctorName}}{{/if}} at Prime Dental Clinic.
+
+The reason for the extraction, the alternatives (including leaving the tooth) and what to expect afterwards have been explained to me, and my questions have been answered.
+
+I understand that the risks include pain, swelling, bruising and bleeding; infection or dry socket; numbness or tingling of the lip, chin or tongue, which is usually temporary; damage to nearby teeth or fillings; a fractured root that may need to be left or removed surgically; and, for upper back teeth, an opening into the sinus.
+
+I have told the clinic about my medical history, medicines and allergies, and I will follow the aftercare instructions I have been given.
+
+Date: {{date}}'),
+('Root Canal Treatment Consent', 'root_canal', 'Consent for Root Canal Treatment', 'I, {{patientName}}, agree to have {{procedure}}{{#if tooth}} (tooth {{tooth}}){{/if}} carried out{{#if doctorName}} by Dr. {{doctorName}}{{/if}} at Prime Dental Clinic.
+
+Root canal treatment removes the infected or inflamed pulp from inside the tooth, cleans and fills the root canals, and usually takes more than one visit. The alternatives, including extraction, have been explained to me.
+
+I understand that root canal treatment has a high success rate but cannot be guaranteed; that the tooth may be tender for a few days; that an instrument may separate in a canal or a canal may be impossible to treat; and that the tooth may later need a crown, retreatment, surgery or extraction.
+
+I have told the clinic about my medical history, medicines and allergies, and I will return for the remaining visits and the final restoration.
+
+Date: {{date}}');
@@ -0,0 +1,26 @@
+CREATE TABLE `appointments` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`patient_id` int NOT NULL,
+	`doctor_id` int,
+	`chair` varchar(50),
+	`procedure` varchar(255),
+	`start_time` timestamp NOT NULL,
+	`end_time` timestamp NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'booked',
+	`notes` text,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `appointments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `appointments` ADD CONSTRAINT `appointments_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `appointments` ADD CONSTRAINT `appointments_doctor_id_users_id_fk` FOREIGN KEY (`doctor_id`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `appointments` ADD CONSTRAINT `appointments_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `appointments_start_idx` ON `appointments` (`start_time`);--> statement-breakpoint
+CREATE INDEX `appointments_doctor_idx` ON `appointments` (`doctor_id`,`start_time`);--> statement-breakpoint
+CREATE INDEX `appointments_patient_idx` ON `appointments` (`patient_id`,`start_time`);--> statement-breakpoint
+INSERT INTO `appointments` (`patient_id`, `start_time`, `end_time`, `status`, `notes`)
+SELECT `id`, `next_appointment_date`, `next_appointment_date` + INTERVAL 30 MINUTE, 'booked', 'Carried over from the patient''s next appointment date'
+FROM `patients`
+WHERE `next_appointment_date` >= CURDATE();
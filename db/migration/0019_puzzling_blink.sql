@@ -0,0 +1,39 @@
+CREATE TABLE `clinic_holidays` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`date` date NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `clinic_holidays_id` PRIMARY KEY(`id`),
+	CONSTRAINT `clinic_holidays_date_unique` UNIQUE(`date`)
+);
+--> statement-breakpoint
+CREATE TABLE `doctor_leave` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`doctor_id` int NOT NULL,
+	`start_date` date NOT NULL,
+	`end_date` date NOT NULL,
+	`reason` varchar(255),
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `doctor_leave_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `doctor_working_hours` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`doctor_id` int NOT NULL,
+	`day_of_week` int NOT NULL,
+	`start_time` varchar(5) NOT NULL,
+	`end_time` varchar(5) NOT NULL,
+	`break_start` varchar(5),
+	`break_end` varchar(5),
+	CONSTRAINT `doctor_working_hours_id` PRIMARY KEY(`id`),
+	CONSTRAINT `doctor_working_hours_day_idx` UNIQUE(`doctor_id`,`day_of_week`)
+);
+--> statement-breakpoint
+ALTER TABLE `service_items` ADD `duration_minutes` int;--> statement-breakpoint
+ALTER TABLE `clinic_holidays` ADD CONSTRAINT `clinic_holidays_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `doctor_leave` ADD CONSTRAINT `doctor_leave_doctor_id_users_id_fk` FOREIGN KEY (`doctor_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `doctor_leave` ADD CONSTRAINT `doctor_leave_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `doctor_working_hours` ADD CONSTRAINT `doctor_working_hours_doctor_id_users_id_fk` FOREIGN KEY (`doctor_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `doctor_leave_doctor_idx` ON `doctor_leave` (`doctor_id`,`start_date`);
\ No newline at end of file
@@ -0,0 +1,63 @@
+CREATE TABLE `appointment_sequence_steps` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`template_id` int NOT NULL,
+	`step_number` int NOT NULL,
+	`label` varchar(255) NOT NULL,
+	`offset_days` int NOT NULL,
+	`duration_minutes` int,
+	CONSTRAINT `appointment_sequence_steps_id` PRIMARY KEY(`id`),
+	CONSTRAINT `appointment_sequence_steps_number_idx` UNIQUE(`template_id`,`step_number`)
+);
+--> statement-breakpoint
+CREATE TABLE `appointment_sequence_templates` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`description` text,
+	`is_active` boolean NOT NULL DEFAULT true,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `appointment_sequence_templates_id` PRIMARY KEY(`id`),
+	CONSTRAINT `appointment_sequence_templates_name_unique` UNIQUE(`name`)
+);
+--> statement-breakpoint
+CREATE TABLE `appointment_series` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`patient_id` int NOT NULL,
+	`kind` varchar(20) NOT NULL,
+	`doctor_id` int,
+	`chair` varchar(50),
+	`procedure` varchar(255),
+	`interval_weeks` int,
+	`occurrences` int NOT NULL,
+	`sequence_template_id` int,
+	`notes` text,
+	`cancelled_at` timestamp,
+	`cancelled_by` int,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `appointment_series_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `appointments` ADD `series_id` int;--> statement-breakpoint
+ALTER TABLE `appointments` ADD `series_index` int;--> statement-breakpoint
+ALTER TABLE `appointment_sequence_steps` ADD CONSTRAINT `appointment_sequence_steps_template_id_appointment_sequence_templates_id_fk` FOREIGN KEY (`template_id`) REFERENCES `appointment_sequence_templates`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `appointment_sequence_templates` ADD CONSTRAINT `appointment_sequence_templates_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `appointment_series` ADD CONSTRAINT `appointment_series_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `appointment_series` ADD CONSTRAINT `appointment_series_doctor_id_users_id_fk` FOREIGN KEY (`doctor_id`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `appointment_series` ADD CONSTRAINT `appointment_series_sequence_template_id_appointment_sequence_templates_id_fk` FOREIGN KEY (`sequence_template_id`) REFERENCES `appointment_sequence_templates`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `appointment_series` ADD CONSTRAINT `appointment_series_cancelled_by_users_id_fk` FOREIGN KEY (`cancelled_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `appointment_series` ADD CONSTRAINT `appointment_series_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `appointment_series_patient_idx` ON `appointment_series` (`patient_id`);--> statement-breakpoint
+ALTER TABLE `appointments` ADD CONSTRAINT `appointments_series_id_appointment_series_id_fk` FOREIGN KEY (`series_id`) REFERENCES `appointment_series`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT IGNORE INTO `appointment_sequence_templates` (`name`, `description`) VALUES
+('Root canal treatment (3 visits)', 'Access and cleaning, shaping and dressing, then obturation, a week apart.');--> statement-breakpoint
+INSERT IGNORE INTO `appointment_sequence_steps` (`template_id`, `step_number`, `label`, `offset_days`, `duration_minutes`)
+SELECT t.`id`, s.`step_number`, s.`label`, s.`offset_days`, s.`duration_minutes`
+FROM `appointment_sequence_templates` t
+JOIN (
+	SELECT 1 AS `step_number`, 'Root canal visit 1 of 3: access and cleaning' AS `label`, 0 AS `offset_days`, 60 AS `duration_minutes`
+	UNION ALL SELECT 2, 'Root canal visit 2 of 3: shaping and dressing', 7, 45
+	UNION ALL SELECT 3, 'Root canal visit 3 of 3: obturation', 14, 60
+) s
+WHERE t.`name` = 'Root canal treatment (3 visits)';
@@ -0,0 +1,18 @@
+CREATE TABLE `appointment_status_changes` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`appointment_id` int NOT NULL,
+	`from_status` varchar(20),
+	`to_status` varchar(20) NOT NULL,
+	`reason` varchar(255),
+	`changed_by` int,
+	`changed_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `appointment_status_changes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `appointment_status_changes` ADD CONSTRAINT `appointment_status_changes_appointment_id_appointments_id_fk` FOREIGN KEY (`appointment_id`) REFERENCES `appointments`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `appointment_status_changes` ADD CONSTRAINT `appointment_status_changes_changed_by_users_id_fk` FOREIGN KEY (`changed_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `appointment_status_changes_appointment_idx` ON `appointment_status_changes` (`appointment_id`,`changed_at`);--> statement-breakpoint
+INSERT INTO `appointment_status_changes` (`appointment_id`, `from_status`, `to_status`, `changed_by`, `changed_at`)
+SELECT `id`, NULL, 'booked', `created_by`, `created_at` FROM `appointments`;--> statement-breakpoint
+INSERT INTO `appointment_status_changes` (`appointment_id`, `from_status`, `to_status`, `changed_at`)
+SELECT `id`, 'booked', `status`, COALESCE(`updated_at`, `created_at`) FROM `appointments` WHERE `status` <> 'booked';
@@ -0,0 +1,52 @@
+CREATE TABLE `waitlist_entries` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`patient_id` int NOT NULL,
+	`preferred_doctor_id` int,
+	`procedure` varchar(255),
+	`preferred_days` json,
+	`earliest_time` varchar(5),
+	`latest_time` varchar(5),
+	`available_until` date,
+	`priority` int NOT NULL DEFAULT 0,
+	`notes` text,
+	`status` varchar(20) NOT NULL DEFAULT 'waiting',
+	`booked_appointment_id` int,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `waitlist_entries_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `waitlist_offers` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`entry_id` int NOT NULL,
+	`source_appointment_id` int,
+	`doctor_id` int,
+	`chair` varchar(50),
+	`procedure` varchar(255),
+	`start_time` timestamp NOT NULL,
+	`end_time` timestamp NOT NULL,
+	`token_hash` varchar(64) NOT NULL,
+	`status` varchar(20) NOT NULL DEFAULT 'pending',
+	`expires_at` timestamp NOT NULL,
+	`emailed_at` timestamp,
+	`responded_at` timestamp,
+	`booked_appointment_id` int,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `waitlist_offers_id` PRIMARY KEY(`id`),
+	CONSTRAINT `waitlist_offers_token_hash_unique` UNIQUE(`token_hash`)
+);
+--> statement-breakpoint
+ALTER TABLE `waitlist_entries` ADD CONSTRAINT `waitlist_entries_patient_id_patients_id_fk` FOREIGN KEY (`patient_id`) REFERENCES `patients`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `waitlist_entries` ADD CONSTRAINT `waitlist_entries_preferred_doctor_id_users_id_fk` FOREIGN KEY (`preferred_doctor_id`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `waitlist_entries` ADD CONSTRAINT `waitlist_entries_booked_appointment_id_appointments_id_fk` FOREIGN KEY (`booked_appointment_id`) REFERENCES `appointments`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `waitlist_entries` ADD CONSTRAINT `waitlist_entries_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `waitlist_offers` ADD CONSTRAINT `waitlist_offers_entry_id_waitlist_entries_id_fk` FOREIGN KEY (`entry_id`) REFERENCES `waitlist_entries`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `waitlist_offers` ADD CONSTRAINT `waitlist_offers_source_appointment_id_appointments_id_fk` FOREIGN KEY (`source_appointment_id`) REFERENCES `appointments`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `waitlist_offers` ADD CONSTRAINT `waitlist_offers_doctor_id_users_id_fk` FOREIGN KEY (`doctor_id`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `waitlist_offers` ADD CONSTRAINT `waitlist_offers_booked_appointment_id_appointments_id_fk` FOREIGN KEY (`booked_appointment_id`) REFERENCES `appointments`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `waitlist_offers` ADD CONSTRAINT `waitlist_offers_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `waitlist_entries_status_idx` ON `waitlist_entries` (`status`,`created_at`);--> statement-breakpoint
+CREATE INDEX `waitlist_offers_entry_idx` ON `waitlist_offers` (`entry_id`);--> statement-breakpoint
+CREATE INDEX `waitlist_offers_slot_idx` ON `waitlist_offers` (`source_appointment_id`);
\ No newline at end of file
@@ -1,5 +1,5 @@
 // db/schema.ts
-import { serial, int, varchar, text, boolean, timestamp, json, mysqlTable, decimal } from 'drizzle-orm/mysql-core';
+import { serial, int, varchar, text, boolean, timestamp, date, json, mysqlTable, decimal, uniqueIndex, index } from 'drizzle-orm/mysql-core';
 import { relations } from 'drizzle-orm';
 
 // --- PATIENTS SCHEMA ---
@@ -24,6 +24,10 @@ export const patients = mysqlTable("patients", {
 export const patientRelations = relations(patients, ({ one, many }) => ({
     dentalRecords: many(dentalRecords),
     dailyVisits: many(dailyVisits), // ADDED RELATION
+    invoices: many(invoices),
+    receipts: many(receipts),
+    payments: many(payments),
+    creditNotes: many(creditNotes),
     familyHead: one(patients, {
         fields: [patients.familyId],
         references: [patients.id],
@@ -108,12 +112,392 @@ export const dentalRecords = mysqlTable("dental_records", {
     treatmentPlan: json("treatment_plan"),
     treatmentDone: text("treatment_done"),
     calculus: text("calculus"),
+    // Clinical records are never hard-deleted; a deleted record is hidden but kept with its history.
+    deletedAt: timestamp("deleted_at"),
+    deletedBy: int("deleted_by").references(() => users.id, { onDelete: 'set null' }),
+    deletionReason: text("deletion_reason"),
+    // Set when a doctor signs the record off; from then on it is read-only and only takes addenda.
+    signedAt: timestamp("signed_at"),
+    signedBy: int("signed_by").references(() => users.id, { onDelete: 'set null' }),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
 });
 
+// --- PATIENT MEDICAL HISTORY ---
+// Patient-level history carried from record to record, so a new dental record cannot forget a known condition.
+export const patientMedicalHistories = mysqlTable("patient_medical_histories", {
+    id: serial("id").primaryKey(),
+    patientId: int("patient_id").notNull().unique().references(() => patients.id, { onDelete: 'cascade' }),
+    conditions: json("conditions").notNull(), // Condition keys, e.g. ["hypertension", "diabetes"]
+    otherConditions: text("other_conditions"),
+    notes: text("notes"),
+    updatedBy: int("updated_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const patientAllergies = mysqlTable("patient_allergies", {
+    id: serial("id").primaryKey(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    allergen: varchar("allergen", { length: 255 }).notNull(),
+    reaction: varchar("reaction", { length: 255 }),
+    severity: varchar("severity", { length: 20, enum: ['mild', 'moderate', 'severe'] }).default('moderate').notNull(),
+    notes: text("notes"),
+    isActive: boolean("is_active").default(true).notNull(), // Cleared allergies are kept for the record
+    recordedBy: int("recorded_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const patientMedications = mysqlTable("patient_medications", {
+    id: serial("id").primaryKey(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    name: varchar("name", { length: 255 }).notNull(),
+    dosage: varchar("dosage", { length: 100 }),
+    frequency: varchar("frequency", { length: 100 }),
+    isCritical: boolean("is_critical").default(false).notNull(), // e.g. anticoagulants or bisphosphonates
+    isActive: boolean("is_active").default(true).notNull(),
+    notes: text("notes"),
+    recordedBy: int("recorded_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const patientMedicalHistoryRelations = relations(patientMedicalHistories, ({ one }) => ({
+    patient: one(patients, {
+        fields: [patientMedicalHistories.patientId],
+        references: [patients.id],
+    }),
+}));
+
+export const patientAllergyRelations = relations(patientAllergies, ({ one }) => ({
+    patient: one(patients, {
+        fields: [patientAllergies.patientId],
+        references: [patients.id],
+    }),
+}));
+
+export const patientMedicationRelations = relations(patientMedications, ({ one }) => ({
+    patient: one(patients, {
+        fields: [patientMedications.patientId],
+        references: [patients.id],
+    }),
+}));
+
+// --- DENTAL RECORD REVISIONS (immutable amendment history) ---
+export const dentalRecordRevisions = mysqlTable("dental_record_revisions", {
+    id: serial("id").primaryKey(),
+    dentalRecordId: int("dental_record_id").notNull().references(() => dentalRecords.id, { onDelete: 'cascade' }),
+    revisionNumber: int("revision_number").notNull(),
+    action: varchar("action", { length: 20, enum: ['created', 'updated', 'deleted', 'signed', 'addendum'] }).notNull(),
+    changedFields: json("changed_fields").notNull(), // Field names touched by this revision
+    changes: json("changes").notNull(), // { field: { from, to } }
+    reason: text("reason"),
+    authorId: int("author_id").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+    uniqueIndex("dental_record_revisions_record_number_idx").on(table.dentalRecordId, table.revisionNumber),
+]);
+
+export const dentalRecordRevisionRelations = relations(dentalRecordRevisions, ({ one }) => ({
+    dentalRecord: one(dentalRecords, {
+        fields: [dentalRecordRevisions.dentalRecordId],
+        references: [dentalRecords.id],
+    }),
+    author: one(users, {
+        fields: [dentalRecordRevisions.authorId],
+        references: [users.id],
+    }),
+}));
+
+// --- DENTAL RECORD ADDENDA (notes attached after sign-off) ---
+export const dentalRecordAddenda = mysqlTable("dental_record_addenda", {
+    id: serial("id").primaryKey(),
+    dentalRecordId: int("dental_record_id").notNull().references(() => dentalRecords.id, { onDelete: 'cascade' }),
+    content: text("content").notNull(),
+    authorId: int("author_id").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const dentalRecordAddendumRelations = relations(dentalRecordAddenda, ({ one }) => ({
+    dentalRecord: one(dentalRecords, {
+        fields: [dentalRecordAddenda.dentalRecordId],
+        references: [dentalRecords.id],
+    }),
+    author: one(users, {
+        fields: [dentalRecordAddenda.authorId],
+        references: [users.id],
+    }),
+}));
+
+// --- TOOTH CHART (ODONTOGRAM) ---
+// One row per condition found on a tooth (FDI two-digit notation) or one of its surfaces when a record is charted.
+export const toothConditions = mysqlTable("tooth_conditions", {
+    id: serial("id").primaryKey(),
+    dentalRecordId: int("dental_record_id").notNull().references(() => dentalRecords.id, { onDelete: 'cascade' }),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    tooth: int("tooth").notNull(),
+    surface: varchar("surface", { length: 10, enum: ['mesial', 'distal', 'occlusal', 'incisal', 'buccal', 'lingual'] }), // Null for the whole tooth
+    condition: varchar("condition", { length: 20, enum: ['sound', 'caries', 'filled', 'fractured', 'missing', 'crown', 'root_canal', 'implant'] }).notNull(),
+    notes: varchar("notes", { length: 255 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+    index("tooth_conditions_patient_tooth_idx").on(table.patientId, table.tooth),
+    index("tooth_conditions_tooth_condition_idx").on(table.tooth, table.condition),
+]);
+
+export const toothConditionRelations = relations(toothConditions, ({ one }) => ({
+    dentalRecord: one(dentalRecords, {
+        fields: [toothConditions.dentalRecordId],
+        references: [dentalRecords.id],
+    }),
+    patient: one(patients, {
+        fields: [toothConditions.patientId],
+        references: [patients.id],
+    }),
+}));
+
+// --- TREATMENT PLANS ---
+// A plan groups the procedures proposed to a patient; each procedure is tracked and invoiced on its own.
+export const treatmentPlans = mysqlTable("treatment_plans", {
+    id: serial("id").primaryKey(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    dentalRecordId: int("dental_record_id").references(() => dentalRecords.id, { onDelete: 'set null' }), // The examination the plan came from
+    title: varchar("title", { length: 255 }).notNull(),
+    notes: text("notes"),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const treatmentPlanProcedures = mysqlTable("treatment_plan_procedures", {
+    id: serial("id").primaryKey(),
+    planId: int("plan_id").notNull().references(() => treatmentPlans.id, { onDelete: 'cascade' }),
+    serviceItemId: int("service_item_id").references(() => serviceItems.id, { onDelete: 'set null' }),
+    tooth: int("tooth"), // FDI notation; null for procedures on the whole mouth
+    description: varchar("description", { length: 255 }).notNull(),
+    price: decimal("price", { precision: 12, scale: 2 }).notNull(), // Quoted price, taken from the service list when planned
+    status: varchar("status", { length: 20, enum: ['proposed', 'accepted', 'in_progress', 'completed', 'declined'] }).default('proposed').notNull(),
+    sequence: int("sequence").default(0).notNull(),
+    notes: text("notes"),
+    completedAt: timestamp("completed_at"),
+    completedBy: int("completed_by").references(() => users.id, { onDelete: 'set null' }),
+    invoiceItemId: int("invoice_item_id").references((): any => invoiceItems.id, { onDelete: 'set null' }), // Set once billed
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const treatmentPlanRelations = relations(treatmentPlans, ({ one, many }) => ({
+    patient: one(patients, {
+        fields: [treatmentPlans.patientId],
+        references: [patients.id],
+    }),
+    dentalRecord: one(dentalRecords, {
+        fields: [treatmentPlans.dentalRecordId],
+        references: [dentalRecords.id],
+    }),
+    creator: one(users, {
+        fields: [treatmentPlans.createdBy],
+        references: [users.id],
+    }),
+    procedures: many(treatmentPlanProcedures),
+}));
+
+export const treatmentPlanProcedureRelations = relations(treatmentPlanProcedures, ({ one }) => ({
+    plan: one(treatmentPlans, {
+        fields: [treatmentPlanProcedures.planId],
+        references: [treatmentPlans.id],
+    }),
+    serviceItem: one(serviceItems, {
+        fields: [treatmentPlanProcedures.serviceItemId],
+        references: [serviceItems.id],
+    }),
+    invoiceItem: one(invoiceItems, {
+        fields: [treatmentPlanProcedures.invoiceItemId],
+        references: [invoiceItems.id],
+    }),
+}));
+
+// --- PATIENT IMAGES (radiographs and clinical photos) ---
+export const patientImages = mysqlTable("patient_images", {
+    id: serial("id").primaryKey(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    dentalRecordId: int("dental_record_id").references(() => dentalRecords.id, { onDelete: 'set null' }),
+    imageType: varchar("image_type", { length: 30, enum: ['periapical', 'bitewing', 'panoramic', 'cephalometric', 'intraoral_photo', 'extraoral_photo', 'other'] }).notNull(),
+    tooth: int("tooth"), // FDI notation; null for images of the whole mouth
+    capturedAt: timestamp("captured_at").notNull(),
+    storageProvider: varchar("storage_provider", { length: 20, enum: ['cloudinary', 'local', 'external'] }).notNull(),
+    storageKey: varchar("storage_key", { length: 1000 }).notNull(), // See ImageStorageAdapter
+    url: varchar("url", { length: 1000 }), // Only when the provider serves the file itself
+    thumbnailKey: varchar("thumbnail_key", { length: 1000 }), // Stored with the same provider as the original
+    thumbnailUrl: varchar("thumbnail_url", { length: 1000 }),
+    previewKey: varchar("preview_key", { length: 1000 }), // PNG rendering of a DICOM original
+    previewUrl: varchar("preview_url", { length: 1000 }),
+    dicomMetadata: json("dicom_metadata"), // Modality, study date, embedded patient and any mismatch warnings
+    mimeType: varchar("mime_type", { length: 100 }), // Detected from the file's bytes, not the client's claim
+    fileSize: int("file_size"),
+    width: int("width"),
+    height: int("height"),
+    originalFilename: varchar("original_filename", { length: 255 }),
+    notes: text("notes"),
+    uploadedBy: int("uploaded_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+    index("patient_images_patient_idx").on(table.patientId, table.capturedAt),
+]);
+
+export const patientImageRelations = relations(patientImages, ({ one }) => ({
+    patient: one(patients, {
+        fields: [patientImages.patientId],
+        references: [patients.id],
+    }),
+    dentalRecord: one(dentalRecords, {
+        fields: [patientImages.dentalRecordId],
+        references: [dentalRecords.id],
+    }),
+    uploader: one(users, {
+        fields: [patientImages.uploadedBy],
+        references: [users.id],
+    }),
+}));
+
+// --- PRESCRIPTIONS ---
+// The clinic's drug catalogue. `allergenClasses` names the allergy groups a drug belongs to (e.g. "penicillin", "nsaid").
+export const drugs = mysqlTable("drugs", {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 255 }).notNull().unique(),
+    genericName: varchar("generic_name", { length: 255 }),
+    form: varchar("form", { length: 50 }), // tablet, capsule, suspension, mouthwash, gel ...
+    strength: varchar("strength", { length: 50 }),
+    defaultDose: varchar("default_dose", { length: 100 }),
+    defaultFrequency: varchar("default_frequency", { length: 100 }),
+    defaultDuration: varchar("default_duration", { length: 100 }),
+    allergenClasses: json("allergen_classes"),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const prescriptions = mysqlTable("prescriptions", {
+    id: serial("id").primaryKey(),
+    dentalRecordId: int("dental_record_id").notNull().references(() => dentalRecords.id, { onDelete: 'cascade' }),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    prescribedBy: int("prescribed_by").references(() => users.id, { onDelete: 'set null' }),
+    notes: text("notes"),
+    allergyOverrideReason: text("allergy_override_reason"), // Why the prescriber went ahead despite an allergy match
+    emailedAt: timestamp("emailed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const prescriptionItems = mysqlTable("prescription_items", {
+    id: serial("id").primaryKey(),
+    prescriptionId: int("prescription_id").notNull().references(() => prescriptions.id, { onDelete: 'cascade' }),
+    drugId: int("drug_id").references(() => drugs.id, { onDelete: 'set null' }),
+    drugName: varchar("drug_name", { length: 255 }).notNull(), // Copied from the catalogue so the prescription reads the same later
+    dose: varchar("dose", { length: 100 }).notNull(),
+    frequency: varchar("frequency", { length: 100 }).notNull(),
+    duration: varchar("duration", { length: 100 }).notNull(),
+    instructions: text("instructions"),
+});
+
+export const prescriptionRelations = relations(prescriptions, ({ one, many }) => ({
+    dentalRecord: one(dentalRecords, {
+        fields: [prescriptions.dentalRecordId],
+        references: [dentalRecords.id],
+    }),
+    patient: one(patients, {
+        fields: [prescriptions.patientId],
+        references: [patients.id],
+    }),
+    prescriber: one(users, {
+        fields: [prescriptions.prescribedBy],
+        references: [users.id],
+    }),
+    items: many(prescriptionItems),
+}));
+
+export const prescriptionItemRelations = relations(prescriptionItems, ({ one }) => ({
+    prescription: one(prescriptions, {
+        fields: [prescriptionItems.prescriptionId],
+        references: [prescriptions.id],
+    }),
+    drug: one(drugs, {
+        fields: [prescriptionItems.drugId],
+        references: [drugs.id],
+    }),
+}));
+
+// --- CONSENT FORMS ---
+// Consent wording per procedure type, as a Handlebars body. Editing the wording bumps `version`.
+export const consentTemplates = mysqlTable("consent_templates", {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 255 }).notNull().unique(),
+    procedureType: varchar("procedure_type", { length: 30, enum: ['extraction', 'root_canal', 'implant', 'surgery', 'general'] }).notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    body: text("body").notNull(),
+    version: int("version").default(1).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+// A consent as signed. The wording and the printed form are kept, so later template edits don't change it.
+export const patientConsents = mysqlTable("patient_consents", {
+    id: serial("id").primaryKey(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    templateId: int("template_id").references(() => consentTemplates.id, { onDelete: 'set null' }),
+    templateVersion: int("template_version").notNull(),
+    procedureType: varchar("procedure_type", { length: 30, enum: ['extraction', 'root_canal', 'implant', 'surgery', 'general'] }).notNull(),
+    dentalRecordId: int("dental_record_id").references(() => dentalRecords.id, { onDelete: 'set null' }),
+    treatmentPlanProcedureId: int("treatment_plan_procedure_id").references(() => treatmentPlanProcedures.id, { onDelete: 'set null' }),
+    tooth: int("tooth"), // FDI notation
+    formText: text("form_text").notNull(), // The wording the patient signed, placeholders filled in
+    storageProvider: varchar("storage_provider", { length: 20, enum: ['cloudinary', 'local', 'external'] }).notNull(),
+    signatureKey: varchar("signature_key", { length: 1000 }).notNull(), // The drawn signature image
+    signatureUrl: varchar("signature_url", { length: 1000 }),
+    formKey: varchar("form_key", { length: 1000 }).notNull(), // The signed form as a PDF
+    formUrl: varchar("form_url", { length: 1000 }),
+    signerName: varchar("signer_name", { length: 255 }).notNull(),
+    signerRelationship: varchar("signer_relationship", { length: 50 }).default('self').notNull(), // e.g. parent or guardian of a minor
+    witnessedBy: int("witnessed_by").references(() => users.id, { onDelete: 'set null' }),
+    signedAt: timestamp("signed_at").notNull(),
+    revokedAt: timestamp("revoked_at"),
+    revokedBy: int("revoked_by").references(() => users.id, { onDelete: 'set null' }),
+    revocationReason: text("revocation_reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+    index("patient_consents_patient_idx").on(table.patientId, table.signedAt),
+]);
+
+export const patientConsentRelations = relations(patientConsents, ({ one }) => ({
+    patient: one(patients, {
+        fields: [patientConsents.patientId],
+        references: [patients.id],
+    }),
+    template: one(consentTemplates, {
+        fields: [patientConsents.templateId],
+        references: [consentTemplates.id],
+    }),
+    dentalRecord: one(dentalRecords, {
+        fields: [patientConsents.dentalRecordId],
+        references: [dentalRecords.id],
+    }),
+    procedure: one(treatmentPlanProcedures, {
+        fields: [patientConsents.treatmentPlanProcedureId],
+        references: [treatmentPlanProcedures.id],
+    }),
+}));
+
 // --- DENTAL RECORD RELATIONS ---
-export const dentalRecordRelations = relations(dentalRecords, ({ one }) => ({
+export const dentalRecordRelations = relations(dentalRecords, ({ one, many }) => ({
+    toothConditions: many(toothConditions),
+    revisions: many(dentalRecordRevisions),
+    addenda: many(dentalRecordAddenda),
+    prescriptions: many(prescriptions),
+    images: many(patientImages),
+    consents: many(patientConsents),
     patient: one(patients, {
         fields: [dentalRecords.patientId],
         references: [patients.id],
@@ -128,6 +512,16 @@ export const dentalRecordRelations = relations(dentalRecords, ({ one }) => ({
         references: [users.id],
         relationName: 'receptionist_records'
     }),
+    deletedByUser: one(users, {
+        fields: [dentalRecords.deletedBy],
+        references: [users.id],
+        relationName: 'deleted_records'
+    }),
+    signedByUser: one(users, {
+        fields: [dentalRecords.signedBy],
+        references: [users.id],
+        relationName: 'signed_records'
+    }),
 }));
 
 // --- INVENTORY SCHEMAS ---
@@ -188,6 +582,7 @@ export const serviceItems = mysqlTable("service_items", {
     id: serial("id").primaryKey(),
     name: varchar("name", { length: 255 }).notNull().unique(),
     price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+    durationMinutes: int("duration_minutes"), // Chair time to book; null uses the default appointment length
 });
 
 export const hmoProviders = mysqlTable("hmo_providers", {
@@ -273,3 +668,641 @@ export const dailyReportRelations = relations(dailyReports, ({ one }) => ({
         references: [users.id],
     }),
 }));
+
+// --- INVOICES SCHEMA ---
+// Every invoice is a charge against the patient. Voided invoices keep their row (and number)
+// so the ledger stays auditable.
+export const invoices = mysqlTable("invoices", {
+    id: serial("id").primaryKey(),
+    invoiceNumber: varchar("invoice_number", { length: 50 }).notNull().unique(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    invoiceDate: timestamp("invoice_date", { mode: 'date' }).notNull(),
+    status: varchar("status", { length: 20, enum: ['issued', 'void'] }).default('issued').notNull(),
+    subtotal: decimal("subtotal", { precision: 12, scale: 2 }).default('0.00').notNull(),
+    isHmoCovered: boolean("is_hmo_covered").default(false).notNull(),
+    hmoName: varchar("hmo_name", { length: 255 }),
+    hmoProviderId: int("hmo_provider_id").references(() => hmoProviders.id, { onDelete: 'set null' }),
+    // Set when the covered amount was priced from a contract rather than entered by hand
+    hmoContractId: int("hmo_contract_id").references((): any => hmoContracts.id, { onDelete: 'set null' }),
+    coveredAmount: decimal("covered_amount", { precision: 12, scale: 2 }).default('0.00').notNull(),
+    totalDue: decimal("total_due", { precision: 12, scale: 2 }).default('0.00').notNull(), // Amount owed by the patient
+    notes: text("notes"),
+    lastSentAt: timestamp("last_sent_at", { mode: 'date' }),
+    sentCount: int("sent_count").default(0).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const invoiceItems = mysqlTable("invoice_items", {
+    id: serial("id").primaryKey(),
+    invoiceId: int("invoice_id").notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+    serviceItemId: int("service_item_id").references(() => serviceItems.id, { onDelete: 'set null' }),
+    description: varchar("description", { length: 255 }).notNull(),
+    quantity: int("quantity").default(1).notNull(),
+    unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).default('0.00').notNull(),
+    totalPrice: decimal("total_price", { precision: 12, scale: 2 }).default('0.00').notNull(),
+    // Portion of totalPrice the patient owes after HMO cover; payments are allocated against this
+    patientShare: decimal("patient_share", { precision: 12, scale: 2 }).default('0.00').notNull(),
+});
+
+// --- RECEIPTS SCHEMA ---
+// A receipt is the document sent to the patient; the money itself is recorded in `payments`.
+export const receipts = mysqlTable("receipts", {
+    id: serial("id").primaryKey(),
+    receiptNumber: varchar("receipt_number", { length: 50 }).notNull().unique(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    invoiceId: int("invoice_id").references(() => invoices.id, { onDelete: 'set null' }),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    receiptDate: timestamp("receipt_date", { mode: 'date' }).notNull(),
+    status: varchar("status", { length: 20, enum: ['issued', 'void', 'refunded'] }).default('issued').notNull(),
+    amountPaid: decimal("amount_paid", { precision: 12, scale: 2 }).default('0.00').notNull(),
+    paymentMethod: varchar("payment_method", { length: 50 }).notNull(),
+    // Balance after this receipt, as printed on the document sent to the patient
+    outstandingAfter: decimal("outstanding_after", { precision: 12, scale: 2 }).default('0.00').notNull(),
+    // True when the invoice was billed by this receipt (the single-step flow), so voiding the receipt voids the charge too
+    billsInvoice: boolean("bills_invoice").default(false).notNull(),
+    notes: text("notes"),
+    lastSentAt: timestamp("last_sent_at", { mode: 'date' }),
+    sentCount: int("sent_count").default(0).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+// --- PAYMENTS SCHEMA ---
+export const payments = mysqlTable("payments", {
+    id: serial("id").primaryKey(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    receiptId: int("receipt_id").references(() => receipts.id, { onDelete: 'set null' }),
+    invoiceId: int("invoice_id").references(() => invoices.id, { onDelete: 'set null' }),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    method: varchar("method", { length: 50 }).notNull(),
+    status: varchar("status", { length: 20, enum: ['completed', 'void'] }).default('completed').notNull(),
+    recordedBy: int("recorded_by").references(() => users.id, { onDelete: 'set null' }),
+    paidAt: timestamp("paid_at", { mode: 'date' }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// --- CREDIT NOTES SCHEMA ---
+// Issued when a receipt is voided or (partly) refunded. The money side is a compensating payment
+// with a negative amount (`paymentId`), so the original payment row is never edited.
+export const creditNotes = mysqlTable("credit_notes", {
+    id: serial("id").primaryKey(),
+    creditNoteNumber: varchar("credit_note_number", { length: 50 }).notNull().unique(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    receiptId: int("receipt_id").notNull().references(() => receipts.id, { onDelete: 'cascade' }),
+    paymentId: int("payment_id").references(() => payments.id, { onDelete: 'set null' }),
+    type: varchar("type", { length: 20, enum: ['void', 'refund'] }).notNull(),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    refundMethod: varchar("refund_method", { length: 50 }),
+    reason: text("reason").notNull(),
+    invoiceVoided: boolean("invoice_voided").default(false).notNull(),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    issuedAt: timestamp("issued_at", { mode: 'date' }).notNull(),
+    lastSentAt: timestamp("last_sent_at", { mode: 'date' }),
+    sentCount: int("sent_count").default(0).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// --- PAYMENT ALLOCATIONS SCHEMA ---
+// Splits a payment across the invoice lines it settles. `invoiceItemId` is null for
+// invoice-level allocations (invoices without lines, e.g. carried-over opening balances).
+export const paymentAllocations = mysqlTable("payment_allocations", {
+    id: serial("id").primaryKey(),
+    paymentId: int("payment_id").notNull().references(() => payments.id, { onDelete: 'cascade' }),
+    invoiceId: int("invoice_id").notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+    invoiceItemId: int("invoice_item_id").references(() => invoiceItems.id, { onDelete: 'set null' }),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// --- INSTALLMENT PLANS SCHEMA ---
+export const installmentPlans = mysqlTable("installment_plans", {
+    id: serial("id").primaryKey(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    invoiceId: int("invoice_id").notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+    totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+    status: varchar("status", { length: 20, enum: ['active', 'completed', 'cancelled'] }).default('active').notNull(),
+    notes: text("notes"),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const installments = mysqlTable("installments", {
+    id: serial("id").primaryKey(),
+    planId: int("plan_id").notNull().references(() => installmentPlans.id, { onDelete: 'cascade' }),
+    sequence: int("sequence").notNull(),
+    dueDate: timestamp("due_date", { mode: 'date' }).notNull(),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+});
+
+export const invoiceRelations = relations(invoices, ({ one, many }) => ({
+    patient: one(patients, {
+        fields: [invoices.patientId],
+        references: [patients.id],
+    }),
+    creator: one(users, {
+        fields: [invoices.createdBy],
+        references: [users.id],
+    }),
+    hmoProvider: one(hmoProviders, {
+        fields: [invoices.hmoProviderId],
+        references: [hmoProviders.id],
+    }),
+    hmoContract: one(hmoContracts, {
+        fields: [invoices.hmoContractId],
+        references: [hmoContracts.id],
+    }),
+    items: many(invoiceItems),
+    receipts: many(receipts),
+    payments: many(payments),
+    allocations: many(paymentAllocations),
+    installmentPlans: many(installmentPlans),
+    hmoClaims: many(hmoClaims),
+}));
+
+export const invoiceItemRelations = relations(invoiceItems, ({ one, many }) => ({
+    invoice: one(invoices, {
+        fields: [invoiceItems.invoiceId],
+        references: [invoices.id],
+    }),
+    serviceItem: one(serviceItems, {
+        fields: [invoiceItems.serviceItemId],
+        references: [serviceItems.id],
+    }),
+    allocations: many(paymentAllocations),
+}));
+
+export const receiptRelations = relations(receipts, ({ one, many }) => ({
+    patient: one(patients, {
+        fields: [receipts.patientId],
+        references: [patients.id],
+    }),
+    invoice: one(invoices, {
+        fields: [receipts.invoiceId],
+        references: [invoices.id],
+    }),
+    creator: one(users, {
+        fields: [receipts.createdBy],
+        references: [users.id],
+    }),
+    payments: many(payments),
+    creditNotes: many(creditNotes),
+}));
+
+export const paymentRelations = relations(payments, ({ one, many }) => ({
+    patient: one(patients, {
+        fields: [payments.patientId],
+        references: [patients.id],
+    }),
+    receipt: one(receipts, {
+        fields: [payments.receiptId],
+        references: [receipts.id],
+    }),
+    invoice: one(invoices, {
+        fields: [payments.invoiceId],
+        references: [invoices.id],
+    }),
+    allocations: many(paymentAllocations),
+}));
+
+export const creditNoteRelations = relations(creditNotes, ({ one }) => ({
+    patient: one(patients, {
+        fields: [creditNotes.patientId],
+        references: [patients.id],
+    }),
+    receipt: one(receipts, {
+        fields: [creditNotes.receiptId],
+        references: [receipts.id],
+    }),
+    payment: one(payments, {
+        fields: [creditNotes.paymentId],
+        references: [payments.id],
+    }),
+    creator: one(users, {
+        fields: [creditNotes.createdBy],
+        references: [users.id],
+    }),
+}));
+
+export const paymentAllocationRelations = relations(paymentAllocations, ({ one }) => ({
+    payment: one(payments, {
+        fields: [paymentAllocations.paymentId],
+        references: [payments.id],
+    }),
+    invoice: one(invoices, {
+        fields: [paymentAllocations.invoiceId],
+        references: [invoices.id],
+    }),
+    invoiceItem: one(invoiceItems, {
+        fields: [paymentAllocations.invoiceItemId],
+        references: [invoiceItems.id],
+    }),
+}));
+
+export const installmentPlanRelations = relations(installmentPlans, ({ one, many }) => ({
+    patient: one(patients, {
+        fields: [installmentPlans.patientId],
+        references: [patients.id],
+    }),
+    invoice: one(invoices, {
+        fields: [installmentPlans.invoiceId],
+        references: [invoices.id],
+    }),
+    installments: many(installments),
+}));
+
+export const installmentRelations = relations(installments, ({ one }) => ({
+    plan: one(installmentPlans, {
+        fields: [installments.planId],
+        references: [installmentPlans.id],
+    }),
+}));
+
+// --- DOCUMENT SEQUENCES SCHEMA ---
+// One counter per document type and year. Numbers are allocated inside the transaction that
+// creates the document, so a rolled-back insert never burns a number.
+export const documentSequences = mysqlTable("document_sequences", {
+    id: serial("id").primaryKey(),
+    documentType: varchar("document_type", { length: 20, enum: ['invoice', 'receipt', 'credit_note'] }).notNull(),
+    year: int("year").notNull(),
+    lastValue: int("last_value").default(0).notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+}, (table) => [
+    uniqueIndex("document_sequences_type_year_idx").on(table.documentType, table.year),
+]);
+
+// --- HMO CLAIMS SCHEMA ---
+// A claim bills an HMO for the covered portion of an invoice; remittances record what the HMO actually paid.
+export const hmoClaims = mysqlTable("hmo_claims", {
+    id: serial("id").primaryKey(),
+    invoiceId: int("invoice_id").notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    hmoProviderId: int("hmo_provider_id").references(() => hmoProviders.id, { onDelete: 'set null' }),
+    hmoName: varchar("hmo_name", { length: 255 }).notNull(),
+    status: varchar("status", { length: 20, enum: ['draft', 'submitted', 'approved', 'partially_paid', 'paid', 'rejected'] }).default('draft').notNull(),
+    claimedAmount: decimal("claimed_amount", { precision: 12, scale: 2 }).notNull(),
+    approvedAmount: decimal("approved_amount", { precision: 12, scale: 2 }),
+    authorizationCode: varchar("authorization_code", { length: 100 }),
+    rejectionReason: text("rejection_reason"),
+    notes: text("notes"),
+    submittedAt: timestamp("submitted_at", { mode: 'date' }),
+    approvedAt: timestamp("approved_at", { mode: 'date' }),
+    rejectedAt: timestamp("rejected_at", { mode: 'date' }),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const hmoRemittances = mysqlTable("hmo_remittances", {
+    id: serial("id").primaryKey(),
+    claimId: int("claim_id").notNull().references(() => hmoClaims.id, { onDelete: 'cascade' }),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    remittedAt: timestamp("remitted_at", { mode: 'date' }).notNull(),
+    reference: varchar("reference", { length: 100 }),
+    method: varchar("method", { length: 50 }),
+    notes: text("notes"),
+    recordedBy: int("recorded_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const hmoClaimRelations = relations(hmoClaims, ({ one, many }) => ({
+    invoice: one(invoices, {
+        fields: [hmoClaims.invoiceId],
+        references: [invoices.id],
+    }),
+    patient: one(patients, {
+        fields: [hmoClaims.patientId],
+        references: [patients.id],
+    }),
+    hmoProvider: one(hmoProviders, {
+        fields: [hmoClaims.hmoProviderId],
+        references: [hmoProviders.id],
+    }),
+    creator: one(users, {
+        fields: [hmoClaims.createdBy],
+        references: [users.id],
+    }),
+    remittances: many(hmoRemittances),
+}));
+
+export const hmoRemittanceRelations = relations(hmoRemittances, ({ one }) => ({
+    claim: one(hmoClaims, {
+        fields: [hmoRemittances.claimId],
+        references: [hmoClaims.id],
+    }),
+    recorder: one(users, {
+        fields: [hmoRemittances.recordedBy],
+        references: [users.id],
+    }),
+}));
+
+// --- HMO CONTRACTS SCHEMA ---
+// The terms negotiated with an HMO for a period. Services without a tariff row are covered at the
+// standard price with the contract's default co-pay.
+export const hmoContracts = mysqlTable("hmo_contracts", {
+    id: serial("id").primaryKey(),
+    hmoProviderId: int("hmo_provider_id").notNull().references(() => hmoProviders.id, { onDelete: 'cascade' }),
+    name: varchar("name", { length: 255 }),
+    // Share of each covered line the patient pays, 0-100
+    defaultCoPayPercent: decimal("default_co_pay_percent", { precision: 5, scale: 2 }).default('0.00').notNull(),
+    // Most the HMO covers per patient per calendar year; null means no cap
+    annualCap: decimal("annual_cap", { precision: 12, scale: 2 }),
+    validFrom: timestamp("valid_from", { mode: 'date' }).notNull(),
+    validTo: timestamp("valid_to", { mode: 'date' }), // Null means open-ended
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const hmoContractTariffs = mysqlTable("hmo_contract_tariffs", {
+    id: serial("id").primaryKey(),
+    contractId: int("contract_id").notNull().references(() => hmoContracts.id, { onDelete: 'cascade' }),
+    serviceItemId: int("service_item_id").notNull().references(() => serviceItems.id, { onDelete: 'cascade' }),
+    price: decimal("price", { precision: 12, scale: 2 }), // Null keeps the standard service price
+    coPayPercent: decimal("co_pay_percent", { precision: 5, scale: 2 }), // Null falls back to the contract default
+    isExcluded: boolean("is_excluded").default(false).notNull(),
+}, (table) => [
+    uniqueIndex("hmo_contract_tariffs_contract_service_idx").on(table.contractId, table.serviceItemId),
+]);
+
+export const hmoProviderRelations = relations(hmoProviders, ({ many }) => ({
+    contracts: many(hmoContracts),
+}));
+
+export const hmoContractRelations = relations(hmoContracts, ({ one, many }) => ({
+    hmoProvider: one(hmoProviders, {
+        fields: [hmoContracts.hmoProviderId],
+        references: [hmoProviders.id],
+    }),
+    tariffs: many(hmoContractTariffs),
+}));
+
+export const hmoContractTariffRelations = relations(hmoContractTariffs, ({ one }) => ({
+    contract: one(hmoContracts, {
+        fields: [hmoContractTariffs.contractId],
+        references: [hmoContracts.id],
+    }),
+    serviceItem: one(serviceItems, {
+        fields: [hmoContractTariffs.serviceItemId],
+        references: [serviceItems.id],
+    }),
+}));
+
+// --- PATIENT MERGES SCHEMA ---
+// Audit trail for duplicate registrations folded into another patient. The merged row is deleted,
+// so a snapshot of it is kept here along with what was moved.
+export const patientMerges = mysqlTable("patient_merges", {
+    id: serial("id").primaryKey(),
+    survivorId: int("survivor_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    mergedPatientId: int("merged_patient_id").notNull(), // No FK: the row no longer exists
+    mergedPatientSnapshot: json("merged_patient_snapshot").notNull(),
+    movedRecords: json("moved_records").notNull(), // Row counts per table, e.g. { dentalRecords: 3 }
+    filledFields: json("filled_fields"), // Survivor fields that were blank and taken from the duplicate
+    outstandingBefore: decimal("outstanding_before", { precision: 10, scale: 2 }).notNull(),
+    outstandingAfter: decimal("outstanding_after", { precision: 10, scale: 2 }).notNull(),
+    reason: text("reason"),
+    mergedBy: int("merged_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const patientMergeRelations = relations(patientMerges, ({ one }) => ({
+    survivor: one(patients, {
+        fields: [patientMerges.survivorId],
+        references: [patients.id],
+    }),
+    mergedByUser: one(users, {
+        fields: [patientMerges.mergedBy],
+        references: [users.id],
+    }),
+}));
+
+// --- APPOINTMENTS ---
+// `patients.nextAppointmentDate` mirrors each patient's earliest upcoming appointment (see AppointmentService).
+export const appointments = mysqlTable("appointments", {
+    id: serial("id").primaryKey(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    doctorId: int("doctor_id").references(() => users.id, { onDelete: 'set null' }),
+    chair: varchar("chair", { length: 50 }),
+    procedure: varchar("procedure", { length: 255 }),
+    startTime: timestamp("start_time").notNull(),
+    endTime: timestamp("end_time").notNull(),
+    status: varchar("status", { length: 20, enum: ['booked', 'confirmed', 'checked_in', 'in_chair', 'completed', 'cancelled', 'no_show'] }).default('booked').notNull(),
+    notes: text("notes"),
+    seriesId: int("series_id").references(() => appointmentSeries.id, { onDelete: 'set null' }),
+    seriesIndex: int("series_index"), // 1-based position within the series
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+}, (table) => [
+    index("appointments_start_idx").on(table.startTime),
+    index("appointments_doctor_idx").on(table.doctorId, table.startTime),
+    index("appointments_patient_idx").on(table.patientId, table.startTime),
+]);
+
+// Every status an appointment has been through, with who moved it and why. fromStatus is null for the booking itself.
+export const appointmentStatusChanges = mysqlTable("appointment_status_changes", {
+    id: serial("id").primaryKey(),
+    appointmentId: int("appointment_id").notNull().references(() => appointments.id, { onDelete: 'cascade' }),
+    fromStatus: varchar("from_status", { length: 20 }),
+    toStatus: varchar("to_status", { length: 20 }).notNull(),
+    reason: varchar("reason", { length: 255 }),
+    changedBy: int("changed_by").references(() => users.id, { onDelete: 'set null' }),
+    changedAt: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => [
+    index("appointment_status_changes_appointment_idx").on(table.appointmentId, table.changedAt),
+]);
+
+export const appointmentRelations = relations(appointments, ({ one, many }) => ({
+    patient: one(patients, {
+        fields: [appointments.patientId],
+        references: [patients.id],
+    }),
+    doctor: one(users, {
+        fields: [appointments.doctorId],
+        references: [users.id],
+    }),
+    series: one(appointmentSeries, {
+        fields: [appointments.seriesId],
+        references: [appointmentSeries.id],
+    }),
+    statusChanges: many(appointmentStatusChanges),
+}));
+
+export const appointmentStatusChangeRelations = relations(appointmentStatusChanges, ({ one }) => ({
+    appointment: one(appointments, {
+        fields: [appointmentStatusChanges.appointmentId],
+        references: [appointments.id],
+    }),
+    changedByUser: one(users, {
+        fields: [appointmentStatusChanges.changedBy],
+        references: [users.id],
+    }),
+}));
+
+// --- APPOINTMENT SERIES ---
+// Multi-visit plans: the visits of one sequence template, spaced by each step's offset from the first.
+export const appointmentSequenceTemplates = mysqlTable("appointment_sequence_templates", {
+    id: serial("id").primaryKey(),
+    name: varchar("name", { length: 255 }).notNull().unique(),
+    description: text("description"),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+export const appointmentSequenceSteps = mysqlTable("appointment_sequence_steps", {
+    id: serial("id").primaryKey(),
+    templateId: int("template_id").notNull().references(() => appointmentSequenceTemplates.id, { onDelete: 'cascade' }),
+    stepNumber: int("step_number").notNull(), // 1-based
+    label: varchar("label", { length: 255 }).notNull(), // Booked as the appointment's procedure
+    offsetDays: int("offset_days").notNull(), // From the first visit
+    durationMinutes: int("duration_minutes"), // Null uses the matching service item's duration, else the default
+}, (table) => [
+    uniqueIndex("appointment_sequence_steps_number_idx").on(table.templateId, table.stepNumber),
+]);
+
+// A group of appointments booked together: a recurring booking (every N weeks) or a sequence template.
+export const appointmentSeries = mysqlTable("appointment_series", {
+    id: serial("id").primaryKey(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    kind: varchar("kind", { length: 20, enum: ['recurring', 'sequence'] }).notNull(),
+    doctorId: int("doctor_id").references(() => users.id, { onDelete: 'set null' }),
+    chair: varchar("chair", { length: 50 }),
+    procedure: varchar("procedure", { length: 255 }), // Recurring: each visit's procedure. Sequence: the template name.
+    intervalWeeks: int("interval_weeks"), // Recurring only
+    occurrences: int("occurrences").notNull(),
+    sequenceTemplateId: int("sequence_template_id").references(() => appointmentSequenceTemplates.id, { onDelete: 'set null' }),
+    notes: text("notes"),
+    cancelledAt: timestamp("cancelled_at"),
+    cancelledBy: int("cancelled_by").references(() => users.id, { onDelete: 'set null' }),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+    index("appointment_series_patient_idx").on(table.patientId),
+]);
+
+export const appointmentSequenceTemplateRelations = relations(appointmentSequenceTemplates, ({ many }) => ({
+    steps: many(appointmentSequenceSteps),
+}));
+
+export const appointmentSequenceStepRelations = relations(appointmentSequenceSteps, ({ one }) => ({
+    template: one(appointmentSequenceTemplates, {
+        fields: [appointmentSequenceSteps.templateId],
+        references: [appointmentSequenceTemplates.id],
+    }),
+}));
+
+export const appointmentSeriesRelations = relations(appointmentSeries, ({ one, many }) => ({
+    patient: one(patients, {
+        fields: [appointmentSeries.patientId],
+        references: [patients.id],
+    }),
+    sequenceTemplate: one(appointmentSequenceTemplates, {
+        fields: [appointmentSeries.sequenceTemplateId],
+        references: [appointmentSequenceTemplates.id],
+    }),
+    appointments: many(appointments),
+}));
+
+// --- DOCTOR AVAILABILITY ---
+// Weekly hours per doctor, one row per working day (0 = Sunday). Times are "HH:mm", clinic local time.
+export const doctorWorkingHours = mysqlTable("doctor_working_hours", {
+    id: serial("id").primaryKey(),
+    doctorId: int("doctor_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+    dayOfWeek: int("day_of_week").notNull(),
+    startTime: varchar("start_time", { length: 5 }).notNull(),
+    endTime: varchar("end_time", { length: 5 }).notNull(),
+    breakStart: varchar("break_start", { length: 5 }),
+    breakEnd: varchar("break_end", { length: 5 }),
+}, (table) => [
+    uniqueIndex("doctor_working_hours_day_idx").on(table.doctorId, table.dayOfWeek),
+]);
+
+// Whole days a doctor is away, inclusive.
+export const doctorLeave = mysqlTable("doctor_leave", {
+    id: serial("id").primaryKey(),
+    doctorId: int("doctor_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+    startDate: date("start_date", { mode: 'string' }).notNull(),
+    endDate: date("end_date", { mode: 'string' }).notNull(),
+    reason: varchar("reason", { length: 255 }),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+    index("doctor_leave_doctor_idx").on(table.doctorId, table.startDate),
+]);
+
+// Days the whole clinic is closed.
+export const clinicHolidays = mysqlTable("clinic_holidays", {
+    id: serial("id").primaryKey(),
+    date: date("date", { mode: 'string' }).notNull().unique(),
+    name: varchar("name", { length: 255 }).notNull(),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// --- WAITLIST ---
+// Patients waiting for an earlier or suitable slot, with what they would accept.
+export const waitlistEntries = mysqlTable("waitlist_entries", {
+    id: serial("id").primaryKey(),
+    patientId: int("patient_id").notNull().references(() => patients.id, { onDelete: 'cascade' }),
+    preferredDoctorId: int("preferred_doctor_id").references(() => users.id, { onDelete: 'set null' }),
+    procedure: varchar("procedure", { length: 255 }),
+    preferredDays: json("preferred_days").$type<number[]>(), // Days of the week (0 = Sunday); null or empty for any day
+    earliestTime: varchar("earliest_time", { length: 5 }), // "HH:mm"
+    latestTime: varchar("latest_time", { length: 5 }),
+    availableUntil: date("available_until", { mode: 'string' }), // Last day a slot is still of use
+    priority: int("priority").default(0).notNull(), // Higher is offered first
+    notes: text("notes"),
+    status: varchar("status", { length: 20, enum: ['waiting', 'booked', 'removed'] }).default('waiting').notNull(),
+    bookedAppointmentId: int("booked_appointment_id").references(() => appointments.id, { onDelete: 'set null' }),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+}, (table) => [
+    index("waitlist_entries_status_idx").on(table.status, table.createdAt),
+]);
+
+// A freed slot offered to a waitlisted patient. Only a hash of the offer link's token is kept.
+export const waitlistOffers = mysqlTable("waitlist_offers", {
+    id: serial("id").primaryKey(),
+    entryId: int("entry_id").notNull().references(() => waitlistEntries.id, { onDelete: 'cascade' }),
+    sourceAppointmentId: int("source_appointment_id").references(() => appointments.id, { onDelete: 'set null' }), // The cancelled booking
+    doctorId: int("doctor_id").references(() => users.id, { onDelete: 'set null' }),
+    chair: varchar("chair", { length: 50 }),
+    procedure: varchar("procedure", { length: 255 }),
+    startTime: timestamp("start_time").notNull(),
+    endTime: timestamp("end_time").notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+    status: varchar("status", { length: 20, enum: ['pending', 'accepted', 'declined', 'superseded'] }).default('pending').notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    emailedAt: timestamp("emailed_at"),
+    respondedAt: timestamp("responded_at"),
+    bookedAppointmentId: int("booked_appointment_id").references(() => appointments.id, { onDelete: 'set null' }),
+    createdBy: int("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+    index("waitlist_offers_entry_idx").on(table.entryId),
+    index("waitlist_offers_slot_idx").on(table.sourceAppointmentId),
+]);
+
+export const waitlistEntryRelations = relations(waitlistEntries, ({ one, many }) => ({
+    patient: one(patients, {
+        fields: [waitlistEntries.patientId],
+        references: [patients.id],
+    }),
+    preferredDoctor: one(users, {
+        fields: [waitlistEntries.preferredDoctorId],
+        references: [users.id],
+    }),
+    offers: many(waitlistOffers),
+}));
+
+export const waitlistOfferRelations = relations(waitlistOffers, ({ one }) => ({
+    entry: one(waitlistEntries, {
+        fields: [waitlistOffers.entryId],
+        references: [waitlistEntries.id],
+    }),
+}));
@@ -36,8 +36,11 @@ async function seedSettings() {
             canSeeContactDetails: ['staff'],
             canEditBio: ['staff'],
             canAddDentalRecord: ['staff', 'doctor', 'nurse'],
+            canSignOffDentalRecord: ['doctor'],
             canSendInvoice: ['staff'],
             canSendReceipt: ['staff'],
+            canIssueRefund: [],
+            canDeleteDentalRecord: [],
             canSetAppointment: ['staff', 'nurse'],
             canSeeNextAppointment: ['staff', 'doctor', 'nurse'],
         }
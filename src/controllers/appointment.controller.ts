@@ -0,0 +1,273 @@
+// src/controllers/appointment.controller.ts
+import { Request, Response } from 'express';
+import { appointmentService, APPOINTMENT_STATUSES, AppointmentStatus } from '../services/appointment.service';
+import { waitlistService, WaitlistCandidate } from '../services/waitlist.service';
+import { optionalId, optionalDate } from '../utils/requestParams';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const isInvalidDate = (date: Date | undefined) => date !== undefined && isNaN(date.getTime());
+
+type AppointmentResult =
+  | Awaited<ReturnType<typeof appointmentService.createAppointment>>
+  | Awaited<ReturnType<typeof appointmentService.updateAppointment>>
+  | Awaited<ReturnType<typeof appointmentService.setStatus>>;
+
+export class AppointmentController {
+  constructor() {}
+
+  private parseId = (req: Request, res: Response): number | null => {
+    const appointmentId = parseInt(req.params.id as string);
+    if (isNaN(appointmentId)) {
+      res.status(400).json({ error: 'Invalid appointment ID.' });
+      return null;
+    }
+    return appointmentId;
+  }
+
+  private respond = (res: Response, result: AppointmentResult & { waitlistCandidates?: WaitlistCandidate[] }, successStatus = 200) => {
+    if (!result.success) {
+      const status = result.message.includes('not found') ? 404 : result.conflicts ? 409 : 400;
+      res.status(status).json({ error: result.message, ...(result.conflicts ? { conflicts: result.conflicts } : {}) });
+      return;
+    }
+    res.status(successStatus).json({
+      message: result.message,
+      appointment: result.appointment,
+      ...(result.waitlistCandidates ? { waitlistCandidates: result.waitlistCandidates } : {}),
+    });
+  }
+
+  // A cancellation frees the slot, so the reply proposes waitlisted patients to offer it to.
+  private withWaitlistCandidates = async (result: AppointmentResult, cancelling: boolean) => {
+    if (!cancelling || !result.success || result.appointment?.status !== 'cancelled') return result;
+    const backfill = await waitlistService.findCandidates(result.appointment.id);
+    return { ...result, waitlistCandidates: backfill.available ? backfill.candidates : [] };
+  }
+
+  // Booking fields shared by create and update. Answers 400 and returns null when a field is invalid.
+  private parseAppointment = (body: any, res: Response, isCreate: boolean) => {
+    const patientId = optionalId(body.patientId);
+    const doctorId = optionalId(body.doctorId);
+    const startTime = optionalDate(body.startTime);
+    const endTime = optionalDate(body.endTime);
+    const durationMinutes = body.durationMinutes !== undefined ? Number(body.durationMinutes) : undefined;
+    if ((isCreate && patientId === null) || Number.isNaN(patientId) || Number.isNaN(doctorId)) {
+      res.status(400).json({ error: 'A valid patientId is required; doctorId, if given, must be a user ID.' });
+      return null;
+    }
+    if ((isCreate && !startTime) || isInvalidDate(startTime) || isInvalidDate(endTime)) {
+      res.status(400).json({ error: 'startTime (and endTime, if given) must be valid date-times.' });
+      return null;
+    }
+    if (durationMinutes !== undefined && (!Number.isInteger(durationMinutes) || durationMinutes <= 0)) {
+      res.status(400).json({ error: 'durationMinutes must be a positive whole number.' });
+      return null;
+    }
+    if (body.status !== undefined && !APPOINTMENT_STATUSES.includes(body.status)) {
+      res.status(400).json({ error: `Status must be one of: ${APPOINTMENT_STATUSES.join(', ')}.` });
+      return null;
+    }
+    return {
+      patientId: patientId ?? undefined,
+      doctorId: body.doctorId === undefined ? undefined : doctorId,
+      chair: body.chair === undefined ? undefined : body.chair,
+      procedure: body.procedure === undefined ? undefined : body.procedure,
+      startTime,
+      endTime,
+      durationMinutes,
+      notes: body.notes,
+      status: body.status as AppointmentStatus | undefined,
+      statusReason: body.statusReason,
+    };
+  }
+
+  // GET /api/appointments?date=YYYY-MM-DD or ?from=&to=, plus doctorId, patientId and status filters.
+  getAppointments = async (req: Request, res: Response): Promise<void> => {
+    const { date, status } = req.query;
+    const doctorId = optionalId(req.query.doctorId);
+    const patientId = optionalId(req.query.patientId);
+    let from = optionalDate(req.query.from);
+    let to = optionalDate(req.query.to);
+    if (date !== undefined) {
+      if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        res.status(400).json({ error: 'Date must be in YYYY-MM-DD format.' });
+        return;
+      }
+      from = new Date(`${date}T00:00:00`);
+      to = new Date(from.getTime() + 24 * 60 * 60 * 1000);
+    }
+    if (isInvalidDate(from) || isInvalidDate(to) || Number.isNaN(doctorId) || Number.isNaN(patientId)) {
+      res.status(400).json({ error: 'from/to must be valid dates; doctorId and patientId must be IDs.' });
+      return;
+    }
+    if (status !== undefined && !APPOINTMENT_STATUSES.includes(status as AppointmentStatus)) {
+      res.status(400).json({ error: `Status must be one of: ${APPOINTMENT_STATUSES.join(', ')}.` });
+      return;
+    }
+    try {
+      const list = await appointmentService.getAppointments({
+        from,
+        to,
+        doctorId: doctorId ?? undefined,
+        patientId: patientId ?? undefined,
+        status: status as AppointmentStatus | undefined,
+      });
+      res.json(list);
+    } catch (error) {
+      console.error('Error in getAppointments controller:', error);
+      res.status(500).json({ error: 'Server error fetching appointments.' });
+    }
+  }
+
+  // GET /api/appointments/conflicts?startTime=&endTime=&doctorId=&chair=&patientId=&excludeId=
+  checkConflicts = async (req: Request, res: Response): Promise<void> => {
+    const startTime = optionalDate(req.query.startTime);
+    const endTime = optionalDate(req.query.endTime);
+    const doctorId = optionalId(req.query.doctorId);
+    const patientId = optionalId(req.query.patientId);
+    const excludeId = optionalId(req.query.excludeId);
+    if (!startTime || !endTime || isInvalidDate(startTime) || isInvalidDate(endTime) || endTime <= startTime) {
+      res.status(400).json({ error: 'startTime and endTime must be valid date-times, with endTime after startTime.' });
+      return;
+    }
+    if (Number.isNaN(doctorId) || Number.isNaN(patientId) || Number.isNaN(excludeId)) {
+      res.status(400).json({ error: 'doctorId, patientId and excludeId must be IDs.' });
+      return;
+    }
+    try {
+      const conflicts = await appointmentService.findConflicts(
+        { startTime, endTime, doctorId, patientId, chair: (req.query.chair as string | undefined)?.trim() || null },
+        { excludeId: excludeId ?? undefined },
+      );
+      res.json({ available: conflicts.length === 0, conflicts });
+    } catch (error) {
+      console.error('Error in checkConflicts controller:', error);
+      res.status(500).json({ error: 'Server error checking appointment conflicts.' });
+    }
+  }
+
+  getAppointmentById = async (req: Request, res: Response): Promise<void> => {
+    const appointmentId = this.parseId(req, res);
+    if (appointmentId === null) return;
+    try {
+      const appointment = await appointmentService.getAppointmentById(appointmentId);
+      if (!appointment) {
+        res.status(404).json({ error: 'Appointment not found.' });
+        return;
+      }
+      res.json({ ...appointment, statusHistory: await appointmentService.getStatusHistory(appointmentId) });
+    } catch (error) {
+      console.error('Error in getAppointmentById controller:', error);
+      res.status(500).json({ error: 'Server error fetching appointment.' });
+    }
+  }
+
+  createAppointment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const input = this.parseAppointment(req.body, res, true);
+    if (!input) return;
+    try {
+      const result = await appointmentService.createAppointment({ ...input, patientId: input.patientId!, startTime: input.startTime! }, req.user!.userId);
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in createAppointment controller:', error);
+      res.status(500).json({ error: 'Server error booking appointment.' });
+    }
+  }
+
+  updateAppointment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const appointmentId = this.parseId(req, res);
+    if (appointmentId === null) return;
+    const changes = this.parseAppointment(req.body, res, false);
+    if (!changes) return;
+    try {
+      const result = await appointmentService.updateAppointment(appointmentId, changes, req.user!.userId);
+      this.respond(res, await this.withWaitlistCandidates(result, changes.status === 'cancelled'));
+    } catch (error) {
+      console.error('Error in updateAppointment controller:', error);
+      res.status(500).json({ error: 'Server error updating appointment.' });
+    }
+  }
+
+  // POST /api/appointments/:id/status - Body: { status, reason? } (a reason is required to cancel)
+  setStatus = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const appointmentId = this.parseId(req, res);
+    if (appointmentId === null) return;
+    const { status, reason } = req.body;
+    if (!APPOINTMENT_STATUSES.includes(status)) {
+      res.status(400).json({ error: `Status must be one of: ${APPOINTMENT_STATUSES.join(', ')}.` });
+      return;
+    }
+    try {
+      const result = await appointmentService.setStatus(appointmentId, status, reason, req.user!.userId);
+      this.respond(res, await this.withWaitlistCandidates(result, status === 'cancelled'));
+    } catch (error) {
+      console.error('Error in setStatus controller:', error);
+      res.status(500).json({ error: 'Server error changing appointment status.' });
+    }
+  }
+
+  // POST /api/appointments/mark-missed - Marks earlier appointments that were never checked in as no-shows
+  markMissedAppointments = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const marked = await appointmentService.markMissedAppointments(req.user!.userId);
+      res.json({ message: `${marked} missed appointment${marked === 1 ? '' : 's'} marked as no-show.`, marked });
+    } catch (error) {
+      console.error('Error in markMissedAppointments controller:', error);
+      res.status(500).json({ error: 'Server error marking missed appointments.' });
+    }
+  }
+
+  // GET /api/appointments/attendance?groupBy=patient|doctor&from=&to=&patientId=&doctorId=
+  getAttendanceStats = async (req: Request, res: Response): Promise<void> => {
+    const groupBy = req.query.groupBy ?? 'patient';
+    const from = optionalDate(req.query.from);
+    const to = optionalDate(req.query.to);
+    const doctorId = optionalId(req.query.doctorId);
+    const patientId = optionalId(req.query.patientId);
+    if (groupBy !== 'patient' && groupBy !== 'doctor') {
+      res.status(400).json({ error: 'groupBy must be patient or doctor.' });
+      return;
+    }
+    if (isInvalidDate(from) || isInvalidDate(to) || Number.isNaN(doctorId) || Number.isNaN(patientId)) {
+      res.status(400).json({ error: 'from/to must be valid dates; doctorId and patientId must be IDs.' });
+      return;
+    }
+    try {
+      const stats = await appointmentService.getAttendanceStats({
+        groupBy,
+        from,
+        to,
+        doctorId: doctorId ?? undefined,
+        patientId: patientId ?? undefined,
+      });
+      res.json(stats);
+    } catch (error) {
+      console.error('Error in getAttendanceStats controller:', error);
+      res.status(500).json({ error: 'Server error fetching attendance figures.' });
+    }
+  }
+
+  deleteAppointment = async (req: Request, res: Response): Promise<void> => {
+    const appointmentId = this.parseId(req, res);
+    if (appointmentId === null) return;
+    try {
+      const result = await appointmentService.deleteAppointment(appointmentId);
+      if (!result.success) {
+        res.status(404).json({ error: result.message });
+        return;
+      }
+      res.json({ message: result.message });
+    } catch (error) {
+      console.error('Error in deleteAppointment controller:', error);
+      res.status(500).json({ error: 'Server error deleting appointment.' });
+    }
+  }
+}
+
+export const appointmentController = new AppointmentController();
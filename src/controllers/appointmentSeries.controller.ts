@@ -0,0 +1,252 @@
+// src/controllers/appointmentSeries.controller.ts
+import { Request, Response } from 'express';
+import { appointmentSeriesService, SequenceStepInput } from '../services/appointmentSeries.service';
+import { waitlistService } from '../services/waitlist.service';
+import { optionalId } from '../utils/requestParams';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+// Reads an optional whole number; NaN marks one that was given but is not a whole number.
+const optionalInteger = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isInteger(number) ? number : NaN;
+};
+
+const parseSteps = (steps: unknown): SequenceStepInput[] | null => {
+  if (!Array.isArray(steps)) return null;
+  return steps.map((step: any) => ({
+    label: step?.label,
+    offsetDays: Number(step?.offsetDays),
+    durationMinutes: step?.durationMinutes == null || step.durationMinutes === '' ? null : Number(step.durationMinutes),
+  }));
+};
+
+export class AppointmentSeriesController {
+  constructor() {}
+
+  private parseId = (req: Request, res: Response, label: string): number | null => {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: `Invalid ${label} ID.` });
+      return null;
+    }
+    return id;
+  }
+
+  private respond = (res: Response, result: { success: boolean; message: string; conflicts?: any[]; [key: string]: any }, successStatus = 200) => {
+    const { success, message, ...data } = result;
+    if (!success) {
+      const status = message.includes('not found') ? 404 : result.conflicts || message.includes('already') ? 409 : 400;
+      res.status(status).json({ error: message, ...(result.conflicts ? { conflicts: result.conflicts } : {}) });
+      return;
+    }
+    res.status(successStatus).json({ message, ...data });
+  }
+
+  // --- SEQUENCE TEMPLATES ---
+
+  // GET /api/appointments/sequence-templates?includeInactive=true
+  getSequenceTemplates = async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.json(await appointmentSeriesService.getSequenceTemplates(req.query.includeInactive === 'true'));
+    } catch (error) {
+      console.error('Error in getSequenceTemplates controller:', error);
+      res.status(500).json({ error: 'Server error fetching sequence templates.' });
+    }
+  }
+
+  getSequenceTemplateById = async (req: Request, res: Response): Promise<void> => {
+    const templateId = this.parseId(req, res, 'template');
+    if (templateId === null) return;
+    try {
+      const template = await appointmentSeriesService.getSequenceTemplateById(templateId);
+      if (!template) {
+        res.status(404).json({ error: 'Sequence template not found.' });
+        return;
+      }
+      res.json(template);
+    } catch (error) {
+      console.error('Error in getSequenceTemplateById controller:', error);
+      res.status(500).json({ error: 'Server error fetching sequence template.' });
+    }
+  }
+
+  // POST /api/appointments/sequence-templates - Body: { name, description?, steps: [{ label, offsetDays, durationMinutes? }] }
+  createSequenceTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { name, description, isActive } = req.body;
+    const steps = parseSteps(req.body.steps);
+    if (typeof name !== 'string' || !name.trim() || !steps) {
+      res.status(400).json({ error: 'A name and a list of steps are required.' });
+      return;
+    }
+    try {
+      const result = await appointmentSeriesService.createSequenceTemplate(
+        { name, description, isActive: isActive === undefined ? undefined : Boolean(isActive), steps },
+        req.user!.userId,
+      );
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in createSequenceTemplate controller:', error);
+      res.status(500).json({ error: 'Server error creating sequence template.' });
+    }
+  }
+
+  updateSequenceTemplate = async (req: Request, res: Response): Promise<void> => {
+    const templateId = this.parseId(req, res, 'template');
+    if (templateId === null) return;
+    const { name, description, isActive } = req.body;
+    const steps = req.body.steps === undefined ? undefined : parseSteps(req.body.steps);
+    if (steps === null || (name !== undefined && (typeof name !== 'string' || !name.trim()))) {
+      res.status(400).json({ error: 'The name, if given, cannot be blank; steps, if given, must be a list.' });
+      return;
+    }
+    try {
+      const result = await appointmentSeriesService.updateSequenceTemplate(templateId, {
+        name,
+        description,
+        isActive: isActive === undefined ? undefined : Boolean(isActive),
+        steps,
+      });
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in updateSequenceTemplate controller:', error);
+      res.status(500).json({ error: 'Server error updating sequence template.' });
+    }
+  }
+
+  // --- SERIES ---
+
+  // GET /api/appointments/series?patientId=
+  getSeries = async (req: Request, res: Response): Promise<void> => {
+    const patientId = optionalId(req.query.patientId);
+    if (Number.isNaN(patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    try {
+      res.json(await appointmentSeriesService.getSeries({ patientId: patientId ?? undefined }));
+    } catch (error) {
+      console.error('Error in getSeries controller:', error);
+      res.status(500).json({ error: 'Server error fetching appointment series.' });
+    }
+  }
+
+  getSeriesById = async (req: Request, res: Response): Promise<void> => {
+    const seriesId = this.parseId(req, res, 'series');
+    if (seriesId === null) return;
+    try {
+      const series = await appointmentSeriesService.getSeriesById(seriesId);
+      if (!series) {
+        res.status(404).json({ error: 'Appointment series not found.' });
+        return;
+      }
+      res.json(series);
+    } catch (error) {
+      console.error('Error in getSeriesById controller:', error);
+      res.status(500).json({ error: 'Server error fetching appointment series.' });
+    }
+  }
+
+  /**
+   * POST /api/appointments/series[?preview=true]
+   * Body: { patientId, startTime, doctorId?, chair?, notes? } plus either { templateId } for a
+   * sequence or { intervalWeeks, occurrences, procedure?, durationMinutes? } for a recurring series.
+   */
+  bookSeries = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { chair, notes, procedure } = req.body;
+    const patientId = optionalId(req.body.patientId);
+    const doctorId = optionalId(req.body.doctorId);
+    const templateId = optionalId(req.body.templateId);
+    const startTime = req.body.startTime ? new Date(req.body.startTime) : null;
+    const intervalWeeks = optionalInteger(req.body.intervalWeeks);
+    const occurrences = optionalInteger(req.body.occurrences);
+    const durationMinutes = optionalInteger(req.body.durationMinutes);
+    if (patientId === null || Number.isNaN(patientId) || Number.isNaN(doctorId) || Number.isNaN(templateId)) {
+      res.status(400).json({ error: 'A valid patientId is required; doctorId and templateId, if given, must be IDs.' });
+      return;
+    }
+    if (!startTime || isNaN(startTime.getTime())) {
+      res.status(400).json({ error: 'startTime must be a valid date-time.' });
+      return;
+    }
+    if (templateId === null && (intervalWeeks === undefined || occurrences === undefined)) {
+      res.status(400).json({ error: 'Give a templateId for a sequence, or intervalWeeks and occurrences for a recurring series.' });
+      return;
+    }
+    if (durationMinutes !== undefined && (Number.isNaN(durationMinutes) || durationMinutes <= 0)) {
+      res.status(400).json({ error: 'durationMinutes must be a positive whole number.' });
+      return;
+    }
+    const booking = { patientId, doctorId, chair, notes, startTime };
+    const options = { preview: req.query.preview === 'true' };
+    try {
+      const result = templateId !== null
+        ? await appointmentSeriesService.bookSequence({ ...booking, templateId }, req.user!.userId, options)
+        : await appointmentSeriesService.bookRecurring({ ...booking, procedure, durationMinutes, intervalWeeks: intervalWeeks!, occurrences: occurrences! }, req.user!.userId, options);
+      this.respond(res, result, options.preview ? 200 : 201);
+    } catch (error) {
+      console.error('Error in bookSeries controller:', error);
+      res.status(500).json({ error: 'Server error booking appointment series.' });
+    }
+  }
+
+  // PUT /api/appointments/series/:id - Body: { doctorId?, chair?, procedure?, notes?, time? (HH:mm), shiftDays?, durationMinutes? }
+  updateSeries = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const seriesId = this.parseId(req, res, 'series');
+    if (seriesId === null) return;
+    const doctorId = optionalId(req.body.doctorId);
+    const shiftDays = optionalInteger(req.body.shiftDays);
+    const durationMinutes = optionalInteger(req.body.durationMinutes);
+    if (Number.isNaN(doctorId) || Number.isNaN(shiftDays) || (durationMinutes !== undefined && (Number.isNaN(durationMinutes) || durationMinutes <= 0))) {
+      res.status(400).json({ error: 'doctorId must be an ID, shiftDays a whole number and durationMinutes a positive whole number.' });
+      return;
+    }
+    try {
+      const result = await appointmentSeriesService.updateSeries(seriesId, {
+        doctorId: req.body.doctorId === undefined ? undefined : doctorId,
+        chair: req.body.chair,
+        procedure: req.body.procedure,
+        notes: req.body.notes,
+        time: req.body.time,
+        shiftDays,
+        durationMinutes,
+      }, req.user!.userId);
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in updateSeries controller:', error);
+      res.status(500).json({ error: 'Server error updating appointment series.' });
+    }
+  }
+
+  // POST /api/appointments/series/:id/cancel - Body: { reason }. Replies with waitlist candidates for each freed visit.
+  cancelSeries = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const seriesId = this.parseId(req, res, 'series');
+    if (seriesId === null) return;
+    const { reason } = req.body;
+    if (typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'A reason is required to cancel a series.' });
+      return;
+    }
+    try {
+      const result = await appointmentSeriesService.cancelSeries(seriesId, req.user!.userId, reason.trim());
+      if (!result.success) {
+        this.respond(res, result);
+        return;
+      }
+      // Each freed visit is proposed to the waiting list, as when a single appointment is cancelled.
+      const { cancelledAppointmentIds, ...cancelled } = result;
+      this.respond(res, { ...cancelled, waitlistCandidates: await waitlistService.findCandidatesForSlots(cancelledAppointmentIds ?? []) });
+    } catch (error) {
+      console.error('Error in cancelSeries controller:', error);
+      res.status(500).json({ error: 'Server error cancelling appointment series.' });
+    }
+  }
+}
+
+export const appointmentSeriesController = new AppointmentSeriesController();
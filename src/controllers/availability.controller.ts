@@ -0,0 +1,201 @@
+// src/controllers/availability.controller.ts
+import { Request, Response } from 'express';
+import { availabilityService, isDateKey, WorkingDayInput } from '../services/availability.service';
+import { appointmentService, DEFAULT_APPOINTMENT_MINUTES } from '../services/appointment.service';
+import { optionalDate } from '../utils/requestParams';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SEARCH_DAYS = 7;
+const MAX_SEARCH_DAYS = 31;
+
+export class AvailabilityController {
+  constructor() {}
+
+  private parseId = (value: unknown, res: Response, label: string): number | null => {
+    const id = parseInt(value as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: `Invalid ${label} ID.` });
+      return null;
+    }
+    return id;
+  }
+
+  private respond = (res: Response, result: { success: boolean; message: string; [key: string]: any }, successStatus = 200) => {
+    const { success, message, ...data } = result;
+    if (!success) {
+      res.status(message.includes('not found') ? 404 : message.includes('already') ? 409 : 400).json({ error: message });
+      return;
+    }
+    res.status(successStatus).json({ message, ...data });
+  }
+
+  // GET /api/appointments/availability?doctorId=&procedure=&from=&to=&durationMinutes=
+  getAvailability = async (req: Request, res: Response): Promise<void> => {
+    const doctorId = this.parseId(req.query.doctorId, res, 'doctor');
+    if (doctorId === null) return;
+    const from = optionalDate(req.query.from) ?? new Date();
+    const to = optionalDate(req.query.to) ?? new Date(from.getTime() + DEFAULT_SEARCH_DAYS * DAY_MS);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      res.status(400).json({ error: 'from and to must be valid dates, with to after from.' });
+      return;
+    }
+    if (to.getTime() - from.getTime() > MAX_SEARCH_DAYS * DAY_MS) {
+      res.status(400).json({ error: `Search at most ${MAX_SEARCH_DAYS} days at a time.` });
+      return;
+    }
+    const durationMinutes = req.query.durationMinutes !== undefined ? Number(req.query.durationMinutes) : undefined;
+    if (durationMinutes !== undefined && (!Number.isInteger(durationMinutes) || durationMinutes <= 0)) {
+      res.status(400).json({ error: 'durationMinutes must be a positive whole number.' });
+      return;
+    }
+    try {
+      const procedure = typeof req.query.procedure === 'string' && req.query.procedure.trim()
+        ? await appointmentService.findProcedure(req.query.procedure)
+        : null;
+      if (req.query.procedure && !procedure && durationMinutes === undefined) {
+        res.status(404).json({ error: 'Procedure not found among the service items.' });
+        return;
+      }
+      const minutes = durationMinutes ?? procedure?.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES;
+      const slots = await appointmentService.findAvailableSlots({ doctorId, durationMinutes: minutes, from, to });
+      res.json({ doctorId, procedure, durationMinutes: minutes, from, to, slots });
+    } catch (error) {
+      console.error('Error in getAvailability controller:', error);
+      res.status(500).json({ error: 'Server error finding available slots.' });
+    }
+  }
+
+  // --- WORKING HOURS ---
+
+  getWorkingHours = async (req: Request, res: Response): Promise<void> => {
+    const doctorId = this.parseId(req.params.doctorId, res, 'doctor');
+    if (doctorId === null) return;
+    try {
+      res.json(await availabilityService.getWorkingHours(doctorId));
+    } catch (error) {
+      console.error('Error in getWorkingHours controller:', error);
+      res.status(500).json({ error: 'Server error fetching working hours.' });
+    }
+  }
+
+  // PUT /api/appointments/working-hours/:doctorId - Body: { days: [{ dayOfWeek, startTime, endTime, breakStart?, breakEnd? }] }
+  setWorkingHours = async (req: Request, res: Response): Promise<void> => {
+    const doctorId = this.parseId(req.params.doctorId, res, 'doctor');
+    if (doctorId === null) return;
+    if (!Array.isArray(req.body.days)) {
+      res.status(400).json({ error: 'days must be a list of working days.' });
+      return;
+    }
+    try {
+      const days: WorkingDayInput[] = req.body.days.map((day: any) => ({
+        dayOfWeek: Number(day?.dayOfWeek),
+        startTime: day?.startTime,
+        endTime: day?.endTime,
+        breakStart: day?.breakStart ?? null,
+        breakEnd: day?.breakEnd ?? null,
+      }));
+      this.respond(res, await availabilityService.setWorkingHours(doctorId, days));
+    } catch (error) {
+      console.error('Error in setWorkingHours controller:', error);
+      res.status(500).json({ error: 'Server error saving working hours.' });
+    }
+  }
+
+  // --- LEAVE ---
+
+  // GET /api/appointments/leave?doctorId=&from=YYYY-MM-DD&to=YYYY-MM-DD
+  getLeave = async (req: Request, res: Response): Promise<void> => {
+    const { from, to } = req.query;
+    const doctorId = req.query.doctorId ? parseInt(req.query.doctorId as string) : undefined;
+    if (Number.isNaN(doctorId) || (from !== undefined && !isDateKey(from)) || (to !== undefined && !isDateKey(to))) {
+      res.status(400).json({ error: 'doctorId must be an ID; from and to must be in YYYY-MM-DD format.' });
+      return;
+    }
+    try {
+      res.json(await availabilityService.getLeave({ doctorId, from: from as string | undefined, to: to as string | undefined }));
+    } catch (error) {
+      console.error('Error in getLeave controller:', error);
+      res.status(500).json({ error: 'Server error fetching leave.' });
+    }
+  }
+
+  addLeave = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { startDate, reason } = req.body;
+    const endDate = req.body.endDate ?? startDate;
+    const doctorId = parseInt(req.body.doctorId);
+    if (isNaN(doctorId) || !isDateKey(startDate) || !isDateKey(endDate)) {
+      res.status(400).json({ error: 'doctorId and startDate (and endDate, if given) in YYYY-MM-DD format are required.' });
+      return;
+    }
+    try {
+      const result = await availabilityService.addLeave({ doctorId, startDate, endDate, reason, createdBy: req.user!.userId });
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in addLeave controller:', error);
+      res.status(500).json({ error: 'Server error recording leave.' });
+    }
+  }
+
+  deleteLeave = async (req: Request, res: Response): Promise<void> => {
+    const leaveId = this.parseId(req.params.id, res, 'leave');
+    if (leaveId === null) return;
+    try {
+      this.respond(res, await availabilityService.deleteLeave(leaveId));
+    } catch (error) {
+      console.error('Error in deleteLeave controller:', error);
+      res.status(500).json({ error: 'Server error removing leave.' });
+    }
+  }
+
+  // --- CLINIC HOLIDAYS ---
+
+  // GET /api/appointments/holidays?from=YYYY-MM-DD&to=YYYY-MM-DD
+  getHolidays = async (req: Request, res: Response): Promise<void> => {
+    const { from, to } = req.query;
+    if ((from !== undefined && !isDateKey(from)) || (to !== undefined && !isDateKey(to))) {
+      res.status(400).json({ error: 'from and to must be in YYYY-MM-DD format.' });
+      return;
+    }
+    try {
+      res.json(await availabilityService.getHolidays({ from: from as string | undefined, to: to as string | undefined }));
+    } catch (error) {
+      console.error('Error in getHolidays controller:', error);
+      res.status(500).json({ error: 'Server error fetching holidays.' });
+    }
+  }
+
+  addHoliday = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { date, name } = req.body;
+    if (!isDateKey(date) || typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'A date in YYYY-MM-DD format and a name are required.' });
+      return;
+    }
+    try {
+      const result = await availabilityService.addHoliday({ date, name: name.trim(), createdBy: req.user!.userId });
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in addHoliday controller:', error);
+      res.status(500).json({ error: 'Server error adding holiday.' });
+    }
+  }
+
+  deleteHoliday = async (req: Request, res: Response): Promise<void> => {
+    const holidayId = this.parseId(req.params.id, res, 'holiday');
+    if (holidayId === null) return;
+    try {
+      this.respond(res, await availabilityService.deleteHoliday(holidayId));
+    } catch (error) {
+      console.error('Error in deleteHoliday controller:', error);
+      res.status(500).json({ error: 'Server error removing holiday.' });
+    }
+  }
+}
+
+export const availabilityController = new AvailabilityController();
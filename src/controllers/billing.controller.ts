@@ -1,12 +1,26 @@
 // src/controllers/billing.controller.ts
 import { Request, Response } from 'express';
 import { billingService } from '../services/billing.service';
+import { hmoContractService, NewHmoContractData, HmoContractUpdateData } from '../services/hmoContract.service';
+
+// Contract dates arrive as strings; returns undefined when absent and null when cleared.
+const parseContractDate = (value: any): Date | null | undefined => {
+    if (value === undefined) return undefined;
+    if (value === null || value === '') return null;
+    return new Date(value);
+};
 
 export class BillingController {
     // Public endpoint for frontend to fetch options
     getBillingOptions = async (req: Request, res: Response): Promise<void> => {
+        const hmoProviderId = req.query.hmoProviderId ? parseInt(req.query.hmoProviderId as string) : undefined;
+        const on = req.query.date ? new Date(req.query.date as string) : undefined;
+        if ((hmoProviderId !== undefined && isNaN(hmoProviderId)) || (on && isNaN(on.getTime()))) {
+            res.status(400).json({ message: 'Invalid HMO provider ID or date.' });
+            return;
+        }
         try {
-            const options = await billingService.getBillingOptions();
+            const options = await billingService.getBillingOptions(hmoProviderId, on);
             res.status(200).json(options);
         } catch (error: any) {
             res.status(500).json({ message: 'Error fetching billing options', error: error.message });
@@ -77,6 +91,121 @@ export class BillingController {
             res.status(500).json({ message: 'Error deleting HMO provider', error: error.message });
         }
     };
+
+    // --- Admin: HMO Contracts ---
+    getHmoContracts = async (req: Request, res: Response): Promise<void> => {
+        const hmoProviderId = parseInt(req.params.id as string);
+        if (isNaN(hmoProviderId)) {
+            res.status(400).json({ message: 'Invalid HMO provider ID.' });
+            return;
+        }
+        try {
+            const contracts = await hmoContractService.getContracts(hmoProviderId);
+            res.status(200).json(contracts);
+        } catch (error: any) {
+            res.status(500).json({ message: 'Error fetching HMO contracts', error: error.message });
+        }
+    };
+
+    getHmoContractById = async (req: Request, res: Response): Promise<void> => {
+        const contractId = parseInt(req.params.contractId as string);
+        if (isNaN(contractId)) {
+            res.status(400).json({ message: 'Invalid contract ID.' });
+            return;
+        }
+        try {
+            const contract = await hmoContractService.getContractById(contractId);
+            if (!contract) {
+                res.status(404).json({ message: 'HMO contract not found.' });
+                return;
+            }
+            res.status(200).json(contract);
+        } catch (error: any) {
+            res.status(500).json({ message: 'Error fetching HMO contract', error: error.message });
+        }
+    };
+
+    createHmoContract = async (req: Request, res: Response): Promise<void> => {
+        const hmoProviderId = parseInt(req.params.id as string);
+        if (isNaN(hmoProviderId)) {
+            res.status(400).json({ message: 'Invalid HMO provider ID.' });
+            return;
+        }
+        const { name, defaultCoPayPercent, annualCap, validFrom, validTo, notes, tariffs } = req.body;
+        if (tariffs !== undefined && !Array.isArray(tariffs)) {
+            res.status(400).json({ message: 'Tariffs must be an array.' });
+            return;
+        }
+        const data: NewHmoContractData = {
+            hmoProviderId, name, defaultCoPayPercent, annualCap, notes, tariffs,
+            validFrom: parseContractDate(validFrom) ?? new Date(NaN),
+            validTo: parseContractDate(validTo),
+        };
+        if (data.validTo && isNaN(data.validTo.getTime())) {
+            res.status(400).json({ message: 'Invalid contract end date.' });
+            return;
+        }
+        try {
+            const result = await hmoContractService.createContract(data);
+            if (!result.success) {
+                res.status(result.message.includes('not found') ? 404 : 400).json({ message: result.message });
+                return;
+            }
+            res.status(201).json(result.contract);
+        } catch (error: any) {
+            res.status(500).json({ message: 'Error creating HMO contract', error: error.message });
+        }
+    };
+
+    updateHmoContract = async (req: Request, res: Response): Promise<void> => {
+        const contractId = parseInt(req.params.contractId as string);
+        if (isNaN(contractId)) {
+            res.status(400).json({ message: 'Invalid contract ID.' });
+            return;
+        }
+        const { name, defaultCoPayPercent, annualCap, validFrom, validTo, notes, tariffs } = req.body;
+        if (tariffs !== undefined && !Array.isArray(tariffs)) {
+            res.status(400).json({ message: 'Tariffs must be an array.' });
+            return;
+        }
+        const updateData: HmoContractUpdateData = {
+            name, defaultCoPayPercent, annualCap, notes, tariffs,
+            validFrom: parseContractDate(validFrom) ?? undefined,
+            validTo: parseContractDate(validTo),
+        };
+        if (updateData.validTo && isNaN(updateData.validTo.getTime())) {
+            res.status(400).json({ message: 'Invalid contract end date.' });
+            return;
+        }
+        try {
+            const result = await hmoContractService.updateContract(contractId, updateData);
+            if (!result.success) {
+                res.status(result.message.includes('not found') ? 404 : 400).json({ message: result.message });
+                return;
+            }
+            res.status(200).json(result.contract);
+        } catch (error: any) {
+            res.status(500).json({ message: 'Error updating HMO contract', error: error.message });
+        }
+    };
+
+    deleteHmoContract = async (req: Request, res: Response): Promise<void> => {
+        const contractId = parseInt(req.params.contractId as string);
+        if (isNaN(contractId)) {
+            res.status(400).json({ message: 'Invalid contract ID.' });
+            return;
+        }
+        try {
+            const result = await hmoContractService.deleteContract(contractId);
+            if (!result.success) {
+                res.status(result.message.includes('not found') ? 404 : 409).json({ message: result.message });
+                return;
+            }
+            res.status(200).json({ message: result.message });
+        } catch (error: any) {
+            res.status(500).json({ message: 'Error deleting HMO contract', error: error.message });
+        }
+    };
 }
 
 export const billingController = new BillingController();
@@ -0,0 +1,284 @@
+// src/controllers/consent.controller.ts
+import { Request, Response } from 'express';
+import { consentService, CONSENT_PROCEDURE_TYPES, isConsentProcedureType, ConsentSubjectInput } from '../services/consent.service';
+import { isFdiTooth } from '../services/odontogram.service';
+import { optionalId } from '../utils/requestParams';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+export class ConsentController {
+  constructor() {}
+
+  private parseId = (req: Request, res: Response, label: string): number | null => {
+    const id = parseInt(req.params.id as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: `Invalid ${label} ID.` });
+      return null;
+    }
+    return id;
+  }
+
+  // Patient, dental record, procedure and tooth, from the body (signing) or the query (preview).
+  private parseSubject = (source: any, res: Response): ConsentSubjectInput | null => {
+    const patientId = parseInt(source.patientId);
+    const dentalRecordId = optionalId(source.dentalRecordId);
+    const treatmentPlanProcedureId = optionalId(source.treatmentPlanProcedureId);
+    const tooth = optionalId(source.tooth);
+    if (isNaN(patientId) || Number.isNaN(dentalRecordId) || Number.isNaN(treatmentPlanProcedureId)) {
+      res.status(400).json({ error: 'A valid patientId is required; dentalRecordId and treatmentPlanProcedureId must be IDs.' });
+      return null;
+    }
+    if (tooth !== null && !isFdiTooth(tooth)) {
+      res.status(400).json({ error: 'Tooth must be an FDI tooth number (e.g. 36).' });
+      return null;
+    }
+    return { patientId, dentalRecordId, treatmentPlanProcedureId, tooth };
+  }
+
+  private parseTemplate = (body: any, res: Response, requireAll: boolean) => {
+    const { name, procedureType, title, body: templateBody, isActive } = body;
+    for (const [field, value] of [['name', name], ['title', title], ['body', templateBody]] as const) {
+      if ((requireAll || value !== undefined) && (typeof value !== 'string' || !value.trim())) {
+        res.status(400).json({ error: `A consent form ${field} is required.` });
+        return null;
+      }
+    }
+    if ((requireAll || procedureType !== undefined) && !isConsentProcedureType(procedureType)) {
+      res.status(400).json({ error: `Procedure type must be one of: ${CONSENT_PROCEDURE_TYPES.join(', ')}.` });
+      return null;
+    }
+    return {
+      name: name?.trim(),
+      procedureType,
+      title: title?.trim(),
+      body: templateBody?.trim(),
+      isActive: isActive === undefined ? undefined : !!isActive,
+    };
+  }
+
+  // --- TEMPLATES ---
+
+  getTemplates = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const templates = await consentService.getTemplates(req.query.includeInactive === 'true');
+      res.json(templates);
+    } catch (error) {
+      console.error('Error in getTemplates controller:', error);
+      res.status(500).json({ error: 'Server error fetching consent forms.' });
+    }
+  }
+
+  createTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const template = this.parseTemplate(req.body, res, true);
+    if (!template) return;
+    try {
+      const result = await consentService.createTemplate({ ...template, name: template.name!, title: template.title!, body: template.body! }, req.user!.userId);
+      if (!result.success) {
+        res.status(result.message.includes('already exists') ? 409 : 400).json({ error: result.message });
+        return;
+      }
+      res.status(201).json({ message: result.message, template: result.template });
+    } catch (error) {
+      console.error('Error in createTemplate controller:', error);
+      res.status(500).json({ error: 'Server error creating consent form.' });
+    }
+  }
+
+  updateTemplate = async (req: Request, res: Response): Promise<void> => {
+    const templateId = this.parseId(req, res, 'consent form');
+    if (templateId === null) return;
+    const template = this.parseTemplate(req.body, res, false);
+    if (!template) return;
+    try {
+      const result = await consentService.updateTemplate(templateId, template);
+      if (!result.success) {
+        res.status(result.message.includes('not found') ? 404 : result.message.includes('already exists') ? 409 : 400).json({ error: result.message });
+        return;
+      }
+      res.json({ message: result.message, template: result.template });
+    } catch (error) {
+      console.error('Error in updateTemplate controller:', error);
+      res.status(500).json({ error: 'Server error updating consent form.' });
+    }
+  }
+
+  // The unsigned form as HTML, for the patient to read on screen before signing.
+  previewTemplate = async (req: Request, res: Response): Promise<void> => {
+    const templateId = this.parseId(req, res, 'consent form');
+    if (templateId === null) return;
+    const subject = this.parseSubject(req.query, res);
+    if (!subject) return;
+    try {
+      const result = await consentService.previewTemplate(templateId, subject);
+      if (!result.success || !result.html) {
+        res.status(result.message.includes('not found') ? 404 : 400).json({ error: result.message });
+        return;
+      }
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(result.html);
+    } catch (error) {
+      console.error('Error in previewTemplate controller:', error);
+      res.status(500).json({ error: 'Server error rendering consent form.' });
+    }
+  }
+
+  // --- SIGNED CONSENTS ---
+
+  /**
+   * Multipart: the drawn signature as `signature`, plus templateId, patientId, dentalRecordId and/or
+   * treatmentPlanProcedureId, and optionally tooth, signerName and signerRelationship.
+   * The signed-in user is recorded as the witness.
+   */
+  signConsent = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.file) {
+      res.status(400).json({ error: 'No signature uploaded. Please provide the signature image with the key "signature".' });
+      return;
+    }
+    const templateId = parseInt(req.body.templateId);
+    if (isNaN(templateId)) {
+      res.status(400).json({ error: 'A valid templateId is required.' });
+      return;
+    }
+    const subject = this.parseSubject(req.body, res);
+    if (!subject) return;
+    try {
+      const result = await consentService.signConsent({
+        ...subject,
+        templateId,
+        signerName: req.body.signerName,
+        signerRelationship: req.body.signerRelationship,
+        witnessedBy: req.user!.userId,
+      }, req.file);
+      if (!result.success) {
+        res.status(result.message.includes('not found') ? 404 : 400).json({ error: result.message });
+        return;
+      }
+      res.status(201).json({ message: result.message, consent: result.consent });
+    } catch (error: any) {
+      console.error('Error in signConsent controller:', error);
+      res.status(500).json({ error: 'Server error recording consent.', details: error.message });
+    }
+  }
+
+  getConsents = async (req: Request, res: Response): Promise<void> => {
+    const patientId = parseInt(req.query.patientId as string);
+    const dentalRecordId = optionalId(req.query.dentalRecordId);
+    const treatmentPlanProcedureId = optionalId(req.query.treatmentPlanProcedureId);
+    if (isNaN(patientId) || Number.isNaN(dentalRecordId) || Number.isNaN(treatmentPlanProcedureId)) {
+      res.status(400).json({ error: 'A valid patientId is required; dentalRecordId and treatmentPlanProcedureId must be IDs.' });
+      return;
+    }
+    try {
+      const consents = await consentService.getConsents({
+        patientId,
+        dentalRecordId: dentalRecordId ?? undefined,
+        treatmentPlanProcedureId: treatmentPlanProcedureId ?? undefined,
+        includeRevoked: req.query.includeRevoked === 'true',
+      });
+      res.json(consents);
+    } catch (error) {
+      console.error('Error in getConsents controller:', error);
+      res.status(500).json({ error: 'Server error fetching consents.' });
+    }
+  }
+
+  /**
+   * Whether consent is on file. `?treatmentPlanProcedureId=` checks a planned procedure (and says
+   * whether it needs consent at all); `?patientId=&procedureType=&dentalRecordId=&tooth=` checks a dental record.
+   */
+  checkConsent = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const procedureId = optionalId(req.query.treatmentPlanProcedureId);
+      if (procedureId !== null) {
+        if (Number.isNaN(procedureId)) {
+          res.status(400).json({ error: 'Invalid treatment plan procedure ID.' });
+          return;
+        }
+        const check = await consentService.checkProcedureConsent(procedureId);
+        if (!check) {
+          res.status(404).json({ error: 'Treatment plan procedure not found.' });
+          return;
+        }
+        res.json({ ...check, onFile: !!check.consent });
+        return;
+      }
+
+      const subject = this.parseSubject(req.query, res);
+      if (!subject) return;
+      const procedureType = req.query.procedureType;
+      if (!isConsentProcedureType(procedureType) || !subject.dentalRecordId) {
+        res.status(400).json({ error: `Give a treatmentPlanProcedureId, or a dentalRecordId and a procedureType (${CONSENT_PROCEDURE_TYPES.join(', ')}).` });
+        return;
+      }
+      const consent = await consentService.findConsent({ ...subject, procedureType });
+      res.json({ procedureType, consent, onFile: !!consent });
+    } catch (error) {
+      console.error('Error in checkConsent controller:', error);
+      res.status(500).json({ error: 'Server error checking consent.' });
+    }
+  }
+
+  getConsentById = async (req: Request, res: Response): Promise<void> => {
+    const consentId = this.parseId(req, res, 'consent');
+    if (consentId === null) return;
+    try {
+      const consent = await consentService.getConsentById(consentId);
+      if (!consent) {
+        res.status(404).json({ error: 'Consent not found.' });
+        return;
+      }
+      res.json(consent);
+    } catch (error) {
+      console.error('Error in getConsentById controller:', error);
+      res.status(500).json({ error: 'Server error fetching consent.' });
+    }
+  }
+
+  // Streams the signed form PDF (or, with ?variant=signature, the signature image).
+  getConsentFile = async (req: Request, res: Response): Promise<void> => {
+    const consentId = this.parseId(req, res, 'consent');
+    if (consentId === null) return;
+    try {
+      const variant = req.query.variant === 'signature' ? 'signature' : 'form';
+      const file = await consentService.getConsentFile(consentId, variant);
+      if (!file) {
+        res.status(404).json({ error: 'Consent not found.' });
+        return;
+      }
+      res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('Content-Disposition', `inline; filename="consent-${consentId}${variant === 'form' ? '.pdf' : '-signature'}"`);
+      res.send(file.buffer);
+    } catch (error) {
+      console.error('Error in getConsentFile controller:', error);
+      res.status(500).json({ error: 'Server error reading consent.' });
+    }
+  }
+
+  revokeConsent = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const consentId = this.parseId(req, res, 'consent');
+    if (consentId === null) return;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+    if (!reason) {
+      res.status(400).json({ error: 'A reason for revoking the consent is required.' });
+      return;
+    }
+    try {
+      const result = await consentService.revokeConsent(consentId, req.user!.userId, reason);
+      if (!result.success) {
+        res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
+        return;
+      }
+      res.json({ message: result.message, consent: result.consent });
+    } catch (error) {
+      console.error('Error in revokeConsent controller:', error);
+      res.status(500).json({ error: 'Server error revoking consent.' });
+    }
+  }
+}
+
+export const consentController = new ConsentController();
@@ -0,0 +1,98 @@
+// src/controllers/creditNote.controller.ts
+import { Request, Response } from 'express';
+import { emailService } from '../services/email.service';
+import { familyAccountService } from '../services/familyAccount.service';
+import { creditNoteService } from '../services/creditNote.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+export class CreditNoteController {
+  constructor() {}
+
+  /**
+   * Emails a stored credit note to the patient. Also used by the receipt void/refund endpoints.
+   */
+  emailCreditNote = async (creditNoteId: number, senderUserId: number, logToSheet: boolean) => {
+    const creditNote = await creditNoteService.getCreditNoteById(creditNoteId);
+    if (!creditNote) return { success: false, status: 404, error: 'Credit note not found.' };
+
+    const billingEmail = await familyAccountService.getBillingEmail(creditNote.patientId);
+    if (!billingEmail) return { success: false, status: 404, error: 'Patient email not available in the database.' };
+
+    const emailPayload = creditNoteService.toEmailPayload(creditNote, { patientEmail: billingEmail });
+    const emailResult = await emailService.sendCreditNoteEmail(billingEmail, emailPayload, senderUserId, logToSheet);
+    if (!emailResult.success) {
+      console.error('Failed to send credit note email:', emailResult.error);
+      return { success: false, status: 500, error: 'Failed to send credit note email.', details: emailResult.error };
+    }
+
+    await creditNoteService.markCreditNoteSent(creditNoteId);
+    return { success: true, messageId: emailResult.messageId };
+  }
+
+  getCreditNotes = async (req: Request, res: Response): Promise<void> => {
+    const patientId = req.query.patientId ? parseInt(req.query.patientId as string) : undefined;
+    if (patientId !== undefined && isNaN(patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    try {
+      const creditNotes = await creditNoteService.getCreditNotes(patientId);
+      res.json(creditNotes);
+    } catch (error) {
+      console.error('Error in getCreditNotes controller:', error);
+      res.status(500).json({ error: 'Server error fetching credit notes.' });
+    }
+  }
+
+  getCreditNoteById = async (req: Request, res: Response): Promise<void> => {
+    const creditNoteId = parseInt(req.params.id as string);
+    if (isNaN(creditNoteId)) {
+      res.status(400).json({ error: 'Invalid credit note ID.' });
+      return;
+    }
+    try {
+      const creditNote = await creditNoteService.getCreditNoteById(creditNoteId);
+      if (!creditNote) {
+        res.status(404).json({ error: 'Credit note not found.' });
+        return;
+      }
+      res.json(creditNote);
+    } catch (error) {
+      console.error('Error in getCreditNoteById controller:', error);
+      res.status(500).json({ error: 'Server error fetching credit note.' });
+    }
+  }
+
+  resendCreditNote = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const creditNoteId = parseInt(req.params.id as string);
+    if (isNaN(creditNoteId)) {
+      res.status(400).json({ error: 'Invalid credit note ID.' });
+      return;
+    }
+    try {
+      const creditNote = await creditNoteService.getCreditNoteById(creditNoteId);
+      if (!creditNote) {
+        res.status(404).json({ error: 'Credit note not found.' });
+        return;
+      }
+      // Only the first successful send logs the refund to the revenue sheet.
+      const sendResult = await this.emailCreditNote(creditNoteId, req.user!.userId, creditNote.sentCount === 0);
+      if (!sendResult.success) {
+        res.status(sendResult.status ?? 500).json({ error: sendResult.error, details: sendResult.details });
+        return;
+      }
+      res.status(200).json({ message: 'Credit note sent successfully!', messageId: sendResult.messageId });
+    } catch (error) {
+      console.error('Error in resendCreditNote controller:', error);
+      res.status(500).json({ error: 'Server error sending credit note.' });
+    }
+  }
+}
+
+export const creditNoteController = new CreditNoteController();
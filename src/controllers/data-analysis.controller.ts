@@ -93,6 +93,19 @@ export class DataAnalysisController {
         }
     }
 
+    /**
+     * Handles the request for the per-HMO receivables report.
+     */
+    getHmoReceivables = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const receivables = await dataAnalysisService.getHmoReceivables();
+            res.json(receivables);
+        } catch (error) {
+            console.error('Error fetching HMO receivables:', error);
+            res.status(500).json({ error: 'Server error fetching HMO receivables.' });
+        }
+    }
+
     /**
      * Handles the request for doctor performance data.
      */
@@ -0,0 +1,202 @@
+// src/controllers/hmoClaim.controller.ts
+import { Request, Response } from 'express';
+import { hmoClaimService, HmoClaimStatus } from '../services/hmoClaim.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const CLAIM_STATUSES: HmoClaimStatus[] = ['draft', 'submitted', 'approved', 'partially_paid', 'paid', 'rejected'];
+
+type ClaimResult =
+  | Awaited<ReturnType<typeof hmoClaimService.createClaim>>
+  | Awaited<ReturnType<typeof hmoClaimService.updateClaim>>
+  | Awaited<ReturnType<typeof hmoClaimService.deleteClaim>>
+  | Awaited<ReturnType<typeof hmoClaimService.submitClaim>>
+  | Awaited<ReturnType<typeof hmoClaimService.approveClaim>>
+  | Awaited<ReturnType<typeof hmoClaimService.rejectClaim>>
+  | Awaited<ReturnType<typeof hmoClaimService.recordRemittance>>;
+
+export class HmoClaimController {
+  constructor() {}
+
+  // Maps a service result onto the response; failures naming a missing record become 404s.
+  private respond = (res: Response, result: ClaimResult, successStatus = 200) => {
+    if (!result.success) {
+      res.status(result.message?.includes('not found') ? 404 : 409).json({ error: result.message });
+      return;
+    }
+    res.status(successStatus).json({ message: result.message, claim: 'claim' in result ? result.claim : undefined });
+  }
+
+  private parseClaimId = (req: Request, res: Response): number | null => {
+    const claimId = parseInt(req.params.id as string);
+    if (isNaN(claimId)) {
+      res.status(400).json({ error: 'Invalid claim ID.' });
+      return null;
+    }
+    return claimId;
+  }
+
+  createClaim = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { invoiceId, claimedAmount, authorizationCode, notes } = req.body;
+    if (!invoiceId || isNaN(invoiceId)) {
+      res.status(400).json({ error: 'A valid invoice ID is required.' });
+      return;
+    }
+    try {
+      const result = await hmoClaimService.createClaim({
+        invoiceId: Number(invoiceId),
+        claimedAmount,
+        authorizationCode,
+        notes,
+        createdBy: req.user!.userId,
+      });
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in createClaim controller:', error);
+      res.status(500).json({ error: 'Server error creating HMO claim.' });
+    }
+  }
+
+  getClaims = async (req: Request, res: Response): Promise<void> => {
+    const status = req.query.status as HmoClaimStatus | undefined;
+    const hmoProviderId = req.query.hmoProviderId ? parseInt(req.query.hmoProviderId as string) : undefined;
+    const patientId = req.query.patientId ? parseInt(req.query.patientId as string) : undefined;
+    if (status !== undefined && !CLAIM_STATUSES.includes(status)) {
+      res.status(400).json({ error: `Status must be one of: ${CLAIM_STATUSES.join(', ')}.` });
+      return;
+    }
+    if ((hmoProviderId !== undefined && isNaN(hmoProviderId)) || (patientId !== undefined && isNaN(patientId))) {
+      res.status(400).json({ error: 'Invalid HMO provider or patient ID.' });
+      return;
+    }
+    try {
+      const claims = await hmoClaimService.getClaims({ status, hmoProviderId, patientId });
+      res.json(claims);
+    } catch (error) {
+      console.error('Error in getClaims controller:', error);
+      res.status(500).json({ error: 'Server error fetching HMO claims.' });
+    }
+  }
+
+  getClaimById = async (req: Request, res: Response): Promise<void> => {
+    const claimId = this.parseClaimId(req, res);
+    if (claimId === null) return;
+    try {
+      const claim = await hmoClaimService.getClaimById(claimId);
+      if (!claim) {
+        res.status(404).json({ error: 'HMO claim not found.' });
+        return;
+      }
+      res.json(claim);
+    } catch (error) {
+      console.error('Error in getClaimById controller:', error);
+      res.status(500).json({ error: 'Server error fetching HMO claim.' });
+    }
+  }
+
+  updateClaim = async (req: Request, res: Response): Promise<void> => {
+    const claimId = this.parseClaimId(req, res);
+    if (claimId === null) return;
+    const { claimedAmount, authorizationCode, notes } = req.body;
+    try {
+      const result = await hmoClaimService.updateClaim(claimId, { claimedAmount, authorizationCode, notes });
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in updateClaim controller:', error);
+      res.status(500).json({ error: 'Server error updating HMO claim.' });
+    }
+  }
+
+  deleteClaim = async (req: Request, res: Response): Promise<void> => {
+    const claimId = this.parseClaimId(req, res);
+    if (claimId === null) return;
+    try {
+      const result = await hmoClaimService.deleteClaim(claimId);
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in deleteClaim controller:', error);
+      res.status(500).json({ error: 'Server error deleting HMO claim.' });
+    }
+  }
+
+  submitClaim = async (req: Request, res: Response): Promise<void> => {
+    const claimId = this.parseClaimId(req, res);
+    if (claimId === null) return;
+    try {
+      const result = await hmoClaimService.submitClaim(claimId);
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in submitClaim controller:', error);
+      res.status(500).json({ error: 'Server error submitting HMO claim.' });
+    }
+  }
+
+  approveClaim = async (req: Request, res: Response): Promise<void> => {
+    const claimId = this.parseClaimId(req, res);
+    if (claimId === null) return;
+    if (req.body.approvedAmount === undefined) {
+      res.status(400).json({ error: 'Approved amount is required.' });
+      return;
+    }
+    try {
+      const result = await hmoClaimService.approveClaim(claimId, req.body.approvedAmount);
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in approveClaim controller:', error);
+      res.status(500).json({ error: 'Server error approving HMO claim.' });
+    }
+  }
+
+  rejectClaim = async (req: Request, res: Response): Promise<void> => {
+    const claimId = this.parseClaimId(req, res);
+    if (claimId === null) return;
+    const { reason } = req.body;
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'A rejection reason is required.' });
+      return;
+    }
+    try {
+      const result = await hmoClaimService.rejectClaim(claimId, reason.trim());
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in rejectClaim controller:', error);
+      res.status(500).json({ error: 'Server error rejecting HMO claim.' });
+    }
+  }
+
+  recordRemittance = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const claimId = this.parseClaimId(req, res);
+    if (claimId === null) return;
+    const { amount, remittedAt, reference, method, notes } = req.body;
+    if (amount === undefined) {
+      res.status(400).json({ error: 'Remittance amount is required.' });
+      return;
+    }
+    const parsedDate = remittedAt ? new Date(remittedAt) : new Date();
+    if (isNaN(parsedDate.getTime())) {
+      res.status(400).json({ error: 'Invalid remittance date.' });
+      return;
+    }
+    try {
+      const result = await hmoClaimService.recordRemittance(claimId, {
+        amount,
+        remittedAt: parsedDate,
+        reference,
+        method,
+        notes,
+        recordedBy: req.user!.userId,
+      });
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in recordRemittance controller:', error);
+      res.status(500).json({ error: 'Server error recording HMO remittance.' });
+    }
+  }
+}
+
+export const hmoClaimController = new HmoClaimController();
@@ -0,0 +1,129 @@
+// src/controllers/installmentPlan.controller.ts
+import { Request, Response } from 'express';
+import { installmentPlanService, InstallmentInput } from '../services/installmentPlan.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+export class InstallmentPlanController {
+  constructor() {}
+
+  createPlan = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { invoiceId, totalAmount, installments, count, frequency, startDate, notes } = req.body;
+
+    if (!invoiceId || isNaN(invoiceId)) {
+      res.status(400).json({ error: 'A valid invoice ID is required.' });
+      return;
+    }
+    if (installments !== undefined && !Array.isArray(installments)) {
+      res.status(400).json({ error: 'Installments must be an array.' });
+      return;
+    }
+    if (frequency !== undefined && frequency !== 'weekly' && frequency !== 'monthly') {
+      res.status(400).json({ error: "Frequency must be 'weekly' or 'monthly'." });
+      return;
+    }
+
+    let schedule: InstallmentInput[] | undefined;
+    if (Array.isArray(installments)) {
+      schedule = [];
+      for (const item of installments) {
+        const dueDate = new Date(item?.dueDate);
+        if (isNaN(dueDate.getTime())) {
+          res.status(400).json({ error: 'Each installment needs a valid due date.' });
+          return;
+        }
+        schedule.push({ dueDate, amount: item.amount });
+      }
+    }
+
+    let parsedStartDate: Date | undefined;
+    if (startDate !== undefined) {
+      parsedStartDate = new Date(startDate);
+      if (isNaN(parsedStartDate.getTime())) {
+        res.status(400).json({ error: 'Invalid start date.' });
+        return;
+      }
+    }
+
+    try {
+      const result = await installmentPlanService.createPlan({
+        invoiceId: Number(invoiceId),
+        totalAmount,
+        installments: schedule,
+        count: count !== undefined ? Number(count) : undefined,
+        frequency,
+        startDate: parsedStartDate,
+        notes,
+        createdBy: req.user!.userId,
+      });
+      if (!result.success) {
+        res.status(result.message.includes('not found') ? 404 : 400).json({ error: result.message });
+        return;
+      }
+      res.status(201).json({ message: result.message, plan: result.plan });
+    } catch (error) {
+      console.error('Error in createPlan controller:', error);
+      res.status(500).json({ error: 'Server error creating installment plan.' });
+    }
+  }
+
+  getPlans = async (req: Request, res: Response): Promise<void> => {
+    const patientId = req.query.patientId ? parseInt(req.query.patientId as string) : undefined;
+    if (patientId !== undefined && isNaN(patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    try {
+      const plans = await installmentPlanService.getPlans(patientId);
+      res.json(plans);
+    } catch (error) {
+      console.error('Error in getPlans controller:', error);
+      res.status(500).json({ error: 'Server error fetching installment plans.' });
+    }
+  }
+
+  getPlanById = async (req: Request, res: Response): Promise<void> => {
+    const planId = parseInt(req.params.id as string);
+    if (isNaN(planId)) {
+      res.status(400).json({ error: 'Invalid installment plan ID.' });
+      return;
+    }
+    try {
+      const plan = await installmentPlanService.getPlanById(planId);
+      if (!plan) {
+        res.status(404).json({ error: 'Installment plan not found.' });
+        return;
+      }
+      res.json(plan);
+    } catch (error) {
+      console.error('Error in getPlanById controller:', error);
+      res.status(500).json({ error: 'Server error fetching installment plan.' });
+    }
+  }
+
+  cancelPlan = async (req: Request, res: Response): Promise<void> => {
+    const planId = parseInt(req.params.id as string);
+    if (isNaN(planId)) {
+      res.status(400).json({ error: 'Invalid installment plan ID.' });
+      return;
+    }
+    try {
+      const result = await installmentPlanService.cancelPlan(planId);
+      if (!result.success) {
+        res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
+        return;
+      }
+      res.json({ message: result.message });
+    } catch (error) {
+      console.error('Error in cancelPlan controller:', error);
+      res.status(500).json({ error: 'Server error cancelling installment plan.' });
+    }
+  }
+}
+
+export const installmentPlanController = new InstallmentPlanController();
@@ -1,8 +1,9 @@
 // src/controllers/invoice.controller.ts
 import { Request, Response } from 'express';
 import { emailService } from '../services/email.service';
-import { patientService } from '../services/patient.service'; // To fetch patient email
-import { users } from '../../db/schema'; // For user roles
+import { familyAccountService } from '../services/familyAccount.service'; // To find the billing email
+import { invoiceService, InvoiceUpdateData } from '../services/invoice.service';
+import { pdfService } from '../services/pdf.service';
 
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -14,74 +15,242 @@ interface AuthenticatedRequest extends Request {
 export class InvoiceController {
   constructor() {}
 
-  sendInvoice = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  /**
+   * Validates the invoice payload sent by the frontend and persists it.
+   * Shared by `createInvoice` (store only) and `sendInvoice` (store, then email).
+   */
+  private persistInvoice = async (req: AuthenticatedRequest, res: Response) => {
     // IMPORTANT: Ensure all expected fields from the frontend payload are destructured here.
     // Specifically added subtotal and totalDueFromPatient.
-    const { patientId, invoiceNumber, invoiceDate, totalAmount, items, subtotal, totalDueFromPatient, isHmoCovered, hmoName, coveredAmount, notes, clinicName, clinicAddress, clinicPhone, clinicEmail, latestDentalRecord } = req.body;
-    const senderUserId = req.user!.userId; // User sending the invoice
+    // Any `invoiceNumber` in the payload is ignored; the number is allocated server-side.
+    const { patientId, invoiceDate, totalAmount, items, subtotal, totalDueFromPatient, isHmoCovered, hmoProviderId, hmoName, coveredAmount, notes } = req.body;
 
-    if (!patientId || !invoiceNumber || !invoiceDate || totalAmount === undefined || !items || !Array.isArray(items)) {
-      res.status(400).json({ error: 'Patient ID, invoice number, date, total amount, and items are required.' });
-      return;
+    if (!patientId || !invoiceDate || totalAmount === undefined || !items || !Array.isArray(items)) {
+      res.status(400).json({ error: 'Patient ID, date, total amount, and items are required.' });
+      return null;
     }
 
     if (isNaN(patientId)) {
       res.status(400).json({ error: 'Invalid patient ID.' });
-      return;
+      return null;
+    }
+
+    const parsedDate = new Date(invoiceDate);
+    if (isNaN(parsedDate.getTime())) {
+      res.status(400).json({ error: 'Invalid invoice date.' });
+      return null;
     }
 
+    const result = await invoiceService.createInvoice({
+      patientId: Number(patientId),
+      invoiceDate: parsedDate,
+      items,
+      subtotal,
+      isHmoCovered,
+      hmoProviderId: hmoProviderId ? Number(hmoProviderId) : null,
+      hmoName,
+      coveredAmount,
+      // `totalAmount` is the amount due from the patient on the current frontend.
+      totalDue: totalDueFromPatient ?? totalAmount,
+      notes,
+      createdBy: req.user!.userId,
+    });
+
+    if (!result.success || !result.invoice) {
+      const message = result.message ?? 'Failed to create invoice.';
+      res.status(message.includes('not found') ? 404 : 400).json({ error: message });
+      return null;
+    }
+    return result.invoice;
+  }
+
+  private emailInvoice = async (invoiceId: number, senderUserId: number, latestDentalRecord?: any) => {
+    const invoice = await invoiceService.getInvoiceById(invoiceId);
+    if (!invoice) return { success: false, status: 404, error: 'Invoice not found.' };
+
+    // Members without an email of their own are billed through their family head.
+    const billingEmail = await familyAccountService.getBillingEmail(invoice.patientId);
+    if (!billingEmail) return { success: false, status: 404, error: 'Patient not found or patient email not available.' };
+
+    const invoiceData = invoiceService.toEmailPayload(invoice, { latestDentalRecord });
+    const emailResult = await emailService.sendInvoiceEmail(billingEmail, invoiceData, senderUserId);
+    if (!emailResult.success) {
+      console.error('Failed to send invoice email:', emailResult.error);
+      return { success: false, status: 500, error: 'Failed to send invoice email.', details: emailResult.error };
+    }
+
+    await invoiceService.markInvoiceSent(invoiceId);
+    return { success: true, messageId: emailResult.messageId };
+  }
+
+  createInvoice = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const invoice = await this.persistInvoice(req, res);
+      if (!invoice) return;
+      res.status(201).json({ message: 'Invoice created successfully.', invoice });
+    } catch (error) {
+      console.error('Error in createInvoice controller:', error);
+      res.status(500).json({ error: 'Server error creating invoice.' });
+    }
+  }
+
+  sendInvoice = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const senderUserId = req.user!.userId; // User sending the invoice
+
     try {
-      const patient = await patientService._getPatientWithContactInfoForInternalUse(patientId);
-      if (!patient || !patient.email) {
+      const billingEmail = req.body.patientId ? await familyAccountService.getBillingEmail(Number(req.body.patientId)) : null;
+      if (req.body.patientId && !billingEmail) {
         res.status(404).json({ error: 'Patient not found or patient email not available.' });
         return;
       }
 
-      // Construct the invoiceData object, ensuring all necessary fields for the email service
-      // and the Handlebars template are included.
-      const invoiceData = {
-        patientId, // Passed for backend context, not directly used in email template
-        invoiceNumber,
-        invoiceDate,
-        patientName: patient.name,
-        // Crucial for email totals:
-        subtotal: subtotal,
-        totalAmount: totalAmount, // This is `totalDue` from frontend (Total Amount Due from Patient)
-        totalDueFromPatient: totalDueFromPatient, // Explicitly pass for HMO logic in template
-        
-        // Pass the items array as received from the frontend.
-        // The EmailService will transform 'items' into 'services' for the template.
-        items: items, 
-
-        // Include HMO related fields if available
-        isHmoCovered: isHmoCovered,
-        hmoName: hmoName,
-        coveredAmount: coveredAmount, // Ensure this is passed if HMO covered amount is relevant
-        
-        notes: notes,
-        clinicName: clinicName,
-        clinicAddress: clinicAddress,
-        clinicPhone: clinicPhone,
-        clinicEmail: clinicEmail,
-        latestDentalRecord: latestDentalRecord, // Pass latest dental record for notes
-      };
-
-      console.log("[Controller Debug] Sending invoiceData to emailService:", invoiceData);
-
-
-      const emailResult = await emailService.sendInvoiceEmail(patient.email, invoiceData, senderUserId);
-
-      if (emailResult.success) {
-        res.status(200).json({ message: 'Invoice sent successfully!', messageId: emailResult.messageId });
+      const invoice = await this.persistInvoice(req, res);
+      if (!invoice) return;
+
+      const sendResult = await this.emailInvoice(invoice.id, senderUserId, req.body.latestDentalRecord);
+      if (sendResult.success) {
+        res.status(200).json({ message: 'Invoice sent successfully!', messageId: sendResult.messageId, invoiceNumber: invoice.invoiceNumber, invoice });
       } else {
-        console.error('Failed to send invoice email:', emailResult.error);
-        res.status(500).json({ error: 'Failed to send invoice email.', details: emailResult.error });
+        // The invoice is already on the ledger, so the client can retry with /invoices/:id/resend.
+        res.status(sendResult.status ?? 500).json({ error: sendResult.error, details: sendResult.details, invoiceId: invoice.id });
       }
     } catch (error) {
       console.error('Error in sendInvoice controller:', error);
       res.status(500).json({ error: 'Server error sending invoice.' });
     }
   }
+
+  resendInvoice = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const invoiceId = parseInt(req.params.id as string);
+    if (isNaN(invoiceId)) {
+      res.status(400).json({ error: 'Invalid invoice ID.' });
+      return;
+    }
+    try {
+      const sendResult = await this.emailInvoice(invoiceId, req.user!.userId, req.body?.latestDentalRecord);
+      if (!sendResult.success) {
+        res.status(sendResult.status ?? 500).json({ error: sendResult.error, details: sendResult.details });
+        return;
+      }
+      res.status(200).json({ message: 'Invoice re-sent successfully!', messageId: sendResult.messageId });
+    } catch (error) {
+      console.error('Error in resendInvoice controller:', error);
+      res.status(500).json({ error: 'Server error re-sending invoice.' });
+    }
+  }
+
+  getInvoices = async (req: Request, res: Response): Promise<void> => {
+    const patientId = req.query.patientId ? parseInt(req.query.patientId as string) : undefined;
+    if (patientId !== undefined && isNaN(patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    try {
+      const invoices = await invoiceService.getInvoices(patientId);
+      res.json(invoices);
+    } catch (error) {
+      console.error('Error in getInvoices controller:', error);
+      res.status(500).json({ error: 'Server error fetching invoices.' });
+    }
+  }
+
+  getInvoiceById = async (req: Request, res: Response): Promise<void> => {
+    const invoiceId = parseInt(req.params.id as string);
+    if (isNaN(invoiceId)) {
+      res.status(400).json({ error: 'Invalid invoice ID.' });
+      return;
+    }
+    try {
+      const invoice = await invoiceService.getInvoiceById(invoiceId);
+      if (!invoice) {
+        res.status(404).json({ error: 'Invoice not found.' });
+        return;
+      }
+      const balance = await invoiceService.getInvoiceBalance(invoiceId);
+      res.json({ ...invoice, balance });
+    } catch (error) {
+      console.error('Error in getInvoiceById controller:', error);
+      res.status(500).json({ error: 'Server error fetching invoice.' });
+    }
+  }
+
+  getInvoicePdf = async (req: Request, res: Response): Promise<void> => {
+    const invoiceId = parseInt(req.params.id as string);
+    if (isNaN(invoiceId)) {
+      res.status(400).json({ error: 'Invalid invoice ID.' });
+      return;
+    }
+    try {
+      const invoice = await invoiceService.getInvoiceById(invoiceId);
+      if (!invoice) {
+        res.status(404).json({ error: 'Invoice not found.' });
+        return;
+      }
+      const html = await emailService.renderInvoiceHtml(invoiceService.toEmailPayload(invoice));
+      const pdf = await pdfService.htmlToPdf(html);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Error in getInvoicePdf controller:', error);
+      res.status(500).json({ error: 'Server error generating invoice PDF.' });
+    }
+  }
+
+  updateInvoice = async (req: Request, res: Response): Promise<void> => {
+    const invoiceId = parseInt(req.params.id as string);
+    if (isNaN(invoiceId)) {
+      res.status(400).json({ error: 'Invalid invoice ID.' });
+      return;
+    }
+    const { invoiceDate, items, subtotal, isHmoCovered, hmoProviderId, hmoName, coveredAmount, totalDueFromPatient, notes } = req.body;
+    if (items !== undefined && !Array.isArray(items)) {
+      res.status(400).json({ error: 'Items must be an array.' });
+      return;
+    }
+    const updateData: InvoiceUpdateData = {
+      items, subtotal, isHmoCovered, hmoName, coveredAmount, totalDue: totalDueFromPatient, notes,
+      hmoProviderId: hmoProviderId === undefined ? undefined : (hmoProviderId ? Number(hmoProviderId) : null),
+    };
+    if (invoiceDate !== undefined) {
+      const parsedDate = new Date(invoiceDate);
+      if (isNaN(parsedDate.getTime())) {
+        res.status(400).json({ error: 'Invalid invoice date.' });
+        return;
+      }
+      updateData.invoiceDate = parsedDate;
+    }
+    try {
+      const result = await invoiceService.updateInvoice(invoiceId, updateData);
+      if (!result.success) {
+        res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
+        return;
+      }
+      res.json({ message: result.message, invoice: result.invoice });
+    } catch (error) {
+      console.error('Error in updateInvoice controller:', error);
+      res.status(500).json({ error: 'Server error updating invoice.' });
+    }
+  }
+
+  voidInvoice = async (req: Request, res: Response): Promise<void> => {
+    const invoiceId = parseInt(req.params.id as string);
+    if (isNaN(invoiceId)) {
+      res.status(400).json({ error: 'Invalid invoice ID.' });
+      return;
+    }
+    try {
+      const result = await invoiceService.voidInvoice(invoiceId);
+      if (!result.success) {
+        res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
+        return;
+      }
+      res.json({ message: result.message });
+    } catch (error) {
+      console.error('Error in voidInvoice controller:', error);
+      res.status(500).json({ error: 'Server error voiding invoice.' });
+    }
+  }
 }
 
 export const invoiceController = new InvoiceController();
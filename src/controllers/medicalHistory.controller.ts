@@ -0,0 +1,172 @@
+// src/controllers/medicalHistory.controller.ts
+import { Request, Response } from 'express';
+import {
+  medicalHistoryService, isMedicalCondition, MEDICAL_CONDITIONS, ALLERGY_SEVERITIES,
+  AllergyInput, AllergySeverity, MedicationInput,
+} from '../services/medicalHistory.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const optionalText = (value: unknown) => (value === undefined ? undefined : value === null || value === '' ? null : String(value));
+
+export class MedicalHistoryController {
+  constructor() {}
+
+  private respond = (res: Response, result: { success: boolean; message?: string; [key: string]: any }, successStatus = 200) => {
+    if (!result.success) {
+      res.status(result.message?.includes('not found') ? 404 : 409).json({ error: result.message });
+      return;
+    }
+    const { success, ...body } = result;
+    res.status(successStatus).json(body);
+  }
+
+  private parseId = (res: Response, value: string | undefined, label: string): number | null => {
+    const id = parseInt(value as string);
+    if (isNaN(id)) {
+      res.status(400).json({ error: `Invalid ${label} ID.` });
+      return null;
+    }
+    return id;
+  }
+
+  // Validates the allergy fields present in the body; `requireAllergen` for creation.
+  private parseAllergy = (body: any, res: Response, requireAllergen: boolean): AllergyInput | null => {
+    const { allergen, reaction, severity, notes, isActive } = body;
+    if ((requireAllergen || allergen !== undefined) && (typeof allergen !== 'string' || !allergen.trim())) {
+      res.status(400).json({ error: 'An allergen is required.' });
+      return null;
+    }
+    if (severity !== undefined && !ALLERGY_SEVERITIES.includes(severity)) {
+      res.status(400).json({ error: `Severity must be one of: ${ALLERGY_SEVERITIES.join(', ')}.` });
+      return null;
+    }
+    return {
+      allergen: allergen?.trim(),
+      reaction: optionalText(reaction),
+      severity: severity as AllergySeverity | undefined,
+      notes: optionalText(notes),
+      isActive: isActive === undefined ? undefined : !!isActive,
+    };
+  }
+
+  private parseMedication = (body: any, res: Response, requireName: boolean): MedicationInput | null => {
+    const { name, dosage, frequency, isCritical, isActive, notes } = body;
+    if ((requireName || name !== undefined) && (typeof name !== 'string' || !name.trim())) {
+      res.status(400).json({ error: 'A medication name is required.' });
+      return null;
+    }
+    return {
+      name: name?.trim(),
+      dosage: optionalText(dosage),
+      frequency: optionalText(frequency),
+      isCritical: isCritical === undefined ? undefined : !!isCritical,
+      isActive: isActive === undefined ? undefined : !!isActive,
+      notes: optionalText(notes),
+    };
+  }
+
+  getMedicalHistory = async (req: Request, res: Response): Promise<void> => {
+    const patientId = this.parseId(res, req.params.patientId as string, 'patient');
+    if (patientId === null) return;
+    try {
+      const history = await medicalHistoryService.getMedicalHistory(patientId);
+      if (!history) {
+        res.status(404).json({ error: 'Patient not found.' });
+        return;
+      }
+      res.json(history);
+    } catch (error) {
+      console.error('Error in getMedicalHistory controller:', error);
+      res.status(500).json({ error: 'Server error fetching medical history.' });
+    }
+  }
+
+  updateMedicalHistory = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const patientId = this.parseId(res, req.params.patientId as string, 'patient');
+    if (patientId === null) return;
+    const { conditions, otherConditions, notes } = req.body;
+    if (conditions !== undefined && (!Array.isArray(conditions) || !conditions.every(isMedicalCondition))) {
+      res.status(400).json({ error: `Conditions must be an array of: ${MEDICAL_CONDITIONS.join(', ')}.` });
+      return;
+    }
+    try {
+      const result = await medicalHistoryService.updateMedicalHistory(patientId, {
+        conditions,
+        otherConditions: optionalText(otherConditions),
+        notes: optionalText(notes),
+      }, req.user!.userId);
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in updateMedicalHistory controller:', error);
+      res.status(500).json({ error: 'Server error updating medical history.' });
+    }
+  }
+
+  addAllergy = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const patientId = this.parseId(res, req.params.patientId as string, 'patient');
+    if (patientId === null) return;
+    const allergy = this.parseAllergy(req.body, res, true);
+    if (!allergy) return;
+    try {
+      const result = await medicalHistoryService.addAllergy(patientId, { ...allergy, allergen: allergy.allergen! }, req.user!.userId);
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in addAllergy controller:', error);
+      res.status(500).json({ error: 'Server error recording allergy.' });
+    }
+  }
+
+  updateAllergy = async (req: Request, res: Response): Promise<void> => {
+    const patientId = this.parseId(res, req.params.patientId as string, 'patient');
+    if (patientId === null) return;
+    const allergyId = this.parseId(res, req.params.allergyId as string, 'allergy');
+    if (allergyId === null) return;
+    const allergy = this.parseAllergy(req.body, res, false);
+    if (!allergy) return;
+    try {
+      const result = await medicalHistoryService.updateAllergy(patientId, allergyId, allergy);
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in updateAllergy controller:', error);
+      res.status(500).json({ error: 'Server error updating allergy.' });
+    }
+  }
+
+  addMedication = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const patientId = this.parseId(res, req.params.patientId as string, 'patient');
+    if (patientId === null) return;
+    const medication = this.parseMedication(req.body, res, true);
+    if (!medication) return;
+    try {
+      const result = await medicalHistoryService.addMedication(patientId, { ...medication, name: medication.name! }, req.user!.userId);
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in addMedication controller:', error);
+      res.status(500).json({ error: 'Server error recording medication.' });
+    }
+  }
+
+  updateMedication = async (req: Request, res: Response): Promise<void> => {
+    const patientId = this.parseId(res, req.params.patientId as string, 'patient');
+    if (patientId === null) return;
+    const medicationId = this.parseId(res, req.params.medicationId as string, 'medication');
+    if (medicationId === null) return;
+    const medication = this.parseMedication(req.body, res, false);
+    if (!medication) return;
+    try {
+      const result = await medicalHistoryService.updateMedication(patientId, medicationId, medication);
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in updateMedication controller:', error);
+      res.status(500).json({ error: 'Server error updating medication.' });
+    }
+  }
+}
+
+export const medicalHistoryController = new MedicalHistoryController();
@@ -2,6 +2,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { patientService } from '../services/patient.service';
 import { settingsService } from '../services/settings.service'; 
+import { ledgerService } from '../services/ledger.service';
+import { emailService } from '../services/email.service';
+import { pdfService } from '../services/pdf.service';
+import { patientMergeService } from '../services/patientMerge.service';
+import { familyAccountService } from '../services/familyAccount.service';
+import { dentalRecordHistoryService } from '../services/dentalRecordHistory.service';
+import { dentalRecordSignOffService } from '../services/dentalRecordSignOff.service';
+import { odontogramService, isFdiTooth, TOOTH_CONDITIONS, TOOTH_SURFACES, ToothCondition, ToothSurface } from '../services/odontogram.service';
+import { familyStructureService, HeadContactDetails } from '../services/familyStructure.service';
 import { InferInsertModel } from 'drizzle-orm';
 import { patients, dentalRecords } from '../../db/schema';
 
@@ -26,7 +35,10 @@ export class PatientController {
 
   getDebtors = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-        const debtors = await patientService.getDebtors();
+        // ?groupBy=family rolls members' balances up to the family head.
+        const debtors = req.query.groupBy === 'family'
+            ? await patientService.getFamilyDebtors()
+            : await patientService.getDebtors();
         res.json(debtors);
     } catch (error) {
         console.error('Error fetching debtors:', error);
@@ -34,9 +46,204 @@ export class PatientController {
     }
   }
 
+  getPatientLedger = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const patientId = safeInt(req.params.patientId);
+    if (isNaN(patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    try {
+        const ledger = await ledgerService.getPatientLedger(patientId);
+        if (!ledger) {
+            res.status(404).json({ error: 'Patient not found.' });
+            return;
+        }
+        res.json(ledger);
+    } catch (error) {
+        console.error('Error fetching patient ledger:', error);
+        res.status(500).json({ error: 'Server error fetching patient ledger.' });
+    }
+  }
+
+  getFamilyStatement = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const patientId = safeInt(req.params.patientId);
+    if (isNaN(patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    try {
+        const statement = await familyAccountService.getFamilyStatement(patientId);
+        if (!statement) {
+            res.status(404).json({ error: 'Patient not found.' });
+            return;
+        }
+        res.json(statement);
+    } catch (error) {
+        console.error('Error fetching family statement:', error);
+        res.status(500).json({ error: 'Server error fetching family statement.' });
+    }
+  }
+
+  // Shared by promote and split: the new head's contact details, or an error message.
+  private parseHeadContact = (body: any): HeadContactDetails | string => {
+    const { phoneNumber, email, address, hmo } = body;
+    if (!phoneNumber || typeof phoneNumber !== 'string') return 'A phone number is required for the new family head.';
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return 'Invalid email address format.';
+    return { phoneNumber, email, address, hmo };
+  }
+
+  // Family restructuring answers with the household as it stands afterwards.
+  private respondWithHousehold = async (res: Response, result: { success: boolean; message: string; headId?: number }) => {
+    if (!result.success || !result.headId) {
+      res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
+      return;
+    }
+    const household = await familyAccountService.getHousehold(result.headId);
+    res.json({ message: result.message, household });
+  }
+
+  promoteFamilyMember = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const memberId = safeInt(req.params.id);
+    if (isNaN(memberId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    const contact = this.parseHeadContact(req.body);
+    if (typeof contact === 'string') {
+      res.status(400).json({ error: contact });
+      return;
+    }
+    try {
+        const result = await familyStructureService.promoteMember(memberId, contact, !!req.body.takeOverHousehold);
+        await this.respondWithHousehold(res, result);
+    } catch (error) {
+        console.error('Error promoting family member:', error);
+        res.status(500).json({ error: 'Server error promoting family member.' });
+    }
+  }
+
+  moveFamilyMember = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const patientId = safeInt(req.params.id);
+    const targetHeadId = parseInt(req.body.targetHeadId, 10);
+    if (isNaN(patientId) || isNaN(targetHeadId)) {
+      res.status(400).json({ error: 'A valid patient ID and targetHeadId are required.' });
+      return;
+    }
+    try {
+        const result = await familyStructureService.moveMember(patientId, targetHeadId);
+        await this.respondWithHousehold(res, result);
+    } catch (error) {
+        console.error('Error moving family member:', error);
+        res.status(500).json({ error: 'Server error moving family member.' });
+    }
+  }
+
+  splitFamily = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const headId = safeInt(req.params.headId);
+    const newHeadId = parseInt(req.body.newHeadId, 10);
+    const memberIds = Array.isArray(req.body.memberIds) ? req.body.memberIds.map((id: any) => parseInt(id, 10)) : [];
+    if (isNaN(headId) || isNaN(newHeadId) || memberIds.some((id: number) => isNaN(id))) {
+      res.status(400).json({ error: 'A valid family head ID, newHeadId and list of memberIds are required.' });
+      return;
+    }
+    const contact = this.parseHeadContact(req.body);
+    if (typeof contact === 'string') {
+      res.status(400).json({ error: contact });
+      return;
+    }
+    try {
+        const result = await familyStructureService.splitFamily(headId, newHeadId, memberIds, contact);
+        await this.respondWithHousehold(res, result);
+    } catch (error) {
+        console.error('Error splitting family:', error);
+        res.status(500).json({ error: 'Server error splitting family.' });
+    }
+  }
+
+  dissolveFamily = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const headId = safeInt(req.params.headId);
+    const contacts = Array.isArray(req.body.contacts) ? req.body.contacts : [];
+    if (isNaN(headId)) {
+      res.status(400).json({ error: 'Invalid family head ID.' });
+      return;
+    }
+    if (contacts.some((c: any) => isNaN(parseInt(c?.patientId, 10)) || (c.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(c.email)))) {
+      res.status(400).json({ error: 'Each contact needs a valid patientId and email address format.' });
+      return;
+    }
+    try {
+        const result = await familyStructureService.dissolveFamily(headId, contacts.map((c: any) => ({
+            patientId: parseInt(c.patientId, 10), phoneNumber: c.phoneNumber, email: c.email,
+        })));
+        if (!result.success) {
+            res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
+            return;
+        }
+        res.json({ message: result.message });
+    } catch (error) {
+        console.error('Error dissolving family:', error);
+        res.status(500).json({ error: 'Server error dissolving family.' });
+    }
+  }
+
+  findDuplicatePatients = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const patientId = req.query.patientId ? safeInt(req.query.patientId as string) : undefined;
+    const minScore = req.query.minScore ? safeInt(req.query.minScore as string) : undefined;
+    if ((patientId !== undefined && isNaN(patientId)) || (minScore !== undefined && (isNaN(minScore) || minScore < 0 || minScore > 100))) {
+      res.status(400).json({ error: 'Invalid patient ID or minimum score (0-100).' });
+      return;
+    }
+    try {
+        const candidates = await patientMergeService.findDuplicateCandidates({ patientId, minScore });
+        res.json(candidates);
+    } catch (error) {
+        console.error('Error finding duplicate patients:', error);
+        res.status(500).json({ error: 'Server error finding duplicate patients.' });
+    }
+  }
+
+  mergePatients = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const survivorId = safeInt(req.params.id);
+    const duplicateId = parseInt(req.body.duplicateId, 10);
+    if (isNaN(survivorId) || isNaN(duplicateId)) {
+      res.status(400).json({ error: 'A valid surviving patient ID and duplicateId are required.' });
+      return;
+    }
+    try {
+        const result = await patientMergeService.mergePatients(survivorId, duplicateId, req.user?.userId ?? null, req.body.reason);
+        if (!result.success) {
+            res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
+            return;
+        }
+        res.json({ message: result.message, merge: result.merge });
+    } catch (error) {
+        console.error('Error merging patients:', error);
+        res.status(500).json({ error: 'Server error merging patients.' });
+    }
+  }
+
+  getPatientMergeHistory = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const patientId = safeInt(req.params.id);
+    if (isNaN(patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    try {
+        const merges = await patientMergeService.getMergeHistory(patientId);
+        res.json(merges);
+    } catch (error) {
+        console.error('Error fetching patient merge history:', error);
+        res.status(500).json({ error: 'Server error fetching merge history.' });
+    }
+  }
+
   getScheduledPatients = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         const date = req.query.date as string | undefined;
+        if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            res.status(400).json({ error: 'Date must be in YYYY-MM-DD format.' });
+            return;
+        }
         const settings = await settingsService.getSettings();
         const patients = await patientService.getScheduledPatients(date, req.user, settings);
         res.json(patients);
@@ -224,9 +431,9 @@ export class PatientController {
     }
   }
 
-  scheduleNextAppointment = async (req: Request, res: Response): Promise<void> => {
+  scheduleNextAppointment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const patientId = safeInt(req.params.patientId);
-    const { interval } = req.body;
+    const { interval, time, doctorId, chair, procedure } = req.body;
     if (isNaN(patientId)) {
       res.status(400).json({ error: 'Invalid patient ID.' });
       return;
@@ -235,14 +442,28 @@ export class PatientController {
       res.status(400).json({ error: 'An interval string must be provided.' });
       return;
     }
+    if (time !== undefined && (typeof time !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(time))) {
+      res.status(400).json({ error: 'Time must be in HH:mm format.' });
+      return;
+    }
+    if (doctorId !== undefined && doctorId !== null && isNaN(safeInt(doctorId))) {
+      res.status(400).json({ error: 'Invalid doctor ID.' });
+      return;
+    }
     try {
-      const result = await patientService.scheduleNextAppointment(patientId, interval);
+      const result = await patientService.scheduleNextAppointment(patientId, interval, {
+        time,
+        doctorId: doctorId ? safeInt(doctorId) : null,
+        chair,
+        procedure,
+        createdBy: req.user?.userId ?? null,
+      });
       if (!result.success) {
-        const statusCode = result.message.includes('not found') ? 404 : 400;
-        res.status(statusCode).json({ error: result.message });
+        const statusCode = result.message.includes('not found') ? 404 : result.conflicts ? 409 : 400;
+        res.status(statusCode).json({ error: result.message, conflicts: result.conflicts });
         return;
       }
-      res.status(200).json({ message: result.message, patient: result.patient });
+      res.status(200).json({ message: result.message, patient: result.patient, appointment: result.appointment });
     } catch (error) {
       console.error('Error in scheduleNextAppointment controller:', error);
       res.status(500).json({ error: 'Server error scheduling next appointment.' });
@@ -326,14 +547,18 @@ export class PatientController {
 
   createDentalRecord = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const patientId = safeInt(req.params.patientId);
-    const doctorId = req.user!.userId;
     if (isNaN(patientId)) {
       res.status(400).json({ error: 'Invalid patient ID.' });
       return;
     }
-    const recordData: Partial<InferInsertModel<typeof dentalRecords>> = req.body;
+    const { toothChart, ...recordData }: Partial<InferInsertModel<typeof dentalRecords>> & { toothChart?: unknown } = req.body;
+    const chart = toothChart === undefined ? undefined : odontogramService.parseToothChart(toothChart);
+    if (chart && !chart.success) {
+      res.status(400).json({ error: chart.message });
+      return;
+    }
     try {
-      const result = await patientService.createDentalRecord(patientId, doctorId, recordData);
+      const result = await patientService.createDentalRecord(patientId, req.user!, recordData, chart?.entries);
       if (!result.success) {
         res.status((result.message?.includes('not found') ? 404 : 500)).json({ error: result.message ?? 'Unknown error.' });
         return;
@@ -360,6 +585,31 @@ export class PatientController {
     }
   }
 
+  // Treatment summary of all the patient's dental records, e.g. for HMO claims.
+  getDentalSummaryPdf = async (req: Request, res: Response): Promise<void> => {
+    const patientId = safeInt(req.params.patientId);
+    if (isNaN(patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    try {
+      const patient = await patientService._getPatientWithContactInfoForInternalUse(patientId);
+      if (!patient) {
+        res.status(404).json({ error: 'Patient not found.' });
+        return;
+      }
+      const records = await patientService.getDentalRecordsByPatientId(patientId);
+      const html = await emailService.renderDentalRecordSummaryHtml({ patientName: patient.name, records });
+      const pdf = await pdfService.htmlToPdf(html);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="treatment-summary-${patientId}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Error in getDentalSummaryPdf controller:', error);
+      res.status(500).json({ error: 'Server error generating treatment summary PDF.' });
+    }
+  }
+
   getSpecificDentalRecordForPatient = async (req: Request, res: Response): Promise<void> => {
     const patientId = safeInt(req.params.patientId);
     const recordId = safeInt(req.params.recordId);
@@ -405,30 +655,163 @@ export class PatientController {
       res.status(400).json({ error: 'Invalid record ID.' });
       return;
     }
+    const { toothChart, amendmentReason, ...updateData }: Partial<InferInsertModel<typeof dentalRecords>> & { toothChart?: unknown; amendmentReason?: string } = req.body;
+    const chart = toothChart === undefined ? undefined : odontogramService.parseToothChart(toothChart);
+    if (chart && !chart.success) {
+      res.status(400).json({ error: chart.message });
+      return;
+    }
     try {
-      const updateData: Partial<InferInsertModel<typeof dentalRecords>> = req.body;
-      const result = await patientService.updateDentalRecord(recordId, updateData);
+      const result = await patientService.updateDentalRecord(recordId, updateData, chart?.entries, req.user!.userId, amendmentReason);
       if (!result.success) {
-        res.status(404).json({ error: result.message });
+        res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
         return;
       }
-      res.json({ message: 'Dental record updated successfully.' });
+      res.json({ message: result.message });
     } catch (error) {
       console.error('Error in updateDentalRecord controller:', error);
       res.status(500).json({ error: 'Server error updating dental record.' });
     }
   }
 
-  deleteDentalRecord = async (req: Request, res: Response): Promise<void> => {
+  // The patient's current tooth chart, folded over all their dental records.
+  getToothChart = async (req: Request, res: Response): Promise<void> => {
+    const patientId = safeInt(req.params.patientId);
+    if (isNaN(patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    try {
+      const patient = await patientService._getPatientWithContactInfoForInternalUse(patientId);
+      if (!patient) {
+        res.status(404).json({ error: 'Patient not found.' });
+        return;
+      }
+      const teeth = await odontogramService.getCurrentChart(patientId);
+      res.json({ patientId, teeth });
+    } catch (error) {
+      console.error('Error in getToothChart controller:', error);
+      res.status(500).json({ error: 'Server error fetching tooth chart.' });
+    }
+  }
+
+  // e.g. ?tooth=36&condition=caries: patients whose latest charting of the tooth shows the condition.
+  findPatientsByToothCondition = async (req: Request, res: Response): Promise<void> => {
+    const tooth = safeInt(req.query.tooth as string);
+    const condition = req.query.condition as ToothCondition;
+    const surface = req.query.surface as ToothSurface | undefined;
+    if (!isFdiTooth(tooth)) {
+      res.status(400).json({ error: 'A valid FDI tooth number is required.' });
+      return;
+    }
+    if (!TOOTH_CONDITIONS.includes(condition)) {
+      res.status(400).json({ error: `Condition must be one of: ${TOOTH_CONDITIONS.join(', ')}.` });
+      return;
+    }
+    if (surface !== undefined && !TOOTH_SURFACES.includes(surface)) {
+      res.status(400).json({ error: `Surface must be one of: ${TOOTH_SURFACES.join(', ')}.` });
+      return;
+    }
+    try {
+      const matches = await odontogramService.findPatientsWithCondition(tooth, condition, surface);
+      res.json(matches);
+    } catch (error) {
+      console.error('Error in findPatientsByToothCondition controller:', error);
+      res.status(500).json({ error: 'Server error searching tooth conditions.' });
+    }
+  }
+
+  // Finalises a record; it is read-only afterwards and only takes addenda.
+  signOffDentalRecord = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const recordId = safeInt(req.params.id);
+    if (isNaN(recordId)) {
+      res.status(400).json({ error: 'Invalid record ID.' });
+      return;
+    }
+    try {
+      const allowed = await settingsService.hasPermission('patientManagement', 'canSignOffDentalRecord', req.user!.role);
+      if (!allowed) {
+        res.status(403).json({ error: 'Access denied: Only doctors can sign off dental records.' });
+        return;
+      }
+      const result = await dentalRecordSignOffService.signOff(recordId, req.user!);
+      if (!result.success) {
+        const status = result.message.includes('not found') ? 404 : result.message.startsWith('Only') ? 403 : 409;
+        res.status(status).json({ error: result.message });
+        return;
+      }
+      const record = await patientService.getDentalRecordById(recordId);
+      res.json({ message: result.message, record });
+    } catch (error) {
+      console.error('Error in signOffDentalRecord controller:', error);
+      res.status(500).json({ error: 'Server error signing off dental record.' });
+    }
+  }
+
+  addDentalRecordAddendum = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const recordId = safeInt(req.params.id);
+    const { content } = req.body;
     if (isNaN(recordId)) {
       res.status(400).json({ error: 'Invalid record ID.' });
       return;
     }
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      res.status(400).json({ error: 'Addendum content is required.' });
+      return;
+    }
     try {
-      const result = await patientService.deleteDentalRecord(recordId);
+      const result = await dentalRecordSignOffService.addAddendum(recordId, content.trim(), req.user!.userId);
       if (!result.success) {
-        res.status(404).json({ error: result.message });
+        res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
+        return;
+      }
+      res.status(201).json({ message: result.message, addendum: result.addendum });
+    } catch (error) {
+      console.error('Error in addDentalRecordAddendum controller:', error);
+      res.status(500).json({ error: 'Server error adding addendum.' });
+    }
+  }
+
+  // Every amendment to a dental record, oldest first, including soft deletion.
+  getDentalRecordHistory = async (req: Request, res: Response): Promise<void> => {
+    const recordId = safeInt(req.params.id);
+    if (isNaN(recordId)) {
+      res.status(400).json({ error: 'Invalid record ID.' });
+      return;
+    }
+    try {
+      const history = await dentalRecordHistoryService.getHistory(recordId);
+      if (!history) {
+        res.status(404).json({ error: 'Dental record not found.' });
+        return;
+      }
+      res.json(history);
+    } catch (error) {
+      console.error('Error in getDentalRecordHistory controller:', error);
+      res.status(500).json({ error: 'Server error fetching dental record history.' });
+    }
+  }
+
+  deleteDentalRecord = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const recordId = safeInt(req.params.id);
+    const { reason } = req.body ?? {};
+    if (isNaN(recordId)) {
+      res.status(400).json({ error: 'Invalid record ID.' });
+      return;
+    }
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'A reason is required to delete a dental record.' });
+      return;
+    }
+    try {
+      const allowed = await settingsService.hasPermission('patientManagement', 'canDeleteDentalRecord', req.user!.role);
+      if (!allowed) {
+        res.status(403).json({ error: 'Access denied: You are not allowed to delete dental records.' });
+        return;
+      }
+      const result = await patientService.deleteDentalRecord(recordId, req.user!.userId, reason.trim());
+      if (!result.success) {
+        res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
         return;
       }
       res.json({ message: 'Dental record deleted successfully.' });
@@ -444,8 +827,13 @@ export class PatientController {
         res.status(400).json({ error: 'Invalid doctor ID.' });
         return;
     }
+    const date = req.query.date as string | undefined;
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        res.status(400).json({ error: 'Date must be in YYYY-MM-DD format.' });
+        return;
+    }
     try {
-        const patients = await patientService.getPatientsForDoctor(doctorId);
+        const patients = await patientService.getPatientsForDoctor(doctorId, date);
         res.json(patients);
     } catch (error) {
         console.error('Error in getDoctorSchedule controller:', error);
@@ -0,0 +1,166 @@
+// src/controllers/patientImage.controller.ts
+import { Request, Response } from 'express';
+import { patientImageService, IMAGE_TYPES, ImageType, ImageDetails } from '../services/patientImage.service';
+import { isFdiTooth } from '../services/odontogram.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+export class PatientImageController {
+  constructor() {}
+
+  private parseImageId = (req: Request, res: Response): number | null => {
+    const imageId = parseInt(req.params.id as string);
+    if (isNaN(imageId)) {
+      res.status(400).json({ error: 'Invalid image ID.' });
+      return null;
+    }
+    return imageId;
+  }
+
+  // Multipart fields arrive as strings. Answers 400 and returns null when a field is invalid.
+  private parseImageDetails = (req: AuthenticatedRequest, res: Response, defaults: { imageType?: ImageType; requireRecord?: boolean } = {}): ImageDetails | null => {
+    const patientId = parseInt(req.body.patientId);
+    const recordField = req.body.dentalRecordId ?? req.body.recordId;
+    const dentalRecordId = recordField ? parseInt(recordField) : null;
+    const tooth = req.body.tooth ? parseInt(req.body.tooth) : null;
+    const capturedAt = req.body.capturedAt ? new Date(req.body.capturedAt) : undefined;
+    const imageType = (req.body.imageType || defaults.imageType) as ImageType;
+    if (isNaN(patientId) || (dentalRecordId !== null && isNaN(dentalRecordId))) {
+      res.status(400).json({ error: 'A valid patient ID (and dental record ID, if given) is required.' });
+      return null;
+    }
+    if (defaults.requireRecord && dentalRecordId === null) {
+      res.status(400).json({ error: 'patientId and recordId are required.' });
+      return null;
+    }
+    if (!IMAGE_TYPES.includes(imageType)) {
+      res.status(400).json({ error: `Image type must be one of: ${IMAGE_TYPES.join(', ')}.` });
+      return null;
+    }
+    if (tooth !== null && !isFdiTooth(tooth)) {
+      res.status(400).json({ error: 'Tooth must be an FDI tooth number (e.g. 36).' });
+      return null;
+    }
+    if (capturedAt && isNaN(capturedAt.getTime())) {
+      res.status(400).json({ error: 'Invalid capture date.' });
+      return null;
+    }
+    return { patientId, dentalRecordId, imageType, tooth, capturedAt, notes: req.body.notes || null, uploadedBy: req.user!.userId };
+  }
+
+  uploadImage = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded. Please provide a file with the key "image".' });
+      return;
+    }
+    const details = this.parseImageDetails(req, res);
+    if (!details) return;
+    try {
+      const result = await patientImageService.uploadImage(details, req.file);
+      if (!result.success) {
+        res.status(result.message?.includes('not found') ? 404 : 400).json({ error: result.message });
+        return;
+      }
+      res.status(201).json({ message: result.message, image: result.image, warnings: result.warnings });
+    } catch (error: any) {
+      console.error('Error in uploadImage controller:', error);
+      res.status(500).json({ error: 'Image upload failed.', details: error.message });
+    }
+  }
+
+  /**
+   * The original X-ray endpoint, now filed in the imaging library against a patient and record.
+   * `xrayUrl` and `publicId` are still returned for clients that copy them into the dental record.
+   */
+  uploadXray = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded. Please provide a file with the key "xray".' });
+      return;
+    }
+    const details = this.parseImageDetails(req, res, { imageType: 'periapical', requireRecord: true });
+    if (!details) return;
+    try {
+      const result = await patientImageService.uploadImage(details, req.file);
+      if (!result.success || !result.image) {
+        res.status(result.message?.includes('not found') ? 404 : 400).json({ error: result.message });
+        return;
+      }
+      res.status(201).json({
+        message: 'Image uploaded successfully',
+        xrayUrl: result.image.url ?? `${process.env.API_PREFIX || '/api'}/patient-images/${result.image.id}/file`,
+        publicId: result.image.storageKey,
+        image: result.image,
+        warnings: result.warnings,
+      });
+    } catch (error: any) {
+      console.error('Error in uploadXray controller:', error);
+      res.status(500).json({ error: 'Image upload failed.', details: error.message });
+    }
+  }
+
+  getImages = async (req: Request, res: Response): Promise<void> => {
+    const patientId = parseInt(req.query.patientId as string);
+    const dentalRecordId = req.query.dentalRecordId ? parseInt(req.query.dentalRecordId as string) : undefined;
+    const tooth = req.query.tooth ? parseInt(req.query.tooth as string) : undefined;
+    const imageType = req.query.imageType as ImageType | undefined;
+    if (isNaN(patientId) || (dentalRecordId !== undefined && isNaN(dentalRecordId)) || (tooth !== undefined && isNaN(tooth))) {
+      res.status(400).json({ error: 'A valid patientId is required; dentalRecordId and tooth must be numbers.' });
+      return;
+    }
+    if (imageType && !IMAGE_TYPES.includes(imageType)) {
+      res.status(400).json({ error: `Image type must be one of: ${IMAGE_TYPES.join(', ')}.` });
+      return;
+    }
+    try {
+      const images = await patientImageService.getImages({ patientId, dentalRecordId, imageType, tooth });
+      res.json(images);
+    } catch (error) {
+      console.error('Error in getImages controller:', error);
+      res.status(500).json({ error: 'Server error fetching patient images.' });
+    }
+  }
+
+  // Streams the stored file (?variant=preview|thumbnail), so images kept on the local store are never exposed statically.
+  getImageFile = async (req: Request, res: Response): Promise<void> => {
+    const imageId = this.parseImageId(req, res);
+    if (imageId === null) return;
+    try {
+      const variant = req.query.variant === 'thumbnail' || req.query.variant === 'preview' ? req.query.variant : 'original';
+      const file = await patientImageService.getImageFile(imageId, variant);
+      if (!file) {
+        res.status(404).json({ error: variant === 'original' ? 'Image not found.' : `Image or ${variant} not found.` });
+        return;
+      }
+      res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
+      // DICOM originals are for download into a viewer; everything else displays inline.
+      res.setHeader('Content-Disposition', `${file.isDicomOriginal ? 'attachment' : 'inline'}; filename="${(file.image.originalFilename || `image-${imageId}`).replace(/"/g, '')}"`);
+      res.send(file.buffer);
+    } catch (error) {
+      console.error('Error in getImageFile controller:', error);
+      res.status(500).json({ error: 'Server error reading image.' });
+    }
+  }
+
+  deleteImage = async (req: Request, res: Response): Promise<void> => {
+    const imageId = this.parseImageId(req, res);
+    if (imageId === null) return;
+    try {
+      const result = await patientImageService.deleteImage(imageId);
+      if (!result.success) {
+        res.status(404).json({ error: result.message });
+        return;
+      }
+      res.json({ message: result.message });
+    } catch (error) {
+      console.error('Error in deleteImage controller:', error);
+      res.status(500).json({ error: 'Server error deleting image.' });
+    }
+  }
+}
+
+export const patientImageController = new PatientImageController();
@@ -0,0 +1,252 @@
+// src/controllers/prescription.controller.ts
+import { Request, Response } from 'express';
+import { emailService } from '../services/email.service';
+import { familyAccountService } from '../services/familyAccount.service';
+import { pdfService } from '../services/pdf.service';
+import { prescriptionService, PrescriptionItemInput } from '../services/prescription.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const optionalText = (value: unknown) => (value === undefined ? undefined : value === null || value === '' ? null : String(value).trim());
+
+export class PrescriptionController {
+  constructor() {}
+
+  private parseItems = (body: any, res: Response): PrescriptionItemInput[] | null => {
+    if (!Array.isArray(body.items) || body.items.length === 0) {
+      res.status(400).json({ error: 'Items must be a non-empty array of drugs.' });
+      return null;
+    }
+    if (body.items.some((item: any) => item.drugId !== undefined && item.drugId !== null && isNaN(parseInt(item.drugId)))) {
+      res.status(400).json({ error: 'Invalid drug ID.' });
+      return null;
+    }
+    return body.items.map((item: any) => ({
+      drugId: item.drugId ? parseInt(item.drugId) : null,
+      drugName: item.drugName,
+      dose: item.dose,
+      frequency: item.frequency,
+      duration: item.duration,
+      instructions: item.instructions,
+    }));
+  }
+
+  // Catalogue fields accepted on create and update; `allergenClasses` is a list of allergy groups.
+  private parseDrug = (body: any, res: Response, requireName: boolean) => {
+    const { name, genericName, form, strength, defaultDose, defaultFrequency, defaultDuration, allergenClasses, isActive } = body;
+    if ((requireName || name !== undefined) && (typeof name !== 'string' || !name.trim())) {
+      res.status(400).json({ error: 'A drug name is required.' });
+      return null;
+    }
+    if (allergenClasses !== undefined && allergenClasses !== null && (!Array.isArray(allergenClasses) || allergenClasses.some((entry: unknown) => typeof entry !== 'string'))) {
+      res.status(400).json({ error: 'Allergen classes must be an array of strings.' });
+      return null;
+    }
+    return {
+      name: name?.trim(),
+      genericName: optionalText(genericName),
+      form: optionalText(form),
+      strength: optionalText(strength),
+      defaultDose: optionalText(defaultDose),
+      defaultFrequency: optionalText(defaultFrequency),
+      defaultDuration: optionalText(defaultDuration),
+      allergenClasses: allergenClasses === undefined ? undefined : (allergenClasses ?? []).map((entry: string) => entry.trim().toLowerCase()).filter(Boolean),
+      isActive: isActive === undefined ? undefined : !!isActive,
+    };
+  }
+
+  getDrugs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const drugList = await prescriptionService.getDrugs(req.query.includeInactive === 'true');
+      res.json(drugList);
+    } catch (error) {
+      console.error('Error in getDrugs controller:', error);
+      res.status(500).json({ error: 'Server error fetching drug catalogue.' });
+    }
+  }
+
+  addDrug = async (req: Request, res: Response): Promise<void> => {
+    const drug = this.parseDrug(req.body, res, true);
+    if (!drug) return;
+    try {
+      const result = await prescriptionService.addDrug({ ...drug, name: drug.name! });
+      if (!result.success) {
+        res.status(409).json({ error: result.message });
+        return;
+      }
+      res.status(201).json({ message: result.message, drug: result.drug });
+    } catch (error) {
+      console.error('Error in addDrug controller:', error);
+      res.status(500).json({ error: 'Server error adding drug.' });
+    }
+  }
+
+  updateDrug = async (req: Request, res: Response): Promise<void> => {
+    const drugId = parseInt(req.params.id as string);
+    if (isNaN(drugId)) {
+      res.status(400).json({ error: 'Invalid drug ID.' });
+      return;
+    }
+    const drug = this.parseDrug(req.body, res, false);
+    if (!drug) return;
+    try {
+      const result = await prescriptionService.updateDrug(drugId, drug);
+      if (!result.success) {
+        res.status(result.message?.includes('not found') ? 404 : 409).json({ error: result.message });
+        return;
+      }
+      res.json({ message: result.message, drug: result.drug });
+    } catch (error) {
+      console.error('Error in updateDrug controller:', error);
+      res.status(500).json({ error: 'Server error updating drug.' });
+    }
+  }
+
+  getPrescriptions = async (req: Request, res: Response): Promise<void> => {
+    const patientId = req.query.patientId ? parseInt(req.query.patientId as string) : undefined;
+    const dentalRecordId = req.query.dentalRecordId ? parseInt(req.query.dentalRecordId as string) : undefined;
+    if ((patientId !== undefined && isNaN(patientId)) || (dentalRecordId !== undefined && isNaN(dentalRecordId))) {
+      res.status(400).json({ error: 'Invalid patient or dental record ID.' });
+      return;
+    }
+    try {
+      const prescriptionList = await prescriptionService.getPrescriptions({ patientId, dentalRecordId });
+      res.json(prescriptionList);
+    } catch (error) {
+      console.error('Error in getPrescriptions controller:', error);
+      res.status(500).json({ error: 'Server error fetching prescriptions.' });
+    }
+  }
+
+  getPrescriptionById = async (req: Request, res: Response): Promise<void> => {
+    const prescriptionId = parseInt(req.params.id as string);
+    if (isNaN(prescriptionId)) {
+      res.status(400).json({ error: 'Invalid prescription ID.' });
+      return;
+    }
+    try {
+      const prescription = await prescriptionService.getPrescriptionById(prescriptionId);
+      if (!prescription) {
+        res.status(404).json({ error: 'Prescription not found.' });
+        return;
+      }
+      res.json(prescription);
+    } catch (error) {
+      console.error('Error in getPrescriptionById controller:', error);
+      res.status(500).json({ error: 'Server error fetching prescription.' });
+    }
+  }
+
+  // Lets the prescriber see allergy conflicts before submitting the prescription.
+  checkAllergies = async (req: Request, res: Response): Promise<void> => {
+    const patientId = parseInt(req.body.patientId);
+    if (isNaN(patientId)) {
+      res.status(400).json({ error: 'A valid patient ID is required.' });
+      return;
+    }
+    const items = this.parseItems(req.body, res);
+    if (!items) return;
+    try {
+      const result = await prescriptionService.checkAllergies(patientId, items);
+      if (result.success === false) {
+        res.status(400).json({ error: result.message });
+        return;
+      }
+      res.json({ conflicts: result.conflicts, unspecifiedAllergy: result.unspecifiedAllergy });
+    } catch (error) {
+      console.error('Error in checkAllergies controller:', error);
+      res.status(500).json({ error: 'Server error checking allergies.' });
+    }
+  }
+
+  createPrescription = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const dentalRecordId = parseInt(req.body.dentalRecordId);
+    if (isNaN(dentalRecordId)) {
+      res.status(400).json({ error: 'A valid dental record ID is required.' });
+      return;
+    }
+    const items = this.parseItems(req.body, res);
+    if (!items) return;
+    try {
+      const result = await prescriptionService.createPrescription({
+        dentalRecordId,
+        items,
+        notes: optionalText(req.body.notes),
+        allergyOverrideReason: optionalText(req.body.allergyOverrideReason),
+        prescribedBy: req.user!.userId,
+      });
+      if (!result.success) {
+        const status = result.message?.includes('not found') ? 404 : 'allergyCheck' in result ? 409 : 400;
+        res.status(status).json({ error: result.message, ...('allergyCheck' in result ? { allergyCheck: result.allergyCheck } : {}) });
+        return;
+      }
+      res.status(201).json({ message: result.message, prescription: result.prescription, allergyCheck: result.allergyCheck });
+    } catch (error) {
+      console.error('Error in createPrescription controller:', error);
+      res.status(500).json({ error: 'Server error creating prescription.' });
+    }
+  }
+
+  getPrescriptionPdf = async (req: Request, res: Response): Promise<void> => {
+    const prescriptionId = parseInt(req.params.id as string);
+    if (isNaN(prescriptionId)) {
+      res.status(400).json({ error: 'Invalid prescription ID.' });
+      return;
+    }
+    try {
+      const prescription = await prescriptionService.getPrescriptionById(prescriptionId);
+      if (!prescription) {
+        res.status(404).json({ error: 'Prescription not found.' });
+        return;
+      }
+      const payload = await prescriptionService.toEmailPayload(prescription);
+      const html = await emailService.renderPrescriptionHtml(payload);
+      const pdf = await pdfService.htmlToPdf(html);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${payload.prescriptionNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Error in getPrescriptionPdf controller:', error);
+      res.status(500).json({ error: 'Server error generating prescription PDF.' });
+    }
+  }
+
+  sendPrescription = async (req: Request, res: Response): Promise<void> => {
+    const prescriptionId = parseInt(req.params.id as string);
+    if (isNaN(prescriptionId)) {
+      res.status(400).json({ error: 'Invalid prescription ID.' });
+      return;
+    }
+    try {
+      const prescription = await prescriptionService.getPrescriptionById(prescriptionId);
+      if (!prescription) {
+        res.status(404).json({ error: 'Prescription not found.' });
+        return;
+      }
+      // Members without an address of their own are reached through the family head.
+      const email = await familyAccountService.getBillingEmail(prescription.patientId);
+      if (!email) {
+        res.status(404).json({ error: 'Patient email not available in the database.' });
+        return;
+      }
+      const emailResult = await emailService.sendPrescriptionEmail(email, await prescriptionService.toEmailPayload(prescription));
+      if (!emailResult.success) {
+        console.error('Failed to send prescription email:', emailResult.error);
+        res.status(500).json({ error: 'Failed to send prescription email.' });
+        return;
+      }
+      await prescriptionService.markPrescriptionSent(prescriptionId);
+      res.json({ message: 'Prescription sent successfully!', messageId: emailResult.messageId });
+    } catch (error) {
+      console.error('Error in sendPrescription controller:', error);
+      res.status(500).json({ error: 'Server error sending prescription.' });
+    }
+  }
+}
+
+export const prescriptionController = new PrescriptionController();
@@ -2,6 +2,12 @@ import { Request, Response } from 'express';
 import { createHash } from 'crypto'; // Import Node.js crypto module
 import { emailService } from '../services/email.service';
 import { patientService } from '../services/patient.service';
+import { familyAccountService } from '../services/familyAccount.service';
+import { receiptService } from '../services/receipt.service';
+import { creditNoteService } from '../services/creditNote.service';
+import { pdfService } from '../services/pdf.service';
+import { settingsService } from '../services/settings.service';
+import { creditNoteController } from './creditNote.controller';
 import { googleSheetsService } from '../services/googleSheets.service';
 import { db } from '../config/database';
 import { idempotencyKeys } from '../../db/schema';
@@ -45,11 +51,97 @@ function createReceiptFingerprint(receiptData: any): string {
 export class ReceiptController {
   constructor() {}
 
+  /**
+   * Maps the frontend's `receiptData` payload onto a ledger entry and persists it.
+   * Any `receiptNumber` in the payload is ignored; the number is allocated server-side.
+   * Returns null after writing an error response when the payload is rejected.
+   */
+  private persistReceipt = async (req: AuthenticatedRequest, res: Response, receiptData: any) => {
+    const receiptDate = new Date(receiptData.receiptDate);
+    if (isNaN(receiptDate.getTime())) {
+      res.status(400).json({ error: 'Invalid receipt date.' });
+      return null;
+    }
+    const amountPaid = Number(receiptData.amountPaid || 0);
+    if (!Number.isFinite(amountPaid) || amountPaid < 0) {
+      res.status(400).json({ error: 'Amount paid must be zero or a positive number.' });
+      return null;
+    }
+
+    const result = await receiptService.createReceipt({
+      patientId: Number(receiptData.patientId),
+      receiptDate,
+      amountPaid: receiptData.amountPaid,
+      paymentMethod: receiptData.paymentMethod,
+      invoiceId: receiptData.invoiceId ? Number(receiptData.invoiceId) : null,
+      items: Array.isArray(receiptData.items) ? receiptData.items : [],
+      subtotal: receiptData.subtotal,
+      totalDueFromPatient: receiptData.totalDueFromPatient,
+      isHmoCovered: receiptData.isHmoCovered,
+      hmoProviderId: receiptData.hmoProviderId ? Number(receiptData.hmoProviderId) : null,
+      hmoName: receiptData.hmoName,
+      coveredAmount: receiptData.coveredAmount,
+      allocations: Array.isArray(receiptData.allocations) ? receiptData.allocations : undefined,
+      payForFamily: !!receiptData.payForFamily,
+      notes: receiptData.notes,
+      createdBy: req.user?.userId ?? null,
+    });
+
+    if (!result.success || !result.receipt) {
+      const message = result.message ?? 'Failed to record receipt.';
+      res.status(message.includes('not found') ? 404 : 400).json({ error: message });
+      return null;
+    }
+    return result.receipt;
+  }
+
+  private emailReceipt = async (receiptId: number, senderUserId: number, logToSheet: boolean, latestDentalRecord?: any) => {
+    const receipt = await receiptService.getReceiptById(receiptId);
+    if (!receipt) return { success: false, status: 404, error: 'Receipt not found.' };
+
+    // Members without an email of their own are billed through their family head.
+    const billingEmail = await familyAccountService.getBillingEmail(receipt.patientId);
+    if (!billingEmail) return { success: false, status: 404, error: 'Patient email not available in the database.' };
+
+    const emailPayload = receiptService.toEmailPayload(receipt, { patientEmail: billingEmail, latestDentalRecord });
+    const emailResult = await emailService.sendReceiptEmail(billingEmail, emailPayload, senderUserId, logToSheet);
+    if (!emailResult.success) {
+      console.error('Failed to send receipt email:', emailResult.error);
+      return { success: false, status: 500, error: 'Failed to send receipt email.', details: emailResult.error };
+    }
+
+    await receiptService.markReceiptSent(receiptId);
+    return { success: true, messageId: emailResult.messageId };
+  }
+
+  createReceipt = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { receiptData } = req.body;
+
+    if (!receiptData || !receiptData.patientId || !receiptData.receiptDate || receiptData.amountPaid === undefined || !receiptData.paymentMethod) {
+      res.status(400).json({ error: 'Receipt data (patient ID, date, amount paid, and payment method) are required.' });
+      return;
+    }
+    if (isNaN(receiptData.patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID in receipt data.' });
+      return;
+    }
+
+    try {
+      const receipt = await this.persistReceipt(req, res, receiptData);
+      if (!receipt) return;
+      res.status(201).json({ message: 'Receipt recorded successfully.', receipt });
+    } catch (error) {
+      console.error('Error in createReceipt controller:', error);
+      res.status(500).json({ error: 'Server error recording receipt.' });
+    }
+  };
+
   sendReceipt = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const { receiptData, senderUserId } = req.body;
 
-    if (!receiptData || !receiptData.patientId || !receiptData.receiptNumber || !receiptData.receiptDate || receiptData.amountPaid === undefined || receiptData.totalDueFromPatient === undefined || !receiptData.paymentMethod) {
-      res.status(400).json({ error: 'Receipt data (patient ID, receipt number, date, amount paid, total due, and payment method) are required.' });
+    // Without `totalDueFromPatient` or `invoiceId` the receipt is recorded as a payment on account.
+    if (!receiptData || !receiptData.patientId || !receiptData.receiptDate || receiptData.amountPaid === undefined || !receiptData.paymentMethod) {
+      res.status(400).json({ error: 'Receipt data (patient ID, date, amount paid, and payment method) are required.' });
       return;
     }
 
@@ -94,30 +186,18 @@ export class ReceiptController {
         res.status(404).json({ error: 'Patient not found.' });
         return;
       }
-      const targetEmail = patient.email;
-
-      if (!targetEmail) {
+      if (!(await familyAccountService.getBillingEmail(patient.id))) {
         res.status(404).json({ error: 'Patient email not available in the database.' });
         return;
       }
 
-      const amountPaidNow = parseFloat(receiptData.amountPaid || 0);
-      const totalDueForTx = parseFloat(receiptData.totalDueFromPatient || 0);
-      const previousOutstanding = parseFloat(patient.outstanding as string || '0');
-      const balanceChangeFromTx = totalDueForTx - amountPaidNow;
-      const newFinalOutstanding = previousOutstanding + balanceChangeFromTx;
-
-      await patientService.updatePatient(patient.id, { outstanding: newFinalOutstanding.toFixed(2) });
-
-      const emailPayload = {
-        ...receiptData,
-        outstanding: newFinalOutstanding.toFixed(2)
-      };
+      const receipt = await this.persistReceipt(req, res, receiptData);
+      if (!receipt) return;
 
-      const emailResult = await emailService.sendReceiptEmail(targetEmail, emailPayload, senderUserId);
+      const sendResult = await this.emailReceipt(receipt.id, senderUserId ?? req.user!.userId, true, receiptData.latestDentalRecord);
 
-      if (emailResult.success) {
-        const responseBody = { message: 'Receipt sent successfully!', messageId: emailResult.messageId };
+      if (sendResult.success) {
+        const responseBody = { message: 'Receipt sent successfully!', messageId: sendResult.messageId, receiptId: receipt.id, receiptNumber: receipt.receiptNumber };
         const statusCode = 200;
 
         // 3. Save the receipt's fingerprint to prevent future duplicates
@@ -129,8 +209,8 @@ export class ReceiptController {
 
         res.status(statusCode).json(responseBody);
       } else {
-        console.error('Failed to send receipt email:', emailResult.error);
-        res.status(500).json({ error: 'Failed to send receipt email.', details: emailResult.error });
+        // The payment is already on the ledger, so the client can retry with /receipts/:id/resend.
+        res.status(sendResult.status ?? 500).json({ error: sendResult.error, details: sendResult.details, receiptId: receipt.id });
       }
     } catch (error) {
       console.error('Error in sendReceipt controller:', error);
@@ -138,6 +218,165 @@ export class ReceiptController {
     }
   };
 
+  resendReceipt = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const receiptId = parseInt(req.params.id as string);
+    if (isNaN(receiptId)) {
+      res.status(400).json({ error: 'Invalid receipt ID.' });
+      return;
+    }
+    try {
+      // Already logged to Google Sheets when first sent.
+      const sendResult = await this.emailReceipt(receiptId, req.user!.userId, false);
+      if (!sendResult.success) {
+        res.status(sendResult.status ?? 500).json({ error: sendResult.error, details: sendResult.details });
+        return;
+      }
+      res.status(200).json({ message: 'Receipt re-sent successfully!', messageId: sendResult.messageId });
+    } catch (error) {
+      console.error('Error in resendReceipt controller:', error);
+      res.status(500).json({ error: 'Server error re-sending receipt.' });
+    }
+  };
+
+  getReceipts = async (req: Request, res: Response): Promise<void> => {
+    const patientId = req.query.patientId ? parseInt(req.query.patientId as string) : undefined;
+    if (patientId !== undefined && isNaN(patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    try {
+      const receipts = await receiptService.getReceipts(patientId);
+      res.json(receipts);
+    } catch (error) {
+      console.error('Error in getReceipts controller:', error);
+      res.status(500).json({ error: 'Server error fetching receipts.' });
+    }
+  };
+
+  getReceiptById = async (req: Request, res: Response): Promise<void> => {
+    const receiptId = parseInt(req.params.id as string);
+    if (isNaN(receiptId)) {
+      res.status(400).json({ error: 'Invalid receipt ID.' });
+      return;
+    }
+    try {
+      const receipt = await receiptService.getReceiptById(receiptId);
+      if (!receipt) {
+        res.status(404).json({ error: 'Receipt not found.' });
+        return;
+      }
+      res.json(receipt);
+    } catch (error) {
+      console.error('Error in getReceiptById controller:', error);
+      res.status(500).json({ error: 'Server error fetching receipt.' });
+    }
+  };
+
+  getReceiptPdf = async (req: Request, res: Response): Promise<void> => {
+    const receiptId = parseInt(req.params.id as string);
+    if (isNaN(receiptId)) {
+      res.status(400).json({ error: 'Invalid receipt ID.' });
+      return;
+    }
+    try {
+      const receipt = await receiptService.getReceiptById(receiptId);
+      if (!receipt) {
+        res.status(404).json({ error: 'Receipt not found.' });
+        return;
+      }
+      const html = await emailService.renderReceiptHtml(receiptService.toEmailPayload(receipt));
+      const pdf = await pdfService.htmlToPdf(html);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${receipt.receiptNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Error in getReceiptPdf controller:', error);
+      res.status(500).json({ error: 'Server error generating receipt PDF.' });
+    }
+  };
+
+  updateReceipt = async (req: Request, res: Response): Promise<void> => {
+    const receiptId = parseInt(req.params.id as string);
+    if (isNaN(receiptId)) {
+      res.status(400).json({ error: 'Invalid receipt ID.' });
+      return;
+    }
+    const { notes, paymentMethod } = req.body;
+    if (notes === undefined && paymentMethod === undefined) {
+      res.status(400).json({ error: 'Only notes and payment method can be updated on a receipt.' });
+      return;
+    }
+    try {
+      const result = await receiptService.updateReceipt(receiptId, { notes, paymentMethod });
+      if (!result.success) {
+        res.status(404).json({ error: result.message });
+        return;
+      }
+      res.json({ message: result.message, receipt: result.receipt });
+    } catch (error) {
+      console.error('Error in updateReceipt controller:', error);
+      res.status(500).json({ error: 'Server error updating receipt.' });
+    }
+  };
+
+  /**
+   * Shared by `voidReceipt` and `refundReceipt`: checks the `canIssueRefund` permission,
+   * records the reversal, then emails the credit note. A failed email does not undo the reversal;
+   * the credit note can be re-sent from /credit-notes/:id/resend.
+   */
+  private reverseReceipt = async (req: AuthenticatedRequest, res: Response, type: 'void' | 'refund'): Promise<void> => {
+    const receiptId = parseInt(req.params.id as string);
+    if (isNaN(receiptId)) {
+      res.status(400).json({ error: 'Invalid receipt ID.' });
+      return;
+    }
+    const { reason, amount, refundMethod, sendEmail = true } = req.body;
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'A reason is required.' });
+      return;
+    }
+    if (type === 'refund' && amount === undefined) {
+      res.status(400).json({ error: 'Refund amount is required.' });
+      return;
+    }
+
+    try {
+      const allowed = await settingsService.hasPermission('patientManagement', 'canIssueRefund', req.user!.role);
+      if (!allowed) {
+        res.status(403).json({ error: 'Access denied: You are not allowed to void or refund receipts.' });
+        return;
+      }
+
+      const reversal = { reason: reason.trim(), refundMethod, createdBy: req.user!.userId };
+      const result = type === 'void'
+        ? await creditNoteService.voidReceipt(receiptId, reversal)
+        : await creditNoteService.refundReceipt(receiptId, amount, reversal);
+      if (!result.success || !result.creditNote) {
+        const message = result.message ?? 'Failed to reverse receipt.';
+        res.status(message.includes('not found') ? 404 : 409).json({ error: message });
+        return;
+      }
+
+      let emailSent = false;
+      if (sendEmail) {
+        const sendResult = await creditNoteController.emailCreditNote(result.creditNote.id, req.user!.userId, true);
+        emailSent = sendResult.success;
+      }
+      res.json({ message: result.message, creditNote: result.creditNote, emailSent });
+    } catch (error) {
+      console.error(`Error in ${type}Receipt controller:`, error);
+      res.status(500).json({ error: `Server error ${type === 'void' ? 'voiding' : 'refunding'} receipt.` });
+    }
+  };
+
+  voidReceipt = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await this.reverseReceipt(req, res, 'void');
+  };
+
+  refundReceipt = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await this.reverseReceipt(req, res, 'refund');
+  };
+
   getRevenueReport = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const allReceiptsData = await googleSheetsService.getReceiptsData();
@@ -36,6 +36,45 @@ export class SettingsController {
             res.status(500).json({ message: 'Error updating settings', error: error.message });
         }
     };
+
+    /**
+     * Handles the request to get the invoice/receipt numbering prefixes.
+     */
+    getNumberingSettings = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const config = await settingsService.getNumberingSettings();
+            res.status(200).json(config);
+        } catch (error: any) {
+            res.status(500).json({ message: 'Error fetching numbering settings', error: error.message });
+        }
+    };
+
+    /**
+     * Handles the request to update the invoice/receipt/credit note numbering prefixes.
+     * @param {Request} req - The Express request object containing `invoicePrefix`, `receiptPrefix`, `creditNotePrefix` and/or `padLength`.
+     * @param {Response} res - The Express response object.
+     */
+    updateNumberingSettings = async (req: Request, res: Response): Promise<void> => {
+        const { invoicePrefix, receiptPrefix, creditNotePrefix, padLength } = req.body;
+        const prefixPattern = /^[A-Za-z0-9-]{1,20}$/;
+
+        if ([invoicePrefix, receiptPrefix, creditNotePrefix].some(prefix => prefix !== undefined && !prefixPattern.test(prefix))) {
+            res.status(400).json({ message: 'Bad Request: Prefixes must be 1-20 letters, digits or dashes.' });
+            return;
+        }
+        if (padLength !== undefined && (!Number.isInteger(padLength) || padLength < 1 || padLength > 10)) {
+            res.status(400).json({ message: 'Bad Request: padLength must be a whole number between 1 and 10.' });
+            return;
+        }
+
+        try {
+            const newConfig = Object.fromEntries(Object.entries({ invoicePrefix, receiptPrefix, creditNotePrefix, padLength }).filter(([, value]) => value !== undefined));
+            const updatedConfig = await settingsService.updateNumberingSettings(newConfig);
+            res.status(200).json(updatedConfig);
+        } catch (error: any) {
+            res.status(500).json({ message: 'Error updating numbering settings', error: error.message });
+        }
+    };
 }
 
 export const settingsController = new SettingsController();
\ No newline at end of file
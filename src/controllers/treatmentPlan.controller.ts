@@ -0,0 +1,224 @@
+// src/controllers/treatmentPlan.controller.ts
+import { Request, Response } from 'express';
+import { treatmentPlanService, PROCEDURE_STATUSES, ProcedureStatus } from '../services/treatmentPlan.service';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+type PlanResult =
+  | Awaited<ReturnType<typeof treatmentPlanService.createPlan>>
+  | Awaited<ReturnType<typeof treatmentPlanService.updatePlan>>
+  | Awaited<ReturnType<typeof treatmentPlanService.deletePlan>>
+  | Awaited<ReturnType<typeof treatmentPlanService.addProcedures>>
+  | Awaited<ReturnType<typeof treatmentPlanService.updateProcedure>>
+  | Awaited<ReturnType<typeof treatmentPlanService.removeProcedure>>
+  | Awaited<ReturnType<typeof treatmentPlanService.setProcedureStatus>>
+  | Awaited<ReturnType<typeof treatmentPlanService.invoiceCompletedProcedures>>;
+
+export class TreatmentPlanController {
+  constructor() {}
+
+  // Maps a service result onto the response; failures naming a missing record become 404s.
+  private respond = (res: Response, result: PlanResult, successStatus = 200) => {
+    if (!result.success) {
+      res.status(result.message?.includes('not found') ? 404 : 409).json({ error: result.message });
+      return;
+    }
+    const plan = 'plan' in result ? result.plan : undefined;
+    const invoice = 'invoice' in result ? result.invoice : undefined;
+    res.status(successStatus).json({ message: result.message, plan, ...(invoice ? { invoice } : {}) });
+  }
+
+  private parseIds = (req: Request, res: Response): { planId: number; procedureId: number } | null => {
+    const planId = parseInt(req.params.id as string);
+    const procedureId = req.params.procedureId !== undefined ? parseInt(req.params.procedureId as string) : 0;
+    if (isNaN(planId) || isNaN(procedureId)) {
+      res.status(400).json({ error: 'Invalid treatment plan or procedure ID.' });
+      return null;
+    }
+    return { planId, procedureId };
+  }
+
+  getPlans = async (req: Request, res: Response): Promise<void> => {
+    const patientId = req.query.patientId ? parseInt(req.query.patientId as string) : undefined;
+    if (patientId !== undefined && isNaN(patientId)) {
+      res.status(400).json({ error: 'Invalid patient ID.' });
+      return;
+    }
+    try {
+      const plans = await treatmentPlanService.getPlans(patientId);
+      res.json(plans);
+    } catch (error) {
+      console.error('Error in getPlans controller:', error);
+      res.status(500).json({ error: 'Server error fetching treatment plans.' });
+    }
+  }
+
+  getPlanById = async (req: Request, res: Response): Promise<void> => {
+    const ids = this.parseIds(req, res);
+    if (!ids) return;
+    try {
+      const plan = await treatmentPlanService.getPlanById(ids.planId);
+      if (!plan) {
+        res.status(404).json({ error: 'Treatment plan not found.' });
+        return;
+      }
+      res.json(plan);
+    } catch (error) {
+      console.error('Error in getPlanById controller:', error);
+      res.status(500).json({ error: 'Server error fetching treatment plan.' });
+    }
+  }
+
+  createPlan = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { patientId, dentalRecordId, title, notes, procedures } = req.body;
+    if (!patientId || isNaN(patientId)) {
+      res.status(400).json({ error: 'A valid patient ID is required.' });
+      return;
+    }
+    if (!title || typeof title !== 'string' || !title.trim()) {
+      res.status(400).json({ error: 'A plan title is required.' });
+      return;
+    }
+    if (procedures !== undefined && !Array.isArray(procedures)) {
+      res.status(400).json({ error: 'Procedures must be an array.' });
+      return;
+    }
+    try {
+      const result = await treatmentPlanService.createPlan({
+        patientId: Number(patientId),
+        dentalRecordId: dentalRecordId ? Number(dentalRecordId) : null,
+        title: title.trim(),
+        notes,
+        procedures,
+        createdBy: req.user!.userId,
+      });
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in createPlan controller:', error);
+      res.status(500).json({ error: 'Server error creating treatment plan.' });
+    }
+  }
+
+  updatePlan = async (req: Request, res: Response): Promise<void> => {
+    const ids = this.parseIds(req, res);
+    if (!ids) return;
+    const { title, notes } = req.body;
+    if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+      res.status(400).json({ error: 'Plan title cannot be empty.' });
+      return;
+    }
+    try {
+      const result = await treatmentPlanService.updatePlan(ids.planId, { title: title?.trim(), notes });
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in updatePlan controller:', error);
+      res.status(500).json({ error: 'Server error updating treatment plan.' });
+    }
+  }
+
+  deletePlan = async (req: Request, res: Response): Promise<void> => {
+    const ids = this.parseIds(req, res);
+    if (!ids) return;
+    try {
+      const result = await treatmentPlanService.deletePlan(ids.planId);
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in deletePlan controller:', error);
+      res.status(500).json({ error: 'Server error deleting treatment plan.' });
+    }
+  }
+
+  addProcedures = async (req: Request, res: Response): Promise<void> => {
+    const ids = this.parseIds(req, res);
+    if (!ids) return;
+    // Accepts a single procedure or { procedures: [...] }.
+    const procedures = Array.isArray(req.body.procedures) ? req.body.procedures : [req.body];
+    try {
+      const result = await treatmentPlanService.addProcedures(ids.planId, procedures);
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in addProcedures controller:', error);
+      res.status(500).json({ error: 'Server error adding procedures.' });
+    }
+  }
+
+  updateProcedure = async (req: Request, res: Response): Promise<void> => {
+    const ids = this.parseIds(req, res);
+    if (!ids) return;
+    const { tooth, description, price, sequence, notes } = req.body;
+    try {
+      const result = await treatmentPlanService.updateProcedure(ids.planId, ids.procedureId, { tooth, description, price, sequence, notes });
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in updateProcedure controller:', error);
+      res.status(500).json({ error: 'Server error updating procedure.' });
+    }
+  }
+
+  removeProcedure = async (req: Request, res: Response): Promise<void> => {
+    const ids = this.parseIds(req, res);
+    if (!ids) return;
+    try {
+      const result = await treatmentPlanService.removeProcedure(ids.planId, ids.procedureId);
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in removeProcedure controller:', error);
+      res.status(500).json({ error: 'Server error removing procedure.' });
+    }
+  }
+
+  setProcedureStatus = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const ids = this.parseIds(req, res);
+    if (!ids) return;
+    const status = req.body.status as ProcedureStatus;
+    if (!PROCEDURE_STATUSES.includes(status)) {
+      res.status(400).json({ error: `Status must be one of: ${PROCEDURE_STATUSES.join(', ')}.` });
+      return;
+    }
+    try {
+      const result = await treatmentPlanService.setProcedureStatus(ids.planId, ids.procedureId, status, req.user!.userId);
+      this.respond(res, result);
+    } catch (error) {
+      console.error('Error in setProcedureStatus controller:', error);
+      res.status(500).json({ error: 'Server error updating procedure status.' });
+    }
+  }
+
+  invoiceProcedures = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const ids = this.parseIds(req, res);
+    if (!ids) return;
+    const { procedureIds, invoiceDate, isHmoCovered, hmoProviderId, hmoName, coveredAmount, notes } = req.body;
+    if (procedureIds !== undefined && (!Array.isArray(procedureIds) || procedureIds.some((id: any) => isNaN(parseInt(id))))) {
+      res.status(400).json({ error: 'procedureIds must be an array of procedure IDs.' });
+      return;
+    }
+    const parsedDate = invoiceDate ? new Date(invoiceDate) : new Date();
+    if (isNaN(parsedDate.getTime())) {
+      res.status(400).json({ error: 'Invalid invoice date.' });
+      return;
+    }
+    try {
+      const result = await treatmentPlanService.invoiceCompletedProcedures(ids.planId, {
+        procedureIds: procedureIds?.map((id: any) => parseInt(id)),
+        invoiceDate: parsedDate,
+        isHmoCovered: !!isHmoCovered,
+        hmoProviderId: hmoProviderId ? Number(hmoProviderId) : null,
+        hmoName,
+        coveredAmount,
+        notes,
+        createdBy: req.user!.userId,
+      });
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in invoiceProcedures controller:', error);
+      res.status(500).json({ error: 'Server error invoicing procedures.' });
+    }
+  }
+}
+
+export const treatmentPlanController = new TreatmentPlanController();
@@ -0,0 +1,237 @@
+// src/controllers/waitlist.controller.ts
+import { Request, Response } from 'express';
+import { waitlistService, WAITLIST_STATUSES, WaitlistStatus, WaitlistEntryInput, MAX_WAITLIST_CANDIDATES } from '../services/waitlist.service';
+import { optionalId } from '../utils/requestParams';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+// Offer tokens are 64 hex characters; anything else can't be an offer.
+const isOfferToken = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+
+export class WaitlistController {
+  constructor() {}
+
+  private parseId = (req: Request, res: Response): number | null => {
+    const entryId = parseInt(req.params.id as string);
+    if (isNaN(entryId)) {
+      res.status(400).json({ error: 'Invalid waiting list entry ID.' });
+      return null;
+    }
+    return entryId;
+  }
+
+  private respond = (res: Response, result: { success: boolean; message: string; [key: string]: any }, successStatus = 200) => {
+    const { success, message, ...data } = result;
+    if (!success) {
+      res.status(message.includes('not found') ? 404 : message.includes('already') ? 409 : 400).json({ error: message });
+      return;
+    }
+    res.status(successStatus).json({ message, ...data });
+  }
+
+  // Entry fields shared by add and update. Answers 400 and returns null when a field is malformed.
+  private parseEntry = (body: any, res: Response): Partial<WaitlistEntryInput> | null => {
+    const preferredDoctorId = optionalId(body.preferredDoctorId);
+    if (Number.isNaN(preferredDoctorId)) {
+      res.status(400).json({ error: 'preferredDoctorId must be a user ID.' });
+      return null;
+    }
+    if (body.preferredDays != null && !Array.isArray(body.preferredDays)) {
+      res.status(400).json({ error: 'preferredDays must be a list of days of the week (0 = Sunday).' });
+      return null;
+    }
+    return {
+      preferredDoctorId: body.preferredDoctorId === undefined ? undefined : preferredDoctorId,
+      procedure: body.procedure,
+      preferredDays: body.preferredDays === undefined ? undefined : body.preferredDays?.map(Number) ?? null,
+      earliestTime: body.earliestTime,
+      latestTime: body.latestTime,
+      availableUntil: body.availableUntil,
+      priority: body.priority === undefined ? undefined : Number(body.priority),
+      notes: body.notes,
+    };
+  }
+
+  // --- ENTRIES ---
+
+  // GET /api/waitlist?status=waiting&patientId=&doctorId=
+  getEntries = async (req: Request, res: Response): Promise<void> => {
+    const status = (req.query.status ?? 'waiting') as WaitlistStatus;
+    const patientId = optionalId(req.query.patientId);
+    const doctorId = optionalId(req.query.doctorId);
+    if (!WAITLIST_STATUSES.includes(status) || Number.isNaN(patientId) || Number.isNaN(doctorId)) {
+      res.status(400).json({ error: `Status must be one of: ${WAITLIST_STATUSES.join(', ')}; patientId and doctorId must be IDs.` });
+      return;
+    }
+    try {
+      res.json(await waitlistService.getEntries({ status, patientId: patientId ?? undefined, doctorId: doctorId ?? undefined }));
+    } catch (error) {
+      console.error('Error in getEntries controller:', error);
+      res.status(500).json({ error: 'Server error fetching the waiting list.' });
+    }
+  }
+
+  addEntry = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const patientId = optionalId(req.body.patientId);
+    if (patientId === null || Number.isNaN(patientId)) {
+      res.status(400).json({ error: 'A valid patientId is required.' });
+      return;
+    }
+    const entry = this.parseEntry(req.body, res);
+    if (!entry) return;
+    try {
+      const result = await waitlistService.addEntry({ ...entry, patientId }, req.user!.userId);
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in addEntry controller:', error);
+      res.status(500).json({ error: 'Server error adding to the waiting list.' });
+    }
+  }
+
+  updateEntry = async (req: Request, res: Response): Promise<void> => {
+    const entryId = this.parseId(req, res);
+    if (entryId === null) return;
+    const changes = this.parseEntry(req.body, res);
+    if (!changes) return;
+    try {
+      this.respond(res, await waitlistService.updateEntry(entryId, changes));
+    } catch (error) {
+      console.error('Error in updateEntry controller:', error);
+      res.status(500).json({ error: 'Server error updating the waiting list entry.' });
+    }
+  }
+
+  removeEntry = async (req: Request, res: Response): Promise<void> => {
+    const entryId = this.parseId(req, res);
+    if (entryId === null) return;
+    try {
+      this.respond(res, await waitlistService.removeEntry(entryId));
+    } catch (error) {
+      console.error('Error in removeEntry controller:', error);
+      res.status(500).json({ error: 'Server error removing the waiting list entry.' });
+    }
+  }
+
+  // --- BACKFILL ---
+
+  // GET /api/waitlist/candidates?appointmentId=&limit= - Who to offer a cancelled appointment's slot to
+  getCandidates = async (req: Request, res: Response): Promise<void> => {
+    const appointmentId = optionalId(req.query.appointmentId);
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : MAX_WAITLIST_CANDIDATES;
+    if (appointmentId === null || Number.isNaN(appointmentId) || isNaN(limit) || limit < 1) {
+      res.status(400).json({ error: 'A valid appointmentId is required; limit must be a positive number.' });
+      return;
+    }
+    try {
+      this.respond(res, await waitlistService.findCandidates(appointmentId, limit));
+    } catch (error) {
+      console.error('Error in getCandidates controller:', error);
+      res.status(500).json({ error: 'Server error finding waiting list candidates.' });
+    }
+  }
+
+  // POST /api/waitlist/offers - Body: { appointmentId, entryIds: [], sendEmail?, expiresInHours? }
+  createOffers = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const appointmentId = optionalId(req.body.appointmentId);
+    const { entryIds, sendEmail } = req.body;
+    const expiresInHours = req.body.expiresInHours === undefined ? undefined : Number(req.body.expiresInHours);
+    if (appointmentId === null || Number.isNaN(appointmentId) || !Array.isArray(entryIds) || entryIds.length === 0
+      || entryIds.some((id: unknown) => !Number.isInteger(Number(id)))) {
+      res.status(400).json({ error: 'An appointmentId and a list of waiting list entryIds are required.' });
+      return;
+    }
+    if (expiresInHours !== undefined && (!Number.isFinite(expiresInHours) || expiresInHours <= 0)) {
+      res.status(400).json({ error: 'expiresInHours must be a positive number.' });
+      return;
+    }
+    try {
+      const result = await waitlistService.createOffers(
+        { appointmentId, entryIds: entryIds.map(Number), sendEmail: Boolean(sendEmail), expiresInHours },
+        req.user!.userId,
+      );
+      this.respond(res, result, 201);
+    } catch (error) {
+      console.error('Error in createOffers controller:', error);
+      res.status(500).json({ error: 'Server error creating waiting list offers.' });
+    }
+  }
+
+  // GET /api/waitlist/offers?appointmentId=&entryId=
+  getOffers = async (req: Request, res: Response): Promise<void> => {
+    const appointmentId = optionalId(req.query.appointmentId);
+    const entryId = optionalId(req.query.entryId);
+    if (Number.isNaN(appointmentId) || Number.isNaN(entryId)) {
+      res.status(400).json({ error: 'appointmentId and entryId must be IDs.' });
+      return;
+    }
+    try {
+      res.json(await waitlistService.getOffers({ appointmentId: appointmentId ?? undefined, entryId: entryId ?? undefined }));
+    } catch (error) {
+      console.error('Error in getOffers controller:', error);
+      res.status(500).json({ error: 'Server error fetching waiting list offers.' });
+    }
+  }
+
+  // --- PUBLIC OFFER LINK ---
+
+  getPublicOffer = async (req: Request, res: Response): Promise<void> => {
+    if (!isOfferToken(req.params.token)) {
+      res.status(404).json({ error: 'Offer not found.' });
+      return;
+    }
+    try {
+      const offer = await waitlistService.getPublicOffer(req.params.token);
+      if (!offer) {
+        res.status(404).json({ error: 'Offer not found.' });
+        return;
+      }
+      res.json(offer);
+    } catch (error) {
+      console.error('Error in getPublicOffer controller:', error);
+      res.status(500).json({ error: 'Server error fetching the offer.' });
+    }
+  }
+
+  acceptOffer = async (req: Request, res: Response): Promise<void> => {
+    if (!isOfferToken(req.params.token)) {
+      res.status(404).json({ error: 'Offer not found.' });
+      return;
+    }
+    try {
+      const result = await waitlistService.acceptOffer(req.params.token);
+      if (!result.success) {
+        res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
+        return;
+      }
+      res.json({ message: result.message, appointment: result.appointment });
+    } catch (error) {
+      console.error('Error in acceptOffer controller:', error);
+      res.status(500).json({ error: 'Server error confirming the appointment.' });
+    }
+  }
+
+  declineOffer = async (req: Request, res: Response): Promise<void> => {
+    if (!isOfferToken(req.params.token)) {
+      res.status(404).json({ error: 'Offer not found.' });
+      return;
+    }
+    try {
+      const result = await waitlistService.declineOffer(req.params.token);
+      if (!result.success) {
+        res.status(result.message.includes('not found') ? 404 : 409).json({ error: result.message });
+        return;
+      }
+      res.json({ message: result.message });
+    } catch (error) {
+      console.error('Error in declineOffer controller:', error);
+      res.status(500).json({ error: 'Server error declining the offer.' });
+    }
+  }
+}
+
+export const waitlistController = new WaitlistController();
@@ -0,0 +1,49 @@
+// src/middleware/upload.ts
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import path from 'path';
+
+// What the imaging endpoints accept. The declared type is only a first filter; the stored type
+// is taken from the file's own bytes (see ImageProcessingService.detectFormat).
+export const ALLOWED_IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/tiff', 'image/webp', 'application/dicom'];
+
+// Sensors and browsers often send DICOM as a generic binary; the extension is what identifies it.
+const DICOM_EXTENSIONS = ['.dcm', '.dicom'];
+
+export const MAX_IMAGE_UPLOAD_BYTES = (Number(process.env.MAX_IMAGE_UPLOAD_MB) || 20) * 1024 * 1024;
+
+const imageMulter = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_UPLOAD_BYTES, files: 1 },
+  fileFilter: (req, file, callback) => {
+    const isDicom = DICOM_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase());
+    if (isDicom && file.mimetype === 'application/octet-stream') file.mimetype = 'application/dicom';
+    if (!ALLOWED_IMAGE_MIME_TYPES.includes(file.mimetype)) {
+      callback(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname));
+      return;
+    }
+    callback(null, true);
+  },
+});
+
+/**
+ * Accepts one image (or DICOM) file in `fieldName`, held in memory, and answers upload problems
+ * with a 4xx instead of passing them to the generic error handler.
+ */
+export function imageUpload(fieldName: string) {
+  const single = imageMulter.single(fieldName);
+  return (req: Request, res: Response, next: NextFunction) => {
+    single(req, res, (err: any) => {
+      if (!err) return next();
+      if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+        res.status(413).json({ error: `File is too large. The limit is ${Math.round(MAX_IMAGE_UPLOAD_BYTES / (1024 * 1024))} MB.` });
+        return;
+      }
+      if (err instanceof multer.MulterError) {
+        res.status(400).json({ error: `Unsupported upload. Send a single file with the key "${fieldName}" of type: ${ALLOWED_IMAGE_MIME_TYPES.join(', ')}.` });
+        return;
+      }
+      next(err);
+    });
+  };
+}
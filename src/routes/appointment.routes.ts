@@ -0,0 +1,53 @@
+// src/routes/appointment.routes.ts
+import { Router } from 'express';
+import { appointmentController } from '../controllers/appointment.controller';
+import { availabilityController } from '../controllers/availability.controller';
+import { appointmentSeriesController } from '../controllers/appointmentSeries.controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// GET /api/appointments?date=YYYY-MM-DD (or ?from=&to=) &doctorId=&patientId=&status=
+router.get('/', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentController.getAppointments);
+// GET /api/appointments/conflicts - Bookings that would clash with a proposed slot
+router.get('/conflicts', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentController.checkConflicts);
+// GET /api/appointments/attendance?groupBy=patient|doctor - No-show and cancellation rates
+router.get('/attendance', authorizeRoles(['owner', 'staff', 'doctor']), appointmentController.getAttendanceStats);
+router.post('/mark-missed', authorizeRoles(['owner', 'staff']), appointmentController.markMissedAppointments);
+
+// GET /api/appointments/availability?doctorId=&procedure=&from=&to= - Free slots sized to the procedure
+router.get('/availability', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), availabilityController.getAvailability);
+
+// Doctors' weekly hours, leave and clinic holidays
+router.get('/working-hours/:doctorId', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), availabilityController.getWorkingHours);
+router.put('/working-hours/:doctorId', authorizeRoles(['owner', 'staff']), availabilityController.setWorkingHours);
+router.get('/leave', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), availabilityController.getLeave);
+router.post('/leave', authorizeRoles(['owner', 'staff']), availabilityController.addLeave);
+router.delete('/leave/:id', authorizeRoles(['owner', 'staff']), availabilityController.deleteLeave);
+router.get('/holidays', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), availabilityController.getHolidays);
+router.post('/holidays', authorizeRoles(['owner', 'staff']), availabilityController.addHoliday);
+router.delete('/holidays/:id', authorizeRoles(['owner', 'staff']), availabilityController.deleteHoliday);
+
+// Multi-visit sequence templates (e.g. root canal visits 1/2/3)
+router.get('/sequence-templates', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentSeriesController.getSequenceTemplates);
+router.post('/sequence-templates', authorizeRoles(['owner', 'doctor']), appointmentSeriesController.createSequenceTemplate);
+router.get('/sequence-templates/:id', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentSeriesController.getSequenceTemplateById);
+router.put('/sequence-templates/:id', authorizeRoles(['owner', 'doctor']), appointmentSeriesController.updateSequenceTemplate);
+
+// Series booked together (recurring or from a template). Single visits are edited and cancelled via /:id.
+router.get('/series', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentSeriesController.getSeries);
+router.post('/series', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentSeriesController.bookSeries);
+router.get('/series/:id', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentSeriesController.getSeriesById);
+router.put('/series/:id', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentSeriesController.updateSeries);
+router.post('/series/:id/cancel', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentSeriesController.cancelSeries);
+
+router.post('/', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentController.createAppointment);
+router.get('/:id', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentController.getAppointmentById);
+router.put('/:id', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentController.updateAppointment);
+// POST /api/appointments/:id/status - booked, confirmed, checked_in, in_chair, completed, cancelled or no_show
+router.post('/:id/status', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), appointmentController.setStatus);
+router.delete('/:id', authorizeRoles(['owner', 'staff']), appointmentController.deleteAppointment);
+
+export default router;
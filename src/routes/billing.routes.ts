@@ -55,4 +55,40 @@ router.delete(
     billingController.deleteHmoProvider
 );
 
+// --- ADMIN ROUTES FOR HMO CONTRACTS (tariffs, co-pay, exclusions, annual caps) ---
+router.get(
+    '/hmos/:id/contracts',
+    authenticateToken,
+    authorizeRoles(['owner', 'staff', 'nurse', 'doctor']),
+    billingController.getHmoContracts
+);
+
+router.post(
+    '/hmos/:id/contracts',
+    authenticateToken,
+    authorizeRoles(['owner', 'staff']), // Contract terms are commercial, so front-desk and owner only
+    billingController.createHmoContract
+);
+
+router.get(
+    '/contracts/:contractId',
+    authenticateToken,
+    authorizeRoles(['owner', 'staff', 'nurse', 'doctor']),
+    billingController.getHmoContractById
+);
+
+router.put(
+    '/contracts/:contractId',
+    authenticateToken,
+    authorizeRoles(['owner', 'staff']),
+    billingController.updateHmoContract
+);
+
+router.delete(
+    '/contracts/:contractId',
+    authenticateToken,
+    authorizeRoles(['owner', 'staff']),
+    billingController.deleteHmoContract
+);
+
 export default router;
@@ -0,0 +1,28 @@
+// src/routes/consent.routes.ts
+import { Router } from 'express';
+import { consentController } from '../controllers/consent.controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth';
+import { imageUpload } from '../middleware/upload';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// --- CONSENT FORM TEMPLATES ---
+router.get('/templates', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), consentController.getTemplates);
+router.post('/templates', authorizeRoles(['owner', 'doctor']), consentController.createTemplate);
+router.put('/templates/:id', authorizeRoles(['owner', 'doctor']), consentController.updateTemplate);
+// GET /api/consents/templates/:id/preview?patientId=&dentalRecordId=&treatmentPlanProcedureId=
+router.get('/templates/:id/preview', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), consentController.previewTemplate);
+
+// GET /api/consents/check?treatmentPlanProcedureId= (or ?patientId=&procedureType=&dentalRecordId=)
+router.get('/check', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), consentController.checkConsent);
+
+// GET /api/consents?patientId=&dentalRecordId=&treatmentPlanProcedureId=&includeRevoked=
+router.get('/', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), consentController.getConsents);
+router.post('/', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), imageUpload('signature'), consentController.signConsent);
+router.get('/:id', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), consentController.getConsentById);
+router.get('/:id/file', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), consentController.getConsentFile);
+router.post('/:id/revoke', authorizeRoles(['owner', 'doctor']), consentController.revokeConsent);
+
+export default router;
@@ -0,0 +1,15 @@
+// src/routes/creditNote.routes.ts
+import { Router } from 'express';
+import { creditNoteController } from '../controllers/creditNote.controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth';
+
+const router = Router();
+
+// Credit notes are issued through POST /api/receipts/:id/void and /api/receipts/:id/refund.
+// GET /api/credit-notes?patientId= - List credit notes, optionally for a single patient
+router.get('/', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), creditNoteController.getCreditNotes);
+router.get('/:id', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), creditNoteController.getCreditNoteById);
+// POST /api/credit-notes/:id/resend - Email the credit note to the patient again
+router.post('/:id/resend', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), creditNoteController.resendCreditNote);
+
+export default router;
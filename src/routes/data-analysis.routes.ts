@@ -21,6 +21,7 @@ router.get('/patient-flow', dataAnalysisController.getPatientFlowAnalysis);
 
 // --- FINANCIAL ANALYTICS ---
 router.get('/hmo-distribution', dataAnalysisController.getHmoProviderDistribution);
+router.get('/hmo-receivables', dataAnalysisController.getHmoReceivables);
 router.get('/treatment-revenue', dataAnalysisController.getTreatmentRevenueAnalysis);
 
 // --- INVENTORY ANALYTICS ---
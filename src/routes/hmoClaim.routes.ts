@@ -0,0 +1,26 @@
+// src/routes/hmoClaim.routes.ts
+import { Router } from 'express';
+import { hmoClaimController } from '../controllers/hmoClaim.controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth';
+
+const router = Router();
+
+// HMO claims are billing work, so they are limited to owner and staff
+router.use(authenticateToken, authorizeRoles(['owner', 'staff']));
+
+// GET /api/hmo-claims?status=&hmoProviderId=&patientId= - List claims with remitted and outstanding totals
+router.get('/', hmoClaimController.getClaims);
+// POST /api/hmo-claims - Open a draft claim for an invoice's HMO-covered amount
+router.post('/', hmoClaimController.createClaim);
+router.get('/:id', hmoClaimController.getClaimById);
+router.put('/:id', hmoClaimController.updateClaim);
+router.delete('/:id', hmoClaimController.deleteClaim);
+
+// --- CLAIM LIFECYCLE: draft -> submitted -> approved/rejected -> partially paid -> paid ---
+router.post('/:id/submit', hmoClaimController.submitClaim);
+router.post('/:id/approve', hmoClaimController.approveClaim);
+router.post('/:id/reject', hmoClaimController.rejectClaim);
+// POST /api/hmo-claims/:id/remittances - Record a payment received from the HMO
+router.post('/:id/remittances', hmoClaimController.recordRemittance);
+
+export default router;
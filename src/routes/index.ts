@@ -13,6 +13,15 @@ import dataAnalysisRoutes from './data-analysis.routes';
 import broadcastRoutes from './broadcast.routes';
 import websiteBookingRoutes from './websiteBooking.routes';
 import reportRoutes from './report.routes';
+import installmentPlanRoutes from './installmentPlan.routes';
+import creditNoteRoutes from './creditNote.routes';
+import hmoClaimRoutes from './hmoClaim.routes';
+import treatmentPlanRoutes from './treatmentPlan.routes';
+import prescriptionRoutes from './prescription.routes';
+import patientImageRoutes from './patientImage.routes';
+import consentRoutes from './consent.routes';
+import appointmentRoutes from './appointment.routes';
+import waitlistRoutes from './waitlist.routes';
 
 
 
@@ -37,6 +46,15 @@ router.use('/analytics', dataAnalysisRoutes);
 router.use('/broadcast', broadcastRoutes);
 router.use('/website-bookings', websiteBookingRoutes);
 router.use('/reports', reportRoutes);
+router.use('/installment-plans', installmentPlanRoutes);
+router.use('/credit-notes', creditNoteRoutes);
+router.use('/hmo-claims', hmoClaimRoutes);
+router.use('/treatment-plans', treatmentPlanRoutes);
+router.use('/prescriptions', prescriptionRoutes);
+router.use('/patient-images', patientImageRoutes);
+router.use('/consents', consentRoutes);
+router.use('/appointments', appointmentRoutes);
+router.use('/waitlist', waitlistRoutes);
 
 
 export default router;
\ No newline at end of file
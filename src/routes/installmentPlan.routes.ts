@@ -0,0 +1,16 @@
+// src/routes/installmentPlan.routes.ts
+import { Router } from 'express';
+import { installmentPlanController } from '../controllers/installmentPlan.controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth';
+
+const router = Router();
+
+// GET /api/installment-plans?patientId= - List installment plans with per-installment progress
+router.get('/', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), installmentPlanController.getPlans);
+// POST /api/installment-plans - Schedule an invoice's remaining balance as installments
+router.post('/', authenticateToken, authorizeRoles(['owner', 'staff']), installmentPlanController.createPlan);
+router.get('/:id', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), installmentPlanController.getPlanById);
+// DELETE /api/installment-plans/:id - Cancel a plan (the invoice and its payments are untouched)
+router.delete('/:id', authenticateToken, authorizeRoles(['owner', 'staff']), installmentPlanController.cancelPlan);
+
+export default router;
@@ -5,8 +5,21 @@ import { authenticateToken, authorizeRoles } from '../middleware/auth';
 
 const router = Router();
 
-// POST /api/invoices/send - Send an invoice email
+// POST /api/invoices/send - Record an invoice on the patient's ledger and email it
 // Accessible by 'owner', 'staff', and 'nurse' roles (as per requirement, nurse can send)
 router.post('/send', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse','doctor']), invoiceController.sendInvoice);
 
+// --- INVOICE LEDGER ROUTES ---
+// GET /api/invoices?patientId= - List invoices, optionally for a single patient
+router.get('/', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), invoiceController.getInvoices);
+// POST /api/invoices - Record an invoice without emailing it
+router.post('/', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), invoiceController.createInvoice);
+router.get('/:id', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), invoiceController.getInvoiceById);
+// GET /api/invoices/:id/pdf - Download the invoice as a PDF
+router.get('/:id/pdf', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), invoiceController.getInvoicePdf);
+router.put('/:id', authenticateToken, authorizeRoles(['owner', 'staff']), invoiceController.updateInvoice);
+// DELETE /api/invoices/:id - Voids the invoice; the row and its number are kept for the audit trail
+router.delete('/:id', authenticateToken, authorizeRoles(['owner', 'staff']), invoiceController.voidInvoice);
+router.post('/:id/resend', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), invoiceController.resendInvoice);
+
 export default router;
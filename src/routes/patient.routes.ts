@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { patientController } from '../controllers/patient.controller';
+import { medicalHistoryController } from '../controllers/medicalHistory.controller';
 import { authenticateToken, authorizeRoles } from '../middleware/auth';
 
 const router = Router();
@@ -9,6 +10,11 @@ router.post('/guest-submit', patientController.submitGuestPatient);
 router.post('/guest-family-submit', patientController.submitGuestFamilyPatient);
 router.post('/returning-guest-visit', patientController.recordReturningGuestVisit);
 router.post('/:headId/members', authenticateToken, authorizeRoles(['owner', 'staff', 'doctor']), patientController.addFamilyMember);
+// Restructuring households: promote a member to head, move a patient to another family, split or dissolve
+router.post('/:id/family/promote', authenticateToken, authorizeRoles(['owner', 'staff']), patientController.promoteFamilyMember);
+router.post('/:id/family/move', authenticateToken, authorizeRoles(['owner', 'staff']), patientController.moveFamilyMember);
+router.post('/:headId/family/split', authenticateToken, authorizeRoles(['owner', 'staff']), patientController.splitFamily);
+router.post('/:headId/family/dissolve', authenticateToken, authorizeRoles(['owner', 'staff']), patientController.dissolveFamily);
 router.get('/returning-today', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.getTodaysReturningPatients);
 
 // --- DOCTOR SCHEDULE ROUTES ---
@@ -17,11 +23,32 @@ router.get('/doctor-schedule', authenticateToken, authorizeRoles(['owner', 'staf
 router.put('/:patientId/assign-doctor', authenticateToken, authorizeRoles(['owner', 'staff']), patientController.assignDoctor);
 
 // --- SPECIALIZED DATA ROUTES (Must be before /:id) ---
-// Route for Debtors Revenue Report
+// Route for Debtors Revenue Report (?groupBy=family for the household view)
 router.get('/debtors', authenticateToken, authorizeRoles(['owner', 'staff']), patientController.getDebtors);
 // Route for Appointments Page
 router.get('/scheduled', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.getScheduledPatients);
 
+// Patients whose current chart shows a condition on a tooth (?tooth=36&condition=caries)
+router.get('/tooth-conditions', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.findPatientsByToothCondition);
+
+// Duplicate registrations: candidates, merging and the merge audit trail (owner only)
+router.get('/duplicates', authenticateToken, authorizeRoles(['owner']), patientController.findDuplicatePatients);
+router.post('/:id/merge', authenticateToken, authorizeRoles(['owner']), patientController.mergePatients);
+router.get('/:id/merges', authenticateToken, authorizeRoles(['owner']), patientController.getPatientMergeHistory);
+
+// Invoices and payments statement with running balance
+router.get('/:patientId/ledger', authenticateToken, authorizeRoles(['owner', 'staff']), patientController.getPatientLedger);
+// Consolidated statement for the patient's whole household, billed to the family head
+router.get('/:patientId/family-statement', authenticateToken, authorizeRoles(['owner', 'staff']), patientController.getFamilyStatement);
+
+// --- MEDICAL HISTORY ROUTES (carried forward into every new dental record) ---
+router.get('/:patientId/medical-history', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), medicalHistoryController.getMedicalHistory);
+router.put('/:patientId/medical-history', authenticateToken, authorizeRoles(['owner', 'nurse', 'doctor']), medicalHistoryController.updateMedicalHistory);
+router.post('/:patientId/allergies', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), medicalHistoryController.addAllergy);
+router.put('/:patientId/allergies/:allergyId', authenticateToken, authorizeRoles(['owner', 'nurse', 'doctor']), medicalHistoryController.updateAllergy);
+router.post('/:patientId/medications', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), medicalHistoryController.addMedication);
+router.put('/:patientId/medications/:medicationId', authenticateToken, authorizeRoles(['owner', 'nurse', 'doctor']), medicalHistoryController.updateMedication);
+
 // --- GENERAL PATIENT DATA ROUTES ---
 router.get('/', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.getAllPatients);
 router.get('/:id', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.getPatientById);
@@ -40,9 +67,16 @@ router.post('/:patientId/send-custom-email', authenticateToken, authorizeRoles([
 // --- DENTAL RECORD MANAGEMENT ROUTES ---
 router.post('/:patientId/dental-records', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.createDentalRecord);
 router.get('/:patientId/dental-records', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.getDentalRecordsByPatientId);
+router.get('/:patientId/tooth-chart', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.getToothChart);
+router.get('/:patientId/dental-summary/pdf', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.getDentalSummaryPdf);
 router.get('/:patientId/dental-records/:recordId', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.getSpecificDentalRecordForPatient);
 router.get('/dental-records/:id', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.getDentalRecordById);
+// Doctor sign-off locks a record; after that only addenda can be attached
+router.post('/dental-records/:id/sign-off', authenticateToken, authorizeRoles(['doctor']), patientController.signOffDentalRecord);
+router.post('/dental-records/:id/addenda', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.addDentalRecordAddendum);
+router.get('/dental-records/:id/history', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.getDentalRecordHistory);
 router.put('/dental-records/:id', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.updateDentalRecord);
+// Soft delete with a reason; also gated by the patientManagement.canDeleteDentalRecord setting
 router.delete('/dental-records/:id', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.deleteDentalRecord);
 
 export default router;
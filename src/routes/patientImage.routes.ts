@@ -0,0 +1,19 @@
+// src/routes/patientImage.routes.ts
+import { Router } from 'express';
+import { patientImageController } from '../controllers/patientImage.controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth';
+import { imageUpload } from '../middleware/upload';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// GET /api/patient-images?patientId=&dentalRecordId=&imageType=&tooth=
+router.get('/', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientImageController.getImages);
+// POST /api/patient-images - multipart: "image" file (image or .dcm) plus patientId, imageType, dentalRecordId, tooth, capturedAt, notes
+router.post('/', authorizeRoles(['owner', 'nurse', 'doctor']), imageUpload('image'), patientImageController.uploadImage);
+// The original file (DICOM downloads as .dcm), or ?variant=preview|thumbnail for browser-viewable renderings
+router.get('/:id/file', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientImageController.getImageFile);
+router.delete('/:id', authorizeRoles(['owner', 'doctor']), patientImageController.deleteImage);
+
+export default router;
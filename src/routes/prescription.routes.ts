@@ -0,0 +1,25 @@
+// src/routes/prescription.routes.ts
+import { Router } from 'express';
+import { prescriptionController } from '../controllers/prescription.controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// --- DRUG CATALOGUE ---
+router.get('/drugs', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), prescriptionController.getDrugs);
+router.post('/drugs', authorizeRoles(['owner', 'doctor']), prescriptionController.addDrug);
+router.put('/drugs/:id', authorizeRoles(['owner', 'doctor']), prescriptionController.updateDrug);
+
+// POST /api/prescriptions/check-allergies - Conflicts between drugs and the patient's recorded allergies
+router.post('/check-allergies', authorizeRoles(['owner', 'nurse', 'doctor']), prescriptionController.checkAllergies);
+
+// GET /api/prescriptions?patientId=&dentalRecordId=
+router.get('/', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), prescriptionController.getPrescriptions);
+router.post('/', authorizeRoles(['owner', 'doctor']), prescriptionController.createPrescription);
+router.get('/:id', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), prescriptionController.getPrescriptionById);
+router.get('/:id/pdf', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), prescriptionController.getPrescriptionPdf);
+router.post('/:id/send', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), prescriptionController.sendPrescription);
+
+export default router;
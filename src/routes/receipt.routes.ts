@@ -6,7 +6,7 @@ import { authenticateToken, authorizeRoles } from '../middleware/auth';
 
 const router = Router();
 
-// POST /api/receipts/send - Send a receipt email
+// POST /api/receipts/send - Record a receipt on the patient's ledger and email it
 // Accessible by 'owner', 'staff', and 'nurse' roles (as per requirement, nurse can send)
 router.post('/send', authenticateToken, authorizeRoles(['owner', 'staff','nurse','doctor']), receiptController.sendReceipt);
 
@@ -20,5 +20,20 @@ router.get('/revenue-report', authenticateToken, authorizeRoles(['owner', 'staff
 // This endpoint would logically call a method like patientController.getAllPatients
 router.get('/outstanding-patients', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), patientController.getAllPatients);
 
+// --- RECEIPT LEDGER ROUTES ---
+// GET /api/receipts?patientId= - List receipts, optionally for a single patient
+router.get('/', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), receiptController.getReceipts);
+// POST /api/receipts - Record a receipt and its payment without emailing it
+router.post('/', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), receiptController.createReceipt);
+router.get('/:id', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), receiptController.getReceiptById);
+// GET /api/receipts/:id/pdf - Download the receipt as a PDF
+router.get('/:id/pdf', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), receiptController.getReceiptPdf);
+router.put('/:id', authenticateToken, authorizeRoles(['owner', 'staff']), receiptController.updateReceipt);
+router.post('/:id/resend', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), receiptController.resendReceipt);
+// POST /api/receipts/:id/void and /api/receipts/:id/refund - Reverse a receipt and email a credit note
+// Further restricted to the roles in the 'canIssueRefund' patient management permission
+router.post('/:id/void', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), receiptController.voidReceipt);
+router.post('/:id/refund', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), receiptController.refundReceipt);
+
 
 export default router;
\ No newline at end of file
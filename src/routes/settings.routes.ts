@@ -27,4 +27,25 @@ router.put(
     settingsController.updateDashboardSettings
 );
 
+/**
+ * GET /api/settings/numbering
+ * Retrieves the prefixes used for server-allocated invoice and receipt numbers.
+ */
+router.get(
+    '/numbering',
+    authenticateToken,
+    settingsController.getNumberingSettings
+);
+
+/**
+ * PUT /api/settings/numbering
+ * Updates the invoice/receipt number prefixes. Restricted to the 'owner' role.
+ */
+router.put(
+    '/numbering',
+    authenticateToken,
+    authorizeRoles(['owner']),
+    settingsController.updateNumberingSettings
+);
+
 export default router;
\ No newline at end of file
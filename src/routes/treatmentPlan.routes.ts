@@ -0,0 +1,26 @@
+// src/routes/treatmentPlan.routes.ts
+import { Router } from 'express';
+import { treatmentPlanController } from '../controllers/treatmentPlan.controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// GET /api/treatment-plans?patientId= - Plans with their procedures and quoted/completed totals
+router.get('/', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), treatmentPlanController.getPlans);
+router.post('/', authorizeRoles(['owner', 'staff', 'doctor']), treatmentPlanController.createPlan);
+router.get('/:id', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), treatmentPlanController.getPlanById);
+router.put('/:id', authorizeRoles(['owner', 'staff', 'doctor']), treatmentPlanController.updatePlan);
+router.delete('/:id', authorizeRoles(['owner', 'staff', 'doctor']), treatmentPlanController.deletePlan);
+
+// --- PROCEDURES: proposed -> accepted -> in progress -> completed, or declined ---
+router.post('/:id/procedures', authorizeRoles(['owner', 'staff', 'doctor']), treatmentPlanController.addProcedures);
+router.put('/:id/procedures/:procedureId', authorizeRoles(['owner', 'staff', 'doctor']), treatmentPlanController.updateProcedure);
+router.delete('/:id/procedures/:procedureId', authorizeRoles(['owner', 'staff', 'doctor']), treatmentPlanController.removeProcedure);
+router.post('/:id/procedures/:procedureId/status', authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), treatmentPlanController.setProcedureStatus);
+
+// POST /api/treatment-plans/:id/invoice - Bill completed procedures as one invoice
+router.post('/:id/invoice', authorizeRoles(['owner', 'staff']), treatmentPlanController.invoiceProcedures);
+
+export default router;
@@ -0,0 +1,25 @@
+// src/routes/waitlist.routes.ts
+import { Router } from 'express';
+import { waitlistController } from '../controllers/waitlist.controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth';
+
+const router = Router();
+
+// --- PUBLIC ROUTES (No Auth) ---
+// The emailed offer link opens the clinic website, which shows the offer and accepts or declines it here.
+router.get('/offers/:token', waitlistController.getPublicOffer);
+router.post('/offers/:token/accept', waitlistController.acceptOffer);
+router.post('/offers/:token/decline', waitlistController.declineOffer);
+
+// --- PROTECTED ROUTES ---
+// GET /api/waitlist/candidates?appointmentId= - Best waitlisted patients for a cancelled appointment's slot
+router.get('/candidates', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), waitlistController.getCandidates);
+router.get('/offers', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), waitlistController.getOffers);
+router.post('/offers', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), waitlistController.createOffers);
+
+router.get('/', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), waitlistController.getEntries);
+router.post('/', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), waitlistController.addEntry);
+router.put('/:id', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), waitlistController.updateEntry);
+router.delete('/:id', authenticateToken, authorizeRoles(['owner', 'staff', 'nurse', 'doctor']), waitlistController.removeEntry);
+
+export default router;
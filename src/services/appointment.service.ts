@@ -0,0 +1,487 @@
+// src/services/appointment.service.ts
+import { SQL, and, asc, count, eq, gt, gte, inArray, isNotNull, lt, ne, or, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { appointments, appointmentStatusChanges, patients, serviceItems, users } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+import { availabilityService, BOOKABLE_ROLES, TimePeriod } from './availability.service';
+
+export const APPOINTMENT_STATUSES = ['booked', 'confirmed', 'checked_in', 'in_chair', 'completed', 'cancelled', 'no_show'] as const;
+export type AppointmentStatus = typeof APPOINTMENT_STATUSES[number];
+
+// Appointments in these statuses hold their time slot; the rest are history.
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = ['booked', 'confirmed', 'checked_in', 'in_chair'];
+
+// Where an appointment may go next. Completed visits are final; a cancelled or missed one can be
+// booked again, and a patient marked as a no-show who turns up late can still be checked in.
+const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+    booked: ['confirmed', 'checked_in', 'cancelled', 'no_show'],
+    confirmed: ['booked', 'checked_in', 'cancelled', 'no_show'],
+    checked_in: ['in_chair', 'completed', 'cancelled'],
+    in_chair: ['completed'],
+    completed: [],
+    cancelled: ['booked'],
+    no_show: ['booked', 'checked_in'],
+};
+
+// Statuses in which the patient came in, for attendance figures.
+const ATTENDED_STATUSES: AppointmentStatus[] = ['checked_in', 'in_chair', 'completed'];
+
+const describeStatus = (status: string) => status.replace('_', ' ');
+
+export const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+// Free slots are offered on this grid, in minutes from midnight.
+export const SLOT_STEP_MINUTES = 15;
+
+export interface AppointmentInput {
+    patientId: number;
+    doctorId?: number | null;
+    chair?: string | null;
+    procedure?: string | null;
+    startTime: Date;
+    endTime?: Date;
+    durationMinutes?: number; // Used when no end is given; else the procedure's service duration, else DEFAULT_APPOINTMENT_MINUTES
+    notes?: string | null;
+    seriesId?: number | null; // Set by appointmentSeriesService when booking a series
+    seriesIndex?: number | null;
+}
+
+// Changes to a booking; a status change is checked against STATUS_TRANSITIONS and recorded with its reason.
+export type AppointmentChanges = Partial<AppointmentInput> & { status?: AppointmentStatus; statusReason?: string | null };
+
+export interface AppointmentFilters {
+    from?: Date;
+    to?: Date;
+    doctorId?: number;
+    patientId?: number;
+    status?: AppointmentStatus;
+    seriesId?: number;
+}
+
+export interface AppointmentConflict {
+    appointmentId: number;
+    patientId: number;
+    patientName: string | null;
+    doctorId: number | null;
+    chair: string | null;
+    startTime: Date;
+    endTime: Date;
+    clashesOn: ('doctor' | 'chair' | 'patient')[];
+}
+
+export interface SlotSearch {
+    doctorId: number;
+    durationMinutes: number;
+    from: Date;
+    to: Date;
+}
+
+export interface AttendanceFilters {
+    groupBy: 'patient' | 'doctor';
+    from?: Date;
+    to?: Date;
+    patientId?: number;
+    doctorId?: number;
+}
+
+type Slot = { startTime: Date; endTime: Date; patientId?: number | null; doctorId?: number | null; chair?: string | null };
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+export class AppointmentService {
+
+    /**
+     * Active appointments overlapping the slot that share its doctor, chair or patient. Back-to-back
+     * appointments (one ending as the next starts) do not clash. With `lock`, the rows are locked
+     * for the calling transaction so two bookings can't take the same slot at once.
+     */
+    async findConflicts(slot: Slot, options: { excludeId?: number; lock?: boolean } = {}, executor: DbExecutor = db): Promise<AppointmentConflict[]> {
+        const sharedResources = [
+            slot.doctorId ? eq(appointments.doctorId, slot.doctorId) : undefined,
+            slot.chair ? eq(appointments.chair, slot.chair) : undefined,
+            slot.patientId ? eq(appointments.patientId, slot.patientId) : undefined,
+        ].filter(Boolean);
+        if (sharedResources.length === 0) return [];
+
+        const query = executor.select({
+                appointmentId: appointments.id,
+                patientId: appointments.patientId,
+                patientName: patients.name,
+                doctorId: appointments.doctorId,
+                chair: appointments.chair,
+                startTime: appointments.startTime,
+                endTime: appointments.endTime,
+            })
+            .from(appointments)
+            .leftJoin(patients, eq(appointments.patientId, patients.id))
+            .where(and(
+                lt(appointments.startTime, slot.endTime),
+                gt(appointments.endTime, slot.startTime),
+                inArray(appointments.status, ACTIVE_APPOINTMENT_STATUSES),
+                or(...sharedResources),
+                options.excludeId ? ne(appointments.id, options.excludeId) : undefined,
+            ))
+            .orderBy(asc(appointments.startTime));
+        const rows = options.lock ? await query.for('update') : await query;
+
+        return rows.map(row => ({
+            ...row,
+            clashesOn: [
+                ...(slot.doctorId && row.doctorId === slot.doctorId ? ['doctor' as const] : []),
+                ...(slot.chair && row.chair === slot.chair ? ['chair' as const] : []),
+                ...(slot.patientId && row.patientId === slot.patientId ? ['patient' as const] : []),
+            ],
+        }));
+    }
+
+    private describeConflicts(conflicts: AppointmentConflict[]) {
+        const first = conflicts[0];
+        const time = first.startTime.toISOString().replace('T', ' ').slice(0, 16);
+        return `The slot clashes with ${conflicts.length === 1 ? 'an appointment' : `${conflicts.length} appointments`} (${first.clashesOn.join(', ')} busy from ${time}${first.patientName ? ` with ${first.patientName}` : ''}).`;
+    }
+
+    // Checks the patient and doctor exist and the times make sense. Returns an error message, or null.
+    private async validateSlot(slot: Slot, executor: DbExecutor): Promise<string | null> {
+        if (isNaN(slot.startTime.getTime()) || isNaN(slot.endTime.getTime())) return 'Invalid appointment time.';
+        if (slot.endTime <= slot.startTime) return 'An appointment must end after it starts.';
+        if (slot.patientId) {
+            const [patient] = await executor.select({ id: patients.id }).from(patients).where(eq(patients.id, slot.patientId)).limit(1);
+            if (!patient) return 'Patient not found.';
+        }
+        if (slot.doctorId) {
+            const [doctor] = await executor.select({ role: users.role, isActive: users.isActive }).from(users).where(eq(users.id, slot.doctorId)).limit(1);
+            if (!doctor || !doctor.isActive || !BOOKABLE_ROLES.includes(doctor.role)) return 'Doctor not found.';
+        }
+        return null;
+    }
+
+    /**
+     * The service item a procedure names, by ID or by name (case-insensitive), with the chair time
+     * to book for it. Null when no service matches.
+     */
+    async findProcedure(procedure: string | number, executor: DbExecutor = db) {
+        const [service] = await executor.select({ id: serviceItems.id, name: serviceItems.name, durationMinutes: serviceItems.durationMinutes })
+            .from(serviceItems)
+            .where(typeof procedure === 'number' || /^\d+$/.test(procedure)
+                ? eq(serviceItems.id, Number(procedure))
+                : eq(sql`lower(${serviceItems.name})`, procedure.trim().toLowerCase()))
+            .limit(1);
+        return service ? { ...service, durationMinutes: service.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES } : null;
+    }
+
+    /**
+     * Free slots of `durationMinutes` with the doctor in [from, to): inside their working periods
+     * (see availabilityService.getWorkingPeriods), clear of their active appointments, not in the
+     * past, and starting on the SLOT_STEP_MINUTES grid.
+     */
+    async findAvailableSlots(search: SlotSearch): Promise<TimePeriod[]> {
+        const now = new Date();
+        const from = search.from > now ? search.from : now;
+        if (search.to <= from) return [];
+        const periods = await availabilityService.getWorkingPeriods(search.doctorId, from, search.to);
+        const busy = await db.select({ startTime: appointments.startTime, endTime: appointments.endTime }).from(appointments)
+            .where(and(
+                eq(appointments.doctorId, search.doctorId),
+                lt(appointments.startTime, search.to),
+                gt(appointments.endTime, from),
+                inArray(appointments.status, ACTIVE_APPOINTMENT_STATUSES),
+            ));
+
+        const step = SLOT_STEP_MINUTES * 60 * 1000;
+        const slots: TimePeriod[] = [];
+        for (const period of periods) {
+            const midnight = new Date(period.start.getFullYear(), period.start.getMonth(), period.start.getDate()).getTime();
+            const firstOnGrid = midnight + Math.ceil((period.start.getTime() - midnight) / step) * step;
+            for (let start = new Date(firstOnGrid); addMinutes(start, search.durationMinutes) <= period.end; start = new Date(start.getTime() + step)) {
+                const end = addMinutes(start, search.durationMinutes);
+                if (!busy.some(booking => booking.startTime < end && booking.endTime > start)) slots.push({ start, end });
+            }
+        }
+        return slots;
+    }
+
+    /**
+     * Keeps `patients.nextAppointmentDate` equal to the patient's earliest upcoming active
+     * appointment (or null), for the reminder emails and screens that still read it.
+     */
+    async syncNextAppointment(patientId: number, executor: DbExecutor = db) {
+        const [next] = await executor.select({ startTime: appointments.startTime }).from(appointments)
+            .where(and(
+                eq(appointments.patientId, patientId),
+                gte(appointments.startTime, new Date()),
+                inArray(appointments.status, ACTIVE_APPOINTMENT_STATUSES),
+            ))
+            .orderBy(asc(appointments.startTime))
+            .limit(1);
+        await executor.update(patients).set({ nextAppointmentDate: next?.startTime ?? null }).where(eq(patients.id, patientId));
+    }
+
+    // Appointments with patient and doctor names, earliest first.
+    private async loadAppointments(where: SQL | undefined, executor: DbExecutor = db) {
+        return await executor.select({
+                id: appointments.id,
+                patientId: appointments.patientId,
+                patientName: patients.name,
+                doctorId: appointments.doctorId,
+                doctorName: users.username,
+                chair: appointments.chair,
+                procedure: appointments.procedure,
+                startTime: appointments.startTime,
+                endTime: appointments.endTime,
+                status: appointments.status,
+                notes: appointments.notes,
+                seriesId: appointments.seriesId,
+                seriesIndex: appointments.seriesIndex,
+                createdBy: appointments.createdBy,
+                createdAt: appointments.createdAt,
+                updatedAt: appointments.updatedAt,
+            })
+            .from(appointments)
+            .leftJoin(patients, eq(appointments.patientId, patients.id))
+            .leftJoin(users, eq(appointments.doctorId, users.id))
+            .where(where)
+            .orderBy(asc(appointments.startTime), asc(appointments.id));
+    }
+
+    // `from`/`to` select appointments starting in [from, to).
+    async getAppointments(filters: AppointmentFilters = {}) {
+        return await this.loadAppointments(and(
+            filters.from ? gte(appointments.startTime, filters.from) : undefined,
+            filters.to ? lt(appointments.startTime, filters.to) : undefined,
+            filters.doctorId ? eq(appointments.doctorId, filters.doctorId) : undefined,
+            filters.patientId ? eq(appointments.patientId, filters.patientId) : undefined,
+            filters.status ? eq(appointments.status, filters.status) : undefined,
+            filters.seriesId ? eq(appointments.seriesId, filters.seriesId) : undefined,
+        ));
+    }
+
+    async getAppointmentById(appointmentId: number, executor: DbExecutor = db) {
+        const [appointment] = await this.loadAppointments(eq(appointments.id, appointmentId), executor);
+        return appointment ?? null;
+    }
+
+    /**
+     * Books an appointment. Refused on a clinic holiday, during the doctor's leave or outside hours
+     * they have set, and when the doctor, chair or patient is already booked for any part of the
+     * slot; the clashing appointments are returned as `conflicts`. Given a transaction, books
+     * within it, so a series can be booked all or nothing.
+     */
+    async createAppointment(input: AppointmentInput, createdBy: number | null, tx?: DbExecutor) {
+        if (!tx) return await db.transaction(transaction => this.createAppointment(input, createdBy, transaction));
+        const procedureMinutes = !input.endTime && !input.durationMinutes && input.procedure?.trim()
+            ? (await this.findProcedure(input.procedure, tx))?.durationMinutes
+            : undefined;
+        const slot: Slot = {
+            startTime: input.startTime,
+            endTime: input.endTime ?? addMinutes(input.startTime, input.durationMinutes ?? procedureMinutes ?? DEFAULT_APPOINTMENT_MINUTES),
+            patientId: input.patientId,
+            doctorId: input.doctorId ?? null,
+            chair: input.chair?.trim() || null,
+        };
+        const invalid = await this.validateSlot(slot, tx);
+        if (invalid) return { success: false, message: invalid };
+        const unavailable = await availabilityService.checkSlot(slot.doctorId ?? null, slot.startTime, slot.endTime, tx);
+        if (unavailable) return { success: false, message: unavailable };
+        const conflicts = await this.findConflicts(slot, { lock: true }, tx);
+        if (conflicts.length > 0) return { success: false, message: this.describeConflicts(conflicts), conflicts };
+
+        const [inserted] = await tx.insert(appointments).values({
+            patientId: input.patientId,
+            doctorId: slot.doctorId,
+            chair: slot.chair,
+            procedure: input.procedure?.trim() || null,
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            notes: input.notes || null,
+            seriesId: input.seriesId ?? null,
+            seriesIndex: input.seriesIndex ?? null,
+            createdBy,
+        });
+        await this.recordStatusChange(inserted.insertId, null, 'booked', null, createdBy, tx);
+        await this.syncNextAppointment(input.patientId, tx);
+        return { success: true, message: 'Appointment booked.', appointment: await this.getAppointmentById(inserted.insertId, tx) };
+    }
+
+    /**
+     * Reschedules or edits an appointment. A changed slot, doctor, chair or patient is checked for
+     * clashes again. Moving the start without a new end or duration keeps the appointment's length.
+     * A status change must follow STATUS_TRANSITIONS and is added to the status history.
+     * Given a transaction, updates within it.
+     */
+    async updateAppointment(appointmentId: number, changes: AppointmentChanges, changedBy: number | null, tx?: DbExecutor) {
+        if (!tx) return await db.transaction(transaction => this.updateAppointment(appointmentId, changes, changedBy, transaction));
+        const [existing] = await tx.select().from(appointments).where(eq(appointments.id, appointmentId)).for('update');
+        if (!existing) return { success: false, message: 'Appointment not found.' };
+
+        const startTime = changes.startTime ?? existing.startTime;
+        const slot: Slot = {
+            startTime,
+            endTime: changes.endTime ?? addMinutes(startTime, changes.durationMinutes ?? (existing.endTime.getTime() - existing.startTime.getTime()) / 60000),
+            patientId: changes.patientId ?? existing.patientId,
+            doctorId: changes.doctorId !== undefined ? changes.doctorId : existing.doctorId,
+            chair: changes.chair !== undefined ? changes.chair?.trim() || null : existing.chair,
+        };
+        const status = changes.status ?? existing.status;
+        if (status !== existing.status) {
+            const refused = this.checkTransition(existing.status, status, changes.statusReason);
+            if (refused) return { success: false, message: refused };
+        }
+        const invalid = await this.validateSlot(slot, tx);
+        if (invalid) return { success: false, message: invalid };
+        if (ACTIVE_APPOINTMENT_STATUSES.includes(status)) {
+            // Holidays, leave and hours set after booking don't block edits that keep the slot.
+            const moved = slot.startTime.getTime() !== existing.startTime.getTime() || slot.endTime.getTime() !== existing.endTime.getTime()
+                || slot.doctorId !== existing.doctorId || !ACTIVE_APPOINTMENT_STATUSES.includes(existing.status);
+            const unavailable = moved ? await availabilityService.checkSlot(slot.doctorId ?? null, slot.startTime, slot.endTime, tx) : null;
+            if (unavailable) return { success: false, message: unavailable };
+            const conflicts = await this.findConflicts(slot, { excludeId: appointmentId, lock: true }, tx);
+            if (conflicts.length > 0) return { success: false, message: this.describeConflicts(conflicts), conflicts };
+        }
+
+        await tx.update(appointments).set({
+            patientId: slot.patientId!,
+            doctorId: slot.doctorId,
+            chair: slot.chair,
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            status,
+            ...(changes.procedure !== undefined ? { procedure: changes.procedure?.trim() || null } : {}),
+            ...(changes.notes !== undefined ? { notes: changes.notes || null } : {}),
+            updatedAt: new Date(),
+        }).where(eq(appointments.id, appointmentId));
+        if (status !== existing.status) await this.recordStatusChange(appointmentId, existing.status, status, changes.statusReason, changedBy, tx);
+        await this.syncNextAppointment(slot.patientId!, tx);
+        if (slot.patientId !== existing.patientId) await this.syncNextAppointment(existing.patientId, tx);
+        return { success: true, message: 'Appointment updated.', appointment: await this.getAppointmentById(appointmentId, tx) };
+    }
+
+    // --- STATUS LIFECYCLE ---
+
+    // Why the status change isn't allowed, or null. Cancelling needs a reason.
+    private checkTransition(from: AppointmentStatus, to: AppointmentStatus, reason?: string | null): string | null {
+        if (!STATUS_TRANSITIONS[from].includes(to)) return `Cannot change an appointment from ${describeStatus(from)} to ${describeStatus(to)}.`;
+        if (to === 'cancelled' && !reason?.trim()) return 'A reason is required to cancel an appointment.';
+        return null;
+    }
+
+    async recordStatusChange(appointmentId: number, fromStatus: AppointmentStatus | null, toStatus: AppointmentStatus, reason: string | null | undefined, changedBy: number | null, executor: DbExecutor = db) {
+        await executor.insert(appointmentStatusChanges).values({ appointmentId, fromStatus, toStatus, reason: reason?.trim() || null, changedBy });
+    }
+
+    async setStatus(appointmentId: number, status: AppointmentStatus, reason: string | null | undefined, changedBy: number | null) {
+        const result = await this.updateAppointment(appointmentId, { status, statusReason: reason }, changedBy);
+        if (!result.success) return result;
+        return { ...result, message: `Appointment marked as ${describeStatus(status)}.` };
+    }
+
+    async getStatusHistory(appointmentId: number) {
+        return await db.select({
+                id: appointmentStatusChanges.id,
+                fromStatus: appointmentStatusChanges.fromStatus,
+                toStatus: appointmentStatusChanges.toStatus,
+                reason: appointmentStatusChanges.reason,
+                changedBy: appointmentStatusChanges.changedBy,
+                changedByName: users.username,
+                changedAt: appointmentStatusChanges.changedAt,
+            })
+            .from(appointmentStatusChanges)
+            .leftJoin(users, eq(appointmentStatusChanges.changedBy, users.id))
+            .where(eq(appointmentStatusChanges.appointmentId, appointmentId))
+            .orderBy(asc(appointmentStatusChanges.changedAt), asc(appointmentStatusChanges.id));
+    }
+
+    /**
+     * Checks the patient in for their next booked or confirmed appointment today, if they have one,
+     * when they arrive at reception. Returns the appointment, or null.
+     */
+    async checkInForToday(patientId: number, changedBy: number | null) {
+        const dayStart = new Date();
+        dayStart.setHours(0, 0, 0, 0);
+        const [appointment] = await db.select({ id: appointments.id }).from(appointments)
+            .where(and(
+                eq(appointments.patientId, patientId),
+                gte(appointments.startTime, dayStart),
+                lt(appointments.startTime, new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1)),
+                inArray(appointments.status, ['booked', 'confirmed']),
+            ))
+            .orderBy(asc(appointments.startTime))
+            .limit(1);
+        if (!appointment) return null;
+        const result = await this.setStatus(appointment.id, 'checked_in', 'Checked in at reception.', changedBy);
+        return result.success ? result.appointment : null;
+    }
+
+    // Marks appointments from before today that were never checked in as no-shows. Returns how many.
+    async markMissedAppointments(changedBy: number | null) {
+        const dayStart = new Date();
+        dayStart.setHours(0, 0, 0, 0);
+        return await db.transaction(async (tx) => {
+            const missed = await tx.select({ id: appointments.id, status: appointments.status }).from(appointments)
+                .where(and(lt(appointments.startTime, dayStart), inArray(appointments.status, ['booked', 'confirmed'])))
+                .for('update');
+            if (missed.length === 0) return 0;
+            await tx.update(appointments).set({ status: 'no_show', updatedAt: new Date() })
+                .where(inArray(appointments.id, missed.map(appointment => appointment.id)));
+            await tx.insert(appointmentStatusChanges).values(missed.map(appointment => ({
+                appointmentId: appointment.id,
+                fromStatus: appointment.status,
+                toStatus: 'no_show',
+                reason: 'Not checked in by the end of the day.',
+                changedBy,
+            })));
+            return missed.length;
+        });
+    }
+
+    /**
+     * Attendance per patient or per doctor for appointments already due (started before now, or
+     * before `to`). The no-show rate counts against visits the patient was expected at, so
+     * cancellations are left out of it and reported separately.
+     */
+    async getAttendanceStats(filters: AttendanceFilters) {
+        const now = new Date();
+        const byPatient = filters.groupBy === 'patient';
+        const groupKey = byPatient ? appointments.patientId : appointments.doctorId;
+        const groupName = byPatient ? patients.name : users.username;
+        const rows = await db.select({
+                id: groupKey,
+                name: groupName,
+                appointments: count(),
+                attended: sql<number>`sum(case when ${inArray(appointments.status, ATTENDED_STATUSES)} then 1 else 0 end)`.mapWith(Number),
+                noShows: sql<number>`sum(case when ${appointments.status} = 'no_show' then 1 else 0 end)`.mapWith(Number),
+                cancellations: sql<number>`sum(case when ${appointments.status} = 'cancelled' then 1 else 0 end)`.mapWith(Number),
+            })
+            .from(appointments)
+            .leftJoin(patients, eq(appointments.patientId, patients.id))
+            .leftJoin(users, eq(appointments.doctorId, users.id))
+            .where(and(
+                lt(appointments.startTime, filters.to && filters.to < now ? filters.to : now),
+                filters.from ? gte(appointments.startTime, filters.from) : undefined,
+                filters.patientId ? eq(appointments.patientId, filters.patientId) : undefined,
+                filters.doctorId ? eq(appointments.doctorId, filters.doctorId) : undefined,
+                byPatient ? undefined : isNotNull(appointments.doctorId),
+            ))
+            .groupBy(groupKey, groupName);
+
+        const rate = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+        return rows
+            .map(row => ({
+                ...row,
+                noShowRate: rate(row.noShows, row.attended + row.noShows), // Percent
+                cancellationRate: rate(row.cancellations, row.appointments),
+            }))
+            .sort((a, b) => b.noShowRate - a.noShowRate || b.noShows - a.noShows);
+    }
+
+    async deleteAppointment(appointmentId: number) {
+        return await db.transaction(async (tx) => {
+            const [existing] = await tx.select({ patientId: appointments.patientId }).from(appointments).where(eq(appointments.id, appointmentId)).for('update');
+            if (!existing) return { success: false, message: 'Appointment not found.' };
+            await tx.delete(appointments).where(eq(appointments.id, appointmentId));
+            await this.syncNextAppointment(existing.patientId, tx);
+            return { success: true, message: 'Appointment deleted.' };
+        });
+    }
+}
+
+export const appointmentService = new AppointmentService();
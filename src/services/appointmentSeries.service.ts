@@ -0,0 +1,386 @@
+// src/services/appointmentSeries.service.ts
+import { and, asc, desc, eq, gte, inArray, TransactionRollbackError } from 'drizzle-orm';
+import { db } from '../config/database';
+import { appointments, appointmentSeries, appointmentSequenceSteps, appointmentSequenceTemplates } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+import { appointmentService, ACTIVE_APPOINTMENT_STATUSES, AppointmentConflict } from './appointment.service';
+import { isTimeOfDay, toDateKey } from './availability.service';
+
+export const MAX_SERIES_OCCURRENCES = 52;
+export const MAX_INTERVAL_WEEKS = 52;
+
+export interface SequenceStepInput {
+    label: string;
+    offsetDays: number; // From the first visit, so the first step is 0
+    durationMinutes?: number | null;
+}
+
+export interface SequenceTemplateInput {
+    name: string;
+    description?: string | null;
+    isActive?: boolean;
+    steps: SequenceStepInput[];
+}
+
+interface SeriesBookingInput {
+    patientId: number;
+    doctorId?: number | null;
+    chair?: string | null;
+    startTime: Date; // The first visit
+    notes?: string | null;
+}
+
+// Every `intervalWeeks` weeks from the start, `occurrences` times.
+export interface RecurringSeriesInput extends SeriesBookingInput {
+    procedure?: string | null;
+    durationMinutes?: number;
+    intervalWeeks: number;
+    occurrences: number;
+}
+
+// One visit per step of the template.
+export interface SequenceSeriesInput extends SeriesBookingInput {
+    templateId: number;
+}
+
+// Applied to every upcoming visit of a series. `time` (HH:mm) keeps each visit's date; `shiftDays` moves them all.
+export interface SeriesChanges {
+    doctorId?: number | null;
+    chair?: string | null;
+    procedure?: string | null;
+    notes?: string | null;
+    time?: string;
+    shiftDays?: number;
+    durationMinutes?: number;
+}
+
+export interface PlannedVisit {
+    seriesIndex: number;
+    procedure: string | null;
+    startTime: Date;
+    endTime: Date | null;
+    available: boolean;
+    problem: string | null;
+    conflicts: AppointmentConflict[];
+}
+
+type Visit = { seriesIndex: number; procedure: string | null; startTime: Date; durationMinutes?: number };
+
+// The same clock time, `days` later; DST-safe unlike adding milliseconds.
+const addDays = (date: Date, days: number) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes());
+
+const describeVisit = (seriesIndex: number | null, startTime: Date, total: number) => `Visit ${seriesIndex ?? '?'} of ${total} (${toDateKey(startTime)})`;
+
+export class AppointmentSeriesService {
+
+    // --- SEQUENCE TEMPLATES ---
+
+    private async attachSteps<T extends { id: number }>(templates: T[], executor: DbExecutor = db) {
+        const steps = templates.length === 0 ? [] : await executor.select().from(appointmentSequenceSteps)
+            .where(inArray(appointmentSequenceSteps.templateId, templates.map(template => template.id)))
+            .orderBy(asc(appointmentSequenceSteps.stepNumber));
+        return templates.map(template => ({ ...template, steps: steps.filter(step => step.templateId === template.id) }));
+    }
+
+    async getSequenceTemplates(includeInactive = false) {
+        const templates = await db.select().from(appointmentSequenceTemplates)
+            .where(includeInactive ? undefined : eq(appointmentSequenceTemplates.isActive, true))
+            .orderBy(asc(appointmentSequenceTemplates.name));
+        return await this.attachSteps(templates);
+    }
+
+    async getSequenceTemplateById(templateId: number, executor: DbExecutor = db) {
+        const [template] = await executor.select().from(appointmentSequenceTemplates).where(eq(appointmentSequenceTemplates.id, templateId)).limit(1);
+        if (!template) return null;
+        const [withSteps] = await this.attachSteps([template], executor);
+        return withSteps;
+    }
+
+    // Returns an error message, or null. Steps run in order, the first on day 0.
+    private validateSteps(steps: SequenceStepInput[]): string | null {
+        if (steps.length === 0 || steps.length > MAX_SERIES_OCCURRENCES) return `A sequence needs between 1 and ${MAX_SERIES_OCCURRENCES} steps.`;
+        for (const [index, step] of steps.entries()) {
+            if (typeof step.label !== 'string' || !step.label.trim()) return `Step ${index + 1} needs a label.`;
+            if (!Number.isInteger(step.offsetDays) || step.offsetDays < 0) return `Step ${index + 1} needs a whole number of days from the first visit.`;
+            if (index === 0 && step.offsetDays !== 0) return 'The first step is the first visit, so its offset must be 0 days.';
+            if (index > 0 && step.offsetDays <= steps[index - 1].offsetDays) return `Step ${index + 1} must come after step ${index}.`;
+            if (step.durationMinutes != null && (!Number.isInteger(step.durationMinutes) || step.durationMinutes <= 0)) {
+                return `Step ${index + 1} needs a positive duration in minutes, or none.`;
+            }
+        }
+        return null;
+    }
+
+    private async replaceSteps(templateId: number, steps: SequenceStepInput[], executor: DbExecutor) {
+        await executor.delete(appointmentSequenceSteps).where(eq(appointmentSequenceSteps.templateId, templateId));
+        await executor.insert(appointmentSequenceSteps).values(steps.map((step, index) => ({
+            templateId,
+            stepNumber: index + 1,
+            label: step.label.trim(),
+            offsetDays: step.offsetDays,
+            durationMinutes: step.durationMinutes ?? null,
+        })));
+    }
+
+    async createSequenceTemplate(input: SequenceTemplateInput, createdBy: number) {
+        const invalid = this.validateSteps(input.steps);
+        if (invalid) return { success: false, message: invalid };
+        const [existing] = await db.select({ id: appointmentSequenceTemplates.id }).from(appointmentSequenceTemplates)
+            .where(eq(appointmentSequenceTemplates.name, input.name.trim())).limit(1);
+        if (existing) return { success: false, message: 'A sequence template with this name already exists.' };
+
+        const templateId = await db.transaction(async (tx) => {
+            const [inserted] = await tx.insert(appointmentSequenceTemplates).values({
+                name: input.name.trim(),
+                description: input.description || null,
+                isActive: input.isActive ?? true,
+                createdBy,
+            });
+            await this.replaceSteps(inserted.insertId, input.steps, tx);
+            return inserted.insertId;
+        });
+        return { success: true, message: 'Sequence template created.', template: await this.getSequenceTemplateById(templateId) };
+    }
+
+    // New steps replace the old ones; series already booked from the template keep their visits.
+    async updateSequenceTemplate(templateId: number, changes: Partial<SequenceTemplateInput>) {
+        const template = await this.getSequenceTemplateById(templateId);
+        if (!template) return { success: false, message: 'Sequence template not found.' };
+        if (changes.steps) {
+            const invalid = this.validateSteps(changes.steps);
+            if (invalid) return { success: false, message: invalid };
+        }
+        if (changes.name && changes.name.trim() !== template.name) {
+            const [existing] = await db.select({ id: appointmentSequenceTemplates.id }).from(appointmentSequenceTemplates)
+                .where(eq(appointmentSequenceTemplates.name, changes.name.trim())).limit(1);
+            if (existing) return { success: false, message: 'A sequence template with this name already exists.' };
+        }
+
+        await db.transaction(async (tx) => {
+            await tx.update(appointmentSequenceTemplates).set({
+                ...(changes.name ? { name: changes.name.trim() } : {}),
+                ...(changes.description !== undefined ? { description: changes.description || null } : {}),
+                ...(changes.isActive !== undefined ? { isActive: changes.isActive } : {}),
+                updatedAt: new Date(),
+            }).where(eq(appointmentSequenceTemplates.id, templateId));
+            if (changes.steps) await this.replaceSteps(templateId, changes.steps, tx);
+        });
+        return { success: true, message: 'Sequence template updated.', template: await this.getSequenceTemplateById(templateId) };
+    }
+
+    // --- SERIES ---
+
+    async getSeries(filters: { patientId?: number } = {}) {
+        return await db.select().from(appointmentSeries)
+            .where(filters.patientId ? eq(appointmentSeries.patientId, filters.patientId) : undefined)
+            .orderBy(desc(appointmentSeries.createdAt));
+    }
+
+    async getSeriesById(seriesId: number, executor: DbExecutor = db) {
+        const [series] = await executor.select().from(appointmentSeries).where(eq(appointmentSeries.id, seriesId)).limit(1);
+        if (!series) return null;
+        return { ...series, appointments: await appointmentService.getAppointments({ seriesId }) };
+    }
+
+    /**
+     * Books every visit of a series in one transaction: if any visit can't be booked, none are, and
+     * the failure names the visit. With `preview`, nothing is kept and every visit is reported with
+     * whether it could be booked, so staff can pick another start before committing.
+     */
+    private async bookSeries(
+        series: Omit<typeof appointmentSeries.$inferInsert, 'occurrences'>,
+        visits: Visit[],
+        booking: SeriesBookingInput & { createdBy: number | null; preview?: boolean },
+    ) {
+        let rollbackMessage = '';
+        let rollbackConflicts: AppointmentConflict[] | undefined;
+        const planned: PlannedVisit[] = [];
+        let seriesId: number;
+        try {
+            seriesId = await db.transaction(async (tx) => {
+                const [inserted] = await tx.insert(appointmentSeries).values({ ...series, occurrences: visits.length });
+                for (const visit of visits) {
+                    const result = await appointmentService.createAppointment({
+                        patientId: booking.patientId,
+                        doctorId: booking.doctorId ?? null,
+                        chair: booking.chair ?? null,
+                        procedure: visit.procedure,
+                        startTime: visit.startTime,
+                        durationMinutes: visit.durationMinutes,
+                        notes: booking.notes,
+                        seriesId: inserted.insertId,
+                        seriesIndex: visit.seriesIndex,
+                    }, booking.createdBy, tx);
+                    if (booking.preview) {
+                        planned.push({
+                            seriesIndex: visit.seriesIndex,
+                            procedure: visit.procedure,
+                            startTime: visit.startTime,
+                            endTime: result.appointment?.endTime ?? null,
+                            available: result.success,
+                            problem: result.success ? null : result.message,
+                            conflicts: result.conflicts ?? [],
+                        });
+                    } else if (!result.success) {
+                        rollbackMessage = `${describeVisit(visit.seriesIndex, visit.startTime, visits.length)}: ${result.message}`;
+                        rollbackConflicts = result.conflicts;
+                        tx.rollback();
+                    }
+                }
+                if (booking.preview) tx.rollback();
+                return inserted.insertId;
+            });
+        } catch (error) {
+            if (!(error instanceof TransactionRollbackError)) throw error;
+            if (booking.preview) {
+                const bookable = planned.every(visit => visit.available);
+                return { success: true, message: bookable ? 'Every visit can be booked.' : 'Some visits cannot be booked.', bookable, visits: planned };
+            }
+            return { success: false, message: rollbackMessage, conflicts: rollbackConflicts };
+        }
+        return { success: true, message: `${visits.length} appointments booked.`, series: await this.getSeriesById(seriesId) };
+    }
+
+    async bookRecurring(input: RecurringSeriesInput, createdBy: number | null, options: { preview?: boolean } = {}) {
+        if (!Number.isInteger(input.intervalWeeks) || input.intervalWeeks < 1 || input.intervalWeeks > MAX_INTERVAL_WEEKS) {
+            return { success: false, message: `The interval must be between 1 and ${MAX_INTERVAL_WEEKS} weeks.` };
+        }
+        if (!Number.isInteger(input.occurrences) || input.occurrences < 2 || input.occurrences > MAX_SERIES_OCCURRENCES) {
+            return { success: false, message: `A recurring series has between 2 and ${MAX_SERIES_OCCURRENCES} appointments.` };
+        }
+        const procedure = input.procedure?.trim() || null;
+        const visits = Array.from({ length: input.occurrences }, (_, index) => ({
+            seriesIndex: index + 1,
+            procedure,
+            startTime: addDays(input.startTime, index * input.intervalWeeks * 7),
+            durationMinutes: input.durationMinutes,
+        }));
+        return await this.bookSeries({
+            patientId: input.patientId,
+            kind: 'recurring',
+            doctorId: input.doctorId ?? null,
+            chair: input.chair?.trim() || null,
+            procedure,
+            intervalWeeks: input.intervalWeeks,
+            notes: input.notes || null,
+            createdBy,
+        }, visits, { ...input, createdBy, preview: options.preview });
+    }
+
+    async bookSequence(input: SequenceSeriesInput, createdBy: number | null, options: { preview?: boolean } = {}) {
+        const template = await this.getSequenceTemplateById(input.templateId);
+        if (!template || !template.isActive) return { success: false, message: 'Sequence template not found.' };
+        const visits = template.steps.map(step => ({
+            seriesIndex: step.stepNumber,
+            procedure: step.label,
+            startTime: addDays(input.startTime, step.offsetDays),
+            durationMinutes: step.durationMinutes ?? undefined,
+        }));
+        return await this.bookSeries({
+            patientId: input.patientId,
+            kind: 'sequence',
+            doctorId: input.doctorId ?? null,
+            chair: input.chair?.trim() || null,
+            procedure: template.name,
+            sequenceTemplateId: template.id,
+            notes: input.notes || null,
+            createdBy,
+        }, visits, { ...input, createdBy, preview: options.preview });
+    }
+
+    // Visits of the series still to come and still holding their slot.
+    private async upcomingVisits(seriesId: number, executor: DbExecutor) {
+        return await executor.select().from(appointments)
+            .where(and(
+                eq(appointments.seriesId, seriesId),
+                gte(appointments.startTime, new Date()),
+                inArray(appointments.status, ACTIVE_APPOINTMENT_STATUSES),
+            ))
+            .orderBy(asc(appointments.startTime))
+            .for('update');
+    }
+
+    /**
+     * Applies the changes to every upcoming visit of the series, all or nothing; past, completed and
+     * cancelled visits are left alone. A single visit is edited through the appointment itself.
+     */
+    async updateSeries(seriesId: number, changes: SeriesChanges, updatedBy: number | null) {
+        const series = await this.getSeriesById(seriesId);
+        if (!series) return { success: false, message: 'Appointment series not found.' };
+        if (series.cancelledAt) return { success: false, message: 'This series has been cancelled.' };
+        if (series.kind === 'sequence' && changes.procedure !== undefined) {
+            return { success: false, message: "A sequence's visits keep their own procedures; edit a single visit instead." };
+        }
+        if (changes.time !== undefined && !isTimeOfDay(changes.time)) return { success: false, message: 'Time must be in HH:mm format.' };
+
+        let rollbackMessage = '';
+        let rollbackConflicts: AppointmentConflict[] | undefined;
+        let updated: number;
+        try {
+            updated = await db.transaction(async (tx) => {
+                const visits = await this.upcomingVisits(seriesId, tx);
+                for (const visit of visits) {
+                    let startTime = addDays(visit.startTime, changes.shiftDays ?? 0);
+                    if (changes.time) {
+                        const [hours, minutes] = changes.time.split(':').map(Number);
+                        startTime = new Date(startTime.getFullYear(), startTime.getMonth(), startTime.getDate(), hours, minutes);
+                    }
+                    const result = await appointmentService.updateAppointment(visit.id, {
+                        doctorId: changes.doctorId,
+                        chair: changes.chair,
+                        procedure: changes.procedure,
+                        notes: changes.notes,
+                        startTime,
+                        durationMinutes: changes.durationMinutes,
+                    }, updatedBy, tx);
+                    if (!result.success) {
+                        rollbackMessage = `${describeVisit(visit.seriesIndex, startTime, series.occurrences)}: ${result.message}`;
+                        rollbackConflicts = result.conflicts;
+                        tx.rollback();
+                    }
+                }
+                await tx.update(appointmentSeries).set({
+                    ...(changes.doctorId !== undefined ? { doctorId: changes.doctorId } : {}),
+                    ...(changes.chair !== undefined ? { chair: changes.chair?.trim() || null } : {}),
+                    ...(changes.procedure !== undefined ? { procedure: changes.procedure?.trim() || null } : {}),
+                    ...(changes.notes !== undefined ? { notes: changes.notes || null } : {}),
+                }).where(eq(appointmentSeries.id, seriesId));
+                return visits.length;
+            });
+        } catch (error) {
+            if (error instanceof TransactionRollbackError) return { success: false, message: rollbackMessage, conflicts: rollbackConflicts };
+            throw error;
+        }
+        return { success: true, message: `${updated} upcoming appointment${updated === 1 ? '' : 's'} updated.`, series: await this.getSeriesById(seriesId) };
+    }
+
+    // Cancels every upcoming visit and closes the series. A single visit is cancelled through the appointment itself.
+    async cancelSeries(seriesId: number, cancelledBy: number, reason: string) {
+        const series = await this.getSeriesById(seriesId);
+        if (!series) return { success: false, message: 'Appointment series not found.' };
+        if (series.cancelledAt) return { success: false, message: 'This series has already been cancelled.' };
+
+        const cancelled = await db.transaction(async (tx) => {
+            const visits = await this.upcomingVisits(seriesId, tx);
+            if (visits.length > 0) {
+                await tx.update(appointments).set({ status: 'cancelled', updatedAt: new Date() })
+                    .where(inArray(appointments.id, visits.map(visit => visit.id)));
+                for (const visit of visits) {
+                    await appointmentService.recordStatusChange(visit.id, visit.status, 'cancelled', reason, cancelledBy, tx);
+                }
+            }
+            await tx.update(appointmentSeries).set({ cancelledAt: new Date(), cancelledBy }).where(eq(appointmentSeries.id, seriesId));
+            await appointmentService.syncNextAppointment(series.patientId, tx);
+            return visits.map(visit => visit.id);
+        });
+        return {
+            success: true,
+            message: `Series cancelled; ${cancelled.length} upcoming appointment${cancelled.length === 1 ? '' : 's'} cancelled.`,
+            series: await this.getSeriesById(seriesId),
+            cancelledAppointmentIds: cancelled,
+        };
+    }
+}
+
+export const appointmentSeriesService = new AppointmentSeriesService();
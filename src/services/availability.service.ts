@@ -0,0 +1,235 @@
+// src/services/availability.service.ts
+import { and, asc, eq, gte, lte } from 'drizzle-orm';
+import { db } from '../config/database';
+import { doctorWorkingHours, doctorLeave, clinicHolidays, users } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+
+// Roles that can have patients booked with them.
+export const BOOKABLE_ROLES = ['doctor', 'owner'];
+
+export interface WorkingDayInput {
+    dayOfWeek: number; // 0 = Sunday
+    startTime: string; // "HH:mm"
+    endTime: string;
+    breakStart?: string | null;
+    breakEnd?: string | null;
+}
+
+export interface TimePeriod {
+    start: Date;
+    end: Date;
+}
+
+// For doctors whose hours have not been set: Monday to Saturday, 09:00 to 17:00.
+export const DEFAULT_WORKING_HOURS: WorkingDayInput[] = [1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, startTime: '09:00', endTime: '17:00' }));
+
+export const isTimeOfDay = (value: unknown): value is string => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+export const isDateKey = (value: unknown): value is string =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00`).getTime());
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "YYYY-MM-DD" in the server's local time, which is the clinic's.
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const atTime = (day: Date, time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+};
+
+// The day's working periods: the hours, split around the break.
+const periodsOfDay = (day: Date, hours: WorkingDayInput): TimePeriod[] => {
+    const start = atTime(day, hours.startTime);
+    const end = atTime(day, hours.endTime);
+    if (!hours.breakStart || !hours.breakEnd) return [{ start, end }];
+    return [{ start, end: atTime(day, hours.breakStart) }, { start: atTime(day, hours.breakEnd), end }]
+        .filter(period => period.end > period.start);
+};
+
+export class AvailabilityService {
+
+    private async findBookableUser(userId: number, executor: DbExecutor = db) {
+        const [user] = await executor.select({ id: users.id, username: users.username, role: users.role, isActive: users.isActive })
+            .from(users).where(eq(users.id, userId)).limit(1);
+        return user && user.isActive && BOOKABLE_ROLES.includes(user.role) ? user : null;
+    }
+
+    // --- WORKING HOURS ---
+
+    /**
+     * The doctor's weekly hours. `configured` is false when none have been set and the clinic
+     * defaults apply; bookings are only held to hours a doctor has actually set.
+     */
+    async getWorkingHours(doctorId: number, executor: DbExecutor = db) {
+        const rows = await executor.select().from(doctorWorkingHours)
+            .where(eq(doctorWorkingHours.doctorId, doctorId))
+            .orderBy(asc(doctorWorkingHours.dayOfWeek));
+        if (rows.length === 0) return { configured: false, days: DEFAULT_WORKING_HOURS };
+        return {
+            configured: true,
+            days: rows.map(({ dayOfWeek, startTime, endTime, breakStart, breakEnd }) => ({ dayOfWeek, startTime, endTime, breakStart, breakEnd })),
+        };
+    }
+
+    // Replaces the doctor's week. Days left out are days off; an empty week goes back to the defaults.
+    async setWorkingHours(doctorId: number, days: WorkingDayInput[]) {
+        const doctor = await this.findBookableUser(doctorId);
+        if (!doctor) return { success: false, message: 'Doctor not found.' };
+        const seen = new Set<number>();
+        for (const day of days) {
+            if (!Number.isInteger(day.dayOfWeek) || day.dayOfWeek < 0 || day.dayOfWeek > 6 || seen.has(day.dayOfWeek)) {
+                return { success: false, message: 'Each day of the week (0 = Sunday to 6 = Saturday) can appear once.' };
+            }
+            seen.add(day.dayOfWeek);
+            if (!isTimeOfDay(day.startTime) || !isTimeOfDay(day.endTime) || day.startTime >= day.endTime) {
+                return { success: false, message: 'Working hours need a start and a later end time (HH:mm).' };
+            }
+            const hasBreak = !!day.breakStart || !!day.breakEnd;
+            if (hasBreak && (!isTimeOfDay(day.breakStart) || !isTimeOfDay(day.breakEnd)
+                || day.breakStart >= day.breakEnd || day.breakStart <= day.startTime || day.breakEnd >= day.endTime)) {
+                return { success: false, message: 'A break needs a start and an end (HH:mm) inside the working hours.' };
+            }
+        }
+
+        await db.transaction(async (tx) => {
+            await tx.delete(doctorWorkingHours).where(eq(doctorWorkingHours.doctorId, doctorId));
+            if (days.length > 0) {
+                await tx.insert(doctorWorkingHours).values(days.map(day => ({
+                    doctorId,
+                    dayOfWeek: day.dayOfWeek,
+                    startTime: day.startTime,
+                    endTime: day.endTime,
+                    breakStart: day.breakStart || null,
+                    breakEnd: day.breakEnd || null,
+                })));
+            }
+        });
+        return { success: true, message: 'Working hours saved.', workingHours: await this.getWorkingHours(doctorId) };
+    }
+
+    // --- LEAVE ---
+
+    // Leave overlapping [from, to] (YYYY-MM-DD, inclusive), earliest first.
+    async getLeave(filters: { doctorId?: number; from?: string; to?: string } = {}, executor: DbExecutor = db) {
+        return await executor.select({
+                id: doctorLeave.id,
+                doctorId: doctorLeave.doctorId,
+                doctorName: users.username,
+                startDate: doctorLeave.startDate,
+                endDate: doctorLeave.endDate,
+                reason: doctorLeave.reason,
+                createdBy: doctorLeave.createdBy,
+                createdAt: doctorLeave.createdAt,
+            })
+            .from(doctorLeave)
+            .leftJoin(users, eq(doctorLeave.doctorId, users.id))
+            .where(and(
+                filters.doctorId ? eq(doctorLeave.doctorId, filters.doctorId) : undefined,
+                filters.to ? lte(doctorLeave.startDate, filters.to) : undefined,
+                filters.from ? gte(doctorLeave.endDate, filters.from) : undefined,
+            ))
+            .orderBy(asc(doctorLeave.startDate));
+    }
+
+    async addLeave(input: { doctorId: number; startDate: string; endDate: string; reason?: string | null; createdBy: number }) {
+        const doctor = await this.findBookableUser(input.doctorId);
+        if (!doctor) return { success: false, message: 'Doctor not found.' };
+        if (input.endDate < input.startDate) return { success: false, message: 'Leave must end on or after the day it starts.' };
+        const [inserted] = await db.insert(doctorLeave).values({ ...input, reason: input.reason || null });
+        const [leave] = await db.select().from(doctorLeave).where(eq(doctorLeave.id, inserted.insertId)).limit(1);
+        return { success: true, message: 'Leave recorded.', leave };
+    }
+
+    async deleteLeave(leaveId: number) {
+        const [deleted] = await db.delete(doctorLeave).where(eq(doctorLeave.id, leaveId));
+        if (deleted.affectedRows === 0) return { success: false, message: 'Leave not found.' };
+        return { success: true, message: 'Leave removed.' };
+    }
+
+    // --- CLINIC HOLIDAYS ---
+
+    async getHolidays(filters: { from?: string; to?: string } = {}, executor: DbExecutor = db) {
+        return await executor.select().from(clinicHolidays)
+            .where(and(
+                filters.from ? gte(clinicHolidays.date, filters.from) : undefined,
+                filters.to ? lte(clinicHolidays.date, filters.to) : undefined,
+            ))
+            .orderBy(asc(clinicHolidays.date));
+    }
+
+    async addHoliday(input: { date: string; name: string; createdBy: number }) {
+        const [existing] = await db.select({ id: clinicHolidays.id }).from(clinicHolidays).where(eq(clinicHolidays.date, input.date)).limit(1);
+        if (existing) return { success: false, message: 'A holiday is already recorded on this date.' };
+        const [inserted] = await db.insert(clinicHolidays).values(input);
+        const [holiday] = await db.select().from(clinicHolidays).where(eq(clinicHolidays.id, inserted.insertId)).limit(1);
+        return { success: true, message: 'Holiday added.', holiday };
+    }
+
+    async deleteHoliday(holidayId: number) {
+        const [deleted] = await db.delete(clinicHolidays).where(eq(clinicHolidays.id, holidayId));
+        if (deleted.affectedRows === 0) return { success: false, message: 'Holiday not found.' };
+        return { success: true, message: 'Holiday removed.' };
+    }
+
+    // --- AVAILABILITY ---
+
+    /**
+     * When the doctor can see patients between `from` and `to`: their weekly hours (or the clinic
+     * defaults) less breaks, leave and clinic holidays. Bookings are not taken into account here.
+     */
+    async getWorkingPeriods(doctorId: number, from: Date, to: Date): Promise<TimePeriod[]> {
+        const range = { from: toDateKey(from), to: toDateKey(to) };
+        const { days } = await this.getWorkingHours(doctorId);
+        const leave = await this.getLeave({ doctorId, ...range });
+        const holidays = new Set((await this.getHolidays(range)).map(holiday => holiday.date));
+
+        const periods: TimePeriod[] = [];
+        for (let day = startOfDay(from); day < to; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+            const key = toDateKey(day);
+            if (holidays.has(key) || leave.some(entry => entry.startDate <= key && entry.endDate >= key)) continue;
+            const hours = days.find(entry => entry.dayOfWeek === day.getDay());
+            if (!hours) continue;
+            for (const period of periodsOfDay(day, hours)) {
+                const start = period.start < from ? from : period.start;
+                const end = period.end > to ? to : period.end;
+                if (end > start) periods.push({ start, end });
+            }
+        }
+        return periods;
+    }
+
+    /**
+     * Why a slot can't be booked, or null if it can: the clinic is closed, the doctor is on leave,
+     * or the slot falls outside hours the doctor has set.
+     */
+    async checkSlot(doctorId: number | null, start: Date, end: Date, executor: DbExecutor = db): Promise<string | null> {
+        const range = { from: toDateKey(start), to: toDateKey(new Date(end.getTime() - 1)) };
+        const [holiday] = await this.getHolidays(range, executor);
+        if (holiday) return `The clinic is closed on ${holiday.date} (${holiday.name}).`;
+        if (!doctorId) return null;
+
+        const [leave] = await this.getLeave({ doctorId, ...range }, executor);
+        if (leave) return `${leave.doctorName ?? 'The doctor'} is on leave from ${leave.startDate} to ${leave.endDate}.`;
+        const { configured, days } = await this.getWorkingHours(doctorId, executor);
+        if (!configured) return null;
+        const hours = days.find(entry => entry.dayOfWeek === start.getDay());
+        const fits = hours && periodsOfDay(start, hours).some(period => period.start <= start && end <= period.end);
+        return fits ? null : "The slot is outside the doctor's working hours.";
+    }
+
+    // The first day on or after `date` that the clinic is open by default (not a Sunday or a holiday).
+    async nextOpenDay(date: Date) {
+        const openDays = DEFAULT_WORKING_HOURS.map(day => day.dayOfWeek);
+        const holidays = new Set((await this.getHolidays({ from: toDateKey(date) })).map(holiday => holiday.date));
+        let day = new Date(date);
+        while (!openDays.includes(day.getDay()) || holidays.has(toDateKey(day))) {
+            day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1, day.getHours(), day.getMinutes());
+        }
+        return day;
+    }
+}
+
+export const availabilityService = new AvailabilityService();
@@ -3,16 +3,25 @@ import { db } from '../config/database';
 import { serviceItems, hmoProviders } from '../../db/schema';
 import { eq, asc } from 'drizzle-orm'; // Import asc for ordering
 import { InferInsertModel } from 'drizzle-orm';
+import { hmoContractService } from './hmoContract.service';
 
 type ServiceItemInsert = InferInsertModel<typeof serviceItems>;
 type HmoProviderInsert = InferInsertModel<typeof hmoProviders>;
 
 export class BillingService {
-    async getBillingOptions() {
+    /**
+     * Services and HMOs for the invoice and receipt forms. Given an HMO, the services are priced
+     * under its contract in force on `on` (today by default), with co-pay and exclusions per service.
+     */
+    async getBillingOptions(hmoProviderId?: number, on: Date = new Date()) {
         // Order the results alphabetically
         const services = await db.select().from(serviceItems).orderBy(asc(serviceItems.name));
         const hmos = await db.select().from(hmoProviders).orderBy(asc(hmoProviders.name));
-        return { services, hmos };
+        if (!hmoProviderId) return { services, hmos };
+
+        const contract = await hmoContractService.getActiveContract(hmoProviderId, on);
+        if (!contract) return { services, hmos, contract: null };
+        return { services: await hmoContractService.getContractPriceList(contract, services), hmos, contract };
     }
 
     // --- Service Item Management ---
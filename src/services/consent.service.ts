@@ -0,0 +1,412 @@
+// src/services/consent.service.ts
+import handlebars from 'handlebars';
+import { SQL, and, asc, desc, eq, isNull, or } from 'drizzle-orm';
+import { db } from '../config/database';
+import { consentTemplates, patientConsents, patients, dentalRecords, treatmentPlans, treatmentPlanProcedures, users } from '../../db/schema';
+import { emailService } from './email.service';
+import { pdfService } from './pdf.service';
+import { imageStorageService } from './imageStorage.service';
+import { imageProcessingService, FORMAT_MIME_TYPES } from './imageProcessing.service';
+import { UploadedFile } from './patientImage.service';
+
+export const CONSENT_PROCEDURE_TYPES = ['extraction', 'root_canal', 'implant', 'surgery', 'general'] as const;
+export type ConsentProcedureType = typeof CONSENT_PROCEDURE_TYPES[number];
+
+export const isConsentProcedureType = (value: unknown): value is ConsentProcedureType =>
+    typeof value === 'string' && (CONSENT_PROCEDURE_TYPES as readonly string[]).includes(value);
+
+// How a treatment plan procedure's description maps to the consent it needs.
+const PROCEDURE_PATTERNS: [ConsentProcedureType, RegExp][] = [
+    ['extraction', /\b(extract\w*|exodontia|disimpaction)\b/i],
+    ['root_canal', /\b(root canal|rct|endodontic\w*|pulpectomy)\b/i],
+    ['implant', /\bimplants?\b/i],
+    ['surgery', /\b(surgery|surgical|apicectomy|frenectomy|gingivectomy|alveoloplasty)\b/i],
+];
+
+export const consentTypeForProcedure = (description: string): ConsentProcedureType | null =>
+    PROCEDURE_PATTERNS.find(([, pattern]) => pattern.test(description))?.[0] ?? null;
+
+export interface ConsentTemplateInput {
+    name: string;
+    procedureType: ConsentProcedureType;
+    title: string;
+    body: string;
+    isActive?: boolean;
+}
+
+// What a consent is signed for: the patient and the dental record and/or planned procedure.
+export interface ConsentSubjectInput {
+    patientId: number;
+    dentalRecordId?: number | null;
+    treatmentPlanProcedureId?: number | null;
+    tooth?: number | null;
+}
+
+export interface SignConsentInput extends ConsentSubjectInput {
+    templateId: number;
+    signerName?: string | null;
+    signerRelationship?: string | null;
+    witnessedBy: number;
+}
+
+type ConsentTemplate = typeof consentTemplates.$inferSelect;
+
+type ConsentSubject = {
+    patient: { id: number; name: string; dateOfBirth: Date | null };
+    dentalRecordId: number | null;
+    procedure: { id: number; description: string } | null;
+    tooth: number | null;
+    doctorName: string | null;
+};
+
+type Signing = { signatureDataUrl: string; signerName: string; signerRelationship: string; signedAt: Date; witnessName: string | null };
+
+// Blank lines separate paragraphs; line breaks inside a paragraph are joined.
+const toParagraphs = (text: string) => text.split(/\n\s*\n/).map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').trim()).filter(Boolean);
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+const SIGNATURE_FORMATS = ['png', 'jpeg'];
+
+export class ConsentService {
+
+    // --- TEMPLATES ---
+
+    async getTemplates(includeInactive: boolean = false) {
+        return await db.select().from(consentTemplates)
+            .where(includeInactive ? undefined : eq(consentTemplates.isActive, true))
+            .orderBy(asc(consentTemplates.procedureType), asc(consentTemplates.name));
+    }
+
+    async getTemplateById(templateId: number) {
+        const [template] = await db.select().from(consentTemplates).where(eq(consentTemplates.id, templateId)).limit(1);
+        return template ?? null;
+    }
+
+    /**
+     * Checks a template body before it is saved, so a typo surfaces when the form is written
+     * rather than when a patient is about to sign it. Returns an error message, or null.
+     */
+    private validateBody(body: string): string | null {
+        try {
+            handlebars.precompile(body);
+            return null;
+        } catch (error: any) {
+            return `Template body is not valid: ${error.message}`;
+        }
+    }
+
+    async createTemplate(input: ConsentTemplateInput, createdBy: number) {
+        const bodyError = this.validateBody(input.body);
+        if (bodyError) return { success: false, message: bodyError };
+        const [existing] = await db.select({ id: consentTemplates.id }).from(consentTemplates).where(eq(consentTemplates.name, input.name)).limit(1);
+        if (existing) return { success: false, message: 'A consent form with this name already exists.' };
+        const [inserted] = await db.insert(consentTemplates).values({ ...input, createdBy });
+        return { success: true, message: 'Consent form created.', template: await this.getTemplateById(inserted.insertId) };
+    }
+
+    // Changing the wording starts a new version; consents already signed keep the wording they were signed with.
+    async updateTemplate(templateId: number, input: Partial<ConsentTemplateInput>) {
+        const existing = await this.getTemplateById(templateId);
+        if (!existing) return { success: false, message: 'Consent form not found.' };
+        if (input.body !== undefined) {
+            const bodyError = this.validateBody(input.body);
+            if (bodyError) return { success: false, message: bodyError };
+        }
+        if (input.name && input.name !== existing.name) {
+            const [clash] = await db.select({ id: consentTemplates.id }).from(consentTemplates).where(eq(consentTemplates.name, input.name)).limit(1);
+            if (clash) return { success: false, message: 'A consent form with this name already exists.' };
+        }
+        const reworded = (input.body !== undefined && input.body !== existing.body) || (input.title !== undefined && input.title !== existing.title);
+        await db.update(consentTemplates).set({
+            ...input,
+            ...(reworded ? { version: existing.version + 1 } : {}),
+            updatedAt: new Date(),
+        }).where(eq(consentTemplates.id, templateId));
+        return { success: true, message: 'Consent form updated.', template: await this.getTemplateById(templateId) };
+    }
+
+    // --- RENDERING ---
+
+    /**
+     * Checks that the record and procedure belong to the patient and fills in what they imply:
+     * a procedure brings its plan's dental record and its tooth, a record brings its doctor.
+     */
+    private async resolveSubject(input: ConsentSubjectInput): Promise<{ success: true; subject: ConsentSubject } | { success: false; message: string }> {
+        const [patient] = await db.select({ id: patients.id, name: patients.name, dateOfBirth: patients.dateOfBirth })
+            .from(patients).where(eq(patients.id, input.patientId)).limit(1);
+        if (!patient) return { success: false, message: 'Patient not found.' };
+
+        let dentalRecordId = input.dentalRecordId ?? null;
+        let tooth = input.tooth ?? null;
+        let procedure: ConsentSubject['procedure'] = null;
+        if (input.treatmentPlanProcedureId) {
+            const [row] = await db.select({ procedure: treatmentPlanProcedures, plan: treatmentPlans })
+                .from(treatmentPlanProcedures)
+                .innerJoin(treatmentPlans, eq(treatmentPlanProcedures.planId, treatmentPlans.id))
+                .where(eq(treatmentPlanProcedures.id, input.treatmentPlanProcedureId))
+                .limit(1);
+            if (!row) return { success: false, message: 'Treatment plan procedure not found.' };
+            if (row.plan.patientId !== patient.id) return { success: false, message: 'Treatment plan procedure belongs to another patient.' };
+            procedure = { id: row.procedure.id, description: row.procedure.description };
+            dentalRecordId = dentalRecordId ?? row.plan.dentalRecordId;
+            tooth = tooth ?? row.procedure.tooth;
+        }
+
+        let doctorName: string | null = null;
+        if (dentalRecordId) {
+            const [record] = await db.select({ patientId: dentalRecords.patientId, deletedAt: dentalRecords.deletedAt, doctorName: users.username })
+                .from(dentalRecords)
+                .leftJoin(users, eq(dentalRecords.doctorId, users.id))
+                .where(eq(dentalRecords.id, dentalRecordId))
+                .limit(1);
+            if (!record || record.deletedAt) return { success: false, message: 'Dental record not found.' };
+            if (record.patientId !== patient.id) return { success: false, message: 'Dental record belongs to another patient.' };
+            doctorName = record.doctorName;
+        }
+        return { success: true, subject: { patient, dentalRecordId, procedure, tooth, doctorName } };
+    }
+
+    /**
+     * Fills the template's placeholders ({{patientName}}, {{procedure}}, {{tooth}}, {{doctorName}},
+     * {{date}}) and lays the result out as the printable form. `formText` is the plain wording.
+     */
+    private async renderForm(template: ConsentTemplate, subject: ConsentSubject, signing?: Signing) {
+        const procedure = subject.procedure?.description ?? template.title;
+        // The form template escapes the wording when it lays it out, so don't escape it twice here.
+        const formText = handlebars.compile(template.body, { noEscape: true })({
+            patientName: subject.patient.name,
+            procedure,
+            tooth: subject.tooth,
+            doctorName: subject.doctorName,
+            date: formatDate(signing?.signedAt ?? new Date()),
+        }).trim();
+        const html = await emailService.renderConsentFormHtml({
+            title: template.title,
+            templateName: template.name,
+            templateVersion: template.version,
+            patientName: subject.patient.name,
+            patientDateOfBirth: subject.patient.dateOfBirth ? formatDate(subject.patient.dateOfBirth) : null,
+            procedure,
+            tooth: subject.tooth,
+            doctorName: subject.doctorName,
+            paragraphs: toParagraphs(formText),
+            signatureDataUrl: signing?.signatureDataUrl,
+            signerName: signing?.signerName ?? subject.patient.name,
+            signerRelationship: signing?.signerRelationship,
+            signedAt: signing ? signing.signedAt.toISOString().replace('T', ' ').slice(0, 16) : '',
+            witnessName: signing?.witnessName,
+        });
+        return { formText, html };
+    }
+
+    // The unsigned form as the patient will read it before signing.
+    async previewTemplate(templateId: number, input: ConsentSubjectInput) {
+        const template = await this.getTemplateById(templateId);
+        if (!template) return { success: false, message: 'Consent form not found.' };
+        const resolved = await this.resolveSubject(input);
+        if (resolved.success === false) return resolved;
+        const { html } = await this.renderForm(template, resolved.subject);
+        return { success: true, message: 'Consent form rendered.', html };
+    }
+
+    // --- SIGNED CONSENTS ---
+
+    /**
+     * Records a signed consent: the drawn signature (a PNG or JPEG), the form as signed (a PDF with
+     * the signature on it), the time and the staff member who witnessed it. The consent must be
+     * linked to a dental record or a planned procedure. Stored files are removed again on failure.
+     */
+    async signConsent(input: SignConsentInput, signature: UploadedFile) {
+        const template = await this.getTemplateById(input.templateId);
+        if (!template || !template.isActive) return { success: false, message: 'Consent form not found.' };
+        if (!input.dentalRecordId && !input.treatmentPlanProcedureId) {
+            return { success: false, message: 'A consent must be linked to a dental record or a treatment plan procedure.' };
+        }
+        const resolved = await this.resolveSubject(input);
+        if (resolved.success === false) return resolved;
+        const { subject } = resolved;
+
+        const procedureType = subject.procedure ? consentTypeForProcedure(subject.procedure.description) : null;
+        if (procedureType && template.procedureType !== 'general' && template.procedureType !== procedureType) {
+            return { success: false, message: `This consent form is for ${template.procedureType.replace('_', ' ')}, but the procedure is ${procedureType.replace('_', ' ')}.` };
+        }
+
+        const format = imageProcessingService.detectFormat(signature.buffer);
+        if (!format || !SIGNATURE_FORMATS.includes(format)) return { success: false, message: 'The signature must be a PNG or JPEG image.' };
+        try {
+            await imageProcessingService.inspect(signature.buffer);
+        } catch (error) {
+            return { success: false, message: 'The signature is not a readable image.' };
+        }
+        const mimeType = FORMAT_MIME_TYPES[format];
+
+        const [witness] = await db.select({ username: users.username }).from(users).where(eq(users.id, input.witnessedBy)).limit(1);
+        const signedAt = new Date();
+        const signing: Signing = {
+            signatureDataUrl: `data:${mimeType};base64,${signature.buffer.toString('base64')}`,
+            signerName: input.signerName?.trim() || subject.patient.name,
+            signerRelationship: input.signerRelationship?.trim() || 'self',
+            signedAt,
+            witnessName: witness?.username ?? null,
+        };
+        const { formText, html } = await this.renderForm(template, subject, signing);
+        const pdf = await pdfService.htmlToPdf(html);
+
+        const adapter = imageStorageService.getActiveAdapter();
+        const folder = `patients/${subject.patient.id}/consents`;
+        const saved: string[] = [];
+        try {
+            const storedSignature = await adapter.save(signature.buffer, { folder, filename: `signature.${format === 'jpeg' ? 'jpg' : 'png'}`, mimeType });
+            saved.push(storedSignature.storageKey);
+            const storedForm = await adapter.save(pdf, { folder, filename: `${template.name}.pdf`, mimeType: 'application/pdf' });
+            saved.push(storedForm.storageKey);
+
+            const [inserted] = await db.insert(patientConsents).values({
+                patientId: subject.patient.id,
+                templateId: template.id,
+                templateVersion: template.version,
+                procedureType: template.procedureType,
+                dentalRecordId: subject.dentalRecordId,
+                treatmentPlanProcedureId: subject.procedure?.id ?? null,
+                tooth: subject.tooth,
+                formText,
+                storageProvider: adapter.provider,
+                signatureKey: storedSignature.storageKey,
+                signatureUrl: storedSignature.url,
+                formKey: storedForm.storageKey,
+                formUrl: storedForm.url,
+                signerName: signing.signerName,
+                signerRelationship: signing.signerRelationship,
+                witnessedBy: input.witnessedBy,
+                signedAt,
+            });
+            return { success: true, message: 'Consent signed.', consent: await this.getConsentById(inserted.insertId) };
+        } catch (error) {
+            for (const storageKey of saved) {
+                await adapter.remove(storageKey).catch(removeError => console.error('Failed to remove orphaned consent file:', removeError));
+            }
+            throw error;
+        }
+    }
+
+    // Consents with their form name and witness, newest first.
+    private async loadConsents(where: SQL | undefined) {
+        return await db.select({
+                id: patientConsents.id,
+                patientId: patientConsents.patientId,
+                templateId: patientConsents.templateId,
+                templateName: consentTemplates.name,
+                templateVersion: patientConsents.templateVersion,
+                procedureType: patientConsents.procedureType,
+                dentalRecordId: patientConsents.dentalRecordId,
+                treatmentPlanProcedureId: patientConsents.treatmentPlanProcedureId,
+                tooth: patientConsents.tooth,
+                formText: patientConsents.formText,
+                storageProvider: patientConsents.storageProvider,
+                signatureUrl: patientConsents.signatureUrl,
+                formUrl: patientConsents.formUrl,
+                signerName: patientConsents.signerName,
+                signerRelationship: patientConsents.signerRelationship,
+                witnessedBy: patientConsents.witnessedBy,
+                witnessName: users.username,
+                signedAt: patientConsents.signedAt,
+                revokedAt: patientConsents.revokedAt,
+                revokedBy: patientConsents.revokedBy,
+                revocationReason: patientConsents.revocationReason,
+            })
+            .from(patientConsents)
+            .leftJoin(consentTemplates, eq(patientConsents.templateId, consentTemplates.id))
+            .leftJoin(users, eq(patientConsents.witnessedBy, users.id))
+            .where(where)
+            .orderBy(desc(patientConsents.signedAt), desc(patientConsents.id));
+    }
+
+    async getConsents(filters: { patientId: number; dentalRecordId?: number; treatmentPlanProcedureId?: number; includeRevoked?: boolean }) {
+        return await this.loadConsents(and(
+            eq(patientConsents.patientId, filters.patientId),
+            filters.dentalRecordId ? eq(patientConsents.dentalRecordId, filters.dentalRecordId) : undefined,
+            filters.treatmentPlanProcedureId ? eq(patientConsents.treatmentPlanProcedureId, filters.treatmentPlanProcedureId) : undefined,
+            filters.includeRevoked ? undefined : isNull(patientConsents.revokedAt),
+        ));
+    }
+
+    async getConsentById(consentId: number) {
+        const [consent] = await this.loadConsents(eq(patientConsents.id, consentId));
+        return consent ?? null;
+    }
+
+    /**
+     * The signed form (PDF) or the signature image, read from the provider that stored it.
+     */
+    async getConsentFile(consentId: number, variant: 'form' | 'signature') {
+        const [consent] = await db.select().from(patientConsents).where(eq(patientConsents.id, consentId)).limit(1);
+        if (!consent) return null;
+        const buffer = await imageStorageService.getAdapter(consent.storageProvider).read(variant === 'form' ? consent.formKey : consent.signatureKey);
+        const format = variant === 'signature' ? imageProcessingService.detectFormat(buffer) : null;
+        return { consent, buffer, mimeType: variant === 'form' ? 'application/pdf' : format ? FORMAT_MIME_TYPES[format] : 'application/octet-stream' };
+    }
+
+    // A withdrawn consent is kept for the record but no longer counts as consent on file.
+    async revokeConsent(consentId: number, revokedBy: number, reason: string) {
+        const [consent] = await db.select({ revokedAt: patientConsents.revokedAt }).from(patientConsents).where(eq(patientConsents.id, consentId)).limit(1);
+        if (!consent) return { success: false, message: 'Consent not found.' };
+        if (consent.revokedAt) return { success: false, message: 'Consent is already revoked.' };
+        await db.update(patientConsents).set({ revokedAt: new Date(), revokedBy, revocationReason: reason }).where(eq(patientConsents.id, consentId));
+        return { success: true, message: 'Consent revoked.', consent: await this.getConsentById(consentId) };
+    }
+
+    // --- CONSENT CHECKS ---
+
+    /**
+     * The newest unrevoked consent covering a procedure: one signed for that planned procedure, or
+     * one of the same type signed on the same dental record (for the same tooth, or the whole mouth).
+     */
+    async findConsent(filters: { patientId: number; procedureType: ConsentProcedureType; dentalRecordId?: number | null; treatmentPlanProcedureId?: number | null; tooth?: number | null }) {
+        const matches = [
+            filters.treatmentPlanProcedureId ? eq(patientConsents.treatmentPlanProcedureId, filters.treatmentPlanProcedureId) : undefined,
+            filters.dentalRecordId ? and(
+                eq(patientConsents.procedureType, filters.procedureType),
+                eq(patientConsents.dentalRecordId, filters.dentalRecordId),
+                filters.tooth ? or(isNull(patientConsents.tooth), eq(patientConsents.tooth, filters.tooth)) : undefined,
+            ) : undefined,
+        ].filter(Boolean);
+        if (matches.length === 0) return null;
+        const [consent] = await this.loadConsents(and(
+            eq(patientConsents.patientId, filters.patientId),
+            isNull(patientConsents.revokedAt),
+            or(...matches),
+        ));
+        return consent ?? null;
+    }
+
+    /**
+     * Whether a planned procedure needs signed consent before it is completed, and the consent on
+     * file if there is one. A procedure needs consent when its description names a procedure type
+     * (extraction, root canal ...) that has an active consent form; deactivating the form lifts the rule.
+     */
+    async checkProcedureConsent(procedureId: number) {
+        const [row] = await db.select({ procedure: treatmentPlanProcedures, plan: treatmentPlans })
+            .from(treatmentPlanProcedures)
+            .innerJoin(treatmentPlans, eq(treatmentPlanProcedures.planId, treatmentPlans.id))
+            .where(eq(treatmentPlanProcedures.id, procedureId))
+            .limit(1);
+        if (!row) return null;
+        const procedureType = consentTypeForProcedure(row.procedure.description);
+        if (!procedureType) return { required: false, procedureType, consent: null };
+
+        const [template] = await db.select({ id: consentTemplates.id }).from(consentTemplates)
+            .where(and(eq(consentTemplates.procedureType, procedureType), eq(consentTemplates.isActive, true)))
+            .limit(1);
+        const consent = await this.findConsent({
+            patientId: row.plan.patientId,
+            procedureType,
+            dentalRecordId: row.plan.dentalRecordId,
+            treatmentPlanProcedureId: row.procedure.id,
+            tooth: row.procedure.tooth,
+        });
+        return { required: !!template, procedureType, consent };
+    }
+}
+
+export const consentService = new ConsentService();
@@ -0,0 +1,168 @@
+// src/services/creditNote.service.ts
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { creditNotes, invoices, payments, receipts } from '../../db/schema';
+import { ledgerService } from './ledger.service';
+import { paymentAllocationService } from './paymentAllocation.service';
+import { sequenceService } from './sequence.service';
+
+export interface ReceiptReversalData {
+    reason: string;
+    // How the money goes back to the patient; defaults to the receipt's own payment method.
+    refundMethod?: string | null;
+    createdBy?: number | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class CreditNoteService {
+
+    /**
+     * Voids a receipt: the money still held against it is reversed with a compensating payment and
+     * a credit note is issued. If the receipt billed its own invoice, that invoice is voided as well
+     * (unless another receipt still pays it), so the balance returns to what it was before the receipt.
+     */
+    async voidReceipt(receiptId: number, data: ReceiptReversalData) {
+        return await this.reverseReceipt(receiptId, 'void', null, data);
+    }
+
+    /**
+     * Refunds part or all of a receipt. The refunded amount is owed again on the invoice lines it paid.
+     */
+    async refundReceipt(receiptId: number, amount: number | string, data: ReceiptReversalData) {
+        const parsedAmount = round2(parseFloat(String(amount)));
+        if (isNaN(parsedAmount) || parsedAmount <= 0) return { success: false, message: 'Refund amount must be a positive number.' };
+        return await this.reverseReceipt(receiptId, 'refund', parsedAmount, data);
+    }
+
+    private async reverseReceipt(receiptId: number, type: 'void' | 'refund', amount: number | null, data: ReceiptReversalData) {
+        const result = await db.transaction(async (tx) => {
+            const [receipt] = await tx.select().from(receipts).where(eq(receipts.id, receiptId)).for('update');
+            if (!receipt) return { success: false, message: 'Receipt not found.' };
+            if (receipt.status !== 'issued') return { success: false, message: `Receipt is already ${receipt.status}.` };
+
+            const [held] = await tx.select({ total: sql<string>`COALESCE(SUM(${payments.amount}), 0)` })
+                .from(payments)
+                .where(and(eq(payments.receiptId, receiptId), eq(payments.status, 'completed')));
+            const refundable = round2(parseFloat(held?.total || '0'));
+            const reversed = amount ?? refundable;
+            if (reversed > refundable) {
+                return { success: false, message: `Refund of ${reversed.toFixed(2)} exceeds the ${refundable.toFixed(2)} still held on this receipt.` };
+            }
+
+            const issuedAt = new Date();
+            const refundMethod = data.refundMethod || receipt.paymentMethod;
+            let paymentId: number | null = null;
+            if (reversed > 0) {
+                const [paymentInserted] = await tx.insert(payments).values({
+                    patientId: receipt.patientId,
+                    receiptId,
+                    invoiceId: receipt.invoiceId,
+                    amount: (-reversed).toFixed(2),
+                    method: refundMethod,
+                    recordedBy: data.createdBy ?? null,
+                    paidAt: issuedAt,
+                });
+                paymentId = paymentInserted.insertId;
+                const reversals = await paymentAllocationService.reverseReceiptAllocations(receiptId, paymentId, reversed, tx);
+                // A family receipt may have paid other members' invoices, which are owed again now.
+                await ledgerService.recalculateForInvoices(reversals.map(row => row.invoiceId), tx);
+            }
+
+            let invoiceVoided = false;
+            if (type === 'void' && receipt.billsInvoice && receipt.invoiceId) {
+                if (!(await paymentAllocationService.invoiceHasPayments(receipt.invoiceId, tx))) {
+                    await tx.update(invoices).set({ status: 'void', updatedAt: new Date() }).where(eq(invoices.id, receipt.invoiceId));
+                    invoiceVoided = true;
+                }
+            }
+
+            const fullyRefunded = round2(refundable - reversed) <= 0;
+            if (type === 'void' || fullyRefunded) {
+                await tx.update(receipts)
+                    .set({ status: type === 'void' ? 'void' : 'refunded', updatedAt: new Date() })
+                    .where(eq(receipts.id, receiptId));
+            }
+
+            const creditNoteNumber = await sequenceService.allocateNumber('credit_note', issuedAt, tx);
+            const [inserted] = await tx.insert(creditNotes).values({
+                creditNoteNumber,
+                patientId: receipt.patientId,
+                receiptId,
+                paymentId,
+                type,
+                amount: reversed.toFixed(2),
+                refundMethod: reversed > 0 ? refundMethod : null,
+                reason: data.reason,
+                invoiceVoided,
+                createdBy: data.createdBy ?? null,
+                issuedAt,
+            });
+
+            await ledgerService.recalculateOutstanding(receipt.patientId, tx);
+            return { success: true, creditNoteId: inserted.insertId };
+        });
+
+        if (!result.success || !result.creditNoteId) return { success: false, message: result.message };
+        return {
+            success: true,
+            message: type === 'void' ? 'Receipt voided successfully.' : 'Refund recorded successfully.',
+            creditNote: await this.getCreditNoteById(result.creditNoteId),
+        };
+    }
+
+    async getCreditNotes(patientId?: number) {
+        return await db.query.creditNotes.findMany({
+            where: patientId ? eq(creditNotes.patientId, patientId) : undefined,
+            orderBy: [desc(creditNotes.issuedAt), desc(creditNotes.id)],
+            with: {
+                patient: { columns: { id: true, name: true } },
+                receipt: { columns: { id: true, receiptNumber: true, amountPaid: true } },
+            },
+        });
+    }
+
+    async getCreditNoteById(creditNoteId: number) {
+        const creditNote = await db.query.creditNotes.findFirst({
+            where: eq(creditNotes.id, creditNoteId),
+            with: {
+                patient: { columns: { id: true, name: true, outstanding: true } },
+                creator: { columns: { id: true, username: true } },
+                receipt: { with: { invoice: { columns: { id: true, invoiceNumber: true, status: true } } } },
+            },
+        });
+        return creditNote ?? null;
+    }
+
+    async markCreditNoteSent(creditNoteId: number) {
+        const [existing] = await db.select({ sentCount: creditNotes.sentCount }).from(creditNotes).where(eq(creditNotes.id, creditNoteId)).limit(1);
+        if (!existing) return;
+        await db.update(creditNotes)
+            .set({ lastSentAt: new Date(), sentCount: existing.sentCount + 1 })
+            .where(eq(creditNotes.id, creditNoteId));
+    }
+
+    /**
+     * Maps a stored credit note onto the payload shape `EmailService.sendCreditNoteEmail` expects.
+     */
+    toEmailPayload(creditNote: NonNullable<Awaited<ReturnType<CreditNoteService['getCreditNoteById']>>>, extras: { patientEmail?: string | null } = {}) {
+        return {
+            patientId: creditNote.patientId,
+            creditNoteNumber: creditNote.creditNoteNumber,
+            creditNoteDate: creditNote.issuedAt.toISOString().split('T')[0],
+            type: creditNote.type,
+            patientName: creditNote.patient?.name,
+            patientEmail: extras.patientEmail || undefined,
+            receiptNumber: creditNote.receipt?.receiptNumber,
+            receiptDate: creditNote.receipt?.receiptDate.toISOString().split('T')[0],
+            invoiceNumber: creditNote.receipt?.invoice?.invoiceNumber,
+            invoiceVoided: creditNote.invoiceVoided,
+            amount: creditNote.amount,
+            refundMethod: creditNote.refundMethod,
+            reason: creditNote.reason,
+            outstanding: creditNote.patient?.outstanding,
+        };
+    }
+}
+
+export const creditNoteService = new CreditNoteService();
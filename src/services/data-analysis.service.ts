@@ -1,6 +1,8 @@
 import { db } from '../config/database';
-import { patients, dentalRecords, dailyVisits, users, inventoryItems, inventoryTransactions, hmoProviders, serviceItems } from '../../db/schema';
-import { sql, and, eq, gte, lte, desc, isNull, not, between, count } from 'drizzle-orm';
+import { patients, dentalRecords, dailyVisits, users, inventoryItems, inventoryTransactions, hmoProviders, serviceItems, treatmentPlans, treatmentPlanProcedures, appointments } from '../../db/schema';
+import { sql, and, eq, gte, lte, desc, isNull, not, between, count, inArray } from 'drizzle-orm';
+import { hmoClaimService } from './hmoClaim.service';
+import { ACTIVE_APPOINTMENT_STATUSES } from './appointment.service';
 
 export class DataAnalysisService {
 
@@ -59,10 +61,10 @@ export class DataAnalysisService {
             
         const [upcomingAppointmentsResult] = await db
             .select({ count: count() })
-            .from(patients)
+            .from(appointments)
             .where(and(
-                gte(patients.nextAppointmentDate, todayStart),
-                not(isNull(patients.nextAppointmentDate))
+                gte(appointments.startTime, todayStart),
+                inArray(appointments.status, ACTIVE_APPOINTMENT_STATUSES)
             ));
 
         return {
@@ -81,7 +83,7 @@ export class DataAnalysisService {
         const records = await db
             .select({ provisionalDiagnosis: dentalRecords.provisionalDiagnosis })
             .from(dentalRecords)
-            .where(not(isNull(dentalRecords.provisionalDiagnosis)));
+            .where(and(not(isNull(dentalRecords.provisionalDiagnosis)), isNull(dentalRecords.deletedAt)));
 
         const diagnosisCounts = records.reduce((acc, record) => {
             // The diagnosis is stored as a JSON array of strings
@@ -105,10 +107,40 @@ export class DataAnalysisService {
     
     /**
      * Analyzes revenue generated from treatment plans within a specific date range.
+     * Completed plan procedures are counted at their quoted price; older records whose plan is
+     * still a list of names are matched to the service list as before.
      * @param startDate The start of the date range.
      * @param endDate The end of the date range.
      */
     async getTreatmentRevenue(startDate: Date, endDate: Date) {
+        const revenueByTreatment: Record<string, { count: number; revenue: number }> = {};
+        const revenueByDay: Record<string, number> = {};
+        const addRevenue = (treatmentName: string, price: number, date: Date) => {
+            const day = new Date(date).toISOString().split('T')[0];
+            revenueByDay[day] = (revenueByDay[day] || 0) + price;
+            if (!revenueByTreatment[treatmentName]) {
+                revenueByTreatment[treatmentName] = { count: 0, revenue: 0 };
+            }
+            revenueByTreatment[treatmentName].count += 1;
+            revenueByTreatment[treatmentName].revenue += price;
+        };
+
+        // Only performed work is revenue: completed procedures, on the day they were completed.
+        const procedures = await db
+            .select({
+                serviceName: serviceItems.name,
+                description: treatmentPlanProcedures.description,
+                price: treatmentPlanProcedures.price,
+                completedAt: treatmentPlanProcedures.completedAt,
+            })
+            .from(treatmentPlanProcedures)
+            .leftJoin(serviceItems, eq(treatmentPlanProcedures.serviceItemId, serviceItems.id))
+            .where(and(
+                between(treatmentPlanProcedures.completedAt, startDate, endDate),
+                eq(treatmentPlanProcedures.status, 'completed')
+            ));
+        procedures.forEach(p => addRevenue(p.serviceName ?? p.description, parseFloat(p.price), p.completedAt!));
+
         // 1. Fetch all service items to create a price map.
         const services = await db.select().from(serviceItems);
         const priceMap = new Map<string, number>();
@@ -117,44 +149,27 @@ export class DataAnalysisService {
             priceMap.set(service.name, parseFloat(service.price));
         });
 
-        // 2. Fetch dental records within the date range that have a treatment plan.
+        // 2. Fetch dental records within the date range that have a legacy treatment plan
+        // and no structured plan made from them (those were counted above).
         const records = await db
             .select({ 
                 treatmentPlan: dentalRecords.treatmentPlan,
                 createdAt: dentalRecords.createdAt 
             })
             .from(dentalRecords)
+            .leftJoin(treatmentPlans, eq(treatmentPlans.dentalRecordId, dentalRecords.id))
             .where(and(
                 between(dentalRecords.createdAt, startDate, endDate),
-                not(isNull(dentalRecords.treatmentPlan))
+                not(isNull(dentalRecords.treatmentPlan)),
+                isNull(dentalRecords.deletedAt),
+                isNull(treatmentPlans.id)
             ));
 
         // 3. Process the records to calculate revenue.
-        const revenueByTreatment: Record<string, { count: number; revenue: number }> = {};
-        const revenueByDay: Record<string, number> = {};
-
         records.forEach(record => {
             const treatments = record.treatmentPlan as string[] | null;
-            const recordDate = new Date(record.createdAt).toISOString().split('T')[0];
-
-            if (!revenueByDay[recordDate]) {
-                revenueByDay[recordDate] = 0;
-            }
-
             if (Array.isArray(treatments)) {
-                treatments.forEach(treatmentName => {
-                    const price = priceMap.get(treatmentName) || 0;
-
-                    // Aggregate by treatment name
-                    if (!revenueByTreatment[treatmentName]) {
-                        revenueByTreatment[treatmentName] = { count: 0, revenue: 0 };
-                    }
-                    revenueByTreatment[treatmentName].count += 1;
-                    revenueByTreatment[treatmentName].revenue += price;
-                    
-                    // Aggregate total revenue by day
-                    revenueByDay[recordDate] += price;
-                });
+                treatments.forEach(treatmentName => addRevenue(treatmentName, priceMap.get(treatmentName) || 0, record.createdAt));
             }
         });
 
@@ -234,6 +249,33 @@ export class DataAnalysisService {
         return Object.entries(hmoCounts).map(([name, value]) => ({ name, value }));
     }
 
+    /**
+     * Extends the HMO distribution with each HMO's claim receivables, so the enrolled
+     * patient count and the money the HMO owes can be read side by side.
+     */
+    async getHmoReceivables() {
+        const distribution = await this.getHmoDistribution();
+        const receivables = await hmoClaimService.getReceivablesByHmo();
+
+        const names = new Set([...distribution.map(d => d.name), ...receivables.map(r => r.hmoName)]);
+        return Array.from(names).map(name => {
+            const receivable = receivables.find(r => r.hmoName === name);
+            return {
+                name,
+                patientCount: distribution.find(d => d.name === name)?.value ?? 0,
+                unclaimedInvoices: receivable?.unclaimedInvoices ?? 0,
+                unclaimedAmount: receivable?.unclaimedAmount ?? 0,
+                draftAmount: receivable?.draftAmount ?? 0,
+                awaitingDecisionAmount: receivable?.awaitingDecisionAmount ?? 0,
+                approvedAmount: receivable?.approvedAmount ?? 0,
+                rejectedAmount: receivable?.rejectedAmount ?? 0,
+                remittedAmount: receivable?.remittedAmount ?? 0,
+                outstandingAmount: receivable?.outstandingAmount ?? 0,
+                oldestPendingSubmission: receivable?.oldestPendingSubmission ?? null,
+            };
+        }).sort((a, b) => b.outstandingAmount - a.outstandingAmount);
+    }
+
     /**
      * Ranks doctor performance based on the number of patient encounters.
      */
@@ -245,7 +287,7 @@ export class DataAnalysisService {
             })
             .from(dentalRecords)
             .leftJoin(users, eq(dentalRecords.doctorId, users.id))
-            .where(not(isNull(dentalRecords.doctorId)))
+            .where(and(not(isNull(dentalRecords.doctorId)), isNull(dentalRecords.deletedAt)))
             .groupBy(users.id, users.username)
             .orderBy(desc(count(dentalRecords.patientId)));
 
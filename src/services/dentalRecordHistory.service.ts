@@ -0,0 +1,78 @@
+// src/services/dentalRecordHistory.service.ts
+import { asc, eq, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { dentalRecords, dentalRecordRevisions, users } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+
+export type RevisionAction = 'created' | 'updated' | 'deleted' | 'signed' | 'addendum';
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Bookkeeping columns that change on every write and say nothing about the clinical content.
+const IGNORED_FIELDS = ['id', 'patientId', 'createdAt', 'updatedAt'];
+
+// Dates and JSON columns compare by value, not by reference.
+const comparable = (value: unknown) => JSON.stringify(value instanceof Date ? value.toISOString() : value ?? null);
+
+/**
+ * The fields of `update` whose values differ from `current`, with their old and new values.
+ */
+export const diffFields = (current: Record<string, unknown>, update: Record<string, unknown>): FieldChanges => {
+    const changes: FieldChanges = {};
+    for (const [field, to] of Object.entries(update)) {
+        if (to === undefined || IGNORED_FIELDS.includes(field)) continue;
+        const from = current[field] ?? null;
+        if (comparable(from) !== comparable(to)) changes[field] = { from, to };
+    }
+    return changes;
+};
+
+export class DentalRecordHistoryService {
+
+    /**
+     * Appends a revision to a record's history. Revisions are never updated or deleted;
+     * call inside the transaction that makes the change so the two cannot drift apart.
+     */
+    async recordRevision(recordId: number, revision: { action: RevisionAction; changes: FieldChanges; authorId: number | null; reason?: string | null }, executor: DbExecutor = db) {
+        const [last] = await executor.select({ revisionNumber: sql<number>`coalesce(max(${dentalRecordRevisions.revisionNumber}), 0)` })
+            .from(dentalRecordRevisions)
+            .where(eq(dentalRecordRevisions.dentalRecordId, recordId));
+        await executor.insert(dentalRecordRevisions).values({
+            dentalRecordId: recordId,
+            revisionNumber: Number(last?.revisionNumber ?? 0) + 1,
+            action: revision.action,
+            changedFields: Object.keys(revision.changes),
+            changes: revision.changes,
+            reason: revision.reason || null,
+            authorId: revision.authorId,
+        });
+    }
+
+    /**
+     * A record with its full amendment history, oldest revision first. Deleted records are
+     * included so the history stays auditable after a soft delete.
+     */
+    async getHistory(recordId: number) {
+        const [record] = await db.select().from(dentalRecords).where(eq(dentalRecords.id, recordId)).limit(1);
+        if (!record) return null;
+
+        const revisions = await db.select({
+                id: dentalRecordRevisions.id,
+                revisionNumber: dentalRecordRevisions.revisionNumber,
+                action: dentalRecordRevisions.action,
+                changedFields: dentalRecordRevisions.changedFields,
+                changes: dentalRecordRevisions.changes,
+                reason: dentalRecordRevisions.reason,
+                authorId: dentalRecordRevisions.authorId,
+                authorUsername: users.username,
+                createdAt: dentalRecordRevisions.createdAt,
+            })
+            .from(dentalRecordRevisions)
+            .leftJoin(users, eq(dentalRecordRevisions.authorId, users.id))
+            .where(eq(dentalRecordRevisions.dentalRecordId, recordId))
+            .orderBy(asc(dentalRecordRevisions.revisionNumber));
+
+        return { record, revisions };
+    }
+}
+
+export const dentalRecordHistoryService = new DentalRecordHistoryService();
@@ -0,0 +1,92 @@
+// src/services/dentalRecordSignOff.service.ts
+import { asc, eq, inArray } from 'drizzle-orm';
+import { db } from '../config/database';
+import { dentalRecords, dentalRecordAddenda, users } from '../../db/schema';
+import { dentalRecordHistoryService } from './dentalRecordHistory.service';
+
+export const LOCKED_RECORD_MESSAGE = 'Dental record is signed off and locked. Attach an addendum instead.';
+
+export class DentalRecordSignOffService {
+
+    /**
+     * Finalises a dental record. A record assigned to a doctor can only be signed by that doctor;
+     * an unassigned record can be signed by any doctor, who then becomes its doctor. Signing is final.
+     * Owners cannot sign; the route and the `canSignOffDentalRecord` setting only admit doctors.
+     */
+    async signOff(recordId: number, signer: { userId: number; role: string }) {
+        return await db.transaction(async (tx) => {
+            const [record] = await tx.select().from(dentalRecords).where(eq(dentalRecords.id, recordId)).for('update');
+            if (!record || record.deletedAt) return { success: false, message: 'Dental record not found.' };
+            if (record.signedAt) return { success: false, message: 'Dental record is already signed off.' };
+            // Older records carry whoever wrote them as the doctor; one written by a non-doctor counts as unassigned.
+            const [assigned] = record.doctorId
+                ? await tx.select({ role: users.role }).from(users).where(eq(users.id, record.doctorId)).limit(1)
+                : [];
+            const assignedDoctorId = assigned?.role === 'doctor' ? record.doctorId : null;
+            if (assignedDoctorId ? assignedDoctorId !== signer.userId : signer.role !== 'doctor') {
+                return { success: false, message: assignedDoctorId ? "Only the record's doctor can sign it off." : 'Only a doctor can sign off a dental record.' };
+            }
+
+            const signedAt = new Date();
+            const doctorId = assignedDoctorId ?? signer.userId;
+            await tx.update(dentalRecords).set({ signedAt, signedBy: signer.userId, doctorId }).where(eq(dentalRecords.id, recordId));
+            await dentalRecordHistoryService.recordRevision(recordId, {
+                action: 'signed',
+                changes: {
+                    signedAt: { from: null, to: signedAt },
+                    signedBy: { from: null, to: signer.userId },
+                    ...(doctorId === record.doctorId ? {} : { doctorId: { from: record.doctorId, to: doctorId } }),
+                },
+                authorId: signer.userId,
+            }, tx);
+            return { success: true, message: 'Dental record signed off.', signedAt };
+        });
+    }
+
+    /**
+     * Attaches a note to a signed-off record. Addenda are the only way to add to a locked record
+     * and, like the record itself, are never edited once written.
+     */
+    async addAddendum(recordId: number, content: string, authorId: number) {
+        return await db.transaction(async (tx) => {
+            const [record] = await tx.select().from(dentalRecords).where(eq(dentalRecords.id, recordId)).for('update');
+            if (!record || record.deletedAt) return { success: false, message: 'Dental record not found.' };
+            if (!record.signedAt) return { success: false, message: 'Dental record is not signed off yet. Edit the record instead.' };
+
+            const [inserted] = await tx.insert(dentalRecordAddenda).values({ dentalRecordId: recordId, content, authorId });
+            await dentalRecordHistoryService.recordRevision(recordId, {
+                action: 'addendum',
+                changes: { addendum: { from: null, to: content } },
+                authorId,
+            }, tx);
+            const [addendum] = await tx.select().from(dentalRecordAddenda).where(eq(dentalRecordAddenda.id, inserted.insertId)).limit(1);
+            return { success: true, message: 'Addendum added.', addendum };
+        });
+    }
+
+    /**
+     * Addenda for the given records, oldest first, keyed by record id.
+     */
+    async getAddenda(recordIds: number[]) {
+        const byRecord = new Map<number, { id: number; content: string; authorId: number | null; authorUsername: string | null; createdAt: Date }[]>();
+        if (recordIds.length === 0) return byRecord;
+        const rows = await db.select({
+                id: dentalRecordAddenda.id,
+                dentalRecordId: dentalRecordAddenda.dentalRecordId,
+                content: dentalRecordAddenda.content,
+                authorId: dentalRecordAddenda.authorId,
+                authorUsername: users.username,
+                createdAt: dentalRecordAddenda.createdAt,
+            })
+            .from(dentalRecordAddenda)
+            .leftJoin(users, eq(dentalRecordAddenda.authorId, users.id))
+            .where(inArray(dentalRecordAddenda.dentalRecordId, recordIds))
+            .orderBy(asc(dentalRecordAddenda.createdAt), asc(dentalRecordAddenda.id));
+        for (const { dentalRecordId, ...addendum } of rows) {
+            byRecord.set(dentalRecordId, [...(byRecord.get(dentalRecordId) ?? []), addendum]);
+        }
+        return byRecord;
+    }
+}
+
+export const dentalRecordSignOffService = new DentalRecordSignOffService();
@@ -0,0 +1,136 @@
+// src/services/dicom.service.ts
+import * as dicomParser from 'dicom-parser';
+import sharp from 'sharp';
+
+export interface DicomMetadata {
+    modality: string | null;
+    studyDate: string | null; // YYYY-MM-DD
+    studyDescription: string | null;
+    patientName: string | null;
+    patientId: string | null;
+    manufacturer: string | null;
+    transferSyntax: string | null;
+    rows: number | null;
+    columns: number | null;
+}
+
+// Transfer syntaxes whose pixel data we can turn into a preview ourselves.
+const IMPLICIT_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+const EXPLICIT_LITTLE_ENDIAN = '1.2.840.10008.1.2.1';
+const JPEG_BASELINE = ['1.2.840.10008.1.2.4.50', '1.2.840.10008.1.2.4.51'];
+
+const text = (dataSet: dicomParser.DataSet, tag: string) => dataSet.string(tag)?.trim() || null;
+
+// DICOM names are "Family^Given^Middle"; compare them as sets of lower-case words.
+const nameTokens = (name: string) => name.toLowerCase().split(/[\s^,.-]+/).filter(token => token.length > 1);
+
+export class DicomService {
+
+    /**
+     * Parses a DICOM Part 10 file. Throws when the file is not valid DICOM.
+     */
+    parse(buffer: Buffer) {
+        const dataSet = dicomParser.parseDicom(new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length));
+        const studyDate = text(dataSet, 'x00080020');
+        const metadata: DicomMetadata = {
+            modality: text(dataSet, 'x00080060'),
+            studyDate: studyDate && /^\d{8}$/.test(studyDate) ? `${studyDate.slice(0, 4)}-${studyDate.slice(4, 6)}-${studyDate.slice(6, 8)}` : null,
+            studyDescription: text(dataSet, 'x00081030'),
+            patientName: text(dataSet, 'x00100010'),
+            patientId: text(dataSet, 'x00100020'),
+            manufacturer: text(dataSet, 'x00080070'),
+            transferSyntax: text(dataSet, 'x00020010'),
+            rows: dataSet.uint16('x00280010') ?? null,
+            columns: dataSet.uint16('x00280011') ?? null,
+        };
+        return { dataSet, metadata };
+    }
+
+    /**
+     * Warnings when the file's embedded patient does not look like the patient it is being filed
+     * under. The sensor's patient ID may be its own numbering, so an ID difference is only a hint.
+     */
+    findPatientMismatches(metadata: DicomMetadata, patient: { id: number; name: string }): string[] {
+        const warnings: string[] = [];
+        if (metadata.patientName) {
+            const ours = nameTokens(patient.name);
+            const theirs = nameTokens(metadata.patientName);
+            if (theirs.length > 0 && !theirs.some(token => ours.includes(token))) {
+                warnings.push(`DICOM patient name "${metadata.patientName.replace(/\^/g, ' ').trim()}" does not match ${patient.name}.`);
+            }
+        }
+        if (metadata.patientId && metadata.patientId !== String(patient.id)) {
+            warnings.push(`DICOM patient ID "${metadata.patientId}" differs from this patient's ID (${patient.id}).`);
+        }
+        return warnings;
+    }
+
+    /**
+     * Renders the first frame as a PNG for the browser. Supports uncompressed little-endian and
+     * baseline JPEG pixel data; returns null for other encodings (the original is kept either way).
+     */
+    async renderPreview(dataSet: dicomParser.DataSet): Promise<Buffer | null> {
+        const pixelData = dataSet.elements.x7fe00010;
+        if (!pixelData) return null;
+        const transferSyntax = text(dataSet, 'x00020010') ?? IMPLICIT_LITTLE_ENDIAN;
+
+        if (JPEG_BASELINE.includes(transferSyntax) && pixelData.encapsulatedPixelData) {
+            const frame = dicomParser.readEncapsulatedImageFrame(dataSet, pixelData, 0, dicomParser.createJPEGBasicOffsetTable(dataSet, pixelData));
+            return await sharp(Buffer.from(frame)).png().toBuffer();
+        }
+        if (transferSyntax !== IMPLICIT_LITTLE_ENDIAN && transferSyntax !== EXPLICIT_LITTLE_ENDIAN) return null;
+
+        const rows = dataSet.uint16('x00280010');
+        const columns = dataSet.uint16('x00280011');
+        const bitsAllocated = dataSet.uint16('x00280100') ?? 16;
+        const samplesPerPixel = dataSet.uint16('x00280002') ?? 1;
+        if (!rows || !columns) return null;
+
+        const pixelCount = rows * columns;
+        const bytes = Buffer.from(dataSet.byteArray.buffer, dataSet.byteArray.byteOffset + pixelData.dataOffset, pixelData.length);
+
+        // Colour photos (RGB, interleaved) need no windowing.
+        if (samplesPerPixel === 3 && bitsAllocated === 8) {
+            return await sharp(bytes.subarray(0, pixelCount * 3), { raw: { width: columns, height: rows, channels: 3 } }).png().toBuffer();
+        }
+        if (samplesPerPixel !== 1 || (bitsAllocated !== 8 && bitsAllocated !== 16)) return null;
+
+        const signed = dataSet.uint16('x00280103') === 1;
+        const slope = dataSet.floatString('x00281053') ?? 1;
+        const intercept = dataSet.floatString('x00281052') ?? 0;
+        const values = new Float64Array(pixelCount);
+        for (let i = 0; i < pixelCount; i++) {
+            const raw = bitsAllocated === 8
+                ? (signed ? bytes.readInt8(i) : bytes[i])
+                : (signed ? bytes.readInt16LE(i * 2) : bytes.readUInt16LE(i * 2));
+            values[i] = raw * slope + intercept;
+        }
+
+        // Use the file's window when it has one, otherwise stretch the full range.
+        let low: number;
+        let high: number;
+        const center = dataSet.floatString('x00281050');
+        const width = dataSet.floatString('x00281051');
+        if (center !== undefined && width !== undefined && width > 1) {
+            low = center - width / 2;
+            high = center + width / 2;
+        } else {
+            low = Infinity;
+            high = -Infinity;
+            for (const value of values) {
+                if (value < low) low = value;
+                if (value > high) high = value;
+            }
+        }
+        const range = high - low || 1;
+        const invert = text(dataSet, 'x00280004') === 'MONOCHROME1'; // MONOCHROME1 stores bone as dark
+        const grey = Buffer.alloc(pixelCount);
+        for (let i = 0; i < pixelCount; i++) {
+            const level = Math.round(Math.min(Math.max((values[i] - low) / range, 0), 1) * 255);
+            grey[i] = invert ? 255 - level : level;
+        }
+        return await sharp(grey, { raw: { width: columns, height: rows, channels: 1 } }).png().toBuffer();
+    }
+}
+
+export const dicomService = new DicomService();
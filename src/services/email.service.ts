@@ -7,6 +7,21 @@ import { db } from '../config/database';
 import { users } from '../../db/schema';
 import { inArray } from 'drizzle-orm';
 import { googleSheetsService } from './googleSheets.service';
+import { pdfService } from './pdf.service';
+
+export interface EmailAttachment {
+    filename: string;
+    content: Buffer;
+    contentType?: string;
+}
+
+// Diagnosis and treatment plan are stored as JSON and may be a list or free text.
+const formatClinicalField = (value: unknown): string | null => {
+    if (value === null || value === undefined || value === '') return null;
+    if (Array.isArray(value)) return value.filter(Boolean).join(', ') || null;
+    if (typeof value === 'object') return Object.values(value as Record<string, unknown>).filter(Boolean).join(', ') || null;
+    return String(value);
+};
 
 export class EmailService {
     private transporter: nodemailer.Transporter;
@@ -78,7 +93,52 @@ export class EmailService {
         }
     }
 
-    async sendEmail(to: string, subject: string, htmlContent: string, cc?: string[], bcc?: string[]) {
+    /**
+     * Prints the document being mailed (and the treatment summary, when the payload carries a
+     * `latestDentalRecord`) to PDF. A rendering failure is logged and the mail goes out without attachments.
+     */
+    private async _buildPdfAttachments(document: { filename: string; html: string }, payload: any): Promise<EmailAttachment[]> {
+        try {
+            const attachments: EmailAttachment[] = [
+                { filename: document.filename, content: await pdfService.htmlToPdf(document.html), contentType: 'application/pdf' },
+            ];
+            if (payload.latestDentalRecord) {
+                const summaryHtml = await this.renderDentalRecordSummaryHtml({
+                    patientName: payload.patientName,
+                    records: [payload.latestDentalRecord],
+                });
+                attachments.push({ filename: 'treatment-summary.pdf', content: await pdfService.htmlToPdf(summaryHtml), contentType: 'application/pdf' });
+            }
+            return attachments;
+        } catch (error) {
+            console.error(`Failed to render PDF attachment ${document.filename}:`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Renders `dental-record-summary.html` for one or more dental records of a patient.
+     * @param data.records Dental records as returned by `PatientService.getDentalRecordsByPatientId`
+     * (or the `latestDentalRecord` the frontend sends with an invoice or receipt).
+     */
+    async renderDentalRecordSummaryHtml(data: { patientName?: string; records: any[] }): Promise<string> {
+        const template = await this.compileTemplate('dental-record-summary.html');
+        return template({
+            patientName: data.patientName || 'Patient',
+            generatedDate: new Date().toISOString().split('T')[0],
+            records: data.records.map(record => ({
+                recordDate: record.createdAt ? new Date(record.createdAt).toISOString().split('T')[0] : 'N/A',
+                doctorName: record.doctorUsername || null,
+                complaint: record.complaint || null,
+                provisionalDiagnosis: formatClinicalField(record.provisionalDiagnosis),
+                treatmentPlan: formatClinicalField(record.treatmentPlan),
+                treatmentDone: record.treatmentDone || null,
+                xrayFindings: record.xrayFindings || null,
+            })),
+        });
+    }
+
+    async sendEmail(to: string, subject: string, htmlContent: string, cc?: string[], bcc?: string[], attachments?: EmailAttachment[]) {
         const mailOptions = {
             from: process.env.EMAIL_FROM,
             to: to,
@@ -86,6 +146,7 @@ export class EmailService {
             html: htmlContent,
             cc: cc && cc.length > 0 ? cc.join(',') : undefined,
             bcc: bcc && bcc.length > 0 ? bcc.join(',') : undefined,
+            attachments: attachments && attachments.length > 0 ? attachments : undefined,
         };
 
         try {
@@ -183,14 +244,35 @@ export class EmailService {
         return await this.sendEmail(patientEmail, subject, htmlContent);
     }
 
-    async sendInvoiceEmail(patientEmail: string, invoiceData: any, senderUserId: number) {
+    // Offers a freed slot to a waitlisted patient; the link opens the clinic's page for accepting or declining it.
+    async sendWaitlistOffer(patientEmail: string, offerData: { patientName: string; appointmentDate: Date; doctorName?: string | null; procedure?: string | null; offerUrl: string; expiresAt: Date }) {
+        const template = await this.compileTemplate('waitlist-offer.html');
+        const dateTimeFormat: Intl.DateTimeFormatOptions = { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' };
+        const appointmentDate = offerData.appointmentDate.toLocaleString('en-US', dateTimeFormat);
+        const htmlContent = template({
+            patientName: offerData.patientName,
+            appointmentDate,
+            doctorName: offerData.doctorName || null,
+            procedure: offerData.procedure || null,
+            offerUrl: offerData.offerUrl,
+            expiresAt: offerData.expiresAt.toLocaleString('en-US', dateTimeFormat),
+            currentYear: new Date().getFullYear(),
+            clinicEmail: process.env.EMAIL_FROM || 'info@yourclinic.com'
+        });
+        return await this.sendEmail(patientEmail, `An earlier appointment is available: ${appointmentDate}`, htmlContent);
+    }
+
+    /**
+     * Renders `invoice.html` for an invoice payload (see `InvoiceService.toEmailPayload`).
+     * Shared by the invoice email and the invoice PDF download.
+     */
+    async renderInvoiceHtml(invoiceData: any): Promise<string> {
         const template = await this.compileTemplate('invoice.html');
-        const subject = `Invoice from Prime Dental Clinic`;
         const servicesForTemplate = Array.isArray(invoiceData.items) ? invoiceData.items.map((item: any) => ({
             name: item.description,
             totalPrice: parseFloat(item.totalPrice || 0).toFixed(2),
         })) : [];
-        const templateData = {
+        return template({
             invoiceNumber: invoiceData.invoiceNumber || 'N/A',
             invoiceDate: invoiceData.invoiceDate || 'N/A',
             patientName: invoiceData.patientName || 'Patient',
@@ -203,16 +285,27 @@ export class EmailService {
             coveredAmount: parseFloat(invoiceData.coveredAmount || 0).toFixed(2),
             paymentMethod: invoiceData.paymentMethod || 'N/A',
             latestDentalRecord: invoiceData.latestDentalRecord || null,
-        };
-        const htmlContent = template(templateData);
+        });
+    }
+
+    async sendInvoiceEmail(patientEmail: string, invoiceData: any, senderUserId: number) {
+        const subject = `Invoice from Prime Dental Clinic`;
+        const htmlContent = await this.renderInvoiceHtml(invoiceData);
+        const attachments = await this._buildPdfAttachments(
+            { filename: `${invoiceData.invoiceNumber || 'invoice'}.pdf`, html: htmlContent },
+            invoiceData,
+        );
         const staffBccRecipients = await this._getOwnerAndStaffEmails();
         const validBccRecipients = staffBccRecipients.filter(email => email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email));
-        return await this.sendEmail(patientEmail, subject, htmlContent, [], validBccRecipients);
+        return await this.sendEmail(patientEmail, subject, htmlContent, [], validBccRecipients, attachments);
     }
     
-    async sendReceiptEmail(patientEmail: string, receiptData: any, senderUserId: number) {
+    /**
+     * Renders `receipt.html` for a receipt payload (see `ReceiptService.toEmailPayload`).
+     * Shared by the receipt email and the receipt PDF download.
+     */
+    async renderReceiptHtml(receiptData: any): Promise<string> {
         const template = await this.compileTemplate('receipt.html');
-        const subject = `Payment Receipt from Prime Dental Clinic - #${receiptData.receiptNumber}`;
         const itemsForReceiptTemplate = Array.isArray(receiptData.items) ? receiptData.items.map((item: any) => ({
             description: item.description,
             quantity: item.quantity,
@@ -235,11 +328,24 @@ export class EmailService {
             latestDentalRecord: receiptData.latestDentalRecord || null,
             outstanding: parseFloat(receiptData.outstanding || 0) > 0 ? parseFloat(receiptData.outstanding || 0).toFixed(2) : null,
         };
-        const htmlContent = template(templateData);
+        return template(templateData);
+    }
+
+    /**
+     * Emails a receipt and, on success, logs it to the revenue Google Sheet.
+     * Pass `logToSheet = false` when re-sending a receipt that has already been logged.
+     */
+    async sendReceiptEmail(patientEmail: string, receiptData: any, senderUserId: number, logToSheet: boolean = true) {
+        const subject = `Payment Receipt from Prime Dental Clinic - #${receiptData.receiptNumber}`;
+        const htmlContent = await this.renderReceiptHtml(receiptData);
+        const attachments = await this._buildPdfAttachments(
+            { filename: `${receiptData.receiptNumber || 'receipt'}.pdf`, html: htmlContent },
+            receiptData,
+        );
         const staffBccRecipients = await this._getOwnerAndStaffEmails();
         const validBccRecipients = staffBccRecipients.filter(email => email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email));
-        const emailResult = await this.sendEmail(patientEmail, subject, htmlContent, [], validBccRecipients);
-        if (emailResult.success) {
+        const emailResult = await this.sendEmail(patientEmail, subject, htmlContent, [], validBccRecipients, attachments);
+        if (emailResult.success && logToSheet) {
             try {
                 const receiptDataForSheet = {
                     ...receiptData,
@@ -261,6 +367,129 @@ export class EmailService {
         }
         return emailResult;
     }
+
+    /**
+     * Renders `credit-note.html` for a credit note payload (see `CreditNoteService.toEmailPayload`).
+     */
+    async renderCreditNoteHtml(creditNoteData: any): Promise<string> {
+        const template = await this.compileTemplate('credit-note.html');
+        const amount = parseFloat(creditNoteData.amount || 0);
+        const templateData = {
+            creditNoteNumber: creditNoteData.creditNoteNumber || 'N/A',
+            creditNoteDate: creditNoteData.creditNoteDate || 'N/A',
+            patientName: creditNoteData.patientName || 'Patient',
+            clinicEmail: process.env.EMAIL_FROM || 'info@yourclinic.com',
+            receiptNumber: creditNoteData.receiptNumber || 'N/A',
+            receiptDate: creditNoteData.receiptDate || 'N/A',
+            invoiceNumber: creditNoteData.invoiceNumber || null,
+            invoiceVoided: creditNoteData.invoiceVoided || false,
+            isVoid: creditNoteData.type === 'void',
+            reason: creditNoteData.reason || 'N/A',
+            refundMethod: amount > 0 ? creditNoteData.refundMethod : null,
+            amount: amount.toFixed(2),
+            outstanding: parseFloat(creditNoteData.outstanding || 0) > 0 ? parseFloat(creditNoteData.outstanding || 0).toFixed(2) : null,
+        };
+        return template(templateData);
+    }
+
+    /**
+     * Emails a credit note for a voided or refunded receipt and, on success, logs the refund to the
+     * revenue Google Sheet as a negative row so the sheet totals match the ledger.
+     * Pass `logToSheet = false` when re-sending a credit note that has already been logged.
+     */
+    async sendCreditNoteEmail(patientEmail: string, creditNoteData: any, senderUserId: number, logToSheet: boolean = true) {
+        const subject = `Credit Note from Prime Dental Clinic - #${creditNoteData.creditNoteNumber}`;
+        const amount = parseFloat(creditNoteData.amount || 0);
+        const htmlContent = await this.renderCreditNoteHtml(creditNoteData);
+        const attachments = await this._buildPdfAttachments(
+            { filename: `${creditNoteData.creditNoteNumber || 'credit-note'}.pdf`, html: htmlContent },
+            creditNoteData,
+        );
+        const staffBccRecipients = await this._getOwnerAndStaffEmails();
+        const validBccRecipients = staffBccRecipients.filter(email => email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email));
+        const emailResult = await this.sendEmail(patientEmail, subject, htmlContent, [], validBccRecipients, attachments);
+        if (emailResult.success && logToSheet && amount > 0) {
+            try {
+                await googleSheetsService.appendReceipts({
+                    receiptDate: creditNoteData.creditNoteDate,
+                    patientName: creditNoteData.patientName,
+                    patientEmail: creditNoteData.patientEmail,
+                    items: [{ description: `Credit note ${creditNoteData.creditNoteNumber} for receipt ${creditNoteData.receiptNumber}`, totalPrice: -amount }],
+                    coveredAmount: 0,
+                    totalDueFromPatient: -amount,
+                    paymentMethod: `Refund (${creditNoteData.refundMethod || 'N/A'})`,
+                    outstanding: creditNoteData.outstanding,
+                });
+                console.log('Credit note successfully logged to Google Sheet.');
+            } catch (sheetError) {
+                console.error('Failed to log credit note to Google Sheet:', sheetError);
+            }
+        }
+        return emailResult;
+    }
+
+    /**
+     * Renders `prescription.html` for a prescription payload (see `PrescriptionService.toEmailPayload`).
+     */
+    async renderPrescriptionHtml(prescriptionData: any): Promise<string> {
+        const template = await this.compileTemplate('prescription.html');
+        return template({
+            prescriptionNumber: prescriptionData.prescriptionNumber || 'N/A',
+            prescriptionDate: prescriptionData.prescriptionDate || 'N/A',
+            patientName: prescriptionData.patientName || 'Patient',
+            patientSex: prescriptionData.patientSex || null,
+            patientDateOfBirth: prescriptionData.patientDateOfBirth || null,
+            prescriberName: prescriptionData.prescriberName || null,
+            allergies: prescriptionData.allergies?.length ? prescriptionData.allergies.join(', ') : null,
+            items: (prescriptionData.items || []).map((item: any, index: number) => ({
+                number: index + 1,
+                drugName: item.drugName,
+                dose: item.dose,
+                frequency: item.frequency,
+                duration: item.duration,
+                instructions: item.instructions || null,
+            })),
+            notes: prescriptionData.notes || null,
+            clinicEmail: process.env.EMAIL_FROM || 'info@yourclinic.com',
+        });
+    }
+
+    /**
+     * Renders `consent-form.html` (see `ConsentService.renderForm`). Without a signature the form
+     * prints with a blank signature line, for previewing or signing on paper.
+     */
+    async renderConsentFormHtml(consentData: any): Promise<string> {
+        const template = await this.compileTemplate('consent-form.html');
+        return template({
+            title: consentData.title || 'Consent Form',
+            templateName: consentData.templateName || null,
+            templateVersion: consentData.templateVersion || 1,
+            patientName: consentData.patientName || 'Patient',
+            patientDateOfBirth: consentData.patientDateOfBirth || null,
+            procedure: consentData.procedure || 'N/A',
+            tooth: consentData.tooth || null,
+            doctorName: consentData.doctorName || null,
+            paragraphs: consentData.paragraphs || [],
+            signatureDataUrl: consentData.signatureDataUrl || null,
+            signerName: consentData.signerName || '',
+            signerRelationship: consentData.signerRelationship && consentData.signerRelationship !== 'self' ? consentData.signerRelationship : null,
+            signedAt: consentData.signedAt || '',
+            witnessName: consentData.witnessName || null,
+        });
+    }
+
+    /**
+     * Emails a prescription to the patient with a printable PDF copy attached.
+     */
+    async sendPrescriptionEmail(patientEmail: string, prescriptionData: any) {
+        const subject = `Your Prescription from Prime Dental Clinic - #${prescriptionData.prescriptionNumber}`;
+        const htmlContent = await this.renderPrescriptionHtml(prescriptionData);
+        const attachments = await this._buildPdfAttachments(
+            { filename: `${prescriptionData.prescriptionNumber || 'prescription'}.pdf`, html: htmlContent },
+            prescriptionData,
+        );
+        return await this.sendEmail(patientEmail, subject, htmlContent, [], [], attachments);
+    }
 }
 
 export const emailService = new EmailService();
@@ -0,0 +1,138 @@
+// src/services/familyAccount.service.ts
+import { asc, eq, inArray, or } from 'drizzle-orm';
+import { db } from '../config/database';
+import { patients, invoices, payments, receipts, creditNotes } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+
+type PatientSelect = typeof patients.$inferSelect;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class FamilyAccountService {
+
+    /**
+     * The household a patient belongs to: its head (the guarantor) and every member, head first.
+     * A patient with no family is a household of one.
+     */
+    async getHousehold(patientId: number, executor: DbExecutor = db): Promise<{ head: PatientSelect; members: PatientSelect[] } | null> {
+        const [patient] = await executor.select().from(patients).where(eq(patients.id, patientId)).limit(1);
+        if (!patient) return null;
+
+        const headId = patient.familyId ?? patient.id;
+        const rows = await executor.select().from(patients)
+            .where(or(eq(patients.id, headId), eq(patients.familyId, headId)))
+            .orderBy(asc(patients.id));
+        const head = rows.find(row => row.id === headId) ?? patient;
+        return { head, members: [head, ...rows.filter(row => row.id !== head.id)] };
+    }
+
+    /**
+     * Email address for a patient's billing documents. The family head is the guarantor for the
+     * household, so members without an address of their own are billed through the head.
+     */
+    async getBillingEmail(patientId: number): Promise<string | null> {
+        const household = await this.getHousehold(patientId);
+        if (!household) return null;
+        const patient = household.members.find(member => member.id === patientId);
+        return patient?.email || household.head.email || null;
+    }
+
+    /**
+     * One statement for the whole household: every member's invoices and every payment made by
+     * any of them, in date order with a running balance, plus each member's own balance.
+     */
+    async getFamilyStatement(patientId: number) {
+        const household = await this.getHousehold(patientId);
+        if (!household) return null;
+        const memberIds = household.members.map(member => member.id);
+        const nameById = new Map(household.members.map(member => [member.id, member.name]));
+
+        const familyInvoices = await db.select()
+            .from(invoices)
+            .where(inArray(invoices.patientId, memberIds))
+            .orderBy(asc(invoices.invoiceDate));
+
+        const familyPayments = await db.select({
+                id: payments.id,
+                patientId: payments.patientId,
+                amount: payments.amount,
+                method: payments.method,
+                status: payments.status,
+                paidAt: payments.paidAt,
+                receiptNumber: receipts.receiptNumber,
+                creditNoteNumber: creditNotes.creditNoteNumber,
+            })
+            .from(payments)
+            .leftJoin(receipts, eq(payments.receiptId, receipts.id))
+            .leftJoin(creditNotes, eq(creditNotes.paymentId, payments.id))
+            .where(inArray(payments.patientId, memberIds))
+            .orderBy(asc(payments.paidAt));
+
+        const entries = [
+            ...familyInvoices.map(inv => ({
+                type: 'invoice' as const,
+                id: inv.id,
+                date: inv.invoiceDate,
+                reference: inv.invoiceNumber,
+                patientId: inv.patientId,
+                patientName: nameById.get(inv.patientId),
+                status: inv.status,
+                debit: parseFloat(inv.totalDue),
+                credit: 0,
+                inEffect: inv.status === 'issued',
+            })),
+            ...familyPayments.map(pay => ({
+                type: parseFloat(pay.amount) < 0 ? 'refund' as const : 'payment' as const,
+                id: pay.id,
+                date: pay.paidAt,
+                reference: pay.creditNoteNumber || pay.receiptNumber || `PAYMENT-${pay.id}`,
+                patientId: pay.patientId,
+                patientName: nameById.get(pay.patientId),
+                status: pay.status,
+                debit: Math.max(-parseFloat(pay.amount), 0),
+                credit: Math.max(parseFloat(pay.amount), 0),
+                inEffect: pay.status === 'completed',
+            })),
+        ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+        let runningBalance = 0;
+        const statement = entries.map(({ inEffect, ...entry }) => {
+            if (inEffect) runningBalance += entry.debit - entry.credit;
+            return { ...entry, balance: runningBalance.toFixed(2) };
+        });
+
+        return {
+            familyHeadId: household.head.id,
+            guarantorName: household.head.name,
+            familyOutstanding: round2(household.members.reduce((sum, member) => sum + parseFloat(member.outstanding), 0)).toFixed(2),
+            members: household.members.map(member => ({
+                id: member.id,
+                name: member.name,
+                isFamilyHead: member.id === household.head.id,
+                outstanding: member.outstanding,
+            })),
+            entries: statement,
+        };
+    }
+
+    /**
+     * Ids of the household a payer may settle invoices for. Only a family head pays for the household.
+     */
+    async getPayableHouseholdIds(payerId: number, executor: DbExecutor = db): Promise<number[] | null> {
+        const household = await this.getHousehold(payerId, executor);
+        if (!household || household.head.id !== payerId) return null;
+        return household.members.map(member => member.id);
+    }
+
+    /**
+     * Sum of the members' cached balances; refresh them with `LedgerService.recalculateOutstanding` first.
+     */
+    async householdOutstanding(memberIds: number[], executor: DbExecutor = db): Promise<string> {
+        if (memberIds.length === 0) return '0.00';
+        const rows = await executor.select({ outstanding: patients.outstanding }).from(patients)
+            .where(inArray(patients.id, memberIds));
+        return round2(rows.reduce((sum, row) => sum + parseFloat(row.outstanding), 0)).toFixed(2);
+    }
+}
+
+export const familyAccountService = new FamilyAccountService();
@@ -0,0 +1,216 @@
+// src/services/familyStructure.service.ts
+import { and, eq, inArray, ne, or } from 'drizzle-orm';
+import { db } from '../config/database';
+import { patients } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+
+type PatientSelect = typeof patients.$inferSelect;
+
+/** Contact details a patient needs once they head their own household. */
+export interface HeadContactDetails {
+    phoneNumber: string;
+    email?: string | null;
+    // Left undefined, the new head keeps the HMO and address they inherited from their old family.
+    address?: string | null;
+    hmo?: { name: string; status?: string } | null;
+}
+
+/** Optional contact details for members who become independent when a household is dissolved. */
+export interface DissolvedMemberContact {
+    patientId: number;
+    phoneNumber?: string | null;
+    email?: string | null;
+}
+
+type StructureResult = { success: boolean; message: string; headId?: number };
+
+export class FamilyStructureService {
+
+    /**
+     * Phone numbers and emails are unique across patients; returns a message naming the first clash.
+     */
+    private async findContactConflict(contacts: { phoneNumber?: string | null; email?: string | null }[], ownerIds: number[], executor: DbExecutor): Promise<string | null> {
+        const phones = contacts.map(c => c.phoneNumber).filter((p): p is string => !!p);
+        const emails = contacts.map(c => c.email).filter((e): e is string => !!e);
+        if (new Set(phones).size !== phones.length) return 'The same phone number was given for more than one patient.';
+        if (new Set(emails.map(e => e.toLowerCase())).size !== emails.length) return 'The same email was given for more than one patient.';
+        if (phones.length === 0 && emails.length === 0) return null;
+
+        const clashes = [
+            ...(phones.length > 0 ? [inArray(patients.phoneNumber, phones)] : []),
+            ...(emails.length > 0 ? [inArray(patients.email, emails)] : []),
+        ];
+        const [conflict] = await executor.select({ phoneNumber: patients.phoneNumber }).from(patients)
+            .where(and(or(...clashes), ...ownerIds.map(id => ne(patients.id, id))))
+            .limit(1);
+        if (!conflict) return null;
+        return conflict.phoneNumber && phones.includes(conflict.phoneNumber)
+            ? 'Another patient already exists with this phone number.'
+            : 'Another patient already exists with this email.';
+    }
+
+    // Members share the head's HMO and address, as `PatientService.updatePatient` keeps them.
+    private async syncMembersWithHead(headId: number, executor: DbExecutor) {
+        const [head] = await executor.select().from(patients).where(eq(patients.id, headId)).limit(1);
+        await executor.update(patients).set({ hmo: head.hmo, address: head.address, updatedAt: new Date() })
+            .where(eq(patients.familyId, headId));
+    }
+
+    private async lockHousehold(headId: number, executor: DbExecutor): Promise<PatientSelect[]> {
+        return await executor.select().from(patients)
+            .where(or(eq(patients.id, headId), eq(patients.familyId, headId)))
+            .for('update');
+    }
+
+    /**
+     * Makes a family member a head with their own contact details.
+     * By default the member leaves with a household of their own; with `takeOverHousehold` they
+     * replace the current head instead, and the old head and the other members move under them.
+     */
+    async promoteMember(memberId: number, contact: HeadContactDetails, takeOverHousehold = false): Promise<StructureResult> {
+        return await db.transaction(async (tx) => {
+            const [member] = await tx.select().from(patients).where(eq(patients.id, memberId)).limit(1);
+            if (!member) return { success: false, message: 'Patient not found.' };
+            if (member.familyId === null) return { success: false, message: 'Patient already heads their own household.' };
+
+            const oldHeadId = member.familyId;
+            const household = await this.lockHousehold(oldHeadId, tx);
+            const conflict = await this.findContactConflict([contact], [memberId], tx);
+            if (conflict) return { success: false, message: conflict };
+
+            await tx.update(patients).set({
+                familyId: null,
+                isFamilyHead: true,
+                phoneNumber: contact.phoneNumber,
+                email: contact.email || null,
+                ...(contact.address !== undefined ? { address: contact.address || null } : {}),
+                ...(contact.hmo !== undefined ? { hmo: contact.hmo || null } : {}),
+                updatedAt: new Date(),
+            }).where(eq(patients.id, memberId));
+
+            if (takeOverHousehold) {
+                const othersIds = household.map(row => row.id).filter(id => id !== memberId);
+                await tx.update(patients).set({ familyId: memberId, isFamilyHead: false, updatedAt: new Date() })
+                    .where(inArray(patients.id, othersIds));
+                await this.syncMembersWithHead(memberId, tx);
+            }
+
+            return {
+                success: true,
+                message: takeOverHousehold ? `${member.name} is now the head of the family.` : `${member.name} now has their own household.`,
+                headId: memberId,
+            };
+        });
+    }
+
+    /**
+     * Moves a patient into another family under `targetHeadId`. A head can only be moved while
+     * their household is just themselves; promote or split the rest of the family out first.
+     * The patient keeps any contact details they have and takes on the new head's HMO and address.
+     */
+    async moveMember(patientId: number, targetHeadId: number): Promise<StructureResult> {
+        if (patientId === targetHeadId) return { success: false, message: 'A patient cannot join their own family.' };
+
+        return await db.transaction(async (tx) => {
+            const rows = await tx.select().from(patients).where(inArray(patients.id, [patientId, targetHeadId])).for('update');
+            const patient = rows.find(row => row.id === patientId);
+            const targetHead = rows.find(row => row.id === targetHeadId);
+            if (!patient) return { success: false, message: 'Patient not found.' };
+            if (!targetHead) return { success: false, message: 'Target family head not found.' };
+            if (!targetHead.isFamilyHead || targetHead.familyId !== null) return { success: false, message: 'The target patient is not a family head.' };
+            if (patient.familyId === targetHeadId) return { success: false, message: 'Patient is already in this family.' };
+
+            if (patient.familyId === null) {
+                const [member] = await tx.select({ id: patients.id }).from(patients).where(eq(patients.familyId, patientId)).limit(1);
+                if (member) return { success: false, message: 'Patient heads a family with other members. Promote a new head or dissolve the family first.' };
+            }
+
+            await tx.update(patients).set({
+                familyId: targetHeadId,
+                isFamilyHead: false,
+                hmo: targetHead.hmo,
+                address: targetHead.address,
+                updatedAt: new Date(),
+            }).where(eq(patients.id, patientId));
+
+            return { success: true, message: `${patient.name} moved to the family of ${targetHead.name}.`, headId: targetHeadId };
+        });
+    }
+
+    /**
+     * Splits part of a household off under one of its members: `newHeadId` is promoted with the
+     * given contact details and `memberIds` follow them into the new household.
+     */
+    async splitFamily(headId: number, newHeadId: number, memberIds: number[], contact: HeadContactDetails): Promise<StructureResult> {
+        return await db.transaction(async (tx) => {
+            const household = await this.lockHousehold(headId, tx);
+            const head = household.find(row => row.id === headId);
+            if (!head) return { success: false, message: 'Family head not found.' };
+            if (head.familyId !== null) return { success: false, message: 'The specified patient is not a family head.' };
+
+            const memberIdsInHousehold = household.filter(row => row.id !== headId).map(row => row.id);
+            const movingIds = [...new Set(memberIds.filter(id => id !== newHeadId))];
+            if (!memberIdsInHousehold.includes(newHeadId)) return { success: false, message: 'The new head must be a member of this family.' };
+            if (movingIds.some(id => !memberIdsInHousehold.includes(id))) return { success: false, message: 'Only members of this family can be split off with the new head.' };
+
+            const conflict = await this.findContactConflict([contact], [newHeadId], tx);
+            if (conflict) return { success: false, message: conflict };
+
+            await tx.update(patients).set({
+                familyId: null,
+                isFamilyHead: true,
+                phoneNumber: contact.phoneNumber,
+                email: contact.email || null,
+                ...(contact.address !== undefined ? { address: contact.address || null } : {}),
+                ...(contact.hmo !== undefined ? { hmo: contact.hmo || null } : {}),
+                updatedAt: new Date(),
+            }).where(eq(patients.id, newHeadId));
+
+            if (movingIds.length > 0) {
+                await tx.update(patients).set({ familyId: newHeadId, isFamilyHead: false, updatedAt: new Date() })
+                    .where(inArray(patients.id, movingIds));
+                await this.syncMembersWithHead(newHeadId, tx);
+            }
+
+            const newHead = household.find(row => row.id === newHeadId)!;
+            return { success: true, message: `${newHead.name} now heads a household of ${movingIds.length + 1}.`, headId: newHeadId };
+        });
+    }
+
+    /**
+     * Breaks a household up so every member heads their own. Members keep the HMO and address
+     * they inherited and can be given their own phone numbers and emails in the same step.
+     */
+    async dissolveFamily(headId: number, contacts: DissolvedMemberContact[] = []): Promise<StructureResult> {
+        return await db.transaction(async (tx) => {
+            const household = await this.lockHousehold(headId, tx);
+            const head = household.find(row => row.id === headId);
+            if (!head) return { success: false, message: 'Family head not found.' };
+            if (head.familyId !== null) return { success: false, message: 'The specified patient is not a family head.' };
+
+            const members = household.filter(row => row.id !== headId);
+            if (members.length === 0) return { success: false, message: 'This household has no other members.' };
+            if (contacts.some(c => !members.some(member => member.id === c.patientId))) {
+                return { success: false, message: 'Contact details were given for a patient outside this family.' };
+            }
+
+            const conflict = await this.findContactConflict(contacts, contacts.map(c => c.patientId), tx);
+            if (conflict) return { success: false, message: conflict };
+
+            for (const member of members) {
+                const contact = contacts.find(c => c.patientId === member.id);
+                await tx.update(patients).set({
+                    familyId: null,
+                    isFamilyHead: true,
+                    ...(contact?.phoneNumber !== undefined ? { phoneNumber: contact.phoneNumber || null } : {}),
+                    ...(contact?.email !== undefined ? { email: contact.email || null } : {}),
+                    updatedAt: new Date(),
+                }).where(eq(patients.id, member.id));
+            }
+
+            return { success: true, message: `The family of ${head.name} was dissolved into ${members.length + 1} households.`, headId };
+        });
+    }
+}
+
+export const familyStructureService = new FamilyStructureService();
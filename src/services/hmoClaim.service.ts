@@ -0,0 +1,337 @@
+// src/services/hmoClaim.service.ts
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { hmoClaims, hmoRemittances, hmoProviders, invoices } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+
+export type HmoClaimStatus = 'draft' | 'submitted' | 'approved' | 'partially_paid' | 'paid' | 'rejected';
+
+export interface NewHmoClaimData {
+    invoiceId: number;
+    // Defaults to the invoice's covered amount.
+    claimedAmount?: number | string;
+    authorizationCode?: string | null;
+    notes?: string | null;
+    createdBy?: number | null;
+}
+
+export interface HmoClaimUpdateData {
+    claimedAmount?: number | string;
+    authorizationCode?: string | null;
+    notes?: string | null;
+}
+
+export interface NewRemittanceData {
+    amount: number | string;
+    remittedAt: Date;
+    reference?: string | null;
+    method?: string | null;
+    notes?: string | null;
+    recordedBy?: number | null;
+}
+
+// Claims in these states are still being pursued, so the invoice's HMO portion must not change under them.
+const ACTIVE_CLAIM_STATUSES: HmoClaimStatus[] = ['submitted', 'approved', 'partially_paid', 'paid'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class HmoClaimService {
+
+    /**
+     * Opens a draft claim for the HMO-covered portion of an invoice.
+     * An invoice can only have one claim at a time unless the earlier one was rejected.
+     */
+    async createClaim(data: NewHmoClaimData) {
+        const [invoice] = await db.select().from(invoices).where(eq(invoices.id, data.invoiceId)).limit(1);
+        if (!invoice) return { success: false, message: 'Invoice not found.' };
+        if (invoice.status === 'void') return { success: false, message: 'Cannot claim against a void invoice.' };
+        if (!invoice.isHmoCovered || !invoice.hmoName) return { success: false, message: 'This invoice is not covered by an HMO.' };
+
+        const covered = parseFloat(invoice.coveredAmount);
+        const claimedAmount = data.claimedAmount !== undefined ? round2(parseFloat(String(data.claimedAmount))) : covered;
+        if (isNaN(claimedAmount) || claimedAmount <= 0) return { success: false, message: 'Claimed amount must be a positive number.' };
+        if (claimedAmount > covered) {
+            return { success: false, message: `Claimed amount of ${claimedAmount.toFixed(2)} exceeds the ${covered.toFixed(2)} covered on the invoice.` };
+        }
+
+        const [openClaim] = await db.select({ id: hmoClaims.id }).from(hmoClaims)
+            .where(and(eq(hmoClaims.invoiceId, invoice.id), sql`${hmoClaims.status} <> 'rejected'`))
+            .limit(1);
+        if (openClaim) return { success: false, message: 'This invoice already has an HMO claim.' };
+
+        const [provider] = invoice.hmoProviderId
+            ? [{ id: invoice.hmoProviderId }]
+            : await db.select({ id: hmoProviders.id }).from(hmoProviders).where(eq(hmoProviders.name, invoice.hmoName)).limit(1);
+
+        const [inserted] = await db.insert(hmoClaims).values({
+            invoiceId: invoice.id,
+            patientId: invoice.patientId,
+            hmoProviderId: provider?.id ?? null,
+            hmoName: invoice.hmoName,
+            claimedAmount: claimedAmount.toFixed(2),
+            authorizationCode: data.authorizationCode || null,
+            notes: data.notes || null,
+            createdBy: data.createdBy ?? null,
+        });
+
+        return { success: true, message: 'HMO claim created successfully.', claim: await this.getClaimById(inserted.insertId) };
+    }
+
+    async getClaims(filters: { status?: HmoClaimStatus; hmoProviderId?: number; patientId?: number } = {}) {
+        const claims = await db.query.hmoClaims.findMany({
+            where: and(
+                filters.status ? eq(hmoClaims.status, filters.status) : undefined,
+                filters.hmoProviderId ? eq(hmoClaims.hmoProviderId, filters.hmoProviderId) : undefined,
+                filters.patientId ? eq(hmoClaims.patientId, filters.patientId) : undefined,
+            ),
+            orderBy: [desc(hmoClaims.createdAt)],
+            with: {
+                patient: { columns: { id: true, name: true } },
+                invoice: { columns: { id: true, invoiceNumber: true, invoiceDate: true } },
+                remittances: true,
+            },
+        });
+        return claims.map(claim => this.withTotals(claim));
+    }
+
+    async getClaimById(claimId: number) {
+        const claim = await db.query.hmoClaims.findFirst({
+            where: eq(hmoClaims.id, claimId),
+            with: {
+                patient: { columns: { id: true, name: true } },
+                invoice: { with: { items: true } },
+                creator: { columns: { id: true, username: true } },
+                remittances: { orderBy: [desc(hmoRemittances.remittedAt)] },
+            },
+        });
+        return claim ? this.withTotals(claim) : null;
+    }
+
+    /**
+     * Only draft claims can be edited; once submitted the claim reflects what the HMO received.
+     */
+    async updateClaim(claimId: number, updateData: HmoClaimUpdateData) {
+        const [existing] = await db.select().from(hmoClaims).where(eq(hmoClaims.id, claimId)).limit(1);
+        if (!existing) return { success: false, message: 'HMO claim not found.' };
+        if (existing.status !== 'draft') return { success: false, message: 'Only draft claims can be edited.' };
+
+        const changes: Partial<typeof hmoClaims.$inferInsert> = { updatedAt: new Date() };
+        if (updateData.claimedAmount !== undefined) {
+            const claimedAmount = round2(parseFloat(String(updateData.claimedAmount)));
+            const [invoice] = await db.select({ coveredAmount: invoices.coveredAmount }).from(invoices).where(eq(invoices.id, existing.invoiceId)).limit(1);
+            if (isNaN(claimedAmount) || claimedAmount <= 0) return { success: false, message: 'Claimed amount must be a positive number.' };
+            if (invoice && claimedAmount > parseFloat(invoice.coveredAmount)) {
+                return { success: false, message: `Claimed amount exceeds the ${invoice.coveredAmount} covered on the invoice.` };
+            }
+            changes.claimedAmount = claimedAmount.toFixed(2);
+        }
+        if (updateData.authorizationCode !== undefined) changes.authorizationCode = updateData.authorizationCode;
+        if (updateData.notes !== undefined) changes.notes = updateData.notes;
+
+        await db.update(hmoClaims).set(changes).where(eq(hmoClaims.id, claimId));
+        return { success: true, message: 'HMO claim updated successfully.', claim: await this.getClaimById(claimId) };
+    }
+
+    async deleteClaim(claimId: number) {
+        const [existing] = await db.select().from(hmoClaims).where(eq(hmoClaims.id, claimId)).limit(1);
+        if (!existing) return { success: false, message: 'HMO claim not found.' };
+        if (existing.status !== 'draft') return { success: false, message: 'Only draft claims can be deleted; reject the claim instead.' };
+
+        await db.delete(hmoClaims).where(eq(hmoClaims.id, claimId));
+        return { success: true, message: 'HMO claim deleted successfully.' };
+    }
+
+    async submitClaim(claimId: number) {
+        const [existing] = await db.select().from(hmoClaims).where(eq(hmoClaims.id, claimId)).limit(1);
+        if (!existing) return { success: false, message: 'HMO claim not found.' };
+        if (existing.status !== 'draft') return { success: false, message: `Cannot submit a claim that is ${existing.status}.` };
+
+        await db.update(hmoClaims).set({ status: 'submitted', submittedAt: new Date(), updatedAt: new Date() }).where(eq(hmoClaims.id, claimId));
+        return { success: true, message: 'HMO claim submitted.', claim: await this.getClaimById(claimId) };
+    }
+
+    /**
+     * Records the HMO's decision. An approved amount below the claimed amount is a partial approval;
+     * the shortfall is not moved onto the patient automatically.
+     */
+    async approveClaim(claimId: number, approvedAmount: number | string) {
+        const [existing] = await db.select().from(hmoClaims).where(eq(hmoClaims.id, claimId)).limit(1);
+        if (!existing) return { success: false, message: 'HMO claim not found.' };
+        if (existing.status !== 'submitted') return { success: false, message: 'Only submitted claims can be approved.' };
+
+        const amount = round2(parseFloat(String(approvedAmount)));
+        if (isNaN(amount) || amount <= 0) return { success: false, message: 'Approved amount must be a positive number.' };
+        if (amount > parseFloat(existing.claimedAmount)) return { success: false, message: 'Approved amount cannot exceed the claimed amount.' };
+
+        await db.update(hmoClaims)
+            .set({ status: 'approved', approvedAmount: amount.toFixed(2), approvedAt: new Date(), updatedAt: new Date() })
+            .where(eq(hmoClaims.id, claimId));
+        return { success: true, message: 'HMO claim approved.', claim: await this.getClaimById(claimId) };
+    }
+
+    async rejectClaim(claimId: number, reason: string) {
+        const [existing] = await db.select().from(hmoClaims).where(eq(hmoClaims.id, claimId)).limit(1);
+        if (!existing) return { success: false, message: 'HMO claim not found.' };
+        if (existing.status !== 'submitted') return { success: false, message: 'Only submitted claims can be rejected.' };
+
+        await db.update(hmoClaims)
+            .set({ status: 'rejected', rejectionReason: reason, rejectedAt: new Date(), updatedAt: new Date() })
+            .where(eq(hmoClaims.id, claimId));
+        return { success: true, message: 'HMO claim rejected.', claim: await this.getClaimById(claimId) };
+    }
+
+    /**
+     * Records money received from the HMO against an approved claim and moves it to
+     * partially paid or paid depending on how much of the approved amount has arrived.
+     */
+    async recordRemittance(claimId: number, data: NewRemittanceData) {
+        const amount = round2(parseFloat(String(data.amount)));
+        if (isNaN(amount) || amount <= 0) return { success: false, message: 'Remittance amount must be a positive number.' };
+
+        const result = await db.transaction(async (tx) => {
+            const [claim] = await tx.select().from(hmoClaims).where(eq(hmoClaims.id, claimId)).for('update');
+            if (!claim) return { success: false, message: 'HMO claim not found.' };
+            if (claim.status !== 'approved' && claim.status !== 'partially_paid') {
+                return { success: false, message: 'Remittances can only be recorded against approved claims.' };
+            }
+
+            const [remitted] = await tx.select({ total: sql<string>`COALESCE(SUM(${hmoRemittances.amount}), 0)` })
+                .from(hmoRemittances)
+                .where(eq(hmoRemittances.claimId, claimId));
+            const approved = parseFloat(claim.approvedAmount || '0');
+            const alreadyRemitted = parseFloat(remitted?.total || '0');
+            const outstanding = round2(approved - alreadyRemitted);
+            if (amount > outstanding) {
+                return { success: false, message: `Remittance of ${amount.toFixed(2)} exceeds the ${outstanding.toFixed(2)} still due on this claim.` };
+            }
+
+            await tx.insert(hmoRemittances).values({
+                claimId,
+                amount: amount.toFixed(2),
+                remittedAt: data.remittedAt,
+                reference: data.reference || null,
+                method: data.method || null,
+                notes: data.notes || null,
+                recordedBy: data.recordedBy ?? null,
+            });
+
+            const status = round2(outstanding - amount) <= 0 ? 'paid' : 'partially_paid';
+            await tx.update(hmoClaims).set({ status, updatedAt: new Date() }).where(eq(hmoClaims.id, claimId));
+            return { success: true };
+        });
+
+        if (!result.success) return { success: false, message: result.message };
+        return { success: true, message: 'Remittance recorded successfully.', claim: await this.getClaimById(claimId) };
+    }
+
+    /**
+     * True when the invoice has a claim the HMO is already processing or paying.
+     */
+    async invoiceHasActiveClaim(invoiceId: number, executor: DbExecutor = db): Promise<boolean> {
+        const [claim] = await executor.select({ id: hmoClaims.id }).from(hmoClaims)
+            .where(and(eq(hmoClaims.invoiceId, invoiceId), inArray(hmoClaims.status, ACTIVE_CLAIM_STATUSES)))
+            .limit(1);
+        return !!claim;
+    }
+
+    /**
+     * Per-HMO claim totals: what is waiting on a decision, what was approved, what has been remitted
+     * and what is still owed, plus covered invoice amounts that have not been claimed yet.
+     */
+    async getReceivablesByHmo() {
+        const claimTotals = await db
+            .select({
+                hmoName: hmoClaims.hmoName,
+                status: hmoClaims.status,
+                claimCount: sql<number>`COUNT(*)`,
+                claimed: sql<string>`COALESCE(SUM(${hmoClaims.claimedAmount}), 0)`,
+                approved: sql<string>`COALESCE(SUM(${hmoClaims.approvedAmount}), 0)`,
+                oldestSubmittedAt: sql<Date | null>`MIN(${hmoClaims.submittedAt})`,
+            })
+            .from(hmoClaims)
+            .groupBy(hmoClaims.hmoName, hmoClaims.status);
+
+        const remittedTotals = await db
+            .select({
+                hmoName: hmoClaims.hmoName,
+                remitted: sql<string>`COALESCE(SUM(${hmoRemittances.amount}), 0)`,
+            })
+            .from(hmoRemittances)
+            .innerJoin(hmoClaims, eq(hmoRemittances.claimId, hmoClaims.id))
+            .groupBy(hmoClaims.hmoName);
+
+        // Covered invoices with no claim, or whose only claims were rejected.
+        const unclaimed = await db
+            .select({
+                hmoName: invoices.hmoName,
+                invoiceCount: sql<number>`COUNT(*)`,
+                covered: sql<string>`COALESCE(SUM(${invoices.coveredAmount}), 0)`,
+            })
+            .from(invoices)
+            .where(and(
+                eq(invoices.status, 'issued'),
+                eq(invoices.isHmoCovered, true),
+                sql`${invoices.coveredAmount} > 0`,
+                sql`NOT EXISTS (SELECT 1 FROM ${hmoClaims} WHERE ${hmoClaims.invoiceId} = ${invoices.id} AND ${hmoClaims.status} <> 'rejected')`,
+            ))
+            .groupBy(invoices.hmoName);
+
+        type Receivable = {
+            hmoName: string;
+            unclaimedInvoices: number;
+            unclaimedAmount: number;
+            draftAmount: number;
+            awaitingDecisionAmount: number;
+            approvedAmount: number;
+            rejectedAmount: number;
+            remittedAmount: number;
+            outstandingAmount: number;
+            oldestPendingSubmission: Date | null;
+        };
+        const byHmo = new Map<string, Receivable>();
+        const entry = (hmoName: string | null) => {
+            const name = hmoName || 'Unknown';
+            if (!byHmo.has(name)) {
+                byHmo.set(name, {
+                    hmoName: name, unclaimedInvoices: 0, unclaimedAmount: 0, draftAmount: 0, awaitingDecisionAmount: 0,
+                    approvedAmount: 0, rejectedAmount: 0, remittedAmount: 0, outstandingAmount: 0, oldestPendingSubmission: null,
+                });
+            }
+            return byHmo.get(name)!;
+        };
+
+        for (const row of claimTotals) {
+            const receivable = entry(row.hmoName);
+            const claimed = parseFloat(row.claimed);
+            if (row.status === 'draft') receivable.draftAmount = round2(receivable.draftAmount + claimed);
+            else if (row.status === 'submitted') {
+                receivable.awaitingDecisionAmount = round2(receivable.awaitingDecisionAmount + claimed);
+                receivable.oldestPendingSubmission = row.oldestSubmittedAt;
+            } else if (row.status === 'rejected') receivable.rejectedAmount = round2(receivable.rejectedAmount + claimed);
+            else receivable.approvedAmount = round2(receivable.approvedAmount + parseFloat(row.approved));
+        }
+        for (const row of remittedTotals) {
+            entry(row.hmoName).remittedAmount = round2(parseFloat(row.remitted));
+        }
+        for (const row of unclaimed) {
+            const receivable = entry(row.hmoName);
+            receivable.unclaimedInvoices = Number(row.invoiceCount);
+            receivable.unclaimedAmount = round2(parseFloat(row.covered));
+        }
+        for (const receivable of byHmo.values()) {
+            receivable.outstandingAmount = round2(receivable.approvedAmount - receivable.remittedAmount);
+        }
+        return Array.from(byHmo.values());
+    }
+
+    private withTotals<T extends { claimedAmount: string; approvedAmount: string | null; remittances: { amount: string }[] }>(claim: T) {
+        const remitted = round2(claim.remittances.reduce((sum, r) => sum + parseFloat(r.amount), 0));
+        return {
+            ...claim,
+            remittedAmount: remitted.toFixed(2),
+            outstandingAmount: claim.approvedAmount !== null ? round2(parseFloat(claim.approvedAmount) - remitted).toFixed(2) : null,
+        };
+    }
+}
+
+export const hmoClaimService = new HmoClaimService();
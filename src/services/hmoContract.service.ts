@@ -0,0 +1,348 @@
+// src/services/hmoContract.service.ts
+import { and, desc, eq, gte, inArray, isNull, lt, lte, ne, or, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { hmoContracts, hmoContractTariffs, hmoProviders, invoices, serviceItems } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+
+export interface ContractTariffInput {
+    serviceItemId: number;
+    price?: number | string | null;
+    coPayPercent?: number | string | null;
+    isExcluded?: boolean;
+}
+
+export interface NewHmoContractData {
+    hmoProviderId: number;
+    name?: string | null;
+    defaultCoPayPercent?: number | string;
+    annualCap?: number | string | null;
+    validFrom: Date;
+    validTo?: Date | null;
+    notes?: string | null;
+    tariffs?: ContractTariffInput[];
+}
+
+export type HmoContractUpdateData = Partial<Omit<NewHmoContractData, 'hmoProviderId'>>;
+
+// The line fields contract pricing needs; structurally compatible with `InvoiceItemInput`.
+export interface ContractPricingLine {
+    serviceItemId?: number | null;
+    description: string;
+    quantity?: number;
+    unitPrice?: number | string;
+    totalPrice?: number | string;
+}
+
+type HmoContract = typeof hmoContracts.$inferSelect;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const parseMoney = (value: number | string | null | undefined): number | null => {
+    if (value === undefined || value === null || value === '') return null;
+    const parsed = parseFloat(String(value));
+    return isNaN(parsed) ? NaN : round2(parsed);
+};
+
+const isValidPercent = (value: number | null) => value === null || (!isNaN(value) && value >= 0 && value <= 100);
+
+export class HmoContractService {
+
+    async getContracts(hmoProviderId: number) {
+        return await db.query.hmoContracts.findMany({
+            where: eq(hmoContracts.hmoProviderId, hmoProviderId),
+            orderBy: [desc(hmoContracts.validFrom)],
+            with: { tariffs: { with: { serviceItem: true } } },
+        });
+    }
+
+    async getContractById(contractId: number) {
+        const contract = await db.query.hmoContracts.findFirst({
+            where: eq(hmoContracts.id, contractId),
+            with: {
+                hmoProvider: true,
+                tariffs: { with: { serviceItem: true } },
+            },
+        });
+        return contract ?? null;
+    }
+
+    async createContract(data: NewHmoContractData) {
+        const [provider] = await db.select({ id: hmoProviders.id }).from(hmoProviders).where(eq(hmoProviders.id, data.hmoProviderId)).limit(1);
+        if (!provider) return { success: false, message: 'HMO provider not found.' };
+
+        const terms = this.validateTerms(data);
+        if (typeof terms === 'string') return { success: false, message: terms };
+        if (await this.hasOverlappingContract(data.hmoProviderId, data.validFrom, data.validTo ?? null)) {
+            return { success: false, message: 'This HMO already has a contract covering part of that period.' };
+        }
+        const tariffError = data.tariffs ? await this.validateTariffs(data.tariffs) : null;
+        if (tariffError) return { success: false, message: tariffError };
+
+        const contractId = await db.transaction(async (tx) => {
+            const [inserted] = await tx.insert(hmoContracts).values({
+                hmoProviderId: data.hmoProviderId,
+                name: data.name || null,
+                defaultCoPayPercent: (terms.defaultCoPayPercent ?? 0).toFixed(2),
+                annualCap: terms.annualCap === null ? null : terms.annualCap.toFixed(2),
+                validFrom: data.validFrom,
+                validTo: data.validTo ?? null,
+                notes: data.notes || null,
+            });
+            if (data.tariffs && data.tariffs.length > 0) await this.insertTariffs(inserted.insertId, data.tariffs, tx);
+            return inserted.insertId;
+        });
+
+        return { success: true, message: 'HMO contract created successfully.', contract: await this.getContractById(contractId) };
+    }
+
+    /**
+     * Changes a contract's terms. Passing `tariffs` replaces the whole tariff list.
+     * Invoices already priced from the contract keep their stored amounts.
+     */
+    async updateContract(contractId: number, updateData: HmoContractUpdateData) {
+        const [existing] = await db.select().from(hmoContracts).where(eq(hmoContracts.id, contractId)).limit(1);
+        if (!existing) return { success: false, message: 'HMO contract not found.' };
+
+        const terms = this.validateTerms({
+            defaultCoPayPercent: updateData.defaultCoPayPercent,
+            annualCap: updateData.annualCap,
+            validFrom: updateData.validFrom ?? existing.validFrom,
+            validTo: updateData.validTo !== undefined ? updateData.validTo : existing.validTo,
+        });
+        if (typeof terms === 'string') return { success: false, message: terms };
+
+        const validFrom = updateData.validFrom ?? existing.validFrom;
+        const validTo = updateData.validTo !== undefined ? updateData.validTo : existing.validTo;
+        if (await this.hasOverlappingContract(existing.hmoProviderId, validFrom, validTo, contractId)) {
+            return { success: false, message: 'This HMO already has a contract covering part of that period.' };
+        }
+        const tariffError = updateData.tariffs ? await this.validateTariffs(updateData.tariffs) : null;
+        if (tariffError) return { success: false, message: tariffError };
+
+        await db.transaction(async (tx) => {
+            const changes: Partial<typeof hmoContracts.$inferInsert> = { updatedAt: new Date(), validFrom, validTo };
+            if (updateData.name !== undefined) changes.name = updateData.name || null;
+            if (terms.defaultCoPayPercent !== null) changes.defaultCoPayPercent = terms.defaultCoPayPercent.toFixed(2);
+            if (updateData.annualCap !== undefined) changes.annualCap = terms.annualCap === null ? null : terms.annualCap.toFixed(2);
+            if (updateData.notes !== undefined) changes.notes = updateData.notes || null;
+            await tx.update(hmoContracts).set(changes).where(eq(hmoContracts.id, contractId));
+
+            if (updateData.tariffs) {
+                await tx.delete(hmoContractTariffs).where(eq(hmoContractTariffs.contractId, contractId));
+                if (updateData.tariffs.length > 0) await this.insertTariffs(contractId, updateData.tariffs, tx);
+            }
+        });
+
+        return { success: true, message: 'HMO contract updated successfully.', contract: await this.getContractById(contractId) };
+    }
+
+    /**
+     * Deletes a contract that has never been used to price an invoice.
+     * A contract with history should be ended by setting `validTo` instead.
+     */
+    async deleteContract(contractId: number) {
+        const [existing] = await db.select({ id: hmoContracts.id }).from(hmoContracts).where(eq(hmoContracts.id, contractId)).limit(1);
+        if (!existing) return { success: false, message: 'HMO contract not found.' };
+
+        const [used] = await db.select({ id: invoices.id }).from(invoices).where(eq(invoices.hmoContractId, contractId)).limit(1);
+        if (used) return { success: false, message: 'This contract has priced invoices; set an end date on it instead of deleting it.' };
+
+        await db.delete(hmoContracts).where(eq(hmoContracts.id, contractId));
+        return { success: true, message: 'HMO contract deleted successfully.' };
+    }
+
+    /**
+     * Looks an HMO up by id, falling back to its name for callers that still only send `hmoName`.
+     */
+    async findProvider(ref: { id?: number | null; name?: string | null }, executor: DbExecutor = db) {
+        if (ref.id) {
+            const [provider] = await executor.select().from(hmoProviders).where(eq(hmoProviders.id, ref.id)).limit(1);
+            return provider ?? null;
+        }
+        if (ref.name) {
+            const [provider] = await executor.select().from(hmoProviders).where(eq(hmoProviders.name, ref.name)).limit(1);
+            return provider ?? null;
+        }
+        return null;
+    }
+
+    /**
+     * The contract in force for an HMO on a given date, if any. Validity is compared by day, so a
+     * contract covers the whole of its last day rather than ending at midnight.
+     */
+    async getActiveContract(hmoProviderId: number, on: Date, executor: DbExecutor = db): Promise<HmoContract | null> {
+        const day = sql`DATE(${on})`;
+        const [contract] = await executor.select().from(hmoContracts)
+            .where(and(
+                eq(hmoContracts.hmoProviderId, hmoProviderId),
+                lte(sql`DATE(${hmoContracts.validFrom})`, day),
+                or(isNull(hmoContracts.validTo), gte(sql`DATE(${hmoContracts.validTo})`, day)),
+            ))
+            .orderBy(desc(hmoContracts.validFrom))
+            .limit(1);
+        return contract ?? null;
+    }
+
+    /**
+     * Service items priced under a contract: the tariff price where one was negotiated,
+     * the co-pay that applies, and whether the HMO excludes the service.
+     */
+    async getContractPriceList(contract: HmoContract, services: (typeof serviceItems.$inferSelect)[]) {
+        const tariffs = await db.select().from(hmoContractTariffs).where(eq(hmoContractTariffs.contractId, contract.id));
+        const byService = new Map(tariffs.map(tariff => [tariff.serviceItemId, tariff]));
+        return services.map(service => {
+            const tariff = byService.get(service.id);
+            return {
+                ...service,
+                standardPrice: service.price,
+                price: tariff?.price ?? service.price,
+                coPayPercent: tariff?.coPayPercent ?? contract.defaultCoPayPercent,
+                isExcluded: tariff?.isExcluded ?? false,
+            };
+        });
+    }
+
+    /**
+     * Splits invoice lines between the HMO and the patient under a contract.
+     * Tariff prices replace the line price. Excluded services, and free-text lines with no
+     * service item, are paid in full by the patient. The rest of each line is covered after
+     * the co-pay, until the patient's annual cap for the calendar year of `invoiceDate` runs out.
+     * @param excludeInvoiceId The invoice being re-priced, so its own cover isn't counted against the cap.
+     */
+    async priceLines(
+        contract: HmoContract,
+        patientId: number,
+        invoiceDate: Date,
+        lines: ContractPricingLine[],
+        executor: DbExecutor = db,
+        excludeInvoiceId?: number,
+    ) {
+        const serviceIds = [...new Set(lines.map(line => line.serviceItemId).filter((id): id is number => !!id))];
+        const tariffs = serviceIds.length > 0
+            ? await executor.select().from(hmoContractTariffs)
+                .where(and(eq(hmoContractTariffs.contractId, contract.id), inArray(hmoContractTariffs.serviceItemId, serviceIds)))
+            : [];
+        const standardPrices = serviceIds.length > 0
+            ? await executor.select({ id: serviceItems.id, price: serviceItems.price }).from(serviceItems).where(inArray(serviceItems.id, serviceIds))
+            : [];
+        const tariffByService = new Map(tariffs.map(tariff => [tariff.serviceItemId, tariff]));
+        const priceByService = new Map(standardPrices.map(item => [item.id, parseFloat(item.price)]));
+
+        let capRemaining: number | null = null;
+        if (contract.annualCap !== null) {
+            const yearStart = new Date(invoiceDate.getFullYear(), 0, 1);
+            const nextYearStart = new Date(invoiceDate.getFullYear() + 1, 0, 1);
+            const [used] = await executor.select({ total: sql<string>`COALESCE(SUM(${invoices.coveredAmount}), 0)` })
+                .from(invoices)
+                .where(and(
+                    eq(invoices.patientId, patientId),
+                    eq(invoices.hmoContractId, contract.id),
+                    eq(invoices.status, 'issued'),
+                    gte(invoices.invoiceDate, yearStart),
+                    lt(invoices.invoiceDate, nextYearStart),
+                    excludeInvoiceId ? ne(invoices.id, excludeInvoiceId) : undefined,
+                ));
+            capRemaining = Math.max(0, round2(parseFloat(contract.annualCap) - parseFloat(used?.total ?? '0')));
+        }
+
+        const defaultCoPay = parseFloat(contract.defaultCoPayPercent);
+        const priced = lines.map(line => {
+            const quantity = line.quantity && line.quantity > 0 ? Math.floor(line.quantity) : 1;
+            const tariff = line.serviceItemId ? tariffByService.get(line.serviceItemId) : undefined;
+
+            let unitPrice: number;
+            if (tariff?.price != null) unitPrice = parseFloat(tariff.price);
+            else if (line.unitPrice !== undefined) unitPrice = parseFloat(String(line.unitPrice)) || 0;
+            else if (line.totalPrice !== undefined) unitPrice = (parseFloat(String(line.totalPrice)) || 0) / quantity;
+            else unitPrice = line.serviceItemId ? priceByService.get(line.serviceItemId) ?? 0 : 0;
+            unitPrice = round2(unitPrice);
+            const totalPrice = round2(unitPrice * quantity);
+
+            let covered = 0;
+            if (line.serviceItemId && !tariff?.isExcluded) {
+                const coPay = tariff?.coPayPercent != null ? parseFloat(tariff.coPayPercent) : defaultCoPay;
+                covered = round2(totalPrice * (100 - coPay) / 100);
+            }
+            if (capRemaining !== null) {
+                covered = Math.min(covered, capRemaining);
+                capRemaining = round2(capRemaining - covered);
+            }
+
+            return {
+                serviceItemId: line.serviceItemId ?? null,
+                description: line.description,
+                quantity,
+                unitPrice: unitPrice.toFixed(2),
+                totalPrice: totalPrice.toFixed(2),
+                coveredAmount: covered.toFixed(2),
+                patientShare: round2(totalPrice - covered).toFixed(2),
+                isExcluded: !!tariff?.isExcluded,
+            };
+        });
+
+        const sum = (key: 'totalPrice' | 'coveredAmount' | 'patientShare') => round2(priced.reduce((total, line) => total + parseFloat(line[key]), 0)).toFixed(2);
+        return {
+            contractId: contract.id,
+            lines: priced,
+            subtotal: sum('totalPrice'),
+            coveredAmount: sum('coveredAmount'),
+            totalDue: sum('patientShare'),
+            capRemaining: capRemaining === null ? null : capRemaining.toFixed(2),
+        };
+    }
+
+    // Returns a message when the terms are unusable, otherwise the parsed amounts.
+    private validateTerms(data: Pick<NewHmoContractData, 'defaultCoPayPercent' | 'annualCap' | 'validFrom' | 'validTo'>) {
+        const defaultCoPayPercent = parseMoney(data.defaultCoPayPercent);
+        const annualCap = parseMoney(data.annualCap);
+        if (!isValidPercent(defaultCoPayPercent)) return 'Co-pay percentage must be between 0 and 100.';
+        if (annualCap !== null && (isNaN(annualCap) || annualCap < 0)) return 'Annual cap must be a non-negative amount.';
+        if (!data.validFrom || isNaN(data.validFrom.getTime())) return 'A valid start date is required.';
+        if (data.validTo && data.validTo < data.validFrom) return 'The contract cannot end before it starts.';
+        return { defaultCoPayPercent, annualCap };
+    }
+
+    private async validateTariffs(tariffs: ContractTariffInput[]): Promise<string | null> {
+        const ids = tariffs.map(tariff => Number(tariff.serviceItemId));
+        if (ids.some(id => !id || isNaN(id))) return 'Every tariff needs a service item.';
+        if (new Set(ids).size !== ids.length) return 'A service item can only appear once in a contract.';
+        for (const tariff of tariffs) {
+            const price = parseMoney(tariff.price);
+            if (price !== null && (isNaN(price) || price < 0)) return 'Tariff prices must be non-negative amounts.';
+            if (!isValidPercent(parseMoney(tariff.coPayPercent))) return 'Co-pay percentage must be between 0 and 100.';
+        }
+        if (ids.length > 0) {
+            const found = await db.select({ id: serviceItems.id }).from(serviceItems).where(inArray(serviceItems.id, ids));
+            if (found.length !== ids.length) return 'One or more tariff service items were not found.';
+        }
+        return null;
+    }
+
+    private async insertTariffs(contractId: number, tariffs: ContractTariffInput[], executor: DbExecutor) {
+        await executor.insert(hmoContractTariffs).values(tariffs.map(tariff => {
+            const price = parseMoney(tariff.price);
+            const coPayPercent = parseMoney(tariff.coPayPercent);
+            return {
+                contractId,
+                serviceItemId: Number(tariff.serviceItemId),
+                price: price === null ? null : price.toFixed(2),
+                coPayPercent: coPayPercent === null ? null : coPayPercent.toFixed(2),
+                isExcluded: !!tariff.isExcluded,
+            };
+        }));
+    }
+
+    private async hasOverlappingContract(hmoProviderId: number, validFrom: Date, validTo: Date | null, excludeContractId?: number) {
+        const [overlap] = await db.select({ id: hmoContracts.id }).from(hmoContracts)
+            .where(and(
+                eq(hmoContracts.hmoProviderId, hmoProviderId),
+                excludeContractId ? ne(hmoContracts.id, excludeContractId) : undefined,
+                or(isNull(hmoContracts.validTo), gte(hmoContracts.validTo, validFrom)),
+                validTo ? lte(hmoContracts.validFrom, validTo) : undefined,
+            ))
+            .limit(1);
+        return !!overlap;
+    }
+}
+
+export const hmoContractService = new HmoContractService();
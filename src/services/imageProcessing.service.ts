@@ -0,0 +1,58 @@
+// src/services/imageProcessing.service.ts
+import sharp from 'sharp';
+
+export type ImageFormat = 'jpeg' | 'png' | 'tiff' | 'webp' | 'dicom';
+
+export const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    tiff: 'image/tiff',
+    webp: 'image/webp',
+    dicom: 'application/dicom',
+};
+
+const THUMBNAIL_SIZE = 320;
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+    buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+
+export class ImageProcessingService {
+
+    /**
+     * Identifies a file by its signature bytes, ignoring whatever type the client claimed.
+     * DICOM files carry "DICM" after a 128-byte preamble.
+     */
+    detectFormat(buffer: Buffer): ImageFormat | null {
+        if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'jpeg';
+        if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+        if (startsWith(buffer, [0x49, 0x49, 0x2a, 0x00]) || startsWith(buffer, [0x4d, 0x4d, 0x00, 0x2a])) return 'tiff';
+        if (startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) && startsWith(buffer, [0x57, 0x45, 0x42, 0x50], 8)) return 'webp';
+        if (startsWith(buffer, [0x44, 0x49, 0x43, 0x4d], 128)) return 'dicom';
+        return null;
+    }
+
+    /**
+     * Reads a raster image's header for its dimensions; throws when the header is not an image's.
+     * Truncated pixel data only shows up on a full decode, e.g. in `createThumbnail`.
+     */
+    async inspect(buffer: Buffer) {
+        const metadata = await sharp(buffer, { failOn: 'error' }).metadata();
+        if (!metadata.width || !metadata.height) throw new Error('Image has no dimensions.');
+        return { width: metadata.width, height: metadata.height };
+    }
+
+    /**
+     * A small JPEG preview, upright and without the original's metadata (EXIF can carry
+     * device details or location). Originals are kept byte-for-byte as diagnostic data.
+     */
+    async createThumbnail(buffer: Buffer): Promise<Buffer> {
+        return await sharp(buffer, { failOn: 'error' })
+            .rotate()
+            .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+            .flatten({ background: '#ffffff' })
+            .jpeg({ quality: 80 })
+            .toBuffer();
+    }
+}
+
+export const imageProcessingService = new ImageProcessingService();
@@ -0,0 +1,156 @@
+// src/services/imageStorage.service.ts
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { v2 as cloudinary } from 'cloudinary';
+
+export type StorageProvider = 'cloudinary' | 'local' | 'external';
+
+export interface StoredFile {
+    storageKey: string; // Provider-specific handle used to read or remove the file later
+    url: string | null; // Public URL, when the provider serves the file itself
+}
+
+export interface ImageStorageAdapter {
+    readonly provider: StorageProvider;
+    save(buffer: Buffer, file: { folder: string; filename: string; mimeType: string }): Promise<StoredFile>;
+    read(storageKey: string): Promise<Buffer>;
+    remove(storageKey: string): Promise<void>;
+}
+
+// Keeps a readable name but never trusts the client's: no paths, no odd characters, a random prefix.
+const safeFilename = (filename: string) => {
+    const base = path.basename(filename).replace(/[^a-zA-Z0-9._-]+/g, '_').slice(-100) || 'image';
+    return `${Date.now()}-${crypto.randomBytes(4).toString('hex')}-${base}`;
+};
+
+export class CloudinaryStorageAdapter implements ImageStorageAdapter {
+    readonly provider = 'cloudinary' as const;
+
+    constructor() {
+        cloudinary.config({
+            cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+            api_key: process.env.CLOUDINARY_API_KEY,
+            api_secret: process.env.CLOUDINARY_API_SECRET
+        });
+    }
+
+    save(buffer: Buffer, file: { folder: string; filename: string; mimeType: string }): Promise<StoredFile> {
+        return new Promise((resolve, reject) => {
+            const stream = cloudinary.uploader.upload_stream(
+                { folder: file.folder, resource_type: 'auto' },
+                (error, result) => {
+                    if (error || !result) return reject(error ?? new Error('Cloudinary returned no upload result.'));
+                    // The public id is what `destroy` needs; the resource type is kept with it for the same reason.
+                    resolve({ storageKey: `${result.resource_type}:${result.public_id}`, url: result.secure_url });
+                }
+            );
+            stream.end(buffer);
+        });
+    }
+
+    async read(storageKey: string): Promise<Buffer> {
+        const [resourceType, publicId] = storageKey.split(/:(.*)/s);
+        const url = cloudinary.url(publicId, { resource_type: resourceType, secure: true });
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Cloudinary download failed with status ${response.status}.`);
+        return Buffer.from(await response.arrayBuffer());
+    }
+
+    async remove(storageKey: string): Promise<void> {
+        const [resourceType, publicId] = storageKey.split(/:(.*)/s);
+        await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
+    }
+}
+
+/**
+ * Stores files under a local directory (the project's `uploads/` by default). Files are served
+ * through the authenticated API, never statically, so `url` is always null.
+ */
+export class LocalStorageAdapter implements ImageStorageAdapter {
+    readonly provider = 'local' as const;
+
+    constructor(private baseDir: string = process.env.LOCAL_UPLOAD_DIR || path.join(__dirname, '../../uploads')) {}
+
+    // Storage keys are relative to the base directory and must stay inside it.
+    private resolve(storageKey: string) {
+        const fullPath = path.resolve(this.baseDir, storageKey);
+        if (!fullPath.startsWith(path.resolve(this.baseDir) + path.sep)) throw new Error('Invalid storage key.');
+        return fullPath;
+    }
+
+    async save(buffer: Buffer, file: { folder: string; filename: string; mimeType: string }): Promise<StoredFile> {
+        const storageKey = path.posix.join(file.folder, safeFilename(file.filename));
+        const fullPath = this.resolve(storageKey);
+        await fs.mkdir(path.dirname(fullPath), { recursive: true });
+        await fs.writeFile(fullPath, buffer);
+        return { storageKey, url: null };
+    }
+
+    async read(storageKey: string): Promise<Buffer> {
+        return await fs.readFile(this.resolve(storageKey));
+    }
+
+    async remove(storageKey: string): Promise<void> {
+        await fs.rm(this.resolve(storageKey), { force: true });
+    }
+}
+
+/**
+ * Images linked by URL before the imaging library existed (the old `dentalRecords.xrayUrl`).
+ * They are not ours to delete, so removal only forgets them.
+ */
+export class ExternalUrlAdapter implements ImageStorageAdapter {
+    readonly provider = 'external' as const;
+
+    async save(): Promise<StoredFile> {
+        throw new Error('External images are linked, not uploaded.');
+    }
+
+    async read(storageKey: string): Promise<Buffer> {
+        const response = await fetch(storageKey);
+        if (!response.ok) throw new Error(`Image download failed with status ${response.status}.`);
+        return Buffer.from(await response.arrayBuffer());
+    }
+
+    async remove(): Promise<void> {}
+}
+
+export class ImageStorageService {
+    private adapters = new Map<StorageProvider, ImageStorageAdapter>();
+    private active: ImageStorageAdapter | null = null;
+
+    /**
+     * The adapter new uploads go to: IMAGE_STORAGE=local|cloudinary, defaulting to Cloudinary when
+     * it is configured and the local `uploads/` directory otherwise.
+     */
+    getActiveAdapter(): ImageStorageAdapter {
+        if (!this.active) {
+            const configured = process.env.IMAGE_STORAGE || (process.env.CLOUDINARY_CLOUD_NAME ? 'cloudinary' : 'local');
+            this.active = this.getAdapter(configured === 'local' ? 'local' : 'cloudinary');
+        }
+        return this.active;
+    }
+
+    // Stored images are read and removed with the adapter that saved them, whatever is active now.
+    getAdapter(provider: StorageProvider): ImageStorageAdapter {
+        let adapter = this.adapters.get(provider);
+        if (!adapter) {
+            adapter = provider === 'local' ? new LocalStorageAdapter()
+                : provider === 'external' ? new ExternalUrlAdapter()
+                : new CloudinaryStorageAdapter();
+            this.adapters.set(provider, adapter);
+        }
+        return adapter;
+    }
+
+    /**
+     * Swaps in an adapter, e.g. a `LocalStorageAdapter` on a temporary directory in tests.
+     */
+    useAdapter(adapter: ImageStorageAdapter) {
+        this.adapters.set(adapter.provider, adapter);
+        this.active = adapter;
+    }
+}
+
+export const imageStorageService = new ImageStorageService();
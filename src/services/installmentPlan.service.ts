@@ -0,0 +1,176 @@
+// src/services/installmentPlan.service.ts
+import { and, asc, desc, eq, gte, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { installmentPlans, installments, invoices, paymentAllocations, payments } from '../../db/schema';
+import { paymentAllocationService } from './paymentAllocation.service';
+
+export interface InstallmentInput {
+    dueDate: Date;
+    amount: number | string;
+}
+
+export interface NewInstallmentPlanData {
+    invoiceId: number;
+    // Defaults to what is still owed on the invoice.
+    totalAmount?: number | string;
+    // Either an explicit schedule...
+    installments?: InstallmentInput[];
+    // ...or an even split generated from a start date.
+    count?: number;
+    frequency?: 'weekly' | 'monthly';
+    startDate?: Date;
+    notes?: string | null;
+    createdBy?: number | null;
+}
+
+export type InstallmentStatus = 'paid' | 'partially_paid' | 'pending' | 'overdue';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Splits `total` into `count` equal instalments, the last one absorbing the rounding difference.
+ */
+const buildSchedule = (total: number, count: number, frequency: 'weekly' | 'monthly', startDate: Date): InstallmentInput[] => {
+    const share = Math.floor((total / count) * 100) / 100;
+    return Array.from({ length: count }, (_, index) => {
+        const dueDate = new Date(startDate);
+        if (frequency === 'weekly') dueDate.setDate(dueDate.getDate() + index * 7);
+        else dueDate.setMonth(dueDate.getMonth() + index);
+        const amount = index === count - 1 ? round2(total - share * (count - 1)) : share;
+        return { dueDate, amount };
+    });
+};
+
+export class InstallmentPlanService {
+
+    /**
+     * Schedules the remaining balance of an invoice as a series of instalments.
+     * Only one active plan is allowed per invoice, and the instalments must add up to the plan total.
+     */
+    async createPlan(data: NewInstallmentPlanData) {
+        const [invoice] = await db.select().from(invoices).where(eq(invoices.id, data.invoiceId)).limit(1);
+        if (!invoice) return { success: false, message: 'Invoice not found.' };
+        if (invoice.status === 'void') return { success: false, message: 'Cannot schedule a void invoice.' };
+
+        const [activePlan] = await db.select({ id: installmentPlans.id }).from(installmentPlans)
+            .where(and(eq(installmentPlans.invoiceId, data.invoiceId), eq(installmentPlans.status, 'active')))
+            .limit(1);
+        if (activePlan) return { success: false, message: 'This invoice already has an active installment plan.' };
+
+        const openLines = await paymentAllocationService.getOpenBalanceUnits(invoice.patientId, db, invoice.id);
+        const remaining = round2(openLines.reduce((sum, line) => sum + Math.max(line.remaining, 0), 0));
+        const totalAmount = data.totalAmount !== undefined ? round2(parseFloat(String(data.totalAmount))) : remaining;
+        if (isNaN(totalAmount) || totalAmount <= 0) return { success: false, message: 'Nothing is left to pay on this invoice.' };
+        if (totalAmount > remaining) {
+            return { success: false, message: `Plan total of ${totalAmount.toFixed(2)} exceeds the ${remaining.toFixed(2)} still owed on the invoice.` };
+        }
+
+        let schedule: InstallmentInput[];
+        if (data.installments && data.installments.length > 0) {
+            schedule = data.installments;
+        } else if (data.count && data.count > 0 && data.frequency && data.startDate) {
+            schedule = buildSchedule(totalAmount, Math.floor(data.count), data.frequency, data.startDate);
+        } else {
+            return { success: false, message: 'Provide either installments or a count, frequency and start date.' };
+        }
+
+        const scheduledTotal = round2(schedule.reduce((sum, item) => sum + parseFloat(String(item.amount)), 0));
+        if (schedule.some(item => !(parseFloat(String(item.amount)) > 0))) return { success: false, message: 'Each installment must have a positive amount.' };
+        if (scheduledTotal !== totalAmount) {
+            return { success: false, message: `Installments add up to ${scheduledTotal.toFixed(2)} but the plan total is ${totalAmount.toFixed(2)}.` };
+        }
+
+        const sorted = [...schedule].sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+        const planId = await db.transaction(async (tx) => {
+            const [inserted] = await tx.insert(installmentPlans).values({
+                patientId: invoice.patientId,
+                invoiceId: invoice.id,
+                totalAmount: totalAmount.toFixed(2),
+                notes: data.notes || null,
+                createdBy: data.createdBy ?? null,
+            });
+            await tx.insert(installments).values(sorted.map((item, index) => ({
+                planId: inserted.insertId,
+                sequence: index + 1,
+                dueDate: new Date(item.dueDate),
+                amount: parseFloat(String(item.amount)).toFixed(2),
+            })));
+            return inserted.insertId;
+        });
+
+        return { success: true, message: 'Installment plan created successfully.', plan: await this.getPlanById(planId) };
+    }
+
+    async getPlans(patientId?: number) {
+        const plans = await db.query.installmentPlans.findMany({
+            where: patientId ? eq(installmentPlans.patientId, patientId) : undefined,
+            orderBy: [desc(installmentPlans.createdAt)],
+            with: {
+                patient: { columns: { id: true, name: true } },
+                invoice: { columns: { id: true, invoiceNumber: true, totalDue: true } },
+                installments: { orderBy: [asc(installments.sequence)] },
+            },
+        });
+        return await Promise.all(plans.map(plan => this.withProgress(plan)));
+    }
+
+    async getPlanById(planId: number) {
+        const plan = await db.query.installmentPlans.findFirst({
+            where: eq(installmentPlans.id, planId),
+            with: {
+                patient: { columns: { id: true, name: true } },
+                invoice: { columns: { id: true, invoiceNumber: true, totalDue: true } },
+                installments: { orderBy: [asc(installments.sequence)] },
+            },
+        });
+        return plan ? await this.withProgress(plan) : null;
+    }
+
+    async cancelPlan(planId: number) {
+        const [existing] = await db.select().from(installmentPlans).where(eq(installmentPlans.id, planId)).limit(1);
+        if (!existing) return { success: false, message: 'Installment plan not found.' };
+        if (existing.status !== 'active') return { success: false, message: `Installment plan is already ${existing.status}.` };
+
+        await db.update(installmentPlans).set({ status: 'cancelled', updatedAt: new Date() }).where(eq(installmentPlans.id, planId));
+        return { success: true, message: 'Installment plan cancelled successfully.' };
+    }
+
+    /**
+     * Derives each instalment's status from the payments allocated to the plan's invoice since the plan
+     * was created, applied to instalments in due-date order. A fully paid active plan is marked completed.
+     */
+    private async withProgress<T extends { id: number; invoiceId: number; status: string; createdAt: Date; installments: (typeof installments.$inferSelect)[] }>(plan: T) {
+        const [paid] = await db.select({ total: sql<string>`COALESCE(SUM(${paymentAllocations.amount}), 0)` })
+            .from(paymentAllocations)
+            .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+            .where(and(
+                eq(paymentAllocations.invoiceId, plan.invoiceId),
+                eq(payments.status, 'completed'),
+                gte(paymentAllocations.createdAt, plan.createdAt),
+            ));
+
+        let available = parseFloat(paid?.total || '0');
+        const now = new Date();
+        const schedule = plan.installments.map(item => {
+            const amount = parseFloat(item.amount);
+            const amountPaid = round2(Math.min(available, amount));
+            available = round2(available - amountPaid);
+            let status: InstallmentStatus;
+            if (amountPaid >= amount) status = 'paid';
+            else if (item.dueDate < now) status = 'overdue';
+            else if (amountPaid > 0) status = 'partially_paid';
+            else status = 'pending';
+            return { ...item, amountPaid: amountPaid.toFixed(2), status };
+        });
+
+        let status = plan.status;
+        if (status === 'active' && schedule.length > 0 && schedule.every(item => item.status === 'paid')) {
+            status = 'completed';
+            await db.update(installmentPlans).set({ status: 'completed', updatedAt: new Date() }).where(eq(installmentPlans.id, plan.id));
+        }
+
+        return { ...plan, status, installments: schedule };
+    }
+}
+
+export const installmentPlanService = new InstallmentPlanService();
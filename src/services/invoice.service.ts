@@ -0,0 +1,381 @@
+// src/services/invoice.service.ts
+import { asc, eq, desc } from 'drizzle-orm';
+import { db } from '../config/database';
+import { invoices, invoiceItems, patients, treatmentPlanProcedures } from '../../db/schema';
+import { ledgerService, DbExecutor } from './ledger.service';
+import { sequenceService } from './sequence.service';
+import { paymentAllocationService } from './paymentAllocation.service';
+import { hmoClaimService } from './hmoClaim.service';
+import { hmoContractService } from './hmoContract.service';
+
+export interface InvoiceItemInput {
+    serviceItemId?: number | null;
+    description: string;
+    quantity?: number;
+    unitPrice?: number | string;
+    totalPrice?: number | string;
+}
+
+export interface NewInvoiceData {
+    patientId: number;
+    invoiceDate: Date;
+    items: InvoiceItemInput[];
+    subtotal?: number | string;
+    isHmoCovered?: boolean;
+    hmoProviderId?: number | null;
+    hmoName?: string | null;
+    // Ignored when the HMO has a contract in force; the contract decides the split.
+    coveredAmount?: number | string;
+    totalDue: number | string;
+    notes?: string | null;
+    createdBy?: number | null;
+}
+
+export interface InvoiceUpdateData {
+    invoiceDate?: Date;
+    items?: InvoiceItemInput[];
+    subtotal?: number | string;
+    isHmoCovered?: boolean;
+    hmoProviderId?: number | null;
+    hmoName?: string | null;
+    coveredAmount?: number | string;
+    totalDue?: number | string;
+    notes?: string | null;
+}
+
+const toMoney = (value: number | string | undefined | null): string => {
+    const parsed = parseFloat(String(value ?? 0));
+    return (isNaN(parsed) ? 0 : parsed).toFixed(2);
+};
+
+/**
+ * Normalises line items for insert and splits the patient's share of the invoice across them
+ * in proportion to each line's price. The last line absorbs any rounding difference so the
+ * shares always add up to `totalDue`.
+ */
+const toItemRows = (invoiceId: number, items: InvoiceItemInput[], totalDue?: number | string) => {
+    const rows = items.map(item => {
+        const quantity = item.quantity && item.quantity > 0 ? Math.floor(item.quantity) : 1;
+        const unitPrice = item.unitPrice !== undefined ? toMoney(item.unitPrice) : toMoney(parseFloat(toMoney(item.totalPrice)) / quantity);
+        const totalPrice = item.totalPrice !== undefined ? toMoney(item.totalPrice) : toMoney(parseFloat(unitPrice) * quantity);
+        return {
+            invoiceId,
+            serviceItemId: item.serviceItemId ?? null,
+            description: item.description,
+            quantity,
+            unitPrice,
+            totalPrice,
+        };
+    });
+
+    const gross = rows.reduce((sum, row) => sum + parseFloat(row.totalPrice), 0);
+    const due = totalDue === undefined ? gross : parseFloat(toMoney(totalDue));
+    let assigned = 0;
+    return rows.map((row, index) => {
+        const share = index === rows.length - 1
+            ? due - assigned
+            : (gross > 0 ? parseFloat(toMoney(parseFloat(row.totalPrice) * due / gross)) : 0);
+        assigned += share;
+        return { ...row, patientShare: toMoney(share) };
+    });
+};
+
+type HmoProvider = NonNullable<Awaited<ReturnType<typeof hmoContractService.findProvider>>>;
+type ContractPricing = Awaited<ReturnType<typeof hmoContractService.priceLines>>;
+
+/**
+ * Line rows for a contract-priced invoice, where each line's patient share was worked out
+ * from its own tariff rather than split in proportion to price.
+ */
+const pricedItemRows = (invoiceId: number, lines: { serviceItemId: number | null; description: string; quantity: number; unitPrice: string; totalPrice: string; patientShare: string }[]) =>
+    lines.map(({ serviceItemId, description, quantity, unitPrice, totalPrice, patientShare }) => ({
+        invoiceId, serviceItemId, description, quantity, unitPrice, totalPrice, patientShare,
+    }));
+
+export class InvoiceService {
+
+    /**
+     * Prices lines under the HMO's contract in force on `invoiceDate`.
+     * Returns `pricing: null` when the invoice isn't HMO-covered or the HMO has no contract,
+     * in which case the amounts supplied by the caller are used as before.
+     */
+    private async priceForHmo(
+        hmo: { isHmoCovered: boolean; hmoProviderId?: number | null; hmoName?: string | null },
+        patientId: number,
+        invoiceDate: Date,
+        items: InvoiceItemInput[],
+        tx: DbExecutor,
+        excludeInvoiceId?: number,
+    ): Promise<{ success: false; message: string } | { success: true; provider: HmoProvider | null; pricing: ContractPricing | null }> {
+        if (!hmo.isHmoCovered) return { success: true, provider: null, pricing: null };
+        const provider = await hmoContractService.findProvider({ id: hmo.hmoProviderId, name: hmo.hmoName }, tx);
+        if (!provider) {
+            if (hmo.hmoProviderId) return { success: false, message: 'HMO provider not found.' };
+            return { success: true, provider: null, pricing: null };
+        }
+        const contract = await hmoContractService.getActiveContract(provider.id, invoiceDate, tx);
+        if (!contract) return { success: true, provider, pricing: null };
+        const pricing = await hmoContractService.priceLines(contract, patientId, invoiceDate, items, tx, excludeInvoiceId);
+        return { success: true, provider, pricing };
+    }
+
+    /**
+     * Persists an invoice and its line items under a server-allocated number,
+     * then refreshes the patient's outstanding balance.
+     * @param data The invoice header and lines.
+     * @param executor Pass an open transaction to create the invoice as part of a larger unit of work.
+     */
+    async createInvoice(data: NewInvoiceData, executor?: DbExecutor) {
+        const run = async (tx: DbExecutor) => {
+            const [patient] = await tx.select({ id: patients.id }).from(patients).where(eq(patients.id, data.patientId)).limit(1);
+            if (!patient) return { success: false, message: 'Patient not found.' };
+
+            const items = data.items || [];
+            const hmo = await this.priceForHmo({ isHmoCovered: !!data.isHmoCovered, hmoProviderId: data.hmoProviderId, hmoName: data.hmoName }, data.patientId, data.invoiceDate, items, tx);
+            if (hmo.success === false) return { success: false, message: hmo.message };
+            const { provider, pricing } = hmo;
+
+            const subtotal = pricing ? pricing.subtotal
+                : data.subtotal !== undefined ? toMoney(data.subtotal)
+                : toMoney(toItemRows(0, items).reduce((sum, item) => sum + parseFloat(item.totalPrice), 0));
+
+            const invoiceNumber = await sequenceService.allocateNumber('invoice', data.invoiceDate, tx);
+            const [inserted] = await tx.insert(invoices).values({
+                invoiceNumber,
+                patientId: data.patientId,
+                createdBy: data.createdBy ?? null,
+                invoiceDate: data.invoiceDate,
+                subtotal,
+                isHmoCovered: !!data.isHmoCovered,
+                hmoName: provider?.name ?? (data.hmoName || null),
+                hmoProviderId: provider?.id ?? null,
+                hmoContractId: pricing?.contractId ?? null,
+                coveredAmount: pricing ? pricing.coveredAmount : toMoney(data.coveredAmount),
+                totalDue: pricing ? pricing.totalDue : toMoney(data.totalDue),
+                notes: data.notes || null,
+            });
+            const invoiceId = inserted.insertId;
+
+            if (pricing && pricing.lines.length > 0) {
+                await tx.insert(invoiceItems).values(pricedItemRows(invoiceId, pricing.lines));
+            } else if (items.length > 0) {
+                await tx.insert(invoiceItems).values(toItemRows(invoiceId, items, data.totalDue));
+            }
+
+            await ledgerService.recalculateOutstanding(data.patientId, tx);
+            return { success: true, invoiceId };
+        };
+
+        const result = executor ? await run(executor) : await db.transaction(run);
+        if (!result.success || !result.invoiceId) return { success: false, message: result.message };
+
+        const invoice = await this.getInvoiceById(result.invoiceId, executor);
+        return { success: true, invoice };
+    }
+
+    async getInvoices(patientId?: number) {
+        return await db.query.invoices.findMany({
+            where: patientId ? eq(invoices.patientId, patientId) : undefined,
+            orderBy: [desc(invoices.invoiceDate), desc(invoices.id)],
+            with: {
+                patient: { columns: { id: true, name: true } },
+                items: true,
+            },
+        });
+    }
+
+    async getInvoiceById(invoiceId: number, executor: DbExecutor = db) {
+        const invoice = await executor.query.invoices.findFirst({
+            where: eq(invoices.id, invoiceId),
+            with: {
+                patient: { columns: { id: true, name: true } },
+                creator: { columns: { id: true, username: true } },
+                hmoContract: { columns: { id: true, name: true } },
+                items: true,
+                receipts: true,
+                payments: true,
+            },
+        });
+        return invoice ?? null;
+    }
+
+    /**
+     * What is still owed on an invoice, line by line, after the payments allocated to it.
+     */
+    async getInvoiceBalance(invoiceId: number) {
+        const [invoice] = await db.select({ id: invoices.id, patientId: invoices.patientId, totalDue: invoices.totalDue })
+            .from(invoices)
+            .where(eq(invoices.id, invoiceId))
+            .limit(1);
+        if (!invoice) return null;
+
+        const lines = await paymentAllocationService.getOpenBalanceUnits(invoice.patientId, db, invoiceId);
+        const balanceDue = lines.reduce((sum, line) => sum + line.remaining, 0);
+        return {
+            totalDue: invoice.totalDue,
+            amountPaid: toMoney(lines.reduce((sum, line) => sum + line.due - line.remaining, 0)),
+            balanceDue: toMoney(balanceDue),
+            lines: lines.map(({ invoiceItemId, description, due, remaining }) => ({ invoiceItemId, description, due, remaining })),
+        };
+    }
+
+    /**
+     * Edits an invoice. Amounts and lines can only change while no payment has been recorded against it
+     * and no HMO claim for it is past the draft stage. When the HMO has a contract in force,
+     * the covered and patient amounts are re-priced from it whenever lines or cover change.
+     */
+    async updateInvoice(invoiceId: number, updateData: InvoiceUpdateData) {
+        // Changing who covers the invoice changes what the patient owes, so it counts as an amount change.
+        const changesAmounts = updateData.items !== undefined || updateData.subtotal !== undefined
+            || updateData.coveredAmount !== undefined || updateData.totalDue !== undefined
+            || updateData.isHmoCovered !== undefined || updateData.hmoProviderId !== undefined || updateData.hmoName !== undefined;
+
+        const result = await db.transaction(async (tx): Promise<{ success: false; message: string } | { success: true; message: string }> => {
+            // The row lock holds off payments and claims against this invoice until the edit is done.
+            const [existing] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+            if (!existing) return { success: false, message: 'Invoice not found.' };
+            if (existing.status === 'void') return { success: false, message: 'A void invoice cannot be edited.' };
+            if (changesAmounts && await paymentAllocationService.invoiceHasPayments(invoiceId, tx)) {
+                return { success: false, message: 'Cannot change amounts on an invoice that already has payments.' };
+            }
+            if (changesAmounts && await hmoClaimService.invoiceHasActiveClaim(invoiceId, tx)) {
+                return { success: false, message: 'Cannot change amounts on an invoice that has been claimed from its HMO.' };
+            }
+
+            const headerUpdate: Partial<typeof invoices.$inferInsert> = { updatedAt: new Date() };
+            if (updateData.invoiceDate !== undefined) headerUpdate.invoiceDate = updateData.invoiceDate;
+            if (updateData.subtotal !== undefined) headerUpdate.subtotal = toMoney(updateData.subtotal);
+            if (updateData.isHmoCovered !== undefined) headerUpdate.isHmoCovered = updateData.isHmoCovered;
+            if (updateData.hmoName !== undefined) headerUpdate.hmoName = updateData.hmoName;
+            if (updateData.coveredAmount !== undefined) headerUpdate.coveredAmount = toMoney(updateData.coveredAmount);
+            if (updateData.totalDue !== undefined) headerUpdate.totalDue = toMoney(updateData.totalDue);
+            if (updateData.notes !== undefined) headerUpdate.notes = updateData.notes;
+
+            // Plan procedures billed on this invoice point at its lines, and the lines are about to be rebuilt.
+            const currentLines = changesAmounts
+                ? await tx.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId)).orderBy(asc(invoiceItems.id))
+                : [];
+            const billedProcedures = currentLines.length === 0 ? [] : await tx.select({ id: treatmentPlanProcedures.id, invoiceItemId: treatmentPlanProcedures.invoiceItemId })
+                .from(treatmentPlanProcedures)
+                .innerJoin(invoiceItems, eq(treatmentPlanProcedures.invoiceItemId, invoiceItems.id))
+                .where(eq(invoiceItems.invoiceId, invoiceId));
+            if (billedProcedures.length > 0 && updateData.items !== undefined) {
+                return { success: false, message: 'The lines of an invoice billed from a treatment plan cannot be edited. Void it and invoice the procedures again.' };
+            }
+
+            let lines: InvoiceItemInput[] = [];
+            let pricing: ContractPricing | null = null;
+            if (changesAmounts) {
+                lines = updateData.items ?? currentLines;
+                // A new HMO name without an id means a different HMO, so don't carry the old id over.
+                const hmoProviderId = updateData.hmoProviderId !== undefined ? updateData.hmoProviderId
+                    : updateData.hmoName !== undefined ? null : existing.hmoProviderId;
+                const hmo = await this.priceForHmo(
+                    {
+                        isHmoCovered: updateData.isHmoCovered ?? existing.isHmoCovered,
+                        hmoProviderId,
+                        hmoName: updateData.hmoName !== undefined ? updateData.hmoName : existing.hmoName,
+                    },
+                    existing.patientId,
+                    updateData.invoiceDate ?? existing.invoiceDate,
+                    lines,
+                    tx,
+                    invoiceId,
+                );
+                if (hmo.success === false) return { success: false, message: hmo.message };
+                pricing = hmo.pricing;
+                headerUpdate.hmoProviderId = hmo.provider?.id ?? null;
+                if (hmo.provider) headerUpdate.hmoName = hmo.provider.name;
+                headerUpdate.hmoContractId = pricing?.contractId ?? null;
+                if (pricing) {
+                    headerUpdate.subtotal = pricing.subtotal;
+                    headerUpdate.coveredAmount = pricing.coveredAmount;
+                    headerUpdate.totalDue = pricing.totalDue;
+                }
+            }
+
+            await tx.update(invoices).set(headerUpdate).where(eq(invoices.id, invoiceId));
+
+            if (changesAmounts) {
+                // Rebuild the lines so each line's patient share follows the new totals.
+                await tx.delete(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId));
+                if (pricing && pricing.lines.length > 0) {
+                    await tx.insert(invoiceItems).values(pricedItemRows(invoiceId, pricing.lines));
+                } else if (lines.length > 0) {
+                    await tx.insert(invoiceItems).values(toItemRows(invoiceId, lines, headerUpdate.totalDue ?? existing.totalDue));
+                }
+
+                // The lines were rebuilt in their old order, so each billed procedure moves to the line in its old position.
+                if (billedProcedures.length > 0) {
+                    const rebuilt = await tx.select({ id: invoiceItems.id }).from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId)).orderBy(asc(invoiceItems.id));
+                    for (const procedure of billedProcedures) {
+                        const position = currentLines.findIndex(line => line.id === procedure.invoiceItemId);
+                        await tx.update(treatmentPlanProcedures).set({ invoiceItemId: rebuilt[position].id, updatedAt: new Date() })
+                            .where(eq(treatmentPlanProcedures.id, procedure.id));
+                    }
+                }
+            }
+
+            await ledgerService.recalculateOutstanding(existing.patientId, tx);
+            return { success: true, message: 'Invoice updated successfully.' };
+        });
+        if (!result.success) return result;
+
+        return { success: true, message: result.message, invoice: await this.getInvoiceById(invoiceId) };
+    }
+
+    /**
+     * Voids an invoice instead of deleting it, so its number and history remain on file.
+     */
+    async voidInvoice(invoiceId: number) {
+        return await db.transaction(async (tx) => {
+            // As in updateInvoice, the row lock holds off payments and claims until the invoice is void.
+            const [existing] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+            if (!existing) return { success: false, message: 'Invoice not found.' };
+            if (existing.status === 'void') return { success: false, message: 'Invoice is already void.' };
+
+            if (await paymentAllocationService.invoiceHasPayments(invoiceId, tx)) return { success: false, message: 'Cannot void an invoice that has payments recorded against it.' };
+            if (await hmoClaimService.invoiceHasActiveClaim(invoiceId, tx)) return { success: false, message: 'Cannot void an invoice that has been claimed from its HMO; reject the claim first.' };
+
+            await tx.update(invoices).set({ status: 'void', updatedAt: new Date() }).where(eq(invoices.id, invoiceId));
+            await ledgerService.recalculateOutstanding(existing.patientId, tx);
+            return { success: true, message: 'Invoice voided successfully.' };
+        });
+    }
+
+    async markInvoiceSent(invoiceId: number) {
+        const [existing] = await db.select({ sentCount: invoices.sentCount }).from(invoices).where(eq(invoices.id, invoiceId)).limit(1);
+        if (!existing) return;
+        await db.update(invoices)
+            .set({ lastSentAt: new Date(), sentCount: existing.sentCount + 1 })
+            .where(eq(invoices.id, invoiceId));
+    }
+
+    /**
+     * Maps a stored invoice onto the payload shape `EmailService.sendInvoiceEmail` expects.
+     */
+    toEmailPayload(invoice: NonNullable<Awaited<ReturnType<InvoiceService['getInvoiceById']>>>, extras: { latestDentalRecord?: any } = {}) {
+        return {
+            patientId: invoice.patientId,
+            invoiceNumber: invoice.invoiceNumber,
+            invoiceDate: invoice.invoiceDate.toISOString().split('T')[0],
+            patientName: invoice.patient?.name,
+            subtotal: invoice.subtotal,
+            totalAmount: invoice.totalDue,
+            totalDueFromPatient: invoice.totalDue,
+            items: invoice.items.map(item => ({
+                description: item.description,
+                quantity: item.quantity,
+                unitPrice: item.unitPrice,
+                totalPrice: item.totalPrice,
+            })),
+            isHmoCovered: invoice.isHmoCovered,
+            hmoName: invoice.hmoName,
+            coveredAmount: invoice.coveredAmount,
+            notes: invoice.notes,
+            latestDentalRecord: extras.latestDentalRecord || null,
+        };
+    }
+}
+
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,188 @@
+// src/services/ledger.service.ts
+import { eq, and, asc, ne, sql, inArray } from 'drizzle-orm';
+import { db } from '../config/database';
+import { patients, invoices, payments, receipts, creditNotes, paymentAllocations } from '../../db/schema';
+
+// Either the shared connection or the handle of an open transaction.
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class LedgerService {
+
+    /**
+     * Recomputes a patient's outstanding balance from the ledger and caches the result on `patients.outstanding`:
+     * issued invoices, less what has been allocated to them (by anyone, e.g. a family head paying for a member),
+     * less the patient's own payments that are not allocated to any invoice yet.
+     * When every payment settles the payer's own invoices this is simply invoices minus payments.
+     * @param patientId The patient whose balance should be refreshed.
+     * @param executor Pass the open transaction when called from inside one.
+     * @returns The new outstanding balance as a fixed-point string.
+     */
+    async recalculateOutstanding(patientId: number, executor: DbExecutor = db): Promise<string> {
+        const [charges] = await executor
+            .select({ total: sql<string>`COALESCE(SUM(${invoices.totalDue}), 0)` })
+            .from(invoices)
+            .where(and(eq(invoices.patientId, patientId), eq(invoices.status, 'issued')));
+
+        const [settled] = await executor
+            .select({ total: sql<string>`COALESCE(SUM(${paymentAllocations.amount}), 0)` })
+            .from(paymentAllocations)
+            .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+            .innerJoin(invoices, eq(paymentAllocations.invoiceId, invoices.id))
+            .where(and(eq(invoices.patientId, patientId), eq(payments.status, 'completed')));
+
+        const [paid] = await executor
+            .select({ total: sql<string>`COALESCE(SUM(${payments.amount}), 0)` })
+            .from(payments)
+            .where(and(eq(payments.patientId, patientId), eq(payments.status, 'completed')));
+
+        const [allocatedFromPaid] = await executor
+            .select({ total: sql<string>`COALESCE(SUM(${paymentAllocations.amount}), 0)` })
+            .from(paymentAllocations)
+            .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+            .where(and(eq(payments.patientId, patientId), eq(payments.status, 'completed')));
+
+        const unallocatedCredit = parseFloat(paid?.total || '0') - parseFloat(allocatedFromPaid?.total || '0');
+        const outstanding = (parseFloat(charges?.total || '0') - parseFloat(settled?.total || '0') - unallocatedCredit).toFixed(2);
+
+        await executor.update(patients)
+            .set({ outstanding, updatedAt: new Date() })
+            .where(eq(patients.id, patientId));
+
+        return outstanding;
+    }
+
+    /**
+     * Refreshes the balance of every patient who owns one of the given invoices. Used after a payment
+     * has been allocated to, or reversed from, another household member's invoices.
+     */
+    async recalculateForInvoices(invoiceIds: number[], executor: DbExecutor = db) {
+        if (invoiceIds.length === 0) return;
+        const owners = await executor.selectDistinct({ patientId: invoices.patientId })
+            .from(invoices)
+            .where(inArray(invoices.id, [...new Set(invoiceIds)]));
+        for (const owner of owners) await this.recalculateOutstanding(owner.patientId, executor);
+    }
+
+    /**
+     * Builds a chronological statement of every invoice and payment for a patient, including payments
+     * a family member made towards the patient's invoices (and vice versa), with a running balance over
+     * the entries that are still in effect.
+     */
+    async getPatientLedger(patientId: number) {
+        const [patient] = await db.select({ id: patients.id, name: patients.name, outstanding: patients.outstanding })
+            .from(patients)
+            .where(eq(patients.id, patientId))
+            .limit(1);
+        if (!patient) return null;
+
+        const patientInvoices = await db.select()
+            .from(invoices)
+            .where(eq(invoices.patientId, patientId))
+            .orderBy(asc(invoices.invoiceDate));
+
+        const patientPayments = await db.select({
+                id: payments.id,
+                amount: payments.amount,
+                method: payments.method,
+                status: payments.status,
+                paidAt: payments.paidAt,
+                invoiceId: payments.invoiceId,
+                receiptId: payments.receiptId,
+                receiptNumber: receipts.receiptNumber,
+                creditNoteNumber: creditNotes.creditNoteNumber,
+            })
+            .from(payments)
+            .leftJoin(receipts, eq(payments.receiptId, receipts.id))
+            .leftJoin(creditNotes, eq(creditNotes.paymentId, payments.id))
+            .where(eq(payments.patientId, patientId))
+            .orderBy(asc(payments.paidAt));
+
+        // Money moving between household members: payments by someone else settling this patient's
+        // invoices, and this patient's payments settling someone else's. Netted per payment.
+        const transferFields = {
+            paymentId: payments.id,
+            paidAt: payments.paidAt,
+            status: payments.status,
+            receiptNumber: receipts.receiptNumber,
+            creditNoteNumber: creditNotes.creditNoteNumber,
+            total: sql<string>`SUM(${paymentAllocations.amount})`,
+        };
+        const transfersIn = await db.select({ ...transferFields, counterparty: sql<string>`MAX(${patients.name})` })
+            .from(paymentAllocations)
+            .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+            .innerJoin(invoices, eq(paymentAllocations.invoiceId, invoices.id))
+            .innerJoin(patients, eq(payments.patientId, patients.id))
+            .leftJoin(receipts, eq(payments.receiptId, receipts.id))
+            .leftJoin(creditNotes, eq(creditNotes.paymentId, payments.id))
+            .where(and(eq(invoices.patientId, patientId), ne(payments.patientId, patientId)))
+            .groupBy(payments.id, payments.paidAt, payments.status, receipts.receiptNumber, creditNotes.creditNoteNumber);
+        const transfersOut = await db.select({ ...transferFields, counterparty: sql<string>`GROUP_CONCAT(DISTINCT ${patients.name})` })
+            .from(paymentAllocations)
+            .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+            .innerJoin(invoices, eq(paymentAllocations.invoiceId, invoices.id))
+            .innerJoin(patients, eq(invoices.patientId, patients.id))
+            .leftJoin(receipts, eq(payments.receiptId, receipts.id))
+            .leftJoin(creditNotes, eq(creditNotes.paymentId, payments.id))
+            .where(and(eq(payments.patientId, patientId), ne(invoices.patientId, patientId)))
+            .groupBy(payments.id, payments.paidAt, payments.status, receipts.receiptNumber, creditNotes.creditNoteNumber);
+
+        const entries = [
+            ...patientInvoices.map(inv => ({
+                type: 'invoice' as const,
+                id: inv.id,
+                date: inv.invoiceDate,
+                reference: inv.invoiceNumber,
+                status: inv.status,
+                debit: parseFloat(inv.totalDue),
+                credit: 0,
+                inEffect: inv.status === 'issued',
+            })),
+            // Refunds are compensating payments with a negative amount, shown as a debit.
+            ...patientPayments.map(pay => ({
+                type: parseFloat(pay.amount) < 0 ? 'refund' as const : 'payment' as const,
+                id: pay.id,
+                date: pay.paidAt,
+                reference: pay.creditNoteNumber || pay.receiptNumber || `PAYMENT-${pay.id}`,
+                status: pay.status,
+                debit: Math.max(-parseFloat(pay.amount), 0),
+                credit: Math.max(parseFloat(pay.amount), 0),
+                inEffect: pay.status === 'completed',
+            })),
+            ...transfersIn.map(transfer => ({
+                type: 'paid_by_family' as const,
+                id: transfer.paymentId,
+                date: transfer.paidAt,
+                reference: `${transfer.creditNoteNumber || transfer.receiptNumber || `PAYMENT-${transfer.paymentId}`} (${transfer.counterparty})`,
+                status: transfer.status,
+                debit: Math.max(-parseFloat(transfer.total), 0),
+                credit: Math.max(parseFloat(transfer.total), 0),
+                inEffect: transfer.status === 'completed',
+            })),
+            ...transfersOut.map(transfer => ({
+                type: 'applied_to_family' as const,
+                id: transfer.paymentId,
+                date: transfer.paidAt,
+                reference: `${transfer.creditNoteNumber || transfer.receiptNumber || `PAYMENT-${transfer.paymentId}`} (${transfer.counterparty})`,
+                status: transfer.status,
+                debit: Math.max(parseFloat(transfer.total), 0),
+                credit: Math.max(-parseFloat(transfer.total), 0),
+                inEffect: transfer.status === 'completed',
+            })),
+        ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+        let runningBalance = 0;
+        const statement = entries.map(({ inEffect, ...entry }) => {
+            if (inEffect) runningBalance += entry.debit - entry.credit;
+            return { ...entry, balance: runningBalance.toFixed(2) };
+        });
+
+        return {
+            patientId: patient.id,
+            patientName: patient.name,
+            outstanding: patient.outstanding,
+            entries: statement,
+        };
+    }
+}
+
+export const ledgerService = new LedgerService();
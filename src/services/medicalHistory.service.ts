@@ -0,0 +1,277 @@
+// src/services/medicalHistory.service.ts
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { db } from '../config/database';
+import { patients, patientMedicalHistories, patientAllergies, patientMedications, dentalRecords } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+
+export const MEDICAL_CONDITIONS = [
+    'sickle_cell', 'hypertension', 'asthma', 'diabetes', 'epilepsy', 'peptic_ulcer',
+    'blood_disorder', 'allergy_reported', 'hiv', 'hepatitis',
+] as const;
+export type MedicalCondition = typeof MEDICAL_CONDITIONS[number];
+
+export const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe'] as const;
+export type AllergySeverity = typeof ALLERGY_SEVERITIES[number];
+
+type DentalRecordInsert = typeof dentalRecords.$inferInsert;
+
+// The per-record medical flags and the patient-level condition each one stands for.
+const RECORD_FLAG_CONDITIONS = {
+    medicationS: 'sickle_cell',
+    medicationH: 'hypertension',
+    medicationA: 'asthma',
+    medicationD: 'diabetes',
+    medicationE: 'epilepsy',
+    medicationPUD: 'peptic_ulcer',
+    medicationBloodDisorder: 'blood_disorder',
+    medicationAllergy: 'allergy_reported',
+    medicationHIV: 'hiv',
+    medicationHepatitis: 'hepatitis',
+} as const satisfies Record<string, MedicalCondition>;
+type RecordFlag = keyof typeof RECORD_FLAG_CONDITIONS;
+
+const CONDITION_LABELS: Record<MedicalCondition, string> = {
+    sickle_cell: 'Sickle cell',
+    hypertension: 'Hypertension',
+    asthma: 'Asthma',
+    diabetes: 'Diabetes',
+    epilepsy: 'Epilepsy',
+    peptic_ulcer: 'Peptic ulcer disease',
+    blood_disorder: 'Blood disorder',
+    allergy_reported: 'Allergy reported',
+    hiv: 'HIV',
+    hepatitis: 'Hepatitis',
+};
+
+export interface MedicalAlert {
+    type: 'allergy' | 'condition' | 'medication';
+    label: string;
+    detail: string | null;
+}
+
+export interface AllergyInput {
+    allergen?: string;
+    reaction?: string | null;
+    severity?: AllergySeverity;
+    notes?: string | null;
+    isActive?: boolean;
+}
+
+export interface MedicationInput {
+    name?: string;
+    dosage?: string | null;
+    frequency?: string | null;
+    isCritical?: boolean;
+    isActive?: boolean;
+    notes?: string | null;
+}
+
+export const isMedicalCondition = (value: unknown): value is MedicalCondition =>
+    typeof value === 'string' && (MEDICAL_CONDITIONS as readonly string[]).includes(value);
+
+// The JSON column may hold anything written before validation existed; keep only known keys, once each.
+const toConditions = (value: unknown): MedicalCondition[] =>
+    Array.isArray(value) ? [...new Set(value.filter(isMedicalCondition))] : [];
+
+export class MedicalHistoryService {
+
+    private async patientExists(patientId: number, executor: DbExecutor = db) {
+        const [patient] = await executor.select({ id: patients.id }).from(patients).where(eq(patients.id, patientId)).limit(1);
+        return !!patient;
+    }
+
+    // Creates the history row on first write; there is at most one per patient.
+    private async saveHistory(patientId: number, values: { conditions?: MedicalCondition[]; otherConditions?: string | null; notes?: string | null }, updatedBy: number | null, executor: DbExecutor) {
+        const [existing] = await executor.select({ id: patientMedicalHistories.id }).from(patientMedicalHistories)
+            .where(eq(patientMedicalHistories.patientId, patientId)).for('update');
+        if (existing) {
+            await executor.update(patientMedicalHistories).set({ ...values, updatedBy, updatedAt: new Date() })
+                .where(eq(patientMedicalHistories.id, existing.id));
+        } else {
+            await executor.insert(patientMedicalHistories).values({ patientId, conditions: [], ...values, updatedBy });
+        }
+    }
+
+    /**
+     * The patient's standing medical history, allergies and medications (active first),
+     * with the alerts derived from them. Null when the patient does not exist.
+     */
+    async getMedicalHistory(patientId: number) {
+        if (!(await this.patientExists(patientId))) return null;
+        const [history] = await db.select().from(patientMedicalHistories).where(eq(patientMedicalHistories.patientId, patientId)).limit(1);
+        const allergies = await db.select().from(patientAllergies).where(eq(patientAllergies.patientId, patientId))
+            .orderBy(desc(patientAllergies.isActive), desc(patientAllergies.createdAt));
+        const medications = await db.select().from(patientMedications).where(eq(patientMedications.patientId, patientId))
+            .orderBy(desc(patientMedications.isActive), desc(patientMedications.createdAt));
+        const alerts = await this.getAlerts([patientId]);
+        return {
+            patientId,
+            conditions: toConditions(history?.conditions),
+            otherConditions: history?.otherConditions ?? null,
+            notes: history?.notes ?? null,
+            updatedBy: history?.updatedBy ?? null,
+            updatedAt: history?.updatedAt ?? null,
+            allergies,
+            medications,
+            alerts: alerts.get(patientId) ?? [],
+        };
+    }
+
+    /**
+     * Replaces the given parts of the history. Conditions are replaced as a whole, so this is
+     * also how a condition recorded in error is cleared; dental records never clear one.
+     */
+    async updateMedicalHistory(patientId: number, values: { conditions?: MedicalCondition[]; otherConditions?: string | null; notes?: string | null }, updatedBy: number) {
+        if (!(await this.patientExists(patientId))) return { success: false, message: 'Patient not found.' };
+        const update = {
+            ...(values.conditions !== undefined ? { conditions: [...new Set(values.conditions)] } : {}),
+            ...(values.otherConditions !== undefined ? { otherConditions: values.otherConditions } : {}),
+            ...(values.notes !== undefined ? { notes: values.notes } : {}),
+        };
+        await db.transaction(async (tx) => this.saveHistory(patientId, update, updatedBy, tx));
+        return { success: true, message: 'Medical history updated.', history: await this.getMedicalHistory(patientId) };
+    }
+
+    async addAllergy(patientId: number, input: AllergyInput & { allergen: string }, recordedBy: number) {
+        if (!(await this.patientExists(patientId))) return { success: false, message: 'Patient not found.' };
+        const [inserted] = await db.insert(patientAllergies).values({
+            patientId,
+            allergen: input.allergen,
+            reaction: input.reaction ?? null,
+            severity: input.severity ?? 'moderate',
+            notes: input.notes ?? null,
+            recordedBy,
+        });
+        const [allergy] = await db.select().from(patientAllergies).where(eq(patientAllergies.id, inserted.insertId)).limit(1);
+        return { success: true, message: 'Allergy recorded.', allergy };
+    }
+
+    // Allergies are deactivated rather than deleted, so the chart still shows what was once reported.
+    async updateAllergy(patientId: number, allergyId: number, input: AllergyInput) {
+        const where = and(eq(patientAllergies.id, allergyId), eq(patientAllergies.patientId, patientId));
+        const [existing] = await db.select({ id: patientAllergies.id }).from(patientAllergies).where(where).limit(1);
+        if (!existing) return { success: false, message: 'Allergy not found.' };
+        await db.update(patientAllergies).set({ ...input, updatedAt: new Date() }).where(where);
+        const [allergy] = await db.select().from(patientAllergies).where(where).limit(1);
+        return { success: true, message: 'Allergy updated.', allergy };
+    }
+
+    async addMedication(patientId: number, input: MedicationInput & { name: string }, recordedBy: number) {
+        if (!(await this.patientExists(patientId))) return { success: false, message: 'Patient not found.' };
+        const [inserted] = await db.insert(patientMedications).values({
+            patientId,
+            name: input.name,
+            dosage: input.dosage ?? null,
+            frequency: input.frequency ?? null,
+            isCritical: input.isCritical ?? false,
+            notes: input.notes ?? null,
+            recordedBy,
+        });
+        const [medication] = await db.select().from(patientMedications).where(eq(patientMedications.id, inserted.insertId)).limit(1);
+        return { success: true, message: 'Medication recorded.', medication };
+    }
+
+    async updateMedication(patientId: number, medicationId: number, input: MedicationInput) {
+        const where = and(eq(patientMedications.id, medicationId), eq(patientMedications.patientId, patientId));
+        const [existing] = await db.select({ id: patientMedications.id }).from(patientMedications).where(where).limit(1);
+        if (!existing) return { success: false, message: 'Medication not found.' };
+        await db.update(patientMedications).set({ ...input, updatedAt: new Date() }).where(where);
+        const [medication] = await db.select().from(patientMedications).where(where).limit(1);
+        return { success: true, message: 'Medication updated.', medication };
+    }
+
+    /**
+     * Adds the conditions a dental record flags to the patient's history. Flags set to false are
+     * ignored: a record never clears the history, only `updateMedicalHistory` does.
+     */
+    async recordReportedConditions(patientId: number, recordData: Partial<DentalRecordInsert>, authorId: number | null, executor: DbExecutor) {
+        const [history] = await executor.select().from(patientMedicalHistories)
+            .where(eq(patientMedicalHistories.patientId, patientId)).for('update');
+        const known = toConditions(history?.conditions);
+        const reported = (Object.entries(RECORD_FLAG_CONDITIONS) as [RecordFlag, MedicalCondition][])
+            .filter(([flag, condition]) => recordData[flag] && !known.includes(condition))
+            .map(([, condition]) => condition);
+        if (reported.length > 0) await this.saveHistory(patientId, { conditions: [...known, ...reported] }, authorId, executor);
+        return [...known, ...reported];
+    }
+
+    /**
+     * Carries the patient-level history into a new dental record and back. Flags the record leaves
+     * unset are prefilled from the history (an active allergy sets the allergy flag); flags the record
+     * sets are added to the history.
+     */
+    async carryForward(patientId: number, recordData: Partial<DentalRecordInsert>, authorId: number | null, executor: DbExecutor) {
+        const known = new Set(await this.recordReportedConditions(patientId, recordData, authorId, executor));
+        const [activeAllergy] = await executor.select({ id: patientAllergies.id }).from(patientAllergies)
+            .where(and(eq(patientAllergies.patientId, patientId), eq(patientAllergies.isActive, true))).limit(1);
+        if (activeAllergy) known.add('allergy_reported');
+
+        const flags: Partial<Record<RecordFlag, boolean>> = {};
+        for (const [flag, condition] of Object.entries(RECORD_FLAG_CONDITIONS) as [RecordFlag, MedicalCondition][]) {
+            if ((recordData[flag] === undefined || recordData[flag] === null) && known.has(condition)) flags[flag] = true;
+        }
+        return { ...recordData, ...flags };
+    }
+
+    /**
+     * Alerts for the given patients, keyed by patient id: active allergies, recorded conditions and
+     * critical active medications. Patients with nothing to flag are absent from the map.
+     */
+    async getAlerts(patientIds: number[]) {
+        const byPatient = new Map<number, MedicalAlert[]>();
+        if (patientIds.length === 0) return byPatient;
+        const add = (patientId: number, alert: MedicalAlert) => byPatient.set(patientId, [...(byPatient.get(patientId) ?? []), alert]);
+
+        const allergies = await db.select().from(patientAllergies)
+            .where(and(inArray(patientAllergies.patientId, patientIds), eq(patientAllergies.isActive, true)))
+            .orderBy(desc(patientAllergies.createdAt));
+        const histories = await db.select().from(patientMedicalHistories).where(inArray(patientMedicalHistories.patientId, patientIds));
+        const medications = await db.select().from(patientMedications)
+            .where(and(inArray(patientMedications.patientId, patientIds), eq(patientMedications.isActive, true), eq(patientMedications.isCritical, true)));
+
+        for (const allergy of allergies) {
+            const detail = [allergy.severity, allergy.reaction].filter(Boolean).join(': ');
+            add(allergy.patientId, { type: 'allergy', label: `Allergy: ${allergy.allergen}`, detail: detail || null });
+        }
+        for (const history of histories) {
+            const hasNamedAllergy = allergies.some(allergy => allergy.patientId === history.patientId);
+            for (const condition of toConditions(history.conditions)) {
+                // A named allergy says more than the generic flag.
+                if (condition === 'allergy_reported' && hasNamedAllergy) continue;
+                add(history.patientId, { type: 'condition', label: CONDITION_LABELS[condition], detail: null });
+            }
+            if (history.otherConditions) add(history.patientId, { type: 'condition', label: 'Other conditions', detail: history.otherConditions });
+        }
+        for (const medication of medications) {
+            const detail = [medication.dosage, medication.frequency].filter(Boolean).join(', ');
+            add(medication.patientId, { type: 'medication', label: medication.name, detail: detail || null });
+        }
+        return byPatient;
+    }
+
+    /**
+     * Folds a duplicate's history into the survivor's during a patient merge: conditions are combined
+     * and the survivor's notes win where both have them. Allergies and medications move with the
+     * other patient-owned rows.
+     */
+    async mergeHistories(survivorId: number, duplicateId: number, executor: DbExecutor) {
+        const rows = await executor.select().from(patientMedicalHistories)
+            .where(inArray(patientMedicalHistories.patientId, [survivorId, duplicateId])).for('update');
+        const duplicate = rows.find(row => row.patientId === duplicateId);
+        if (!duplicate) return;
+        const survivor = rows.find(row => row.patientId === survivorId);
+        if (!survivor) {
+            await executor.update(patientMedicalHistories).set({ patientId: survivorId }).where(eq(patientMedicalHistories.id, duplicate.id));
+            return;
+        }
+        await executor.update(patientMedicalHistories).set({
+            conditions: [...new Set([...toConditions(survivor.conditions), ...toConditions(duplicate.conditions)])],
+            otherConditions: survivor.otherConditions || duplicate.otherConditions,
+            notes: survivor.notes || duplicate.notes,
+            updatedAt: new Date(),
+        }).where(eq(patientMedicalHistories.id, survivor.id));
+        await executor.delete(patientMedicalHistories).where(eq(patientMedicalHistories.id, duplicate.id));
+    }
+}
+
+export const medicalHistoryService = new MedicalHistoryService();
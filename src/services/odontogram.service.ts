@@ -0,0 +1,259 @@
+// src/services/odontogram.service.ts
+import { and, asc, eq, inArray, isNull, notExists, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { dentalRecords, toothConditions, patients } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+
+export type ToothSurface = 'mesial' | 'distal' | 'occlusal' | 'incisal' | 'buccal' | 'lingual';
+export type ToothCondition = 'sound' | 'caries' | 'filled' | 'fractured' | 'missing' | 'crown' | 'root_canal' | 'implant';
+
+export const TOOTH_SURFACES: ToothSurface[] = ['mesial', 'distal', 'occlusal', 'incisal', 'buccal', 'lingual'];
+export const TOOTH_CONDITIONS: ToothCondition[] = ['sound', 'caries', 'filled', 'fractured', 'missing', 'crown', 'root_canal', 'implant'];
+
+// Conditions of the tooth as a whole; they are never charted against a single surface.
+const WHOLE_TOOTH_CONDITIONS: ToothCondition[] = ['sound', 'missing', 'crown', 'root_canal', 'implant'];
+
+// Clinicians usually chart surfaces by their initials (MODBL); "palatal" is the upper-arch name for lingual.
+const SURFACE_ALIASES: Record<string, ToothSurface> = {
+    m: 'mesial', d: 'distal', o: 'occlusal', i: 'incisal', b: 'buccal', l: 'lingual', p: 'lingual',
+    f: 'buccal', labial: 'buccal', facial: 'buccal', palatal: 'lingual',
+};
+
+/** One charted finding, as clients send it: a tooth, optionally some of its surfaces, and what was found. */
+export interface ToothChartEntry {
+    tooth: number;
+    surfaces?: ToothSurface[];
+    condition: ToothCondition;
+    notes?: string | null;
+}
+
+/** State of one tooth in the patient's current chart. */
+export interface ChartedTooth {
+    tooth: number;
+    conditions: { condition: ToothCondition; surfaces: ToothSurface[]; notes: string | null }[];
+    dentalRecordId: number;
+    chartedAt: Date;
+}
+
+/**
+ * True for a valid FDI two-digit tooth number: quadrants 1-4 hold teeth 1-8 (permanent),
+ * quadrants 5-8 hold teeth 1-5 (primary).
+ */
+export const isFdiTooth = (tooth: number) => {
+    if (!Number.isInteger(tooth)) return false;
+    const quadrant = Math.floor(tooth / 10);
+    const position = tooth % 10;
+    if (quadrant >= 1 && quadrant <= 4) return position >= 1 && position <= 8;
+    if (quadrant >= 5 && quadrant <= 8) return position >= 1 && position <= 5;
+    return false;
+};
+
+// Legacy columns, filled from the chart so clients that still read them see FDI numbers.
+const LEGACY_COLUMNS: Partial<Record<ToothCondition, 'cariousCavity' | 'filledTeeth' | 'missingTeeth' | 'fracturedTeeth'>> = {
+    caries: 'cariousCavity', filled: 'filledTeeth', missing: 'missingTeeth', fractured: 'fracturedTeeth',
+};
+
+// Best-effort read of a legacy JSON column: arrays or delimited strings of tooth numbers.
+const legacyTeeth = (value: unknown): number[] => {
+    const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[\s,;]+/) : [];
+    return [...new Set(items.map(item => parseInt(String(item), 10)).filter(isFdiTooth))];
+};
+
+// Accepts ['mesial', 'O'], "M, O" or the compact "MOD" notation.
+const splitSurfaces = (value: unknown): string[] => {
+    if (value === undefined || value === null || value === '') return [];
+    if (Array.isArray(value)) return value.map(String);
+    const text = String(value).trim();
+    if (/[\s,]/.test(text)) return text.split(/[\s,]+/).filter(Boolean);
+    const key = text.toLowerCase();
+    if (TOOTH_SURFACES.includes(key as ToothSurface) || key in SURFACE_ALIASES) return [text];
+    return text.split('');
+};
+
+export class OdontogramService {
+
+    /**
+     * Validates a `toothChart` payload and normalises surface initials (e.g. "MO") to names.
+     * A tooth may appear more than once, once per condition.
+     */
+    parseToothChart(input: unknown): { success: true; entries: ToothChartEntry[] } | { success: false; message: string } {
+        if (!Array.isArray(input)) return { success: false, message: 'toothChart must be an array of { tooth, surfaces, condition } entries.' };
+
+        const entries: ToothChartEntry[] = [];
+        for (const raw of input) {
+            const tooth = Number(raw?.tooth);
+            if (!isFdiTooth(tooth)) return { success: false, message: `${raw?.tooth} is not a valid FDI tooth number.` };
+            const condition = raw.condition as ToothCondition;
+            if (!TOOTH_CONDITIONS.includes(condition)) {
+                return { success: false, message: `Condition on tooth ${tooth} must be one of: ${TOOTH_CONDITIONS.join(', ')}.` };
+            }
+
+            const surfaces: ToothSurface[] = [];
+            for (const value of splitSurfaces(raw.surfaces)) {
+                const key = value.toLowerCase();
+                const surface = TOOTH_SURFACES.includes(key as ToothSurface) ? key as ToothSurface : SURFACE_ALIASES[key];
+                if (!surface) return { success: false, message: `${value} is not a valid surface on tooth ${tooth}.` };
+                if (!surfaces.includes(surface)) surfaces.push(surface);
+            }
+            if (surfaces.length > 0 && WHOLE_TOOTH_CONDITIONS.includes(condition)) {
+                return { success: false, message: `'${condition}' applies to the whole of tooth ${tooth}, not to surfaces.` };
+            }
+            // Front teeth (positions 1-3) bite with an incisal edge; back teeth with an occlusal surface.
+            const isAnterior = tooth % 10 <= 3;
+            if (surfaces.includes(isAnterior ? 'occlusal' : 'incisal')) {
+                return { success: false, message: `Tooth ${tooth} has ${isAnterior ? 'an incisal edge, not an occlusal' : 'an occlusal surface, not an incisal'} surface.` };
+            }
+            entries.push({ tooth, surfaces, condition, notes: raw.notes ? String(raw.notes).slice(0, 255) : null });
+        }
+
+        const byTooth = new Map<number, ToothChartEntry[]>();
+        entries.forEach(entry => byTooth.set(entry.tooth, [...(byTooth.get(entry.tooth) ?? []), entry]));
+        for (const [tooth, toothEntries] of byTooth) {
+            const exclusive = toothEntries.find(entry => entry.condition === 'missing' || entry.condition === 'sound');
+            if (exclusive && toothEntries.length > 1) {
+                return { success: false, message: `Tooth ${tooth} is charted as ${exclusive.condition} and cannot carry other conditions in the same record.` };
+            }
+        }
+        return { success: true, entries };
+    }
+
+    /**
+     * Replaces the chart stored against a dental record and mirrors it into the legacy
+     * `cariousCavity`/`filledTeeth`/`missingTeeth`/`fracturedTeeth` columns, updating `teethPresent` to match.
+     */
+    async saveRecordChart(recordId: number, patientId: number, entries: ToothChartEntry[], executor: DbExecutor = db) {
+        await executor.delete(toothConditions).where(eq(toothConditions.dentalRecordId, recordId));
+        const rows = entries.flatMap(entry => (entry.surfaces && entry.surfaces.length > 0 ? entry.surfaces : [null]).map(surface => ({
+            dentalRecordId: recordId,
+            patientId,
+            tooth: entry.tooth,
+            surface,
+            condition: entry.condition,
+            notes: entry.notes || null,
+        })));
+        if (rows.length > 0) await executor.insert(toothConditions).values(rows);
+
+        const teethWith = (condition: ToothCondition) => [...new Set(entries.filter(e => e.condition === condition).map(e => e.tooth))].sort((a, b) => a - b);
+        const legacy: Record<string, number[]> = {};
+        for (const [condition, column] of Object.entries(LEGACY_COLUMNS)) legacy[column!] = teethWith(condition as ToothCondition);
+
+        // A chart only mentions the teeth that were examined, so teeth present but left unmarked stay
+        // in `teethPresent`; charted teeth are added to it, and teeth charted missing are taken out.
+        if (entries.length > 0) {
+            const [record] = await executor.select({ teethPresent: dentalRecords.teethPresent }).from(dentalRecords).where(eq(dentalRecords.id, recordId)).limit(1);
+            const missing = new Set(legacy.missingTeeth);
+            const present = new Set([...legacyTeeth(record?.teethPresent), ...entries.map(e => e.tooth)]);
+            legacy.teethPresent = [...present].filter(tooth => !missing.has(tooth)).sort((a, b) => a - b);
+        }
+        await executor.update(dentalRecords).set(legacy).where(eq(dentalRecords.id, recordId));
+    }
+
+    async getRecordChart(recordId: number, executor: DbExecutor = db): Promise<ToothChartEntry[]> {
+        const rows = await executor.select().from(toothConditions)
+            .where(eq(toothConditions.dentalRecordId, recordId))
+            .orderBy(asc(toothConditions.tooth), asc(toothConditions.id));
+        return this.groupRows(rows).map(({ tooth, surfaces, condition, notes }) => ({ tooth, surfaces, condition, notes }));
+    }
+
+    // Collapses per-surface rows back into one entry per tooth and condition.
+    private groupRows(rows: (typeof toothConditions.$inferSelect)[]) {
+        const grouped = new Map<string, { tooth: number; condition: ToothCondition; surfaces: ToothSurface[]; notes: string | null }>();
+        for (const row of rows) {
+            const key = `${row.tooth}:${row.condition}`;
+            const entry = grouped.get(key) ?? { tooth: row.tooth, condition: row.condition, surfaces: [], notes: row.notes };
+            if (row.surface && !entry.surfaces.includes(row.surface)) entry.surfaces.push(row.surface);
+            grouped.set(key, entry);
+        }
+        return [...grouped.values()];
+    }
+
+    /**
+     * The patient's chart as it stands today, folded over all their records oldest first.
+     * A record that charts a tooth replaces everything earlier records said about that tooth;
+     * teeth it does not mention keep their previous state. Records written before structured
+     * charting only contribute what can be read from their legacy tooth-number columns.
+     */
+    async getCurrentChart(patientId: number): Promise<ChartedTooth[]> {
+        return (await this.getCurrentCharts([patientId])).get(patientId) ?? [];
+    }
+
+    // getCurrentChart for several patients at once, keyed by patient id.
+    private async getCurrentCharts(patientIds: number[]): Promise<Map<number, ChartedTooth[]>> {
+        const charts = new Map<number, ChartedTooth[]>();
+        if (patientIds.length === 0) return charts;
+        const records = await db.select({
+                id: dentalRecords.id,
+                patientId: dentalRecords.patientId,
+                createdAt: dentalRecords.createdAt,
+                cariousCavity: dentalRecords.cariousCavity,
+                filledTeeth: dentalRecords.filledTeeth,
+                missingTeeth: dentalRecords.missingTeeth,
+                fracturedTeeth: dentalRecords.fracturedTeeth,
+            })
+            .from(dentalRecords)
+            .where(and(inArray(dentalRecords.patientId, patientIds), isNull(dentalRecords.deletedAt)))
+            .orderBy(asc(dentalRecords.createdAt), asc(dentalRecords.id));
+        if (records.length === 0) return charts;
+
+        const rows = await db.select().from(toothConditions)
+            .where(inArray(toothConditions.dentalRecordId, records.map(record => record.id)))
+            .orderBy(asc(toothConditions.id));
+
+        const byPatient = new Map<number, Map<number, ChartedTooth>>();
+        for (const record of records) {
+            const recordRows = rows.filter(row => row.dentalRecordId === record.id);
+            const findings = recordRows.length > 0
+                ? this.groupRows(recordRows)
+                : Object.entries(LEGACY_COLUMNS).flatMap(([condition, column]) =>
+                    legacyTeeth(record[column!]).map(tooth => ({ tooth, condition: condition as ToothCondition, surfaces: [] as ToothSurface[], notes: null })));
+
+            const chartedNow = new Map<number, ChartedTooth>();
+            for (const { tooth, ...finding } of findings) {
+                const charted = chartedNow.get(tooth) ?? { tooth, conditions: [], dentalRecordId: record.id, chartedAt: record.createdAt };
+                charted.conditions.push(finding);
+                chartedNow.set(tooth, charted);
+            }
+            const chart = byPatient.get(record.patientId) ?? new Map<number, ChartedTooth>();
+            chartedNow.forEach((charted, tooth) => chart.set(tooth, charted));
+            byPatient.set(record.patientId, chart);
+        }
+
+        byPatient.forEach((chart, patientId) => charts.set(patientId, [...chart.values()].sort((a, b) => a.tooth - b.tooth)));
+        return charts;
+    }
+
+    /**
+     * Patients whose most recent charting of `tooth` records `condition`, e.g. caries on 36.
+     * "Most recent" is decided by getCurrentChart, so legacy-only records count here as they do there.
+     */
+    async findPatientsWithCondition(tooth: number, condition: ToothCondition, surface?: ToothSurface) {
+        // Anyone who has the condition now had it charted at some point, either as a structured row
+        // or in a legacy column. The legacy match is a loose text match; the chart settles it.
+        const structured = await db.selectDistinct({ patientId: toothConditions.patientId })
+            .from(toothConditions)
+            .innerJoin(dentalRecords, eq(dentalRecords.id, toothConditions.dentalRecordId))
+            .where(and(eq(toothConditions.tooth, tooth), eq(toothConditions.condition, condition), isNull(dentalRecords.deletedAt)));
+        const legacyColumn = LEGACY_COLUMNS[condition];
+        const legacy = legacyColumn && !surface
+            ? await db.selectDistinct({ patientId: dentalRecords.patientId })
+                .from(dentalRecords)
+                .where(and(
+                    isNull(dentalRecords.deletedAt),
+                    sql`cast(${dentalRecords[legacyColumn]} as char) like ${`%${tooth}%`}`,
+                    notExists(db.select({ id: toothConditions.id }).from(toothConditions).where(eq(toothConditions.dentalRecordId, dentalRecords.id))),
+                ))
+            : [];
+        const candidateIds = [...new Set([...structured, ...legacy].map(row => row.patientId))];
+        if (candidateIds.length === 0) return [];
+
+        const charts = await this.getCurrentCharts(candidateIds);
+        const names = await db.select({ id: patients.id, name: patients.name }).from(patients).where(inArray(patients.id, candidateIds));
+        return names.flatMap(({ id, name }) => {
+            const charted = charts.get(id)?.find(entry => entry.tooth === tooth);
+            const matches = charted?.conditions.some(finding => finding.condition === condition && (!surface || finding.surfaces.includes(surface)));
+            return charted && matches ? [{ patientId: id, patientName: name, dentalRecordId: charted.dentalRecordId, chartedAt: charted.chartedAt }] : [];
+        }).sort((a, b) => b.chartedAt.getTime() - a.chartedAt.getTime());
+    }
+}
+
+export const odontogramService = new OdontogramService();
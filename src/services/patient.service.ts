@@ -1,9 +1,17 @@
-import { SQL, eq, ne, and, desc, isNull, isNotNull, gte, sql, or, like, inArray, asc } from 'drizzle-orm';
+import { SQL, eq, ne, and, desc, isNull, gte, sql, or, like, inArray } from 'drizzle-orm';
 import { db } from '../config/database';
 import { patients, dentalRecords, users, dailyVisits } from '../../db/schema';
 import { InferInsertModel, InferSelectModel } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/mysql-core';
 import { googleSheetsService } from './googleSheets.service';
 import { emailService } from './email.service';
+import { paymentAllocationService } from './paymentAllocation.service';
+import { odontogramService, ToothChartEntry } from './odontogram.service';
+import { dentalRecordHistoryService, diffFields } from './dentalRecordHistory.service';
+import { dentalRecordSignOffService, LOCKED_RECORD_MESSAGE } from './dentalRecordSignOff.service';
+import { medicalHistoryService } from './medicalHistory.service';
+import { appointmentService, DEFAULT_APPOINTMENT_MINUTES } from './appointment.service';
+import { availabilityService, toDateKey } from './availability.service';
 // todo : break this service file up, it is currently too clusteredd
 // --- TYPE DEFINITIONS ---
 
@@ -11,6 +19,12 @@ type PatientInsert = InferInsertModel<typeof patients>;
 type PatientSelect = InferSelectModel<typeof patients>;
 type DentalRecordInsert = InferInsertModel<typeof dentalRecords>;
 
+// Doctor who signed a record off, joined separately from the record's assigned doctor.
+const signers = alias(users, 'signers');
+
+// How far past the target date scheduleNextAppointment looks for a free slot with the doctor.
+const NEXT_APPOINTMENT_SEARCH_DAYS = 14;
+
 interface AuthenticatedUser {
     userId: number;
     role: string;
@@ -75,8 +89,57 @@ export class PatientService {
           .from(patients)
           .where(sql`${patients.outstanding} > 0`)
           .orderBy(desc(patients.outstanding));
-      
-      return debtors;
+
+      // Age each debt by its invoice date so collections can chase the oldest balances first.
+      const ageingByPatient = await paymentAllocationService.getAgeingByPatient(debtors.map(d => d.id));
+      return debtors.map(debtor => ({
+          ...debtor,
+          ageing: ageingByPatient.get(debtor.id)?.ageing,
+          unallocatedCredit: ageingByPatient.get(debtor.id)?.unallocatedCredit ?? 0,
+      }));
+  }
+
+  // Debtors grouped by household, owed by the family head as guarantor.
+  // A member's credit offsets the rest of the family, so only households still owing overall are listed.
+  async getFamilyDebtors() {
+      const withBalance = await db.select().from(patients).where(sql`${patients.outstanding} <> 0`);
+      const households = new Map<number, PatientSelect[]>();
+      for (const patient of withBalance) {
+          const headId = patient.familyId ?? patient.id;
+          households.set(headId, [...(households.get(headId) ?? []), patient]);
+      }
+
+      const owing = [...households.entries()]
+          .map(([headId, members]) => ({ headId, members, total: members.reduce((sum, m) => sum + parseFloat(m.outstanding), 0) }))
+          .filter(household => household.total > 0);
+      if (owing.length === 0) return [];
+
+      const heads = await db.select({ id: patients.id, name: patients.name, phoneNumber: patients.phoneNumber, email: patients.email })
+          .from(patients)
+          .where(inArray(patients.id, owing.map(household => household.headId)));
+      const debtorIds = owing.flatMap(household => household.members.filter(m => parseFloat(m.outstanding) > 0).map(m => m.id));
+      const ageingByPatient = await paymentAllocationService.getAgeingByPatient(debtorIds);
+
+      return owing
+          .map(({ headId, members, total }) => {
+              const ageing = { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+              for (const member of members) {
+                  const memberAgeing = ageingByPatient.get(member.id)?.ageing;
+                  if (!memberAgeing) continue;
+                  for (const bucket of Object.keys(ageing) as (keyof typeof ageing)[]) {
+                      ageing[bucket] = Math.round((ageing[bucket] + memberAgeing[bucket]) * 100) / 100;
+                  }
+              }
+              return {
+                  familyHead: heads.find(head => head.id === headId) ?? null,
+                  familyOutstanding: total.toFixed(2),
+                  ageing,
+                  members: members
+                      .sort((a, b) => parseFloat(b.outstanding) - parseFloat(a.outstanding))
+                      .map(member => ({ id: member.id, name: member.name, isFamilyHead: member.id === headId, outstanding: member.outstanding })),
+              };
+          })
+          .sort((a, b) => parseFloat(b.familyOutstanding) - parseFloat(a.familyOutstanding));
   }
 
   async addGuestPatient(patientData: NewFamilyHeadData, sendReceipt: boolean = true): Promise<PatientSelect> {
@@ -135,8 +198,10 @@ export class PatientService {
         if (!patient) throw new Error('Patient with this phone number or email not found.');
         const now = new Date();
         await db.insert(dailyVisits).values({ patientId: patient.id, checkInTime: now });
+        // Arriving for a booking today checks the patient in for it.
+        const appointment = await appointmentService.checkInForToday(patient.id, null);
         this._sendReturningPatientNotifications(patient, now);
-        return { message: 'Returning guest visit recorded successfully.', patientName: patient.name, visitDate: now.toISOString().split('T')[0] };
+        return { message: 'Returning guest visit recorded successfully.', patientName: patient.name, visitDate: now.toISOString().split('T')[0], appointment };
     }
 
     async getTodaysReturningPatients(user?: AuthenticatedUser, settings?: any) {
@@ -157,30 +222,45 @@ export class PatientService {
         });
     }
 
-    async getScheduledPatients(date?: string, user?: AuthenticatedUser, settings?: any) {
-        let conditions: ReturnType<typeof and> | ReturnType<typeof isNotNull> = isNotNull(patients.nextAppointmentDate);
-        if (date) {
-            conditions = and(isNotNull(patients.nextAppointmentDate), sql`DATE(${patients.nextAppointmentDate}) = ${date}`);
-        }
-        const scheduledPatients = await db.query.patients.findMany({
-            where: conditions,
-            orderBy: [asc(patients.nextAppointmentDate)],
+    /**
+     * Patients with their latest (non-deleted) dental record's clinical summary, keyed by patient id.
+     */
+    private async loadPatientsWithLatestRecord(patientIds: number[]) {
+        const rows = patientIds.length === 0 ? [] : await db.query.patients.findMany({
+            where: inArray(patients.id, patientIds),
             with: {
                 dentalRecords: {
+                    where: isNull(dentalRecords.deletedAt),
                     orderBy: [desc(dentalRecords.createdAt)],
                     limit: 1,
-                    columns: { treatmentDone: true, treatmentPlan: true, provisionalDiagnosis: true }
+                    columns: { id: true, treatmentDone: true, treatmentPlan: true, provisionalDiagnosis: true }
                 }
             }
         });
-        const processed = scheduledPatients.map(p => {
-            const latestRecord = p.dentalRecords && p.dentalRecords.length > 0 ? p.dentalRecords[0] : null;
-            const { dentalRecords: _, ...patientData } = p;
+        return new Map(rows.map(({ dentalRecords: records, ...patient }) => [patient.id, { patient, latestRecord: records[0] ?? null }]));
+    }
+
+    /**
+     * The appointments page: one row per appointment (cancelled ones excluded) on `date`, or from
+     * today onwards, with the patient's details, latest record summary and medical alerts.
+     */
+    async getScheduledPatients(date?: string, user?: AuthenticatedUser, settings?: any) {
+        const from = date ? new Date(`${date}T00:00:00`) : new Date(new Date().setHours(0, 0, 0, 0));
+        const to = date ? new Date(from.getTime() + 24 * 60 * 60 * 1000) : undefined;
+        const booked = (await appointmentService.getAppointments({ from, to })).filter(appointment => appointment.status !== 'cancelled');
+        const patientIds = [...new Set(booked.map(appointment => appointment.patientId))];
+        const byPatient = await this.loadPatientsWithLatestRecord(patientIds);
+        const alerts = await medicalHistoryService.getAlerts(patientIds);
+        const processed = booked.filter(appointment => byPatient.has(appointment.patientId)).map(appointment => {
+            const { patient, latestRecord } = byPatient.get(appointment.patientId)!;
+            const { patientId, patientName, ...appointmentDetails } = appointment;
             return {
-                ...patientData,
+                ...patient,
+                appointment: appointmentDetails,
                 latestTreatmentDone: latestRecord?.treatmentDone,
                 latestTreatmentPlan: latestRecord?.treatmentPlan,
-                latestProvisionalDiagnosis: latestRecord?.provisionalDiagnosis
+                latestProvisionalDiagnosis: latestRecord?.provisionalDiagnosis,
+                medicalAlerts: alerts.get(appointment.patientId) ?? []
             };
         });
         const shouldSeeContact = canUserSeeContactDetails(user, settings);
@@ -217,7 +297,7 @@ export class PatientService {
           with: { 
               familyHead: true, 
               familyMembers: true, 
-              dentalRecords: { orderBy: [desc(dentalRecords.createdAt)], limit: 1, columns: { id: true, treatmentDone: true, treatmentPlan: true, provisionalDiagnosis: true, createdAt: true, doctorId: true }, with: { doctor: { columns: { username: true } } } }, 
+              dentalRecords: { where: isNull(dentalRecords.deletedAt), orderBy: [desc(dentalRecords.createdAt)], limit: 1, columns: { id: true, treatmentDone: true, treatmentPlan: true, provisionalDiagnosis: true, createdAt: true, doctorId: true }, with: { doctor: { columns: { username: true } } } }, 
               dailyVisits: { columns: { id: true, checkInTime: true } } 
           },
           orderBy: [desc(patients.createdAt)],
@@ -246,11 +326,13 @@ export class PatientService {
     async getPatientById(patientId: number, user?: AuthenticatedUser, settings?: any) {
         const patient = await db.query.patients.findFirst({
             where: eq(patients.id, patientId),
-            with: { familyHead: true, familyMembers: { with: { dentalRecords: true } }, dentalRecords: { orderBy: [desc(dentalRecords.createdAt)] } },
+            with: { familyHead: true, familyMembers: { with: { dentalRecords: { where: isNull(dentalRecords.deletedAt) } } }, dentalRecords: { where: isNull(dentalRecords.deletedAt), orderBy: [desc(dentalRecords.createdAt)] } },
         });
         if (!patient) return null;
+        const alerts = await medicalHistoryService.getAlerts([patientId]);
+        const withAlerts = { ...patient, medicalAlerts: alerts.get(patientId) ?? [] };
         const shouldSeeContact = canUserSeeContactDetails(user, settings);
-        return shouldSeeContact ? patient : stripContactInfo(patient);
+        return shouldSeeContact ? withAlerts : stripContactInfo(withAlerts);
     }
     
     async _getPatientWithContactInfoForInternalUse(patientId: number): Promise<PatientSelect | null> {
@@ -262,6 +344,7 @@ export class PatientService {
         const [existingPatient] = await db.select().from(patients).where(eq(patients.id, patientId)).limit(1);
         if (!existingPatient) return { success: false, message: 'Patient not found.' };
         if (patientData.familyId || patientData.isFamilyHead !== undefined) return { success: false, message: 'Cannot change family structure via this method.' };
+        if (patientData.outstanding !== undefined) return { success: false, message: 'Outstanding balance is derived from invoices and payments and cannot be set directly.' };
         if (existingPatient.isFamilyHead) {
             if (patientData.phoneNumber && patientData.phoneNumber !== existingPatient.phoneNumber) {
                 const [conflict] = await db.select().from(patients).where(and(eq(patients.phoneNumber, patientData.phoneNumber), ne(patients.id, patientId))).limit(1);
@@ -282,7 +365,11 @@ export class PatientService {
         return { success: true, message: 'Patient information updated successfully.' };
     }
 
-    async scheduleNextAppointment(patientId: number, interval: string) {
+    /**
+     * Books a follow-up `interval` from today (e.g. '2weeks'), at `time` (HH:mm, default 09:00)
+     * and moved off Sundays. The booking is an ordinary appointment, so it is checked for clashes.
+     */
+    async scheduleNextAppointment(patientId: number, interval: string, options: { time?: string; doctorId?: number | null; chair?: string | null; procedure?: string | null; createdBy?: number | null } = {}) {
         const [patientExists] = await db.select().from(patients).where(eq(patients.id, patientId)).limit(1);
         if (!patientExists) return { success: false, message: 'Patient not found.' };
         const today = new Date();
@@ -300,10 +387,37 @@ export class PatientService {
             case '6months': nextAppointmentDate.setMonth(today.getMonth() + 6); break;
             default: return { success: false, message: 'Invalid appointment interval provided.' };
         }
-        if (nextAppointmentDate.getDay() === 0) nextAppointmentDate.setDate(nextAppointmentDate.getDate() + 1);
-        await db.update(patients).set({ nextAppointmentDate: nextAppointmentDate, updatedAt: new Date() }).where(eq(patients.id, patientId));
+        const [hours, minutes] = (options.time || '09:00').split(':').map(Number);
+        nextAppointmentDate.setHours(hours, minutes, 0, 0);
+
+        // With a doctor, take their first free slot from the target time; otherwise the first day the clinic is open.
+        let startTime: Date;
+        if (options.doctorId) {
+            const procedure = options.procedure?.trim() ? await appointmentService.findProcedure(options.procedure) : null;
+            const searchTo = new Date(nextAppointmentDate);
+            searchTo.setDate(searchTo.getDate() + NEXT_APPOINTMENT_SEARCH_DAYS);
+            const [slot] = await appointmentService.findAvailableSlots({
+                doctorId: options.doctorId,
+                durationMinutes: procedure?.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES,
+                from: nextAppointmentDate,
+                to: searchTo,
+            });
+            if (!slot) return { success: false, message: `The doctor has no free slot within ${NEXT_APPOINTMENT_SEARCH_DAYS} days of ${toDateKey(nextAppointmentDate)}.` };
+            startTime = slot.start;
+        } else {
+            startTime = await availabilityService.nextOpenDay(nextAppointmentDate);
+        }
+
+        const booking = await appointmentService.createAppointment({
+            patientId,
+            doctorId: options.doctorId ?? null,
+            chair: options.chair ?? null,
+            procedure: options.procedure ?? null,
+            startTime,
+        }, options.createdBy ?? null);
+        if (!booking.success) return { success: false, message: booking.message, conflicts: booking.conflicts };
         const updatedPatient = await this.getPatientById(patientId);
-        return { success: true, message: 'Next appointment scheduled successfully.', patient: updatedPatient };
+        return { success: true, message: 'Next appointment scheduled successfully.', patient: updatedPatient, appointment: booking.appointment };
     }
 
     async sendAppointmentReminder(patientId: number) {
@@ -370,19 +484,31 @@ export class PatientService {
         }
     }
 
-    async createDentalRecord(patientId: number, doctorId: number, recordData: Partial<DentalRecordInsert>) {
+    // `toothChart` is the validated per-tooth chart (see OdontogramService.parseToothChart), stored alongside the record.
+    // A record written by a doctor is theirs to sign off; one written by anyone else stays unassigned until a doctor signs it.
+    async createDentalRecord(patientId: number, author: { userId: number; role: string }, recordData: Partial<DentalRecordInsert>, toothChart?: ToothChartEntry[]) {
         const [patientExists] = await db.select().from(patients).where(eq(patients.id, patientId)).limit(1);
         if (!patientExists) return { success: false, message: 'Patient not found.' };
-        const newRecord: DentalRecordInsert = { patientId, doctorId, ...recordData, createdAt: new Date(), updatedAt: new Date() };
-        const [inserted] = await db.insert(dentalRecords).values(newRecord);
-        const newRecordId = (inserted as any).insertId;
+        const { deletedAt, deletedBy, deletionReason, signedAt, signedBy, ...clinicalData } = recordData;
+        const doctorId = author.role === 'doctor' ? author.userId : null;
+        const newRecordId = await db.transaction(async (tx) => {
+            // Conditions known from earlier visits are prefilled; newly reported ones join the patient's history.
+            const carried = await medicalHistoryService.carryForward(patientId, clinicalData, author.userId, tx);
+            const newRecord: DentalRecordInsert = { patientId, doctorId, ...carried, createdAt: new Date(), updatedAt: new Date() };
+            const [inserted] = await tx.insert(dentalRecords).values(newRecord);
+            if (toothChart) await odontogramService.saveRecordChart(inserted.insertId, patientId, toothChart, tx);
+            const changes = diffFields({}, { doctorId, ...carried, ...(toothChart ? { toothChart } : {}) });
+            await dentalRecordHistoryService.recordRevision(inserted.insertId, { action: 'created', changes, authorId: author.userId }, tx);
+            return inserted.insertId;
+        });
         const [newDentalRecord] = await db.select().from(dentalRecords).where(eq(dentalRecords.id, newRecordId)).limit(1);
         if (!newDentalRecord) return { success: false, message: 'Dental record added but could not be found immediately after.' };
-        return { success: true, record: newDentalRecord };
+        return { success: true, record: { ...newDentalRecord, toothChart: await odontogramService.getRecordChart(newRecordId) } };
     }
     
+    // Each record carries its sign-off state (`isLocked`, signer, time) and any addenda made after sign-off.
     async getDentalRecordsByPatientId(patientId: number) {
-        return await db
+        const records = await db
             .select({
                 id: dentalRecords.id,
                 patientId: dentalRecords.patientId,
@@ -418,86 +544,131 @@ export class PatientService {
                 treatmentPlan: dentalRecords.treatmentPlan,
                 treatmentDone: dentalRecords.treatmentDone,
                 calculus: dentalRecords.calculus,
+                signedAt: dentalRecords.signedAt,
+                signedBy: dentalRecords.signedBy,
+                signedByUsername: signers.username,
                 createdAt: dentalRecords.createdAt,
                 updatedAt: dentalRecords.updatedAt,
             })
             .from(dentalRecords)
             .leftJoin(users, eq(dentalRecords.doctorId, users.id))
-            .where(eq(dentalRecords.patientId, patientId))
+            .leftJoin(signers, eq(dentalRecords.signedBy, signers.id))
+            .where(and(eq(dentalRecords.patientId, patientId), isNull(dentalRecords.deletedAt)))
             .orderBy(desc(dentalRecords.createdAt));
+
+        const addenda = await dentalRecordSignOffService.getAddenda(records.filter(r => r.signedAt).map(r => r.id));
+        return records.map(record => ({ ...record, isLocked: record.signedAt !== null, addenda: addenda.get(record.id) ?? [] }));
+    }
+
+    private async withSignOffDetails<T extends { id: number; signedAt: Date | null }>(record: T) {
+        const addenda = await dentalRecordSignOffService.getAddenda(record.signedAt ? [record.id] : []);
+        return { ...record, isLocked: record.signedAt !== null, addenda: addenda.get(record.id) ?? [] };
     }
 
     async getSpecificDentalRecordForPatient(patientId: number, recordId: number) {
         const [record] = await db.select().from(dentalRecords)
             .leftJoin(users, eq(dentalRecords.doctorId, users.id))
-            .where(and(eq(dentalRecords.patientId, patientId), eq(dentalRecords.id, recordId)))
+            .where(and(eq(dentalRecords.patientId, patientId), eq(dentalRecords.id, recordId), isNull(dentalRecords.deletedAt)))
             .limit(1);
-        return record ? { ...record.dental_records, doctorUsername: record.users?.username } : undefined;
+        if (!record) return undefined;
+        return await this.withSignOffDetails({ ...record.dental_records, doctorUsername: record.users?.username, toothChart: await odontogramService.getRecordChart(recordId) });
     }
 
     async getDentalRecordById(recordId: number) {
         const [record] = await db.select().from(dentalRecords)
             .leftJoin(users, eq(dentalRecords.doctorId, users.id))
-            .where(eq(dentalRecords.id, recordId))
+            .where(and(eq(dentalRecords.id, recordId), isNull(dentalRecords.deletedAt)))
             .limit(1);
-        return record ? { ...record.dental_records, doctorUsername: record.users?.username } : undefined;
+        if (!record) return undefined;
+        return await this.withSignOffDetails({ ...record.dental_records, doctorUsername: record.users?.username, toothChart: await odontogramService.getRecordChart(recordId) });
     }
 
-    async updateDentalRecord(recordId: number, updateData: Partial<DentalRecordInsert>) {
-        const [recordExists] = await db.select().from(dentalRecords).where(eq(dentalRecords.id, recordId)).limit(1);
-        if (!recordExists) { return { success: false, message: 'Dental record not found.' }; }
+    /**
+     * Amends a dental record. The record is changed in place but every amendment is kept as an
+     * immutable revision (author, time, changed fields with old and new values).
+     * A `toothChart` replaces the record's whole chart; leave it undefined to keep the chart as it is.
+     */
+    async updateDentalRecord(recordId: number, updateData: Partial<DentalRecordInsert>, toothChart: ToothChartEntry[] | undefined, authorId: number, reason?: string | null) {
         const cleanedUpdateData: Partial<DentalRecordInsert> = { ...updateData };
         delete cleanedUpdateData.patientId;
+        delete cleanedUpdateData.deletedAt;
+        delete cleanedUpdateData.deletedBy;
+        delete cleanedUpdateData.deletionReason;
+        delete cleanedUpdateData.signedAt;
+        delete cleanedUpdateData.signedBy;
         
         if (cleanedUpdateData.doctorId && !updateData.receptionistId) {
             delete cleanedUpdateData.doctorId;
         }
 
-        await db.update(dentalRecords).set({ ...cleanedUpdateData, updatedAt: new Date() }).where(eq(dentalRecords.id, recordId));
-        return { success: true, message: 'Dental record updated successfully.' };
-    }
+        return await db.transaction(async (tx) => {
+            const [recordExists] = await tx.select().from(dentalRecords).where(eq(dentalRecords.id, recordId)).for('update');
+            if (!recordExists || recordExists.deletedAt) return { success: false, message: 'Dental record not found.' };
+            if (recordExists.signedAt) return { success: false, message: LOCKED_RECORD_MESSAGE };
 
-    async deleteDentalRecord(recordId: number) {
-        const [recordExists] = await db.select().from(dentalRecords).where(eq(dentalRecords.id, recordId)).limit(1);
-        if (!recordExists) { return { success: false, message: 'Dental record not found.' }; }
-        await db.delete(dentalRecords).where(eq(dentalRecords.id, recordId));
-        return { success: true, message: 'Dental record deleted successfully.' };
-    }
+            const changes = diffFields(recordExists, cleanedUpdateData);
+            if (toothChart) {
+                const currentChart = await odontogramService.getRecordChart(recordId, tx);
+                Object.assign(changes, diffFields({ toothChart: currentChart }, { toothChart: toothChart.map(({ tooth, surfaces, condition, notes }) => ({ tooth, surfaces, condition, notes: notes ?? null })) }));
+            }
+            if (Object.keys(changes).length === 0) return { success: true, message: 'No changes to save.' };
 
-    async getPatientsForDoctor(doctorId: number) {
-        const patientRecords = await db
-            .select({
-                patientId: patients.id,
-                patientName: patients.name,
-                provisionalDiagnosis: dentalRecords.provisionalDiagnosis,
-                treatmentPlan: dentalRecords.treatmentPlan,
-                doctorId: dentalRecords.doctorId,
-                doctorName: users.username,
-                dentalRecordId: dentalRecords.id
-            })
-            .from(patients)
-            .leftJoin(dentalRecords, eq(patients.id, dentalRecords.patientId))
-            .leftJoin(users, eq(dentalRecords.doctorId, users.id))
-            .where(eq(dentalRecords.doctorId, doctorId))
-            .orderBy(desc(dentalRecords.createdAt));
+            await tx.update(dentalRecords).set({ ...cleanedUpdateData, updatedAt: new Date() }).where(eq(dentalRecords.id, recordId));
+            await medicalHistoryService.recordReportedConditions(recordExists.patientId, cleanedUpdateData, authorId, tx);
+            if (changes.toothChart && toothChart) await odontogramService.saveRecordChart(recordId, recordExists.patientId, toothChart, tx);
+            await dentalRecordHistoryService.recordRevision(recordId, { action: 'updated', changes, authorId, reason }, tx);
+            return { success: true, message: 'Dental record updated successfully.' };
+        });
+    }
 
-        type PatientRecord = {
-            patientId: number;
-            patientName: string;
-            provisionalDiagnosis: string | null;
-            treatmentPlan: string | null;
-            doctorId: number | null;
-            doctorName: string | null;
-            dentalRecordId: number | null;
-        };
-        const uniquePatients = patientRecords.reduce((acc: PatientRecord[], current) => {
-            if (!acc.find(item => item.patientId === current.patientId)) {
-                acc.push(current as PatientRecord);
-            }
-            return acc;
-        }, [] as PatientRecord[]);
+    // Soft delete: the record disappears from the patient's file but stays in the database with its history.
+    async deleteDentalRecord(recordId: number, deletedBy: number, reason: string) {
+        return await db.transaction(async (tx) => {
+            const [recordExists] = await tx.select().from(dentalRecords).where(eq(dentalRecords.id, recordId)).for('update');
+            if (!recordExists || recordExists.deletedAt) { return { success: false, message: 'Dental record not found.' }; }
+            if (recordExists.signedAt) return { success: false, message: 'Dental record is signed off and locked and cannot be deleted.' };
+            const deletedAt = new Date();
+            await tx.update(dentalRecords).set({ deletedAt, deletedBy, deletionReason: reason }).where(eq(dentalRecords.id, recordId));
+            await dentalRecordHistoryService.recordRevision(recordId, {
+                action: 'deleted',
+                changes: { deletedAt: { from: null, to: deletedAt } },
+                authorId: deletedBy,
+                reason,
+            }, tx);
+            return { success: true, message: 'Dental record deleted successfully.' };
+        });
+    }
 
-        return uniquePatients;
+    /**
+     * A doctor's appointments (cancelled ones excluded) on `date`, or from today onwards, each with
+     * the patient's latest record summary and medical alerts.
+     */
+    async getPatientsForDoctor(doctorId: number, date?: string) {
+        const from = date ? new Date(`${date}T00:00:00`) : new Date(new Date().setHours(0, 0, 0, 0));
+        const to = date ? new Date(from.getTime() + 24 * 60 * 60 * 1000) : undefined;
+        const booked = (await appointmentService.getAppointments({ doctorId, from, to })).filter(appointment => appointment.status !== 'cancelled');
+        const patientIds = [...new Set(booked.map(appointment => appointment.patientId))];
+        const byPatient = await this.loadPatientsWithLatestRecord(patientIds);
+        const alerts = await medicalHistoryService.getAlerts(patientIds);
+        return booked.map(appointment => {
+            const latestRecord = byPatient.get(appointment.patientId)?.latestRecord ?? null;
+            return {
+                appointmentId: appointment.id,
+                startTime: appointment.startTime,
+                endTime: appointment.endTime,
+                chair: appointment.chair,
+                procedure: appointment.procedure,
+                status: appointment.status,
+                patientId: appointment.patientId,
+                patientName: appointment.patientName,
+                provisionalDiagnosis: latestRecord?.provisionalDiagnosis ?? null,
+                treatmentPlan: latestRecord?.treatmentPlan ?? null,
+                doctorId: appointment.doctorId,
+                doctorName: appointment.doctorName,
+                dentalRecordId: latestRecord?.id ?? null,
+                medicalAlerts: alerts.get(appointment.patientId) ?? []
+            };
+        });
     }
 
      async getAllPatientsForScheduling() {
@@ -514,7 +685,7 @@ export class PatientService {
                 createdAt: patients.createdAt
             })
             .from(patients)
-            .leftJoin(dentalRecords, eq(patients.id, dentalRecords.patientId))
+            .leftJoin(dentalRecords, and(eq(patients.id, dentalRecords.patientId), isNull(dentalRecords.deletedAt)))
             .leftJoin(users, eq(dentalRecords.doctorId, users.id))
             .orderBy(desc(dentalRecords.createdAt));
 
@@ -553,15 +724,24 @@ export class PatientService {
 
     async assignDoctorToPatient(patientId: number, doctorId: number, receptionistId: number) {
         const [latestRecord] = await db.select().from(dentalRecords)
-            .where(eq(dentalRecords.patientId, patientId))
+            .where(and(eq(dentalRecords.patientId, patientId), isNull(dentalRecords.deletedAt)))
             .orderBy(desc(dentalRecords.createdAt))
             .limit(1);
 
-        if (latestRecord) {
-            await db.update(dentalRecords).set({ doctorId, receptionistId }).where(eq(dentalRecords.id, latestRecord.id));
-        } else {
-            await db.insert(dentalRecords).values({ patientId, doctorId, receptionistId });
-        }
+        await db.transaction(async (tx) => {
+            // A signed-off record is locked, so the assignment starts the patient's next record instead.
+            if (latestRecord && !latestRecord.signedAt) {
+                const changes = diffFields(latestRecord, { doctorId, receptionistId });
+                if (Object.keys(changes).length === 0) return;
+                await tx.update(dentalRecords).set({ doctorId, receptionistId }).where(eq(dentalRecords.id, latestRecord.id));
+                await dentalRecordHistoryService.recordRevision(latestRecord.id, { action: 'updated', changes, authorId: receptionistId, reason: 'Doctor assigned' }, tx);
+            } else {
+                const carried = await medicalHistoryService.carryForward(patientId, {}, receptionistId, tx);
+                const [inserted] = await tx.insert(dentalRecords).values({ patientId, doctorId, receptionistId, ...carried });
+                const changes = diffFields({}, { doctorId, receptionistId, ...carried });
+                await dentalRecordHistoryService.recordRevision(inserted.insertId, { action: 'created', changes, authorId: receptionistId, reason: 'Doctor assigned' }, tx);
+            }
+        });
         return { success: true, message: 'Doctor assigned successfully.' };
     }
 
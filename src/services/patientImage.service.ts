@@ -0,0 +1,205 @@
+// src/services/patientImage.service.ts
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { patientImages, patients, dentalRecords, users } from '../../db/schema';
+import { imageStorageService } from './imageStorage.service';
+import { imageProcessingService, FORMAT_MIME_TYPES } from './imageProcessing.service';
+import { dicomService, DicomMetadata } from './dicom.service';
+
+export const IMAGE_TYPES = ['periapical', 'bitewing', 'panoramic', 'cephalometric', 'intraoral_photo', 'extraoral_photo', 'other'] as const;
+export type ImageType = typeof IMAGE_TYPES[number];
+
+export interface UploadedFile {
+    buffer: Buffer;
+    originalname: string;
+    mimetype: string;
+    size: number;
+}
+
+export interface ImageDetails {
+    patientId: number;
+    dentalRecordId?: number | null;
+    imageType: ImageType;
+    tooth?: number | null;
+    capturedAt?: Date;
+    notes?: string | null;
+    uploadedBy: number;
+}
+
+export class PatientImageService {
+
+    /**
+     * Validates the file by its content, stores it (and a thumbnail) with the active storage adapter
+     * and records it against the patient and, optionally, one of the patient's dental records.
+     * Stored files are removed again if anything after the upload fails, so no orphans are left behind.
+     */
+    async uploadImage(details: ImageDetails, file: UploadedFile) {
+        const [patient] = await db.select({ id: patients.id, name: patients.name }).from(patients).where(eq(patients.id, details.patientId)).limit(1);
+        if (!patient) return { success: false, message: 'Patient not found.' };
+        if (details.dentalRecordId) {
+            const [record] = await db.select({ patientId: dentalRecords.patientId, deletedAt: dentalRecords.deletedAt })
+                .from(dentalRecords).where(eq(dentalRecords.id, details.dentalRecordId)).limit(1);
+            if (!record || record.deletedAt) return { success: false, message: 'Dental record not found.' };
+            if (record.patientId !== details.patientId) return { success: false, message: 'Dental record belongs to another patient.' };
+        }
+
+        const format = imageProcessingService.detectFormat(file.buffer);
+        if (!format) return { success: false, message: 'File content is not a supported image or DICOM file.' };
+        const mimeType = FORMAT_MIME_TYPES[format];
+
+        // DICOM originals are rendered to a PNG preview; thumbnails are made from the preview.
+        let dicom: (DicomMetadata & { warnings: string[] }) | null = null;
+        let preview: Buffer | null = null;
+        if (format === 'dicom') {
+            try {
+                const parsed = dicomService.parse(file.buffer);
+                dicom = { ...parsed.metadata, warnings: dicomService.findPatientMismatches(parsed.metadata, patient) };
+                preview = await dicomService.renderPreview(parsed.dataSet).catch(error => {
+                    console.error('DICOM preview rendering failed:', error);
+                    return null;
+                });
+                if (!preview) dicom.warnings.push(`No preview available for this DICOM encoding (${parsed.metadata.transferSyntax ?? 'unknown'}); the original is stored for download.`);
+            } catch (error) {
+                return { success: false, message: 'File is not a readable DICOM file.' };
+            }
+        }
+
+        let dimensions: { width: number; height: number } | null = null;
+        let thumbnail: Buffer | null = null;
+        const viewable = format === 'dicom' ? preview : file.buffer;
+        if (viewable) {
+            try {
+                dimensions = await imageProcessingService.inspect(viewable);
+                thumbnail = await imageProcessingService.createThumbnail(viewable);
+            } catch (error) {
+                return { success: false, message: 'File is not a readable image.' };
+            }
+        }
+
+        const adapter = imageStorageService.getActiveAdapter();
+        const folder = `patients/${details.patientId}`;
+        const saved: string[] = [];
+        try {
+            const stored = await adapter.save(file.buffer, { folder, filename: file.originalname, mimeType });
+            saved.push(stored.storageKey);
+            const storedThumbnail = thumbnail
+                ? await adapter.save(thumbnail, { folder: `${folder}/thumbnails`, filename: `${file.originalname}.jpg`, mimeType: 'image/jpeg' })
+                : null;
+            if (storedThumbnail) saved.push(storedThumbnail.storageKey);
+            const storedPreview = preview
+                ? await adapter.save(preview, { folder: `${folder}/previews`, filename: `${file.originalname}.png`, mimeType: 'image/png' })
+                : null;
+            if (storedPreview) saved.push(storedPreview.storageKey);
+
+            const [inserted] = await db.insert(patientImages).values({
+                patientId: details.patientId,
+                dentalRecordId: details.dentalRecordId ?? null,
+                imageType: details.imageType,
+                tooth: details.tooth ?? null,
+                capturedAt: details.capturedAt ?? (dicom?.studyDate ? new Date(dicom.studyDate) : new Date()),
+                storageProvider: adapter.provider,
+                storageKey: stored.storageKey,
+                url: stored.url,
+                thumbnailKey: storedThumbnail?.storageKey ?? null,
+                thumbnailUrl: storedThumbnail?.url ?? null,
+                previewKey: storedPreview?.storageKey ?? null,
+                previewUrl: storedPreview?.url ?? null,
+                dicomMetadata: dicom,
+                mimeType,
+                fileSize: file.size,
+                width: dimensions?.width ?? null,
+                height: dimensions?.height ?? null,
+                originalFilename: file.originalname,
+                notes: details.notes ?? null,
+                uploadedBy: details.uploadedBy,
+            });
+            return { success: true, message: 'Image uploaded.', image: await this.getImageById(inserted.insertId), warnings: dicom?.warnings ?? [] };
+        } catch (error) {
+            for (const storageKey of saved) {
+                await adapter.remove(storageKey).catch(removeError => console.error('Failed to remove orphaned image upload:', removeError));
+            }
+            throw error;
+        }
+    }
+
+    // Newest capture first; filters narrow to one record, image type or tooth.
+    async getImages(filters: { patientId: number; dentalRecordId?: number; imageType?: ImageType; tooth?: number }) {
+        return await db.select({
+                id: patientImages.id,
+                patientId: patientImages.patientId,
+                dentalRecordId: patientImages.dentalRecordId,
+                imageType: patientImages.imageType,
+                tooth: patientImages.tooth,
+                capturedAt: patientImages.capturedAt,
+                storageProvider: patientImages.storageProvider,
+                url: patientImages.url,
+                thumbnailUrl: patientImages.thumbnailUrl,
+                hasThumbnail: sql<boolean>`${patientImages.thumbnailKey} is not null`,
+                previewUrl: patientImages.previewUrl,
+                hasPreview: sql<boolean>`${patientImages.previewKey} is not null`,
+                dicomMetadata: patientImages.dicomMetadata,
+                mimeType: patientImages.mimeType,
+                fileSize: patientImages.fileSize,
+                width: patientImages.width,
+                height: patientImages.height,
+                originalFilename: patientImages.originalFilename,
+                notes: patientImages.notes,
+                uploadedBy: patientImages.uploadedBy,
+                uploaderUsername: users.username,
+                createdAt: patientImages.createdAt,
+            })
+            .from(patientImages)
+            .leftJoin(users, eq(patientImages.uploadedBy, users.id))
+            .where(and(
+                eq(patientImages.patientId, filters.patientId),
+                filters.dentalRecordId ? eq(patientImages.dentalRecordId, filters.dentalRecordId) : undefined,
+                filters.imageType ? eq(patientImages.imageType, filters.imageType) : undefined,
+                filters.tooth ? eq(patientImages.tooth, filters.tooth) : undefined,
+            ))
+            .orderBy(desc(patientImages.capturedAt), desc(patientImages.id));
+    }
+
+    async getImageById(imageId: number) {
+        const [image] = await db.select().from(patientImages).where(eq(patientImages.id, imageId)).limit(1);
+        return image ?? null;
+    }
+
+    /**
+     * The image's bytes, read from whichever provider stored them: the original (a DICOM file
+     * stays a DICOM file), the browser-viewable preview or the thumbnail. A non-DICOM image is its
+     * own preview. Null when the image, or the requested variant, does not exist.
+     */
+    async getImageFile(imageId: number, variant: 'original' | 'preview' | 'thumbnail' = 'original') {
+        const image = await this.getImageById(imageId);
+        if (!image) return null;
+        const isDicom = image.mimeType === FORMAT_MIME_TYPES.dicom;
+        const file = variant === 'thumbnail' ? { storageKey: image.thumbnailKey, mimeType: 'image/jpeg' }
+            : variant === 'preview' && isDicom ? { storageKey: image.previewKey, mimeType: 'image/png' }
+            : { storageKey: image.storageKey, mimeType: image.mimeType };
+        if (!file.storageKey) return null;
+        const buffer = await imageStorageService.getAdapter(image.storageProvider).read(file.storageKey);
+        return { image, buffer, mimeType: file.mimeType, isDicomOriginal: isDicom && variant === 'original' };
+    }
+
+    /**
+     * Deletes the image record, then the stored files. A file the provider fails to delete is logged
+     * and left behind rather than keeping a record that points at it.
+     */
+    async deleteImage(imageId: number) {
+        const image = await this.getImageById(imageId);
+        if (!image) return { success: false, message: 'Image not found.' };
+        await db.delete(patientImages).where(eq(patientImages.id, imageId));
+        const adapter = imageStorageService.getAdapter(image.storageProvider);
+        for (const storageKey of [image.storageKey, image.thumbnailKey, image.previewKey]) {
+            if (!storageKey) continue;
+            try {
+                await adapter.remove(storageKey);
+            } catch (error) {
+                console.error(`Failed to remove stored file for image ${imageId}:`, error);
+            }
+        }
+        return { success: true, message: 'Image deleted.' };
+    }
+}
+
+export const patientImageService = new PatientImageService();
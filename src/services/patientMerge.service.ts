@@ -0,0 +1,246 @@
+// src/services/patientMerge.service.ts
+import { and, desc, eq, inArray, ne, InferInsertModel } from 'drizzle-orm';
+import { db } from '../config/database';
+import {
+    patients, patientMerges, dentalRecords, dailyVisits, invoices, receipts, payments,
+    creditNotes, installmentPlans, hmoClaims, toothConditions, treatmentPlans, patientAllergies, patientMedications,
+    prescriptions, patientImages, patientConsents, appointments, appointmentSeries, waitlistEntries,
+} from '../../db/schema';
+import { ledgerService } from './ledger.service';
+import { appointmentService } from './appointment.service';
+import { medicalHistoryService } from './medicalHistory.service';
+
+type PatientSelect = typeof patients.$inferSelect;
+type PatientUpdate = Partial<InferInsertModel<typeof patients>>;
+type PatientSummary = Pick<PatientSelect, 'id' | 'name' | 'sex' | 'dateOfBirth' | 'phoneNumber' | 'email' | 'familyId' | 'isFamilyHead' | 'createdAt'>;
+
+export interface DuplicateCandidate {
+    patient: PatientSummary;
+    duplicate: PatientSummary;
+    score: number;
+    reasons: string[];
+}
+
+// Every table that hangs off a patient row. A merge repoints all of them at the survivor.
+// The one-per-patient medical history is folded separately (see MedicalHistoryService.mergeHistories).
+const PATIENT_OWNED_TABLES = {
+    dentalRecords, toothConditions, dailyVisits, invoices, receipts, payments, creditNotes, installmentPlans, hmoClaims, treatmentPlans,
+    patientAllergies, patientMedications, prescriptions, patientImages, patientConsents, appointments, appointmentSeries, waitlistEntries,
+};
+
+// Blank fields on the survivor that may be filled from the duplicate. The next appointment date
+// follows the moved appointments instead (see AppointmentService.syncNextAppointment).
+const FILLABLE_FIELDS = ['dateOfBirth', 'phoneNumber', 'email', 'address', 'hmo'] as const satisfies readonly (keyof PatientUpdate)[];
+type FillableField = typeof FILLABLE_FIELDS[number];
+
+// Blocks bigger than this (e.g. a very common surname) are skipped; they add noise, not matches.
+const MAX_BLOCK_SIZE = 50;
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+const sortedTokens = (name: string) => normaliseName(name).split(' ').sort().join(' ');
+
+// Compare the national part of the number so "+2348031234567" and "08031234567" match.
+const normalisePhone = (phone: string | null) => {
+    const digits = (phone || '').replace(/\D/g, '');
+    return digits.length >= 7 ? digits.slice(-10) : null;
+};
+
+const sameDay = (a: Date, b: Date) => a.toISOString().split('T')[0] === b.toISOString().split('T')[0];
+
+const levenshtein = (a: string, b: string) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const ratio = (a: string, b: string) => {
+    const longest = Math.max(a.length, b.length);
+    return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+};
+
+// Word order is ignored as well, so "Okafor Chinedu" matches "Chinedu Okafor".
+const nameSimilarity = (a: string, b: string) => Math.max(ratio(normaliseName(a), normaliseName(b)), ratio(sortedTokens(a), sortedTokens(b)));
+
+export class PatientMergeService {
+
+    /**
+     * Scores likely duplicate registrations. Name similarity carries most of the weight;
+     * a matching date of birth, phone number or email raises the score and a conflicting
+     * date of birth lowers it.
+     * @param options.patientId Only look for duplicates of this patient.
+     * @param options.minScore Pairs scoring below this (0-100) are left out. Defaults to 60.
+     */
+    async findDuplicateCandidates(options: { patientId?: number; minScore?: number } = {}): Promise<DuplicateCandidate[]> {
+        const minScore = options.minScore ?? 60;
+        const all: PatientSummary[] = await db.select({
+            id: patients.id, name: patients.name, sex: patients.sex, dateOfBirth: patients.dateOfBirth,
+            phoneNumber: patients.phoneNumber, email: patients.email, familyId: patients.familyId,
+            isFamilyHead: patients.isFamilyHead, createdAt: patients.createdAt,
+        }).from(patients);
+
+        const pairs = new Map<string, [PatientSummary, PatientSummary]>();
+        const addPair = (a: PatientSummary, b: PatientSummary) => {
+            if (a.id === b.id) return;
+            const [first, second] = a.id < b.id ? [a, b] : [b, a];
+            pairs.set(`${first.id}:${second.id}`, [first, second]);
+        };
+
+        if (options.patientId !== undefined) {
+            const target = all.find(p => p.id === options.patientId);
+            if (!target) return [];
+            all.forEach(other => addPair(target, other));
+        } else {
+            // Only compare patients that share something, rather than every pair in the clinic.
+            const blocks = new Map<string, PatientSummary[]>();
+            const addToBlock = (key: string | null, patient: PatientSummary) => {
+                if (!key) return;
+                const block = blocks.get(key) ?? [];
+                block.push(patient);
+                blocks.set(key, block);
+            };
+            for (const patient of all) {
+                const tokens = normaliseName(patient.name).split(' ').filter(token => token.length > 1);
+                addToBlock(`name:${sortedTokens(patient.name)}`, patient);
+                tokens.forEach(token => addToBlock(`token:${token.slice(0, 4)}`, patient));
+                addToBlock(patient.dateOfBirth ? `dob:${patient.dateOfBirth.toISOString().split('T')[0]}` : null, patient);
+                addToBlock(normalisePhone(patient.phoneNumber) ? `phone:${normalisePhone(patient.phoneNumber)}` : null, patient);
+                addToBlock(patient.email ? `email:${patient.email.toLowerCase()}` : null, patient);
+            }
+            for (const block of blocks.values()) {
+                if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue;
+                for (let i = 0; i < block.length; i++) {
+                    for (let j = i + 1; j < block.length; j++) addPair(block[i], block[j]);
+                }
+            }
+        }
+
+        const candidates: DuplicateCandidate[] = [];
+        for (const [a, b] of pairs.values()) {
+            const similarity = nameSimilarity(a.name, b.name);
+            if (similarity < 0.6) continue;
+
+            const reasons = [`similar name (${Math.round(similarity * 100)}%)`];
+            let score = similarity * 60;
+            if (a.dateOfBirth && b.dateOfBirth) {
+                if (sameDay(a.dateOfBirth, b.dateOfBirth)) { score += 25; reasons.push('same date of birth'); }
+                else { score -= 25; reasons.push('different date of birth'); }
+            }
+            const phoneA = normalisePhone(a.phoneNumber);
+            if (phoneA && phoneA === normalisePhone(b.phoneNumber)) { score += 15; reasons.push('same phone number'); }
+            if (a.email && b.email && a.email.toLowerCase() === b.email.toLowerCase()) { score += 15; reasons.push('same email'); }
+
+            score = Math.min(100, Math.round(score));
+            if (score < minScore) continue;
+            // Suggest keeping the older registration, which usually carries the history.
+            const [patient, duplicate] = a.createdAt <= b.createdAt ? [a, b] : [b, a];
+            candidates.push({ patient, duplicate, score, reasons });
+        }
+
+        return candidates.sort((x, y) => y.score - x.score);
+    }
+
+    /**
+     * Folds a duplicate registration into the surviving patient: moves dental records, visits,
+     * invoices, receipts, payments and the rest of the ledger, re-heads the duplicate's family
+     * members under the survivor, fills the survivor's blank contact fields, recomputes the
+     * balance and deletes the duplicate, leaving a `patientMerges` audit row behind.
+     */
+    async mergePatients(survivorId: number, duplicateId: number, mergedBy: number | null, reason?: string | null) {
+        if (survivorId === duplicateId) return { success: false, message: 'A patient cannot be merged into itself.' };
+
+        const result = await db.transaction(async (tx) => {
+            const rows = await tx.select().from(patients).where(inArray(patients.id, [survivorId, duplicateId])).for('update');
+            const survivor = rows.find(row => row.id === survivorId);
+            const duplicate = rows.find(row => row.id === duplicateId);
+            if (!survivor) return { success: false, message: 'Surviving patient not found.' };
+            if (!duplicate) return { success: false, message: 'Duplicate patient not found.' };
+
+            const members = await tx.select({ id: patients.id }).from(patients)
+                .where(and(eq(patients.familyId, duplicateId), ne(patients.id, survivorId)));
+            // The same person may have been registered as a head and again as one of their own members.
+            const survivorTakesOverHead = survivor.familyId === duplicateId;
+            if (members.length > 0 && !survivor.isFamilyHead && !survivorTakesOverHead) {
+                return { success: false, message: 'The duplicate heads a family but the surviving patient is a family member. Merge into the family head instead.' };
+            }
+
+            const survivorUpdate: PatientUpdate = { updatedAt: new Date() };
+            const filledFields: FillableField[] = [];
+            const fill = <K extends FillableField>(field: K) => {
+                const current = survivor[field];
+                const incoming = duplicate[field];
+                if ((current === null || current === '') && incoming !== null && incoming !== '') {
+                    survivorUpdate[field] = incoming;
+                    filledFields.push(field);
+                }
+            };
+            FILLABLE_FIELDS.forEach(fill);
+            if (survivorTakesOverHead) {
+                survivorUpdate.familyId = null;
+                survivorUpdate.isFamilyHead = true;
+            }
+
+            // Phone and email are unique, so free them on the duplicate before the survivor takes them.
+            await tx.update(patients).set({ phoneNumber: null, email: null }).where(eq(patients.id, duplicateId));
+            await tx.update(patients).set(survivorUpdate).where(eq(patients.id, survivorId));
+
+            const movedRecords: Record<string, number> = {};
+            for (const [name, table] of Object.entries(PATIENT_OWNED_TABLES)) {
+                const [moved] = await tx.update(table).set({ patientId: survivorId }).where(eq(table.patientId, duplicateId));
+                movedRecords[name] = moved.affectedRows;
+            }
+            await medicalHistoryService.mergeHistories(survivorId, duplicateId, tx);
+            await appointmentService.syncNextAppointment(survivorId, tx);
+
+            if (members.length > 0) {
+                await tx.update(patients).set({ familyId: survivorId, isFamilyHead: false, updatedAt: new Date() })
+                    .where(inArray(patients.id, members.map(member => member.id)));
+            }
+            movedRecords.familyMembers = members.length;
+
+            // Members share the head's HMO and address, as `PatientService.updatePatient` keeps them.
+            const [merged] = await tx.select().from(patients).where(eq(patients.id, survivorId)).limit(1);
+            if (merged.isFamilyHead && (members.length > 0 || filledFields.includes('hmo') || filledFields.includes('address'))) {
+                await tx.update(patients).set({ hmo: merged.hmo, address: merged.address, updatedAt: new Date() })
+                    .where(eq(patients.familyId, survivorId));
+            }
+
+            const outstandingAfter = await ledgerService.recalculateOutstanding(survivorId, tx);
+            // Merges the duplicate itself survived would cascade away with it; they are now the survivor's history.
+            await tx.update(patientMerges).set({ survivorId }).where(eq(patientMerges.survivorId, duplicateId));
+            await tx.delete(patients).where(eq(patients.id, duplicateId));
+
+            const [audit] = await tx.insert(patientMerges).values({
+                survivorId,
+                mergedPatientId: duplicateId,
+                mergedPatientSnapshot: duplicate,
+                movedRecords,
+                filledFields,
+                outstandingBefore: survivor.outstanding,
+                outstandingAfter,
+                reason: reason || null,
+                mergedBy,
+            });
+            return { success: true, message: `${duplicate.name} was merged into ${survivor.name}.`, mergeId: audit.insertId };
+        });
+
+        if (!result.success || !result.mergeId) return { success: false, message: result.message };
+        const merge = await db.query.patientMerges.findFirst({ where: eq(patientMerges.id, result.mergeId) });
+        return { success: true, message: result.message, merge };
+    }
+
+    async getMergeHistory(patientId: number) {
+        return await db.query.patientMerges.findMany({
+            where: eq(patientMerges.survivorId, patientId),
+            orderBy: [desc(patientMerges.createdAt)],
+            with: { mergedByUser: { columns: { id: true, username: true } } },
+        });
+    }
+}
+
+export const patientMergeService = new PatientMergeService();
@@ -0,0 +1,276 @@
+// src/services/paymentAllocation.service.ts
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { invoices, invoiceItems, payments, paymentAllocations } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+
+// The smallest thing a payment can settle: an invoice line, or a whole invoice when it has no lines.
+export interface OpenBalanceUnit {
+    patientId: number;
+    invoiceId: number;
+    invoiceNumber: string;
+    invoiceDate: Date;
+    invoiceItemId: number | null;
+    description: string;
+    due: number;
+    remaining: number;
+}
+
+export interface AllocationRequest {
+    invoiceItemId?: number | null;
+    invoiceId?: number;
+    amount: number | string;
+}
+
+export interface AgeingBuckets {
+    '0-30': number;
+    '31-60': number;
+    '61-90': number;
+    '90+': number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class PaymentAllocationService {
+
+    /**
+     * Lists every issued invoice line of a patient with what is still owed on it.
+     * Invoice-level allocations (no line) are spread over the invoice's lines oldest first.
+     * @param patientId The patient whose invoices should be inspected, or several (e.g. a household).
+     * @param executor Pass the open transaction when called from inside one.
+     * @param invoiceId Restrict the result to a single invoice.
+     */
+    async getOpenBalanceUnits(patientId: number | number[], executor: DbExecutor = db, invoiceId?: number): Promise<OpenBalanceUnit[]> {
+        const invoiceRows = await executor.select()
+            .from(invoices)
+            .where(and(
+                Array.isArray(patientId) ? inArray(invoices.patientId, patientId) : eq(invoices.patientId, patientId),
+                eq(invoices.status, 'issued'),
+                invoiceId ? eq(invoices.id, invoiceId) : undefined,
+            ))
+            .orderBy(asc(invoices.invoiceDate), asc(invoices.id));
+        if (invoiceRows.length === 0) return [];
+
+        const invoiceIds = invoiceRows.map(inv => inv.id);
+        const lines = await executor.select()
+            .from(invoiceItems)
+            .where(inArray(invoiceItems.invoiceId, invoiceIds))
+            .orderBy(asc(invoiceItems.id));
+
+        const allocated = await executor
+            .select({
+                invoiceId: paymentAllocations.invoiceId,
+                invoiceItemId: paymentAllocations.invoiceItemId,
+                total: sql<string>`SUM(${paymentAllocations.amount})`,
+            })
+            .from(paymentAllocations)
+            .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+            .where(and(inArray(paymentAllocations.invoiceId, invoiceIds), eq(payments.status, 'completed')))
+            .groupBy(paymentAllocations.invoiceId, paymentAllocations.invoiceItemId);
+
+        const units: OpenBalanceUnit[] = [];
+        for (const invoice of invoiceRows) {
+            let invoiceLevelPaid = allocated
+                .filter(a => a.invoiceId === invoice.id && a.invoiceItemId === null)
+                .reduce((sum, a) => sum + parseFloat(a.total), 0);
+            const invoiceLines = lines.filter(line => line.invoiceId === invoice.id);
+
+            if (invoiceLines.length === 0) {
+                const due = parseFloat(invoice.totalDue);
+                units.push({
+                    patientId: invoice.patientId,
+                    invoiceId: invoice.id,
+                    invoiceNumber: invoice.invoiceNumber,
+                    invoiceDate: invoice.invoiceDate,
+                    invoiceItemId: null,
+                    description: invoice.notes || invoice.invoiceNumber,
+                    due,
+                    remaining: round2(due - invoiceLevelPaid),
+                });
+                continue;
+            }
+
+            for (const line of invoiceLines) {
+                const due = parseFloat(line.patientShare);
+                const linePaid = allocated
+                    .filter(a => a.invoiceItemId === line.id)
+                    .reduce((sum, a) => sum + parseFloat(a.total), 0);
+                let remaining = due - linePaid;
+                const absorbed = Math.min(Math.max(remaining, 0), invoiceLevelPaid);
+                remaining -= absorbed;
+                invoiceLevelPaid -= absorbed;
+                units.push({
+                    patientId: invoice.patientId,
+                    invoiceId: invoice.id,
+                    invoiceNumber: invoice.invoiceNumber,
+                    invoiceDate: invoice.invoiceDate,
+                    invoiceItemId: line.id,
+                    description: line.description,
+                    due,
+                    remaining: round2(remaining),
+                });
+            }
+        }
+        return units;
+    }
+
+    /**
+     * Splits a recorded payment across invoice lines and stores the allocation rows.
+     * Explicit `allocations` are validated against what each line still owes; otherwise the payment
+     * settles the oldest open lines first (limited to `invoiceId` when given).
+     * Any amount left over stays unallocated as credit on the patient's account.
+     * Pass `patientIds` to let the payment settle other patients' invoices too (a family head paying for the household).
+     * @returns The allocation rows written, or an error message if the explicit split is invalid.
+     */
+    async allocatePayment(
+        payment: { id: number; patientId: number; amount: number },
+        options: { invoiceId?: number | null; allocations?: AllocationRequest[]; patientIds?: number[] },
+        tx: DbExecutor,
+    ): Promise<{ success: boolean; message?: string; allocations?: { invoiceId: number; invoiceItemId: number | null; amount: number }[] }> {
+        const units = await this.getOpenBalanceUnits(options.patientIds ?? payment.patientId, tx, options.invoiceId ?? undefined);
+        const rows: { invoiceId: number; invoiceItemId: number | null; amount: number }[] = [];
+
+        if (options.allocations && options.allocations.length > 0) {
+            let total = 0;
+            for (const requested of options.allocations) {
+                const amount = round2(parseFloat(String(requested.amount)));
+                if (isNaN(amount) || amount <= 0) return { success: false, message: 'Each allocation must have a positive amount.' };
+
+                const unit = requested.invoiceItemId
+                    ? units.find(u => u.invoiceItemId === requested.invoiceItemId)
+                    : units.find(u => u.invoiceId === requested.invoiceId && u.invoiceItemId === null);
+                if (!unit) return { success: false, message: `Allocation target not found among this ${options.patientIds ? 'family' : 'patient'}'s open invoices.` };
+                if (amount > unit.remaining) {
+                    return { success: false, message: `Allocation of ${amount.toFixed(2)} exceeds the ${unit.remaining.toFixed(2)} still owed on "${unit.description}".` };
+                }
+                unit.remaining = round2(unit.remaining - amount);
+                total += amount;
+                rows.push({ invoiceId: unit.invoiceId, invoiceItemId: unit.invoiceItemId, amount });
+            }
+            if (round2(total) > round2(payment.amount)) return { success: false, message: 'Allocations exceed the amount paid.' };
+        } else {
+            let left = payment.amount;
+            for (const unit of units) {
+                if (left <= 0) break;
+                if (unit.remaining <= 0) continue;
+                const amount = round2(Math.min(unit.remaining, left));
+                rows.push({ invoiceId: unit.invoiceId, invoiceItemId: unit.invoiceItemId, amount });
+                left = round2(left - amount);
+            }
+        }
+
+        if (rows.length > 0) {
+            await tx.insert(paymentAllocations).values(rows.map(row => ({
+                paymentId: payment.id,
+                invoiceId: row.invoiceId,
+                invoiceItemId: row.invoiceItemId,
+                amount: row.amount.toFixed(2),
+            })));
+        }
+        return { success: true, allocations: rows };
+    }
+
+    /**
+     * True when completed payments still leave money allocated to (or recorded against) the invoice,
+     * i.e. after netting off any refunds.
+     */
+    async invoiceHasPayments(invoiceId: number, executor: DbExecutor = db): Promise<boolean> {
+        const [allocated] = await executor.select({ total: sql<string>`COALESCE(SUM(${paymentAllocations.amount}), 0)` })
+            .from(paymentAllocations)
+            .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+            .where(and(eq(paymentAllocations.invoiceId, invoiceId), eq(payments.status, 'completed')));
+        if (parseFloat(allocated?.total || '0') > 0) return true;
+
+        const [recorded] = await executor.select({ total: sql<string>`COALESCE(SUM(${payments.amount}), 0)` })
+            .from(payments)
+            .where(and(eq(payments.invoiceId, invoiceId), eq(payments.status, 'completed')));
+        return parseFloat(recorded?.total || '0') > 0;
+    }
+
+    /**
+     * Writes negative allocations for a refund so the invoice lines a receipt paid are owed again.
+     * Money the receipt left unallocated (credit on account) is given back first; after that the
+     * receipt's allocations are unwound most recent line first.
+     * @param receiptId The receipt being refunded or voided.
+     * @param refundPaymentId The compensating (negative) payment the reversal belongs to.
+     * @param amount The positive amount being refunded.
+     * @param tx The open transaction recording the refund.
+     */
+    async reverseReceiptAllocations(receiptId: number, refundPaymentId: number, amount: number, tx: DbExecutor) {
+        const receiptPayments = await tx.select({ id: payments.id, amount: payments.amount })
+            .from(payments)
+            .where(and(eq(payments.receiptId, receiptId), eq(payments.status, 'completed')));
+        if (receiptPayments.length === 0) return [];
+
+        const netAllocations = await tx
+            .select({
+                invoiceId: paymentAllocations.invoiceId,
+                invoiceItemId: paymentAllocations.invoiceItemId,
+                total: sql<string>`SUM(${paymentAllocations.amount})`,
+                lastId: sql<number>`MAX(${paymentAllocations.id})`,
+            })
+            .from(paymentAllocations)
+            .where(inArray(paymentAllocations.paymentId, receiptPayments.map(p => p.id)))
+            .groupBy(paymentAllocations.invoiceId, paymentAllocations.invoiceItemId);
+
+        const paid = receiptPayments.reduce((sum, p) => sum + parseFloat(p.amount), 0);
+        const allocatedTotal = netAllocations.reduce((sum, a) => sum + parseFloat(a.total), 0);
+        let left = round2(amount - Math.max(round2(paid - allocatedTotal), 0));
+
+        const rows: { invoiceId: number; invoiceItemId: number | null; amount: number }[] = [];
+        for (const allocation of [...netAllocations].sort((a, b) => Number(b.lastId) - Number(a.lastId))) {
+            if (left <= 0) break;
+            const open = round2(parseFloat(allocation.total));
+            if (open <= 0) continue;
+            const reversed = round2(Math.min(open, left));
+            rows.push({ invoiceId: allocation.invoiceId, invoiceItemId: allocation.invoiceItemId, amount: -reversed });
+            left = round2(left - reversed);
+        }
+
+        if (rows.length > 0) {
+            await tx.insert(paymentAllocations).values(rows.map(row => ({
+                paymentId: refundPaymentId,
+                invoiceId: row.invoiceId,
+                invoiceItemId: row.invoiceItemId,
+                amount: row.amount.toFixed(2),
+            })));
+        }
+        return rows;
+    }
+
+    /**
+     * Buckets each patient's unpaid invoice balances by age (days since the invoice date).
+     * Credit that is not allocated to any invoice is reported separately.
+     */
+    async getAgeingByPatient(patientIds: number[]) {
+        const result = new Map<number, { ageing: AgeingBuckets; unallocatedCredit: number }>();
+        const now = Date.now();
+
+        for (const patientId of patientIds) {
+            const ageing: AgeingBuckets = { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+            const units = await this.getOpenBalanceUnits(patientId);
+            for (const unit of units) {
+                if (unit.remaining <= 0) continue;
+                const ageInDays = Math.floor((now - new Date(unit.invoiceDate).getTime()) / (24 * 60 * 60 * 1000));
+                const bucket: keyof AgeingBuckets = ageInDays <= 30 ? '0-30' : ageInDays <= 60 ? '31-60' : ageInDays <= 90 ? '61-90' : '90+';
+                ageing[bucket] = round2(ageing[bucket] + unit.remaining);
+            }
+
+            const [paid] = await db.select({ total: sql<string>`COALESCE(SUM(${payments.amount}), 0)` })
+                .from(payments)
+                .where(and(eq(payments.patientId, patientId), eq(payments.status, 'completed')));
+            const [allocatedTotal] = await db.select({ total: sql<string>`COALESCE(SUM(${paymentAllocations.amount}), 0)` })
+                .from(paymentAllocations)
+                .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+                .where(and(eq(payments.patientId, patientId), eq(payments.status, 'completed')));
+
+            result.set(patientId, {
+                ageing,
+                unallocatedCredit: round2(parseFloat(paid?.total || '0') - parseFloat(allocatedTotal?.total || '0')),
+            });
+        }
+        return result;
+    }
+}
+
+export const paymentAllocationService = new PaymentAllocationService();
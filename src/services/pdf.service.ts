@@ -0,0 +1,52 @@
+// src/services/pdf.service.ts
+import puppeteer, { Browser } from 'puppeteer';
+
+export class PdfService {
+    private browser: Promise<Browser> | null = null;
+
+    /**
+     * Launches headless Chrome on first use and keeps it for later renders.
+     * Set PUPPETEER_EXECUTABLE_PATH to use a system Chrome instead of the bundled download.
+     */
+    private async getBrowser(): Promise<Browser> {
+        if (!this.browser) {
+            this.browser = puppeteer.launch({
+                headless: true,
+                args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
+            }).then(browser => {
+                browser.on('disconnected', () => { this.browser = null; });
+                return browser;
+            }).catch(error => {
+                this.browser = null;
+                throw error;
+            });
+        }
+        return this.browser;
+    }
+
+    /**
+     * Prints a rendered Handlebars template to an A4 PDF.
+     * @param html The complete HTML document, e.g. from `EmailService.renderInvoiceHtml`.
+     * @returns The PDF file contents.
+     */
+    async htmlToPdf(html: string): Promise<Buffer> {
+        const browser = await this.getBrowser();
+        const page = await browser.newPage();
+        try {
+            // The templates pull a web font; don't let a slow font host block the document.
+            await page.setContent(html, { waitUntil: 'load', timeout: 15000 }).catch(error => {
+                console.warn('PDF render continued before all template assets loaded:', error.message);
+            });
+            const pdf = await page.pdf({
+                format: 'A4',
+                printBackground: true,
+                margin: { top: '12mm', bottom: '12mm', left: '10mm', right: '10mm' },
+            });
+            return Buffer.from(pdf);
+        } finally {
+            await page.close();
+        }
+    }
+}
+
+export const pdfService = new PdfService();
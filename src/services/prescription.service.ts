@@ -0,0 +1,232 @@
+// src/services/prescription.service.ts
+import { SQL, and, asc, desc, eq, inArray } from 'drizzle-orm';
+import { db } from '../config/database';
+import { drugs, prescriptions, prescriptionItems, dentalRecords, patients, users } from '../../db/schema';
+import { medicalHistoryService } from './medicalHistory.service';
+
+type DrugInsert = typeof drugs.$inferInsert;
+
+export interface PrescriptionItemInput {
+    drugId?: number | null;
+    drugName?: string;
+    dose?: string;
+    frequency?: string;
+    duration?: string;
+    instructions?: string | null;
+}
+
+export interface AllergyConflict {
+    drugName: string;
+    allergen: string;
+    severity: string;
+    reaction: string | null;
+}
+
+export interface AllergyCheck {
+    conflicts: AllergyConflict[];
+    // An allergy was flagged on a dental record but nobody recorded what to.
+    unspecifiedAllergy: boolean;
+}
+
+type ResolvedItem = { drugId: number | null; drugName: string; dose: string; frequency: string; duration: string; instructions: string | null; terms: string[] };
+
+const normalise = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// "Penicillin" matches a drug in the "penicillins" class and "Amoxicillin (penicillin)" alike.
+const matchesAllergen = (terms: string[], allergen: string) => {
+    const target = normalise(allergen);
+    if (target.length < 3) return false;
+    return terms.some(term => term.length >= 3 && (term.includes(target) || target.includes(term)));
+};
+
+const toClasses = (value: unknown): string[] => Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+
+export class PrescriptionService {
+
+    // --- DRUG CATALOGUE ---
+
+    async getDrugs(includeInactive: boolean = false) {
+        return await db.select().from(drugs)
+            .where(includeInactive ? undefined : eq(drugs.isActive, true))
+            .orderBy(asc(drugs.name));
+    }
+
+    async addDrug(drugData: DrugInsert) {
+        const [existing] = await db.select({ id: drugs.id }).from(drugs).where(eq(drugs.name, drugData.name)).limit(1);
+        if (existing) return { success: false, message: 'A drug with this name already exists.' };
+        const [inserted] = await db.insert(drugs).values(drugData);
+        const [drug] = await db.select().from(drugs).where(eq(drugs.id, inserted.insertId)).limit(1);
+        return { success: true, message: 'Drug added to the catalogue.', drug };
+    }
+
+    // Drugs are deactivated rather than deleted; past prescriptions keep their copy of the name.
+    async updateDrug(drugId: number, drugData: Partial<DrugInsert>) {
+        const [existing] = await db.select().from(drugs).where(eq(drugs.id, drugId)).limit(1);
+        if (!existing) return { success: false, message: 'Drug not found.' };
+        if (drugData.name && drugData.name !== existing.name) {
+            const [clash] = await db.select({ id: drugs.id }).from(drugs).where(eq(drugs.name, drugData.name)).limit(1);
+            if (clash) return { success: false, message: 'A drug with this name already exists.' };
+        }
+        await db.update(drugs).set({ ...drugData, updatedAt: new Date() }).where(eq(drugs.id, drugId));
+        const [drug] = await db.select().from(drugs).where(eq(drugs.id, drugId)).limit(1);
+        return { success: true, message: 'Drug updated.', drug };
+    }
+
+    // --- PRESCRIPTIONS ---
+
+    /**
+     * Fills each item from the catalogue: the drug's name, and its default dose, frequency and
+     * duration where the prescriber left them blank. Free-text drugs (no `drugId`) are allowed.
+     */
+    private async resolveItems(items: PrescriptionItemInput[]): Promise<{ success: true; items: ResolvedItem[] } | { success: false; message: string }> {
+        if (items.length === 0) return { success: false, message: 'A prescription needs at least one drug.' };
+        const drugIds = items.map(item => item.drugId).filter((id): id is number => !!id);
+        const catalogue = drugIds.length > 0 ? await db.select().from(drugs).where(inArray(drugs.id, drugIds)) : [];
+
+        const resolved: ResolvedItem[] = [];
+        for (const [index, item] of items.entries()) {
+            const drug = item.drugId ? catalogue.find(entry => entry.id === item.drugId) : undefined;
+            if (item.drugId && (!drug || !drug.isActive)) return { success: false, message: `Item ${index + 1}: drug not found in the catalogue.` };
+            const drugName = (item.drugName?.trim() || drug?.name || '').trim();
+            const dose = item.dose?.trim() || drug?.defaultDose || '';
+            const frequency = item.frequency?.trim() || drug?.defaultFrequency || '';
+            const duration = item.duration?.trim() || drug?.defaultDuration || '';
+            if (!drugName) return { success: false, message: `Item ${index + 1}: a drug is required.` };
+            if (!dose || !frequency || !duration) return { success: false, message: `Item ${index + 1}: dose, frequency and duration are required.` };
+            resolved.push({
+                drugId: drug?.id ?? null,
+                drugName,
+                dose,
+                frequency,
+                duration,
+                instructions: item.instructions?.trim() || null,
+                terms: [drugName, drug?.genericName, ...toClasses(drug?.allergenClasses)].filter((term): term is string => !!term).map(normalise),
+            });
+        }
+        return { success: true, items: resolved };
+    }
+
+    private async checkResolvedItems(patientId: number, items: ResolvedItem[]): Promise<AllergyCheck> {
+        const history = await medicalHistoryService.getMedicalHistory(patientId);
+        const allergies = (history?.allergies ?? []).filter(allergy => allergy.isActive);
+        const conflicts: AllergyConflict[] = [];
+        for (const item of items) {
+            for (const allergy of allergies) {
+                if (matchesAllergen(item.terms, allergy.allergen)) {
+                    conflicts.push({ drugName: item.drugName, allergen: allergy.allergen, severity: allergy.severity, reaction: allergy.reaction });
+                }
+            }
+        }
+        return {
+            conflicts,
+            unspecifiedAllergy: allergies.length === 0 && !!history?.conditions.includes('allergy_reported'),
+        };
+    }
+
+    /**
+     * Checks drugs against the patient's recorded allergies before prescribing them.
+     */
+    async checkAllergies(patientId: number, items: PrescriptionItemInput[]) {
+        const resolved = await this.resolveItems(items);
+        if (resolved.success === false) return resolved;
+        return { success: true as const, ...(await this.checkResolvedItems(patientId, resolved.items)) };
+    }
+
+    /**
+     * Writes a prescription against a dental record. A drug matching one of the patient's active
+     * allergies is refused unless the prescriber gives `allergyOverrideReason`, which is kept with it.
+     */
+    async createPrescription(input: { dentalRecordId: number; items: PrescriptionItemInput[]; notes?: string | null; allergyOverrideReason?: string | null; prescribedBy: number }) {
+        const [record] = await db.select({ id: dentalRecords.id, patientId: dentalRecords.patientId, deletedAt: dentalRecords.deletedAt })
+            .from(dentalRecords).where(eq(dentalRecords.id, input.dentalRecordId)).limit(1);
+        if (!record || record.deletedAt) return { success: false, message: 'Dental record not found.' };
+
+        const resolved = await this.resolveItems(input.items);
+        if (resolved.success === false) return resolved;
+
+        const allergyCheck = await this.checkResolvedItems(record.patientId, resolved.items);
+        const overrideReason = input.allergyOverrideReason?.trim() || null;
+        if (allergyCheck.conflicts.length > 0 && !overrideReason) {
+            const allergens = [...new Set(allergyCheck.conflicts.map(conflict => conflict.allergen))].join(', ');
+            return { success: false, message: `Prescription conflicts with the patient's recorded allergies (${allergens}). Give an override reason to prescribe anyway.`, allergyCheck };
+        }
+
+        const prescriptionId = await db.transaction(async (tx) => {
+            const [inserted] = await tx.insert(prescriptions).values({
+                dentalRecordId: record.id,
+                patientId: record.patientId,
+                prescribedBy: input.prescribedBy,
+                notes: input.notes || null,
+                allergyOverrideReason: allergyCheck.conflicts.length > 0 ? overrideReason : null,
+            });
+            await tx.insert(prescriptionItems).values(resolved.items.map(({ terms, ...item }) => ({ ...item, prescriptionId: inserted.insertId })));
+            return inserted.insertId;
+        });
+        return { success: true, message: 'Prescription created.', prescription: await this.getPrescriptionById(prescriptionId), allergyCheck };
+    }
+
+    // Prescriptions with their prescriber, patient name and items, newest first.
+    private async loadPrescriptions(where: SQL | undefined) {
+        const rows = await db.select({
+                id: prescriptions.id,
+                dentalRecordId: prescriptions.dentalRecordId,
+                patientId: prescriptions.patientId,
+                patientName: patients.name,
+                prescribedBy: prescriptions.prescribedBy,
+                prescriberName: users.username,
+                notes: prescriptions.notes,
+                allergyOverrideReason: prescriptions.allergyOverrideReason,
+                emailedAt: prescriptions.emailedAt,
+                createdAt: prescriptions.createdAt,
+            })
+            .from(prescriptions)
+            .leftJoin(patients, eq(prescriptions.patientId, patients.id))
+            .leftJoin(users, eq(prescriptions.prescribedBy, users.id))
+            .where(where)
+            .orderBy(desc(prescriptions.createdAt));
+        if (rows.length === 0) return [];
+
+        const items = await db.select().from(prescriptionItems)
+            .where(inArray(prescriptionItems.prescriptionId, rows.map(row => row.id)))
+            .orderBy(asc(prescriptionItems.id));
+        return rows.map(row => ({ ...row, items: items.filter(item => item.prescriptionId === row.id) }));
+    }
+
+    async getPrescriptions(filters: { patientId?: number; dentalRecordId?: number }) {
+        return await this.loadPrescriptions(and(
+            filters.patientId ? eq(prescriptions.patientId, filters.patientId) : undefined,
+            filters.dentalRecordId ? eq(prescriptions.dentalRecordId, filters.dentalRecordId) : undefined,
+        ));
+    }
+
+    async getPrescriptionById(prescriptionId: number) {
+        const [prescription] = await this.loadPrescriptions(eq(prescriptions.id, prescriptionId));
+        return prescription ?? null;
+    }
+
+    async markPrescriptionSent(prescriptionId: number) {
+        await db.update(prescriptions).set({ emailedAt: new Date() }).where(eq(prescriptions.id, prescriptionId));
+    }
+
+    /**
+     * Maps a stored prescription onto the payload shape `EmailService.renderPrescriptionHtml` expects,
+     * with the patient's active allergies printed for the dispensing pharmacist.
+     */
+    async toEmailPayload(prescription: NonNullable<Awaited<ReturnType<PrescriptionService['getPrescriptionById']>>>) {
+        const [patient] = await db.select().from(patients).where(eq(patients.id, prescription.patientId)).limit(1);
+        const history = await medicalHistoryService.getMedicalHistory(prescription.patientId);
+        return {
+            prescriptionNumber: `RX-${String(prescription.id).padStart(6, '0')}`,
+            prescriptionDate: prescription.createdAt.toISOString().split('T')[0],
+            patientName: prescription.patientName,
+            patientSex: patient?.sex,
+            patientDateOfBirth: patient?.dateOfBirth ? patient.dateOfBirth.toISOString().split('T')[0] : null,
+            prescriberName: prescription.prescriberName,
+            allergies: (history?.allergies ?? []).filter(allergy => allergy.isActive).map(allergy => allergy.allergen),
+            items: prescription.items,
+            notes: prescription.notes,
+        };
+    }
+}
+
+export const prescriptionService = new PrescriptionService();
@@ -0,0 +1,222 @@
+// src/services/receipt.service.ts
+import { and, eq, desc, gt, TransactionRollbackError } from 'drizzle-orm';
+import { db } from '../config/database';
+import { receipts, payments, invoices, patients } from '../../db/schema';
+import { ledgerService } from './ledger.service';
+import { paymentAllocationService, AllocationRequest } from './paymentAllocation.service';
+import { invoiceService, InvoiceItemInput } from './invoice.service';
+import { sequenceService } from './sequence.service';
+import { familyAccountService } from './familyAccount.service';
+
+export interface NewReceiptData {
+    patientId: number;
+    receiptDate: Date;
+    amountPaid: number | string;
+    paymentMethod: string;
+    // Either settle an existing invoice...
+    invoiceId?: number | null;
+    // ...or bill the items on the receipt itself (the original single-step receipt flow).
+    items?: InvoiceItemInput[];
+    subtotal?: number | string;
+    totalDueFromPatient?: number | string;
+    isHmoCovered?: boolean;
+    hmoProviderId?: number | null;
+    hmoName?: string | null;
+    coveredAmount?: number | string;
+    // Explicit split of the payment across invoice lines; defaults to oldest-first.
+    allocations?: AllocationRequest[];
+    // A family head paying for the household: the payment may settle any member's invoices.
+    payForFamily?: boolean;
+    notes?: string | null;
+    createdBy?: number | null;
+}
+
+export class ReceiptService {
+
+    /**
+     * Records a receipt and the payment it evidences in one transaction, then allocates the payment
+     * against invoice lines (see `PaymentAllocationService.allocatePayment`).
+     * When no `invoiceId` is supplied but the receipt carries items or a total due, those are billed
+     * as a new invoice first, which keeps the old "charge and pay in one go" behaviour.
+     * A receipt with neither is a payment on account and settles the patient's oldest debts.
+     * With `payForFamily`, a family head's payment settles the whole household's debts (or the lines
+     * named in `allocations`), and the receipt shows the household's remaining balance.
+     */
+    async createReceipt(data: NewReceiptData) {
+        const amountPaid = Number(data.amountPaid || 0);
+        if (!Number.isFinite(amountPaid) || amountPaid < 0) return { success: false, message: 'Amount paid must be zero or a positive number.' };
+
+        // Set just before rolling back, so the failure can be reported once the transaction has unwound.
+        let rollbackMessage = '';
+        let result: { success: boolean; message?: string; receiptId?: number };
+        try {
+            result = await db.transaction(async (tx) => {
+                const [patient] = await tx.select({ id: patients.id }).from(patients).where(eq(patients.id, data.patientId)).limit(1);
+                if (!patient) return { success: false, message: 'Patient not found.' };
+
+                let householdIds: number[] | undefined;
+                if (data.payForFamily) {
+                    householdIds = await familyAccountService.getPayableHouseholdIds(data.patientId, tx) ?? undefined;
+                    if (!householdIds) return { success: false, message: 'Only a family head can pay for the family.' };
+                }
+
+                let invoiceId = data.invoiceId ?? null;
+                let billsInvoice = false;
+                if (invoiceId) {
+                    const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1);
+                    const payable = householdIds ? householdIds : [data.patientId];
+                    if (!invoice || !payable.includes(invoice.patientId)) return { success: false, message: `Invoice not found for this ${householdIds ? 'family' : 'patient'}.` };
+                    if (invoice.status === 'void') return { success: false, message: 'Cannot record a payment against a void invoice.' };
+                } else if ((data.items && data.items.length > 0) || parseFloat(String(data.totalDueFromPatient || 0)) > 0) {
+                    const invoiceResult = await invoiceService.createInvoice({
+                        patientId: data.patientId,
+                        invoiceDate: data.receiptDate,
+                        items: data.items || [],
+                        subtotal: data.subtotal,
+                        isHmoCovered: data.isHmoCovered,
+                        hmoProviderId: data.hmoProviderId,
+                        hmoName: data.hmoName,
+                        coveredAmount: data.coveredAmount,
+                        totalDue: data.totalDueFromPatient ?? 0,
+                        createdBy: data.createdBy,
+                    }, tx);
+                    if (!invoiceResult.success || !invoiceResult.invoice) return { success: false, message: invoiceResult.message };
+                    invoiceId = invoiceResult.invoice.id;
+                    billsInvoice = true;
+                }
+
+                const receiptNumber = await sequenceService.allocateNumber('receipt', data.receiptDate, tx);
+                const [inserted] = await tx.insert(receipts).values({
+                    receiptNumber,
+                    patientId: data.patientId,
+                    invoiceId,
+                    billsInvoice,
+                    createdBy: data.createdBy ?? null,
+                    receiptDate: data.receiptDate,
+                    amountPaid: amountPaid.toFixed(2),
+                    paymentMethod: data.paymentMethod,
+                    notes: data.notes || null,
+                });
+                const receiptId = inserted.insertId;
+
+                if (amountPaid > 0) {
+                    const [paymentInserted] = await tx.insert(payments).values({
+                        patientId: data.patientId,
+                        receiptId,
+                        invoiceId,
+                        amount: amountPaid.toFixed(2),
+                        method: data.paymentMethod,
+                        recordedBy: data.createdBy ?? null,
+                        paidAt: data.receiptDate,
+                    });
+
+                    const allocation = await paymentAllocationService.allocatePayment(
+                        { id: paymentInserted.insertId, patientId: data.patientId, amount: amountPaid },
+                        { invoiceId, allocations: data.allocations, patientIds: householdIds },
+                        tx,
+                    );
+                    if (!allocation.success) {
+                        rollbackMessage = allocation.message ?? 'Invalid payment allocation.';
+                        tx.rollback();
+                    }
+                    await ledgerService.recalculateForInvoices((allocation.allocations ?? []).map(row => row.invoiceId), tx);
+                }
+
+                let outstandingAfter = await ledgerService.recalculateOutstanding(data.patientId, tx);
+                if (householdIds) outstandingAfter = await familyAccountService.householdOutstanding(householdIds, tx);
+                await tx.update(receipts).set({ outstandingAfter }).where(eq(receipts.id, receiptId));
+
+                return { success: true, receiptId };
+            });
+        } catch (error) {
+            if (error instanceof TransactionRollbackError) return { success: false, message: rollbackMessage };
+            throw error;
+        }
+
+        if (!result.success || !result.receiptId) return { success: false, message: result.message };
+        return { success: true, receipt: await this.getReceiptById(result.receiptId) };
+    }
+
+    async getReceipts(patientId?: number) {
+        return await db.query.receipts.findMany({
+            where: patientId ? eq(receipts.patientId, patientId) : undefined,
+            orderBy: [desc(receipts.receiptDate), desc(receipts.id)],
+            with: {
+                patient: { columns: { id: true, name: true } },
+                invoice: { columns: { id: true, invoiceNumber: true, totalDue: true } },
+            },
+        });
+    }
+
+    async getReceiptById(receiptId: number) {
+        const receipt = await db.query.receipts.findFirst({
+            where: eq(receipts.id, receiptId),
+            with: {
+                patient: { columns: { id: true, name: true } },
+                creator: { columns: { id: true, username: true } },
+                invoice: { with: { items: true } },
+                payments: true,
+            },
+        });
+        return receipt ?? null;
+    }
+
+    /**
+     * Only descriptive fields can be edited; amounts are corrected by voiding or refunding the receipt.
+     */
+    async updateReceipt(receiptId: number, updateData: { notes?: string | null; paymentMethod?: string }) {
+        const [existing] = await db.select().from(receipts).where(eq(receipts.id, receiptId)).limit(1);
+        if (!existing) return { success: false, message: 'Receipt not found.' };
+
+        await db.transaction(async (tx) => {
+            await tx.update(receipts).set({ ...updateData, updatedAt: new Date() }).where(eq(receipts.id, receiptId));
+            if (updateData.paymentMethod !== undefined) {
+                // Refund payments keep the method the money was returned by.
+                await tx.update(payments)
+                    .set({ method: updateData.paymentMethod })
+                    .where(and(eq(payments.receiptId, receiptId), gt(payments.amount, '0')));
+            }
+        });
+
+        return { success: true, message: 'Receipt updated successfully.', receipt: await this.getReceiptById(receiptId) };
+    }
+
+    async markReceiptSent(receiptId: number) {
+        const [existing] = await db.select({ sentCount: receipts.sentCount }).from(receipts).where(eq(receipts.id, receiptId)).limit(1);
+        if (!existing) return;
+        await db.update(receipts)
+            .set({ lastSentAt: new Date(), sentCount: existing.sentCount + 1 })
+            .where(eq(receipts.id, receiptId));
+    }
+
+    /**
+     * Maps a stored receipt onto the payload shape `EmailService.sendReceiptEmail` expects.
+     */
+    toEmailPayload(receipt: NonNullable<Awaited<ReturnType<ReceiptService['getReceiptById']>>>, extras: { patientEmail?: string | null; latestDentalRecord?: any } = {}) {
+        const invoice = receipt.invoice;
+        return {
+            patientId: receipt.patientId,
+            receiptNumber: receipt.receiptNumber,
+            receiptDate: receipt.receiptDate.toISOString().split('T')[0],
+            patientName: receipt.patient?.name,
+            patientEmail: extras.patientEmail || undefined,
+            items: invoice ? invoice.items.map(item => ({
+                description: item.description,
+                quantity: item.quantity,
+                unitPrice: item.unitPrice,
+                totalPrice: item.totalPrice,
+            })) : [],
+            subtotal: invoice?.subtotal ?? '0.00',
+            isHmoCovered: invoice?.isHmoCovered ?? false,
+            hmoName: invoice?.hmoName,
+            coveredAmount: invoice?.coveredAmount ?? '0.00',
+            totalDueFromPatient: invoice?.totalDue ?? '0.00',
+            amountPaid: receipt.amountPaid,
+            paymentMethod: receipt.paymentMethod,
+            outstanding: receipt.outstandingAfter,
+            latestDentalRecord: extras.latestDentalRecord || null,
+        };
+    }
+}
+
+export const receiptService = new ReceiptService();
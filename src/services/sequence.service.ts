@@ -0,0 +1,48 @@
+// src/services/sequence.service.ts
+import { and, eq, sql } from 'drizzle-orm';
+import { documentSequences } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+import { settingsService } from './settings.service';
+
+export type SequencedDocument = 'invoice' | 'receipt' | 'credit_note';
+
+export class SequenceService {
+
+    /**
+     * Allocates the next number for a document type, e.g. `PDC-INV-2026-000123`.
+     * Must be called with the transaction that inserts the document: the counter row is locked
+     * with SELECT ... FOR UPDATE until that transaction ends, and rolled back along with it,
+     * so concurrent front desk tabs never share a number and failed inserts leave no gaps.
+     * @param documentType Which counter to advance.
+     * @param documentDate The document's date; the counter restarts every calendar year.
+     * @param tx The open transaction creating the document.
+     */
+    async allocateNumber(documentType: SequencedDocument, documentDate: Date, tx: DbExecutor): Promise<string> {
+        const year = documentDate.getFullYear();
+
+        // Make sure the counter row exists without clobbering a concurrent insert of the same row.
+        await tx.insert(documentSequences)
+            .values({ documentType, year, lastValue: 0 })
+            .onDuplicateKeyUpdate({ set: { lastValue: sql`${documentSequences.lastValue}` } });
+
+        const [sequence] = await tx.select()
+            .from(documentSequences)
+            .where(and(eq(documentSequences.documentType, documentType), eq(documentSequences.year, year)))
+            .for('update');
+
+        const nextValue = sequence.lastValue + 1;
+        await tx.update(documentSequences)
+            .set({ lastValue: nextValue })
+            .where(eq(documentSequences.id, sequence.id));
+
+        const numbering = await settingsService.getNumberingSettings();
+        const prefix = {
+            invoice: numbering.invoicePrefix,
+            receipt: numbering.receiptPrefix,
+            credit_note: numbering.creditNotePrefix,
+        }[documentType];
+        return `${prefix}-${year}-${String(nextValue).padStart(numbering.padLength, '0')}`;
+    }
+}
+
+export const sequenceService = new SequenceService();
@@ -3,6 +3,53 @@ import { db } from '../config/database';
 import { settings } from '../../db/schema';
 
 const SETTINGS_NAME = 'dashboardPermissions';
+const NUMBERING_SETTINGS_NAME = 'documentNumbering';
+
+export interface DocumentNumberingConfig {
+    invoicePrefix: string;
+    receiptPrefix: string;
+    creditNotePrefix: string;
+    padLength: number;
+}
+
+const DEFAULT_NUMBERING_CONFIG: DocumentNumberingConfig = {
+    invoicePrefix: 'PDC-INV',
+    receiptPrefix: 'PDC-RCT',
+    creditNotePrefix: 'PDC-CRN',
+    padLength: 6,
+};
+
+// Permissions for a fresh install, and the fallback for keys added after a clinic's settings row was saved.
+const DEFAULT_PERMISSIONS_CONFIG: Record<string, Record<string, string[]>> = {
+    dashboard: {
+        canSeePatientManagement: ['staff', 'nurse', 'doctor'],
+        canSeeDoctorSchedule: ['staff', 'doctor'],
+        canSeeAppointments: ['staff'],
+        canSeeInventoryManagement: ['staff'],
+        canSeeStaffManagement: [],
+        canSeeMyProfile: ['staff', 'nurse', 'doctor'],
+        canSeeAllInventoryTransactions: ['staff'],
+        canSeeRevenueReport: [],
+    },
+    patientManagement: {
+        canSeeContactDetails: ['staff'],
+        canEditBio: ['staff'],
+        canAddDentalRecord: ['staff', 'doctor', 'nurse'],
+        canSignOffDentalRecord: ['doctor'],
+        canDeleteDentalRecord: [], // Dental records are soft-deleted with a reason; owner-only by default
+        canSendInvoice: ['staff', 'nurse'],
+        canSendReceipt: ['staff', 'nurse'],
+        canIssueRefund: [], // Voiding or refunding a receipt is owner-only by default
+        canSetAppointment: ['staff', 'nurse'],
+        canSeeNextAppointment: ['staff', 'doctor', 'nurse'],
+    },
+    // --- NEW: Inventory management action permissions ---
+    inventoryManagement: {
+        canAddItem: ['staff'],
+        canEditItem: [], // Default to owner-only by being empty
+        canRecordTransaction: ['staff', 'nurse', 'doctor'],
+    }
+};
 
 export class SettingsService {
 
@@ -13,37 +60,9 @@ export class SettingsService {
             });
 
             if (!currentSettings) {
-                const initialConfig = {
-                    dashboard: {
-                        canSeePatientManagement: ['staff', 'nurse', 'doctor'],
-                        canSeeDoctorSchedule: ['staff', 'doctor'],
-                        canSeeAppointments: ['staff'],
-                        canSeeInventoryManagement: ['staff'],
-                        canSeeStaffManagement: [],
-                        canSeeMyProfile: ['staff', 'nurse', 'doctor'],
-                        canSeeAllInventoryTransactions: ['staff'],
-                        canSeeRevenueReport: [],
-                    },
-                    patientManagement: {
-                        canSeeContactDetails: ['staff'],
-                        canEditBio: ['staff'],
-                        canAddDentalRecord: ['staff', 'doctor', 'nurse'],
-                        canSendInvoice: ['staff', 'nurse'],
-                        canSendReceipt: ['staff', 'nurse'],
-                        canSetAppointment: ['staff', 'nurse'],
-                        canSeeNextAppointment: ['staff', 'doctor', 'nurse'],
-                    },
-                    // --- NEW: Inventory management action permissions ---
-                    inventoryManagement: {
-                        canAddItem: ['staff'],
-                        canEditItem: [], // Default to owner-only by being empty
-                        canRecordTransaction: ['staff', 'nurse', 'doctor'],
-                    }
-                };
-                
                 await db.insert(settings).values({
                     name: SETTINGS_NAME,
-                    config: initialConfig,
+                    config: DEFAULT_PERMISSIONS_CONFIG,
                 });
 
                 currentSettings = await db.query.settings.findFirst({
@@ -83,6 +102,49 @@ export class SettingsService {
             throw new Error('Could not update settings.');
         }
     }
+
+    /**
+     * Checks a role against one of the permission lists in the dashboard settings.
+     * The owner is always allowed. A permission missing from an older settings row falls back to its default.
+     * @param section The settings section, e.g. 'patientManagement'.
+     * @param permission The permission key within that section, e.g. 'canIssueRefund'.
+     * @param role The role of the user attempting the action.
+     */
+    async hasPermission(section: string, permission: string, role: string): Promise<boolean> {
+        if (role === 'owner') return true;
+        const config = await this.getSettings();
+        const allowedRoles = config?.[section]?.[permission] ?? DEFAULT_PERMISSIONS_CONFIG[section]?.[permission];
+        return Array.isArray(allowedRoles) && allowedRoles.includes(role);
+    }
+
+    /**
+     * Returns the prefixes used when allocating invoice, receipt and credit note numbers.
+     * Stored in its own settings row so the dashboard permission editor cannot overwrite it.
+     */
+    async getNumberingSettings(): Promise<DocumentNumberingConfig> {
+        try {
+            const row = await db.query.settings.findFirst({
+                where: eq(settings.name, NUMBERING_SETTINGS_NAME),
+            });
+            return { ...DEFAULT_NUMBERING_CONFIG, ...((row?.config as Partial<DocumentNumberingConfig>) ?? {}) };
+        } catch (error) {
+            console.error('Error fetching numbering settings:', error);
+            throw new Error('Could not retrieve numbering settings.');
+        }
+    }
+
+    async updateNumberingSettings(newConfig: Partial<DocumentNumberingConfig>): Promise<DocumentNumberingConfig> {
+        try {
+            const merged = { ...(await this.getNumberingSettings()), ...newConfig };
+            await db.insert(settings)
+                .values({ name: NUMBERING_SETTINGS_NAME, config: merged })
+                .onDuplicateKeyUpdate({ set: { config: merged, updatedAt: new Date() } });
+            return merged;
+        } catch (error) {
+            console.error('Error updating numbering settings:', error);
+            throw new Error('Could not update numbering settings.');
+        }
+    }
 }
 
 export const settingsService = new SettingsService();
@@ -0,0 +1,329 @@
+// src/services/treatmentPlan.service.ts
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import { db } from '../config/database';
+import { treatmentPlans, treatmentPlanProcedures, serviceItems, patients, dentalRecords, invoiceItems, invoices } from '../../db/schema';
+import { DbExecutor } from './ledger.service';
+import { invoiceService } from './invoice.service';
+import { isFdiTooth } from './odontogram.service';
+import { consentService } from './consent.service';
+
+export type ProcedureStatus = 'proposed' | 'accepted' | 'in_progress' | 'completed' | 'declined';
+
+export const PROCEDURE_STATUSES: ProcedureStatus[] = ['proposed', 'accepted', 'in_progress', 'completed', 'declined'];
+
+// Where a procedure may go next. Completed work is final; a declined procedure can be proposed again.
+const STATUS_TRANSITIONS: Record<ProcedureStatus, ProcedureStatus[]> = {
+    proposed: ['accepted', 'declined'],
+    accepted: ['in_progress', 'completed', 'declined'],
+    in_progress: ['completed'],
+    completed: [],
+    declined: ['proposed'],
+};
+
+// Procedures in these states have not been started, so their details can still change.
+const EDITABLE_STATUSES: ProcedureStatus[] = ['proposed', 'accepted', 'declined'];
+
+export interface ProcedureInput {
+    serviceItemId: number;
+    tooth?: number | null;
+    // Defaults to the service name and current service price.
+    description?: string | null;
+    price?: number | string | null;
+    sequence?: number;
+    notes?: string | null;
+}
+
+export interface NewTreatmentPlanData {
+    patientId: number;
+    dentalRecordId?: number | null;
+    title: string;
+    notes?: string | null;
+    procedures?: ProcedureInput[];
+    createdBy?: number | null;
+}
+
+export interface PlanInvoiceOptions {
+    // Defaults to every completed procedure not billed yet.
+    procedureIds?: number[];
+    invoiceDate?: Date;
+    isHmoCovered?: boolean;
+    hmoProviderId?: number | null;
+    hmoName?: string | null;
+    coveredAmount?: number | string;
+    notes?: string | null;
+    createdBy?: number | null;
+}
+
+type ProcedureRow = typeof treatmentPlanProcedures.$inferInsert;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class TreatmentPlanService {
+
+    /**
+     * Checks procedure input against the service list and FDI numbering and builds the rows to insert.
+     */
+    private async buildProcedureRows(planId: number, inputs: ProcedureInput[], executor: DbExecutor): Promise<{ success: true; rows: ProcedureRow[] } | { success: false; message: string }> {
+        const serviceIds = [...new Set(inputs.map(input => Number(input.serviceItemId)))];
+        if (serviceIds.some(id => isNaN(id))) return { success: false, message: 'Each procedure needs a valid service item ID.' };
+        const services = serviceIds.length > 0
+            ? await executor.select().from(serviceItems).where(inArray(serviceItems.id, serviceIds))
+            : [];
+
+        const rows: ProcedureRow[] = [];
+        for (const [index, input] of inputs.entries()) {
+            const service = services.find(s => s.id === Number(input.serviceItemId));
+            if (!service) return { success: false, message: `Service item ${input.serviceItemId} not found.` };
+            const tooth = input.tooth === undefined || input.tooth === null ? null : Number(input.tooth);
+            if (tooth !== null && !isFdiTooth(tooth)) return { success: false, message: `${input.tooth} is not a valid FDI tooth number.` };
+            const price = input.price === undefined || input.price === null ? parseFloat(service.price) : parseFloat(String(input.price));
+            if (isNaN(price) || price < 0) return { success: false, message: `Price for ${service.name} must be zero or more.` };
+
+            rows.push({
+                planId,
+                serviceItemId: service.id,
+                tooth,
+                description: input.description?.trim() || service.name,
+                price: round2(price).toFixed(2),
+                sequence: input.sequence ?? index,
+                notes: input.notes || null,
+            });
+        }
+        return { success: true, rows };
+    }
+
+    private summarise(procedures: (typeof treatmentPlanProcedures.$inferSelect)[]) {
+        const total = (statuses: ProcedureStatus[]) => round2(procedures
+            .filter(p => statuses.includes(p.status))
+            .reduce((sum, p) => sum + parseFloat(p.price), 0)).toFixed(2);
+        return {
+            // Everything not declined: the figure quoted to the patient.
+            estimatedTotal: total(['proposed', 'accepted', 'in_progress', 'completed']),
+            acceptedTotal: total(['accepted', 'in_progress', 'completed']),
+            completedTotal: total(['completed']),
+            uninvoicedCompleted: procedures.filter(p => p.status === 'completed' && p.invoiceItemId === null).length,
+            isOpen: procedures.some(p => ['proposed', 'accepted', 'in_progress'].includes(p.status)),
+        };
+    }
+
+    async getPlans(patientId?: number) {
+        const plans = await db.query.treatmentPlans.findMany({
+            where: patientId ? eq(treatmentPlans.patientId, patientId) : undefined,
+            orderBy: [desc(treatmentPlans.createdAt)],
+            with: {
+                patient: { columns: { id: true, name: true } },
+                procedures: { orderBy: [asc(treatmentPlanProcedures.sequence), asc(treatmentPlanProcedures.id)] },
+            },
+        });
+        return plans.map(plan => ({ ...plan, ...this.summarise(plan.procedures) }));
+    }
+
+    async getPlanById(planId: number, executor: DbExecutor = db) {
+        const plan = await executor.query.treatmentPlans.findFirst({
+            where: eq(treatmentPlans.id, planId),
+            with: {
+                patient: { columns: { id: true, name: true } },
+                creator: { columns: { id: true, username: true } },
+                procedures: {
+                    orderBy: [asc(treatmentPlanProcedures.sequence), asc(treatmentPlanProcedures.id)],
+                    with: { invoiceItem: { columns: { id: true, invoiceId: true } } },
+                },
+            },
+        });
+        return plan ? { ...plan, ...this.summarise(plan.procedures) } : null;
+    }
+
+    async createPlan(data: NewTreatmentPlanData) {
+        const result = await db.transaction(async (tx) => {
+            const [patient] = await tx.select({ id: patients.id }).from(patients).where(eq(patients.id, data.patientId)).limit(1);
+            if (!patient) return { success: false, message: 'Patient not found.' };
+            if (data.dentalRecordId) {
+                const [record] = await tx.select({ patientId: dentalRecords.patientId }).from(dentalRecords).where(eq(dentalRecords.id, data.dentalRecordId)).limit(1);
+                if (!record || record.patientId !== data.patientId) return { success: false, message: 'Dental record not found for this patient.' };
+            }
+
+            const built = await this.buildProcedureRows(0, data.procedures ?? [], tx);
+            if (built.success === false) return { success: false, message: built.message };
+
+            const [inserted] = await tx.insert(treatmentPlans).values({
+                patientId: data.patientId,
+                dentalRecordId: data.dentalRecordId ?? null,
+                title: data.title,
+                notes: data.notes || null,
+                createdBy: data.createdBy ?? null,
+            });
+            if (built.rows.length > 0) {
+                await tx.insert(treatmentPlanProcedures).values(built.rows.map(row => ({ ...row, planId: inserted.insertId })));
+            }
+            return { success: true, planId: inserted.insertId };
+        });
+
+        if (!result.success || !result.planId) return { success: false, message: result.message };
+        return { success: true, message: 'Treatment plan created successfully.', plan: await this.getPlanById(result.planId) };
+    }
+
+    async updatePlan(planId: number, data: { title?: string; notes?: string | null }) {
+        const [plan] = await db.select({ id: treatmentPlans.id }).from(treatmentPlans).where(eq(treatmentPlans.id, planId)).limit(1);
+        if (!plan) return { success: false, message: 'Treatment plan not found.' };
+        await db.update(treatmentPlans).set({
+            ...(data.title !== undefined ? { title: data.title } : {}),
+            ...(data.notes !== undefined ? { notes: data.notes || null } : {}),
+            updatedAt: new Date(),
+        }).where(eq(treatmentPlans.id, planId));
+        return { success: true, message: 'Treatment plan updated successfully.', plan: await this.getPlanById(planId) };
+    }
+
+    // Only plans where no work has started can be deleted; otherwise decline what is left.
+    async deletePlan(planId: number) {
+        const plan = await this.getPlanById(planId);
+        if (!plan) return { success: false, message: 'Treatment plan not found.' };
+        if (plan.procedures.some(p => !EDITABLE_STATUSES.includes(p.status))) {
+            return { success: false, message: 'Cannot delete a plan with procedures in progress or completed. Decline the remaining procedures instead.' };
+        }
+        await db.delete(treatmentPlans).where(eq(treatmentPlans.id, planId));
+        return { success: true, message: 'Treatment plan deleted successfully.' };
+    }
+
+    async addProcedures(planId: number, inputs: ProcedureInput[]) {
+        const [plan] = await db.select({ id: treatmentPlans.id }).from(treatmentPlans).where(eq(treatmentPlans.id, planId)).limit(1);
+        if (!plan) return { success: false, message: 'Treatment plan not found.' };
+        const built = await this.buildProcedureRows(planId, inputs, db);
+        if (built.success === false) return { success: false, message: built.message };
+        if (built.rows.length > 0) await db.insert(treatmentPlanProcedures).values(built.rows);
+        return { success: true, message: 'Procedures added to the treatment plan.', plan: await this.getPlanById(planId) };
+    }
+
+    async updateProcedure(planId: number, procedureId: number, data: { tooth?: number | null; description?: string; price?: number | string; sequence?: number; notes?: string | null }) {
+        const [procedure] = await db.select().from(treatmentPlanProcedures)
+            .where(and(eq(treatmentPlanProcedures.id, procedureId), eq(treatmentPlanProcedures.planId, planId)))
+            .limit(1);
+        if (!procedure) return { success: false, message: 'Procedure not found on this plan.' };
+        if (!EDITABLE_STATUSES.includes(procedure.status)) return { success: false, message: `A procedure that is ${procedure.status.replace('_', ' ')} cannot be edited.` };
+
+        const update: Partial<ProcedureRow> = { updatedAt: new Date() };
+        if (data.tooth !== undefined) {
+            if (data.tooth !== null && !isFdiTooth(Number(data.tooth))) return { success: false, message: `${data.tooth} is not a valid FDI tooth number.` };
+            update.tooth = data.tooth === null ? null : Number(data.tooth);
+        }
+        if (data.price !== undefined) {
+            const price = parseFloat(String(data.price));
+            if (isNaN(price) || price < 0) return { success: false, message: 'Price must be zero or more.' };
+            update.price = round2(price).toFixed(2);
+        }
+        if (data.description !== undefined && data.description.trim()) update.description = data.description.trim();
+        if (data.sequence !== undefined) update.sequence = data.sequence;
+        if (data.notes !== undefined) update.notes = data.notes || null;
+
+        await db.update(treatmentPlanProcedures).set(update).where(eq(treatmentPlanProcedures.id, procedureId));
+        return { success: true, message: 'Procedure updated successfully.', plan: await this.getPlanById(planId) };
+    }
+
+    async removeProcedure(planId: number, procedureId: number) {
+        const [procedure] = await db.select().from(treatmentPlanProcedures)
+            .where(and(eq(treatmentPlanProcedures.id, procedureId), eq(treatmentPlanProcedures.planId, planId)))
+            .limit(1);
+        if (!procedure) return { success: false, message: 'Procedure not found on this plan.' };
+        if (!EDITABLE_STATUSES.includes(procedure.status)) return { success: false, message: 'Procedures that have been started cannot be removed.' };
+        await db.delete(treatmentPlanProcedures).where(eq(treatmentPlanProcedures.id, procedureId));
+        return { success: true, message: 'Procedure removed from the treatment plan.', plan: await this.getPlanById(planId) };
+    }
+
+    /**
+     * Moves a procedure along proposed -> accepted -> in progress -> completed, or to declined.
+     * Completing a procedure records who did it and when, and needs signed consent on file for
+     * procedures that call for it (see `ConsentService.checkProcedureConsent`).
+     */
+    async setProcedureStatus(planId: number, procedureId: number, status: ProcedureStatus, userId: number | null) {
+        const [procedure] = await db.select().from(treatmentPlanProcedures)
+            .where(and(eq(treatmentPlanProcedures.id, procedureId), eq(treatmentPlanProcedures.planId, planId)))
+            .limit(1);
+        if (!procedure) return { success: false, message: 'Procedure not found on this plan.' };
+        if (!STATUS_TRANSITIONS[procedure.status].includes(status)) {
+            return { success: false, message: `Cannot change a procedure from ${procedure.status.replace('_', ' ')} to ${status.replace('_', ' ')}.` };
+        }
+        if (status === 'completed') {
+            const consentCheck = await consentService.checkProcedureConsent(procedureId);
+            if (consentCheck?.required && !consentCheck.consent) {
+                return { success: false, message: `Signed ${consentCheck.procedureType!.replace('_', ' ')} consent is required before this procedure can be marked completed.` };
+            }
+        }
+
+        await db.update(treatmentPlanProcedures).set({
+            status,
+            ...(status === 'completed' ? { completedAt: new Date(), completedBy: userId } : {}),
+            updatedAt: new Date(),
+        }).where(eq(treatmentPlanProcedures.id, procedureId));
+        return { success: true, message: `Procedure marked as ${status.replace('_', ' ')}.`, plan: await this.getPlanById(planId) };
+    }
+
+    /**
+     * Bills completed procedures: creates one invoice with a line per procedure, priced at the
+     * quoted price (or the HMO contract, when one applies), and links each procedure to its line.
+     * Procedures whose earlier invoice was voided are billable again.
+     */
+    async invoiceCompletedProcedures(planId: number, options: PlanInvoiceOptions = {}) {
+        const result = await db.transaction(async (tx) => {
+            const [plan] = await tx.select().from(treatmentPlans).where(eq(treatmentPlans.id, planId)).limit(1);
+            if (!plan) return { success: false, message: 'Treatment plan not found.' };
+
+            const procedures = await tx.select({ procedure: treatmentPlanProcedures, invoiceStatus: invoices.status })
+                .from(treatmentPlanProcedures)
+                .leftJoin(invoiceItems, eq(treatmentPlanProcedures.invoiceItemId, invoiceItems.id))
+                .leftJoin(invoices, eq(invoiceItems.invoiceId, invoices.id))
+                .where(eq(treatmentPlanProcedures.planId, planId))
+                .orderBy(asc(treatmentPlanProcedures.sequence), asc(treatmentPlanProcedures.id))
+                .for('update');
+
+            const billable = procedures
+                .filter(({ procedure, invoiceStatus }) => procedure.status === 'completed' && (procedure.invoiceItemId === null || invoiceStatus === 'void'))
+                .map(({ procedure }) => procedure);
+            const selected = options.procedureIds ? billable.filter(p => options.procedureIds!.includes(p.id)) : billable;
+            if (options.procedureIds && selected.length !== options.procedureIds.length) {
+                return { success: false, message: 'Only completed procedures on this plan that have not been invoiced can be billed.' };
+            }
+            if (selected.length === 0) return { success: false, message: 'There are no completed procedures left to invoice.' };
+
+            const subtotal = round2(selected.reduce((sum, p) => sum + parseFloat(p.price), 0));
+            const covered = options.isHmoCovered ? round2(parseFloat(String(options.coveredAmount ?? 0)) || 0) : 0;
+            if (covered < 0 || covered > subtotal) return { success: false, message: 'Covered amount must be between zero and the invoice subtotal.' };
+
+            const created = await invoiceService.createInvoice({
+                patientId: plan.patientId,
+                invoiceDate: options.invoiceDate ?? new Date(),
+                items: selected.map(p => ({
+                    serviceItemId: p.serviceItemId,
+                    description: p.tooth ? `${p.description} (tooth ${p.tooth})` : p.description,
+                    quantity: 1,
+                    unitPrice: p.price,
+                })),
+                subtotal,
+                isHmoCovered: !!options.isHmoCovered,
+                hmoProviderId: options.hmoProviderId,
+                hmoName: options.hmoName,
+                coveredAmount: covered,
+                totalDue: round2(subtotal - covered),
+                notes: options.notes ?? `Treatment plan: ${plan.title}`,
+                createdBy: options.createdBy ?? null,
+            }, tx);
+            if (!created.success || !created.invoice) return { success: false, message: created.message };
+
+            // Lines are inserted in procedure order, so the nth line belongs to the nth procedure.
+            const lines = [...created.invoice.items].sort((a, b) => a.id - b.id);
+            for (const [index, procedure] of selected.entries()) {
+                await tx.update(treatmentPlanProcedures).set({ invoiceItemId: lines[index].id, updatedAt: new Date() })
+                    .where(eq(treatmentPlanProcedures.id, procedure.id));
+            }
+            return { success: true, invoiceId: created.invoice.id };
+        });
+
+        if (!result.success || !result.invoiceId) return { success: false, message: result.message };
+        return {
+            success: true,
+            message: 'Completed procedures invoiced successfully.',
+            invoice: await invoiceService.getInvoiceById(result.invoiceId),
+            plan: await this.getPlanById(planId),
+        };
+    }
+}
+
+export const treatmentPlanService = new TreatmentPlanService();
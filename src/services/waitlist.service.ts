@@ -0,0 +1,489 @@
+// src/services/waitlist.service.ts
+import { createHash, randomBytes } from 'crypto';
+import { and, asc, desc, eq, gt, inArray, lt, ne } from 'drizzle-orm';
+import { db } from '../config/database';
+import { appointments, patients, users, waitlistEntries, waitlistOffers } from '../../db/schema';
+import { appointmentService, ACTIVE_APPOINTMENT_STATUSES } from './appointment.service';
+import { isDateKey, isTimeOfDay, toDateKey } from './availability.service';
+import { emailService } from './email.service';
+
+export const WAITLIST_STATUSES = ['waiting', 'booked', 'removed'] as const;
+export type WaitlistStatus = typeof WAITLIST_STATUSES[number];
+
+export const DEFAULT_OFFER_HOURS = 24;
+export const MAX_WAITLIST_CANDIDATES = 5;
+
+export interface WaitlistEntryInput {
+    patientId: number;
+    preferredDoctorId?: number | null;
+    procedure?: string | null;
+    preferredDays?: number[] | null; // 0 = Sunday
+    earliestTime?: string | null; // "HH:mm"
+    latestTime?: string | null;
+    availableUntil?: string | null; // YYYY-MM-DD
+    priority?: number;
+    notes?: string | null;
+}
+
+export interface WaitlistCandidate {
+    entryId: number;
+    patientId: number;
+    patientName: string | null;
+    hasEmail: boolean;
+    procedure: string | null;
+    priority: number;
+    waitingSince: Date;
+    matches: ('doctor' | 'day' | 'time' | 'procedure')[];
+}
+
+/** The slot a cancelled appointment freed. */
+export interface FreedSlot {
+    appointmentId: number;
+    doctorId: number | null;
+    doctorName: string | null;
+    chair: string | null;
+    procedure: string | null;
+    startTime: Date;
+    endTime: Date;
+}
+
+export interface OfferRequest {
+    appointmentId: number; // The cancelled booking whose slot is offered
+    entryIds: number[];
+    sendEmail?: boolean;
+    expiresInHours?: number;
+}
+
+export interface CreatedOffer {
+    offerId: number;
+    entryId: number;
+    patientName: string | null;
+    token: string;
+    offerUrl: string | null; // Null when WAITLIST_OFFER_URL is not set
+    emailed: boolean;
+    emailError: string | null;
+}
+
+type OfferStatus = typeof waitlistOffers.$inferSelect['status'];
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const timeOfDay = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const sameProcedure = (a: string | null, b: string | null) =>
+    !!a && !!b && (a.toLowerCase().includes(b.toLowerCase()) || b.toLowerCase().includes(a.toLowerCase()));
+
+// The page on the clinic website that shows an offer and calls the public accept/decline endpoints.
+const offerUrl = (token: string) => {
+    const base = process.env.WAITLIST_OFFER_URL;
+    return base ? `${base}${base.includes('?') ? '&' : '?'}token=${token}` : null;
+};
+
+export class WaitlistService {
+
+    // --- ENTRIES ---
+
+    // Returns an error message, or null.
+    private validateEntry(input: Partial<WaitlistEntryInput>): string | null {
+        if (input.preferredDays && (!Array.isArray(input.preferredDays) || input.preferredDays.some(day => !Number.isInteger(day) || day < 0 || day > 6))) {
+            return 'Preferred days must be days of the week, 0 (Sunday) to 6 (Saturday).';
+        }
+        if ((input.earliestTime && !isTimeOfDay(input.earliestTime)) || (input.latestTime && !isTimeOfDay(input.latestTime))) {
+            return 'Earliest and latest times must be in HH:mm format.';
+        }
+        if (input.earliestTime && input.latestTime && input.earliestTime >= input.latestTime) return 'The earliest time must be before the latest.';
+        if (input.availableUntil && !isDateKey(input.availableUntil)) return 'availableUntil must be in YYYY-MM-DD format.';
+        if (input.priority !== undefined && !Number.isInteger(input.priority)) return 'Priority must be a whole number.';
+        return null;
+    }
+
+    async getEntries(filters: { status?: WaitlistStatus; patientId?: number; doctorId?: number } = {}) {
+        return await db.select({
+                id: waitlistEntries.id,
+                patientId: waitlistEntries.patientId,
+                patientName: patients.name,
+                preferredDoctorId: waitlistEntries.preferredDoctorId,
+                preferredDoctorName: users.username,
+                procedure: waitlistEntries.procedure,
+                preferredDays: waitlistEntries.preferredDays,
+                earliestTime: waitlistEntries.earliestTime,
+                latestTime: waitlistEntries.latestTime,
+                availableUntil: waitlistEntries.availableUntil,
+                priority: waitlistEntries.priority,
+                notes: waitlistEntries.notes,
+                status: waitlistEntries.status,
+                bookedAppointmentId: waitlistEntries.bookedAppointmentId,
+                createdBy: waitlistEntries.createdBy,
+                createdAt: waitlistEntries.createdAt,
+                updatedAt: waitlistEntries.updatedAt,
+            })
+            .from(waitlistEntries)
+            .leftJoin(patients, eq(waitlistEntries.patientId, patients.id))
+            .leftJoin(users, eq(waitlistEntries.preferredDoctorId, users.id))
+            .where(and(
+                filters.status ? eq(waitlistEntries.status, filters.status) : undefined,
+                filters.patientId ? eq(waitlistEntries.patientId, filters.patientId) : undefined,
+                filters.doctorId ? eq(waitlistEntries.preferredDoctorId, filters.doctorId) : undefined,
+            ))
+            .orderBy(desc(waitlistEntries.priority), asc(waitlistEntries.createdAt));
+    }
+
+    async getEntryById(entryId: number) {
+        const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, entryId)).limit(1);
+        return entry ?? null;
+    }
+
+    async addEntry(input: WaitlistEntryInput, createdBy: number) {
+        const invalid = this.validateEntry(input);
+        if (invalid) return { success: false, message: invalid };
+        const [patient] = await db.select({ id: patients.id }).from(patients).where(eq(patients.id, input.patientId)).limit(1);
+        if (!patient) return { success: false, message: 'Patient not found.' };
+        const procedure = input.procedure?.trim() || null;
+        const waiting = await db.select({ procedure: waitlistEntries.procedure }).from(waitlistEntries)
+            .where(and(eq(waitlistEntries.patientId, input.patientId), eq(waitlistEntries.status, 'waiting')));
+        if (waiting.some(entry => (entry.procedure ?? '').toLowerCase() === (procedure ?? '').toLowerCase())) {
+            return { success: false, message: 'This patient is already on the waiting list for this procedure.' };
+        }
+
+        const [inserted] = await db.insert(waitlistEntries).values({
+            patientId: input.patientId,
+            preferredDoctorId: input.preferredDoctorId ?? null,
+            procedure,
+            preferredDays: input.preferredDays?.length ? input.preferredDays : null,
+            earliestTime: input.earliestTime || null,
+            latestTime: input.latestTime || null,
+            availableUntil: input.availableUntil || null,
+            priority: input.priority ?? 0,
+            notes: input.notes || null,
+            createdBy,
+        });
+        return { success: true, message: 'Patient added to the waiting list.', entry: await this.getEntryById(inserted.insertId) };
+    }
+
+    async updateEntry(entryId: number, changes: Partial<Omit<WaitlistEntryInput, 'patientId'>>) {
+        const entry = await this.getEntryById(entryId);
+        if (!entry) return { success: false, message: 'Waiting list entry not found.' };
+        if (entry.status !== 'waiting') return { success: false, message: `This entry is ${entry.status} and can no longer be changed.` };
+        const invalid = this.validateEntry({
+            ...changes,
+            earliestTime: changes.earliestTime !== undefined ? changes.earliestTime : entry.earliestTime,
+            latestTime: changes.latestTime !== undefined ? changes.latestTime : entry.latestTime,
+        });
+        if (invalid) return { success: false, message: invalid };
+
+        await db.update(waitlistEntries).set({
+            ...(changes.preferredDoctorId !== undefined ? { preferredDoctorId: changes.preferredDoctorId } : {}),
+            ...(changes.procedure !== undefined ? { procedure: changes.procedure?.trim() || null } : {}),
+            ...(changes.preferredDays !== undefined ? { preferredDays: changes.preferredDays?.length ? changes.preferredDays : null } : {}),
+            ...(changes.earliestTime !== undefined ? { earliestTime: changes.earliestTime || null } : {}),
+            ...(changes.latestTime !== undefined ? { latestTime: changes.latestTime || null } : {}),
+            ...(changes.availableUntil !== undefined ? { availableUntil: changes.availableUntil || null } : {}),
+            ...(changes.priority !== undefined ? { priority: changes.priority } : {}),
+            ...(changes.notes !== undefined ? { notes: changes.notes || null } : {}),
+            updatedAt: new Date(),
+        }).where(eq(waitlistEntries.id, entryId));
+        return { success: true, message: 'Waiting list entry updated.', entry: await this.getEntryById(entryId) };
+    }
+
+    async removeEntry(entryId: number) {
+        const entry = await this.getEntryById(entryId);
+        if (!entry) return { success: false, message: 'Waiting list entry not found.' };
+        if (entry.status !== 'waiting') return { success: false, message: `This entry is already ${entry.status}.` };
+        await db.update(waitlistEntries).set({ status: 'removed', updatedAt: new Date() }).where(eq(waitlistEntries.id, entryId));
+        await db.update(waitlistOffers).set({ status: 'superseded' })
+            .where(and(eq(waitlistOffers.entryId, entryId), eq(waitlistOffers.status, 'pending')));
+        return { success: true, message: 'Patient removed from the waiting list.' };
+    }
+
+    // --- BACKFILL ---
+
+    /**
+     * The slot a cancelled appointment freed, and whether it can still be offered: it must be in
+     * the future, no longer held by the appointment, and not since taken by another booking.
+     */
+    private async loadFreedSlot(appointmentId: number) {
+        const appointment = await appointmentService.getAppointmentById(appointmentId);
+        if (!appointment) return null;
+        let problem: string | null = null;
+        if (ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) problem = 'The appointment still holds its slot.';
+        else if (appointment.startTime <= new Date()) problem = 'The slot has already passed.';
+        else {
+            const taken = await appointmentService.findConflicts(
+                { startTime: appointment.startTime, endTime: appointment.endTime, doctorId: appointment.doctorId, chair: appointment.chair },
+                { excludeId: appointment.id },
+            );
+            if (taken.length > 0) problem = 'The slot has been booked again.';
+        }
+        return { appointment, problem };
+    }
+
+    /**
+     * The best waitlisted patients for the slot a cancelled appointment freed. Entries whose
+     * preferred doctor, days, times or last useful day rule the slot out are skipped, as are
+     * patients already booked at that time. The rest are ranked by priority, then by how many of
+     * their preferences the slot meets, then by how long they have waited.
+     */
+    async findCandidates(appointmentId: number, limit = MAX_WAITLIST_CANDIDATES) {
+        const freed = await this.loadFreedSlot(appointmentId);
+        if (!freed) return { success: false, message: 'Appointment not found.' };
+        const { appointment, problem } = freed;
+        const slot: FreedSlot = {
+            appointmentId: appointment.id,
+            doctorId: appointment.doctorId,
+            doctorName: appointment.doctorName,
+            chair: appointment.chair,
+            procedure: appointment.procedure,
+            startTime: appointment.startTime,
+            endTime: appointment.endTime,
+        };
+        if (problem) return { success: true, message: problem, slot, available: false, candidates: [] as WaitlistCandidate[] };
+
+        const entries = await db.select({ entry: waitlistEntries, patientName: patients.name, patientEmail: patients.email })
+            .from(waitlistEntries)
+            .leftJoin(patients, eq(waitlistEntries.patientId, patients.id))
+            .where(and(eq(waitlistEntries.status, 'waiting'), ne(waitlistEntries.patientId, appointment.patientId)));
+        const busyPatients = entries.length === 0 ? [] : await db.select({ patientId: appointments.patientId }).from(appointments)
+            .where(and(
+                inArray(appointments.patientId, entries.map(row => row.entry.patientId)),
+                lt(appointments.startTime, slot.endTime),
+                gt(appointments.endTime, slot.startTime),
+                inArray(appointments.status, ACTIVE_APPOINTMENT_STATUSES),
+            ));
+
+        const slotDay = slot.startTime.getDay();
+        const slotStart = timeOfDay(slot.startTime);
+        const slotEnd = timeOfDay(slot.endTime);
+        const candidates: WaitlistCandidate[] = [];
+        for (const { entry, patientName, patientEmail } of entries) {
+            if (busyPatients.some(busy => busy.patientId === entry.patientId)) continue;
+            if (entry.availableUntil && entry.availableUntil < toDateKey(slot.startTime)) continue;
+            const matches: WaitlistCandidate['matches'] = [];
+            if (entry.preferredDoctorId) {
+                if (entry.preferredDoctorId !== slot.doctorId) continue;
+                matches.push('doctor');
+            }
+            if (entry.preferredDays?.length) {
+                if (!entry.preferredDays.includes(slotDay)) continue;
+                matches.push('day');
+            }
+            if (entry.earliestTime || entry.latestTime) {
+                if ((entry.earliestTime && slotStart < entry.earliestTime) || (entry.latestTime && slotEnd > entry.latestTime)) continue;
+                matches.push('time');
+            }
+            if (sameProcedure(entry.procedure, slot.procedure)) matches.push('procedure');
+            candidates.push({
+                entryId: entry.id,
+                patientId: entry.patientId,
+                patientName,
+                hasEmail: !!patientEmail,
+                procedure: entry.procedure,
+                priority: entry.priority,
+                waitingSince: entry.createdAt,
+                matches,
+            });
+        }
+        candidates.sort((a, b) => b.priority - a.priority || b.matches.length - a.matches.length || a.waitingSince.getTime() - b.waitingSince.getTime());
+        return { success: true, message: `${Math.min(candidates.length, limit)} candidate(s) found.`, slot, available: true, candidates: candidates.slice(0, limit) };
+    }
+
+    /**
+     * Candidates for several freed slots at once, e.g. the visits of a cancelled series. Slots that
+     * can no longer be offered, or that nobody on the list fits, are left out.
+     */
+    async findCandidatesForSlots(appointmentIds: number[], limit = MAX_WAITLIST_CANDIDATES) {
+        const proposals: { slot: FreedSlot; candidates: WaitlistCandidate[] }[] = [];
+        for (const appointmentId of appointmentIds) {
+            const result = await this.findCandidates(appointmentId, limit);
+            if (result.success && result.available && result.candidates.length > 0) proposals.push({ slot: result.slot, candidates: result.candidates });
+        }
+        return proposals;
+    }
+
+    /**
+     * Offers a freed slot to waitlisted patients. Each offer gets its own link; with `sendEmail`,
+     * patients with an email address are sent theirs. The first to accept gets the slot. Offers
+     * expire after `expiresInHours`, or when the slot starts if that is sooner.
+     */
+    async createOffers(request: OfferRequest, createdBy: number) {
+        const freed = await this.loadFreedSlot(request.appointmentId);
+        if (!freed) return { success: false, message: 'Appointment not found.' };
+        if (freed.problem) return { success: false, message: freed.problem };
+        if (request.sendEmail && !process.env.WAITLIST_OFFER_URL) {
+            return { success: false, message: 'Offer emails need WAITLIST_OFFER_URL set to the clinic website\'s offer page.' };
+        }
+        const entries = request.entryIds.length === 0 ? [] : await db.select({ entry: waitlistEntries, patientName: patients.name, patientEmail: patients.email })
+            .from(waitlistEntries)
+            .leftJoin(patients, eq(waitlistEntries.patientId, patients.id))
+            .where(and(inArray(waitlistEntries.id, request.entryIds), eq(waitlistEntries.status, 'waiting')));
+        if (entries.length !== new Set(request.entryIds).size) return { success: false, message: 'Waiting list entry not found, or no longer waiting.' };
+
+        const { appointment } = freed;
+        const hours = request.expiresInHours ?? DEFAULT_OFFER_HOURS;
+        const expiresAt = new Date(Math.min(Date.now() + hours * 60 * 60 * 1000, appointment.startTime.getTime()));
+        const offers: CreatedOffer[] = [];
+        for (const { entry, patientName, patientEmail } of entries) {
+            const token = randomBytes(32).toString('hex');
+            const [inserted] = await db.insert(waitlistOffers).values({
+                entryId: entry.id,
+                sourceAppointmentId: appointment.id,
+                doctorId: appointment.doctorId,
+                chair: appointment.chair,
+                procedure: entry.procedure ?? appointment.procedure,
+                startTime: appointment.startTime,
+                endTime: appointment.endTime,
+                tokenHash: hashToken(token),
+                expiresAt,
+                createdBy,
+            });
+            const url = offerUrl(token);
+            let emailed = false;
+            let emailError: string | null = null;
+            if (request.sendEmail && patientEmail && url) {
+                try {
+                    await emailService.sendWaitlistOffer(patientEmail, {
+                        patientName: patientName ?? 'Patient',
+                        appointmentDate: appointment.startTime,
+                        doctorName: appointment.doctorName,
+                        procedure: entry.procedure ?? appointment.procedure,
+                        offerUrl: url,
+                        expiresAt,
+                    });
+                    await db.update(waitlistOffers).set({ emailedAt: new Date() }).where(eq(waitlistOffers.id, inserted.insertId));
+                    emailed = true;
+                } catch (error: any) {
+                    console.error(`Error emailing waitlist offer ${inserted.insertId}: ${error.message}`);
+                    emailError = error.message;
+                }
+            }
+            // The token is only ever shown here, so staff can pass the link on another way.
+            offers.push({ offerId: inserted.insertId, entryId: entry.id, patientName, token, offerUrl: url, emailed, emailError });
+        }
+        const emailedCount = offers.filter(offer => offer.emailed).length;
+        return {
+            success: true,
+            message: `${offers.length} offer${offers.length === 1 ? '' : 's'} created${request.sendEmail ? `, ${emailedCount} emailed` : ''}.`,
+            expiresAt,
+            offers,
+        };
+    }
+
+    async getOffers(filters: { appointmentId?: number; entryId?: number } = {}) {
+        const rows = await db.select({
+                id: waitlistOffers.id,
+                entryId: waitlistOffers.entryId,
+                patientId: waitlistEntries.patientId,
+                patientName: patients.name,
+                sourceAppointmentId: waitlistOffers.sourceAppointmentId,
+                doctorId: waitlistOffers.doctorId,
+                chair: waitlistOffers.chair,
+                procedure: waitlistOffers.procedure,
+                startTime: waitlistOffers.startTime,
+                endTime: waitlistOffers.endTime,
+                status: waitlistOffers.status,
+                expiresAt: waitlistOffers.expiresAt,
+                emailedAt: waitlistOffers.emailedAt,
+                respondedAt: waitlistOffers.respondedAt,
+                bookedAppointmentId: waitlistOffers.bookedAppointmentId,
+                createdAt: waitlistOffers.createdAt,
+            })
+            .from(waitlistOffers)
+            .leftJoin(waitlistEntries, eq(waitlistOffers.entryId, waitlistEntries.id))
+            .leftJoin(patients, eq(waitlistEntries.patientId, patients.id))
+            .where(and(
+                filters.appointmentId ? eq(waitlistOffers.sourceAppointmentId, filters.appointmentId) : undefined,
+                filters.entryId ? eq(waitlistOffers.entryId, filters.entryId) : undefined,
+            ))
+            .orderBy(desc(waitlistOffers.createdAt));
+        const now = new Date();
+        return rows.map(row => ({ ...row, status: row.status === 'pending' && row.expiresAt <= now ? 'expired' : row.status }));
+    }
+
+    // --- PUBLIC OFFER LINK ---
+
+    // The offer behind a link, with only what the offer page needs: no contact details.
+    async getPublicOffer(token: string) {
+        const [row] = await db.select({ offer: waitlistOffers, patientName: patients.name, doctorName: users.username })
+            .from(waitlistOffers)
+            .innerJoin(waitlistEntries, eq(waitlistOffers.entryId, waitlistEntries.id))
+            .leftJoin(patients, eq(waitlistEntries.patientId, patients.id))
+            .leftJoin(users, eq(waitlistOffers.doctorId, users.id))
+            .where(eq(waitlistOffers.tokenHash, hashToken(token)))
+            .limit(1);
+        if (!row) return null;
+        const { offer } = row;
+        return {
+            patientFirstName: row.patientName?.split(' ')[0] ?? null,
+            doctorName: row.doctorName,
+            procedure: offer.procedure,
+            startTime: offer.startTime,
+            endTime: offer.endTime,
+            status: offer.status === 'pending' && offer.expiresAt <= new Date() ? 'expired' : offer.status,
+            expiresAt: offer.expiresAt,
+        };
+    }
+
+    // Why a pending offer can't be answered, or null.
+    private offerClosed(offer: { status: OfferStatus; expiresAt: Date }) {
+        if (offer.status === 'superseded') return 'Sorry, this slot is no longer available.';
+        if (offer.status !== 'pending') return `This offer has already been ${offer.status}.`;
+        if (offer.expiresAt <= new Date()) return 'This offer has expired.';
+        return null;
+    }
+
+    /**
+     * Books the offered slot for the patient, confirmed, and takes them off the waiting list. The
+     * slot's other offers are withdrawn. If the slot has been taken meanwhile, the offer is withdrawn.
+     */
+    async acceptOffer(token: string) {
+        return await db.transaction(async (tx) => {
+            const [offer] = await tx.select().from(waitlistOffers).where(eq(waitlistOffers.tokenHash, hashToken(token))).for('update');
+            if (!offer) return { success: false, message: 'Offer not found.' };
+            const closed = this.offerClosed(offer);
+            if (closed) return { success: false, message: closed };
+            const [entry] = await tx.select().from(waitlistEntries).where(eq(waitlistEntries.id, offer.entryId)).for('update');
+            if (!entry || entry.status !== 'waiting') return { success: false, message: 'This offer is no longer open.' };
+
+            const booking = await appointmentService.createAppointment({
+                patientId: entry.patientId,
+                doctorId: offer.doctorId,
+                chair: offer.chair,
+                procedure: offer.procedure,
+                startTime: offer.startTime,
+                endTime: offer.endTime,
+                notes: 'Booked from the waiting list.',
+            }, null, tx);
+            if (!booking.success || !booking.appointment) {
+                await tx.update(waitlistOffers).set({ status: 'superseded', respondedAt: new Date() }).where(eq(waitlistOffers.id, offer.id));
+                return { success: false, message: 'Sorry, this slot has just been taken.' };
+            }
+            const appointmentId = booking.appointment.id;
+            await appointmentService.updateAppointment(appointmentId, { status: 'confirmed', statusReason: 'Confirmed by the patient from a waiting list offer.' }, null, tx);
+
+            await tx.update(waitlistOffers).set({ status: 'accepted', respondedAt: new Date(), bookedAppointmentId: appointmentId }).where(eq(waitlistOffers.id, offer.id));
+            await tx.update(waitlistEntries).set({ status: 'booked', bookedAppointmentId: appointmentId, updatedAt: new Date() }).where(eq(waitlistEntries.id, entry.id));
+            await tx.update(waitlistOffers).set({ status: 'superseded' }).where(and(
+                eq(waitlistOffers.status, 'pending'),
+                ne(waitlistOffers.id, offer.id),
+                offer.sourceAppointmentId ? eq(waitlistOffers.sourceAppointmentId, offer.sourceAppointmentId) : eq(waitlistOffers.entryId, entry.id),
+            ));
+            return {
+                success: true,
+                message: 'Your appointment is confirmed.',
+                appointment: { startTime: offer.startTime, endTime: offer.endTime, doctorName: booking.appointment.doctorName, procedure: offer.procedure },
+            };
+        });
+    }
+
+    // The patient stays on the waiting list for later slots.
+    async declineOffer(token: string) {
+        const [offer] = await db.select().from(waitlistOffers).where(eq(waitlistOffers.tokenHash, hashToken(token))).limit(1);
+        if (!offer) return { success: false, message: 'Offer not found.' };
+        const closed = this.offerClosed(offer);
+        if (closed) return { success: false, message: closed };
+        await db.update(waitlistOffers).set({ status: 'declined', respondedAt: new Date() }).where(eq(waitlistOffers.id, offer.id));
+        return { success: true, message: 'Thank you for letting us know. You are still on the waiting list.' };
+    }
+}
+
+export const waitlistService = new WaitlistService();
@@ -0,0 +1,13 @@
+// src/utils/requestParams.ts
+
+/**
+ * Reads an optional numeric ID from a query string or request body.
+ * @returns null when the value is absent, NaN when it was given but is not a number.
+ */
+export const optionalId = (value: unknown) => (value === undefined || value === null || value === '' ? null : parseInt(value as string));
+
+/**
+ * Reads an optional date-time (ISO 8601) from a query string or request body.
+ * @returns undefined when the value is absent, an Invalid Date when it cannot be parsed.
+ */
+export const optionalDate = (value: unknown) => (value === undefined || value === null || value === '' ? undefined : new Date(value as string));
@@ -0,0 +1,77 @@
+// test/fakeDb.ts
+import { getTableColumns, Table, TransactionRollbackError } from 'drizzle-orm';
+import { drizzle } from 'drizzle-orm/mysql-proxy';
+import * as schema from '../db/schema';
+import type { db as Database } from '../src/config/database';
+
+type Method = 'all' | 'execute';
+
+export interface RecordedQuery {
+    sql: string;
+    params: unknown[];
+    method: Method;
+}
+
+interface Responder {
+    pattern: RegExp;
+    rows: unknown[][] | unknown[];
+}
+
+/**
+ * A stand-in for the MySQL connection. Queries are answered by the first scripted response whose
+ * pattern matches the SQL (each response is used once); anything else reads no rows and writes one.
+ * Every query is recorded, so tests can check what was written.
+ */
+export class FakeDb {
+    queries: RecordedQuery[] = [];
+    private responders: Responder[] = [];
+
+    readonly db = (() => {
+        const db = drizzle(async (sql, params, method) => {
+            this.queries.push({ sql, params, method });
+            const index = this.responders.findIndex(responder => responder.pattern.test(sql));
+            if (index >= 0) return { rows: this.responders.splice(index, 1)[0].rows };
+            return { rows: method === 'all' ? [] : [{ insertId: 1, affectedRows: 1 }] };
+        }, { schema });
+        // The proxy driver has no transactions; run the callback on the same connection instead.
+        const transaction = async <T>(callback: (tx: any) => Promise<T>): Promise<T> => {
+            const tx = Object.create(db, { rollback: { value: () => { throw new TransactionRollbackError(); } } });
+            return await callback(tx);
+        };
+        // Typed as the real connection so it can be passed wherever the services take an executor.
+        return Object.assign(db, { transaction }) as unknown as typeof Database;
+    })();
+
+    /** Answers the next query matching `pattern` with `rows` (one array of column values per row). */
+    respond(pattern: RegExp, rows: unknown[][]) {
+        this.responders.push({ pattern, rows });
+        return this;
+    }
+
+    /** Answers the next matching write with the given insert id and affected row count. */
+    respondWrite(pattern: RegExp, result: { insertId?: number; affectedRows?: number }) {
+        this.responders.push({ pattern, rows: [{ insertId: 0, affectedRows: 1, ...result }] });
+        return this;
+    }
+
+    /** A whole table row in column order, as `select()` reads it. Columns not given are null. */
+    row<T extends Table>(table: T, values: Partial<T['$inferSelect']>): unknown[] {
+        return Object.entries(getTableColumns(table)).map(([key, column]) => {
+            const value = (values as Record<string, unknown>)[key];
+            if (value === undefined) return null;
+            return value instanceof Date ? column.mapToDriverValue(value) : value;
+        });
+    }
+
+    /** The recorded queries whose SQL matches `pattern`. */
+    find(pattern: RegExp) {
+        return this.queries.filter(query => pattern.test(query.sql));
+    }
+
+    reset() {
+        this.queries = [];
+        this.responders = [];
+    }
+}
+
+export const fakeDb = new FakeDb();
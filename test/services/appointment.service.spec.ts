@@ -0,0 +1,78 @@
+// test/services/appointment.service.spec.ts
+import { fakeDb } from '../fakeDb';
+import { appointments } from '../../db/schema';
+import { appointmentService } from '../../src/services/appointment.service';
+
+jest.mock('../../src/config/database', () => ({ db: require('../fakeDb').fakeDb.db }));
+
+const at = (time: string) => new Date(`2026-10-20T${time}:00Z`);
+const slot = { startTime: at('10:00'), endTime: at('10:30'), doctorId: 3, chair: 'Chair 1', patientId: 7 };
+
+// A clashing appointment as findConflicts selects it.
+const clash = (values: { id: number; patientId: number; patientName: string; doctorId: number | null; chair: string | null; start: string; end: string }) => [
+    values.id, values.patientId, values.patientName, values.doctorId, values.chair,
+    appointments.startTime.mapToDriverValue(at(values.start)), appointments.endTime.mapToDriverValue(at(values.end)),
+];
+
+describe('AppointmentService.findConflicts', () => {
+    beforeEach(() => fakeDb.reset());
+
+    it('looks for active appointments that overlap the slot and share its doctor, chair or patient', async () => {
+        await appointmentService.findConflicts(slot);
+
+        const [query] = fakeDb.queries;
+        expect(query.sql).toMatch(/`appointments`.`start_time` < \? and `appointments`.`end_time` > \?/);
+        expect(query.sql).toMatch(/`appointments`.`status` in \(\?, \?, \?, \?\)/);
+        expect(query.sql).toMatch(/\(`appointments`.`doctor_id` = \? or `appointments`.`chair` = \? or `appointments`.`patient_id` = \?\)/);
+        expect(query.params).toEqual([
+            '2026-10-20 10:30:00.000', '2026-10-20 10:00:00.000',
+            'booked', 'confirmed', 'checked_in', 'in_chair',
+            3, 'Chair 1', 7,
+        ]);
+    });
+
+    it('reports which of the shared resources each appointment clashes on', async () => {
+        fakeDb.respond(/from `appointments`/, [
+            clash({ id: 1, patientId: 8, patientName: 'Ada', doctorId: 3, chair: 'Chair 2', start: '09:45', end: '10:15' }),
+            clash({ id: 2, patientId: 7, patientName: 'Bola', doctorId: 4, chair: 'Chair 1', start: '10:15', end: '11:00' }),
+        ]);
+
+        const conflicts = await appointmentService.findConflicts(slot);
+
+        expect(conflicts).toEqual([
+            { appointmentId: 1, patientId: 8, patientName: 'Ada', doctorId: 3, chair: 'Chair 2', startTime: at('09:45'), endTime: at('10:15'), clashesOn: ['doctor'] },
+            { appointmentId: 2, patientId: 7, patientName: 'Bola', doctorId: 4, chair: 'Chair 1', startTime: at('10:15'), endTime: at('11:00'), clashesOn: ['chair', 'patient'] },
+        ]);
+    });
+
+    it('only checks the resources the slot names', async () => {
+        await appointmentService.findConflicts({ startTime: slot.startTime, endTime: slot.endTime, chair: 'Chair 1' });
+
+        const [query] = fakeDb.queries;
+        const where = query.sql.split(' where ')[1];
+        expect(where).toMatch(/`appointments`.`chair` = \?/);
+        expect(where).not.toMatch(/doctor_id` =|patient_id` =/);
+    });
+
+    it('needs no query when the slot names no doctor, chair or patient', async () => {
+        expect(await appointmentService.findConflicts({ startTime: slot.startTime, endTime: slot.endTime })).toEqual([]);
+        expect(fakeDb.queries).toHaveLength(0);
+    });
+
+    it('leaves out the appointment being moved', async () => {
+        await appointmentService.findConflicts(slot, { excludeId: 42 });
+
+        const [query] = fakeDb.queries;
+        expect(query.sql).toMatch(/`appointments`.`id` <> \?/);
+        expect(query.params[query.params.length - 1]).toBe(42);
+    });
+
+    it('locks the clashing rows only when asked to', async () => {
+        await appointmentService.findConflicts(slot);
+        await appointmentService.findConflicts(slot, { lock: true }, fakeDb.db);
+
+        const [plain, locked] = fakeDb.queries;
+        expect(plain.sql).not.toMatch(/for update/);
+        expect(locked.sql).toMatch(/for update$/);
+    });
+});
@@ -0,0 +1,50 @@
+// test/services/dentalRecordSignOff.service.spec.ts
+import { fakeDb } from '../fakeDb';
+import { dentalRecords } from '../../db/schema';
+import { dentalRecordSignOffService } from '../../src/services/dentalRecordSignOff.service';
+import { dentalRecordHistoryService } from '../../src/services/dentalRecordHistory.service';
+
+jest.mock('../../src/config/database', () => ({ db: require('../fakeDb').fakeDb.db }));
+
+// Record 40 was written by user 5, whose role is given.
+const scriptRecord = (authorRole: string) => {
+    fakeDb
+        .respond(/from `dental_records` where .* for update/, [fakeDb.row(dentalRecords, { id: 40, patientId: 7, doctorId: 5 })])
+        .respond(/from `users` where/, [[authorRole]]);
+};
+
+describe('DentalRecordSignOffService.signOff', () => {
+    beforeEach(() => {
+        fakeDb.reset();
+        jest.spyOn(dentalRecordHistoryService, 'recordRevision').mockResolvedValue(undefined as never);
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    it('only lets the assigned doctor sign', async () => {
+        scriptRecord('doctor');
+
+        const result = await dentalRecordSignOffService.signOff(40, { userId: 8, role: 'doctor' });
+
+        expect(result).toEqual({ success: false, message: "Only the record's doctor can sign it off." });
+        expect(fakeDb.find(/^update `dental_records`/)).toHaveLength(0);
+    });
+
+    it('treats a record written by a nurse as unassigned, so any doctor can sign and take it over', async () => {
+        scriptRecord('nurse');
+
+        const result = await dentalRecordSignOffService.signOff(40, { userId: 8, role: 'doctor' });
+
+        expect(result.success).toBe(true);
+        // Binds doctor_id, signed_at, signed_by and the record id.
+        const [update] = fakeDb.find(/^update `dental_records` set `doctor_id` = \?, `signed_at` = \?, `signed_by` = \?/);
+        expect([update.params[0], ...update.params.slice(2)]).toEqual([8, 8, 40]);
+    });
+
+    it('does not let the nurse who wrote the record sign it', async () => {
+        scriptRecord('nurse');
+
+        const result = await dentalRecordSignOffService.signOff(40, { userId: 5, role: 'nurse' });
+
+        expect(result).toEqual({ success: false, message: 'Only a doctor can sign off a dental record.' });
+    });
+});
@@ -0,0 +1,103 @@
+// test/services/invoice.service.spec.ts
+import { fakeDb } from '../fakeDb';
+import { invoices, invoiceItems, treatmentPlans, treatmentPlanProcedures } from '../../db/schema';
+import { invoiceService } from '../../src/services/invoice.service';
+import { treatmentPlanService } from '../../src/services/treatmentPlan.service';
+import { paymentAllocationService } from '../../src/services/paymentAllocation.service';
+import { hmoClaimService } from '../../src/services/hmoClaim.service';
+import { ledgerService } from '../../src/services/ledger.service';
+
+jest.mock('../../src/config/database', () => ({ db: require('../fakeDb').fakeDb.db }));
+// The plan service loads the consent service, whose email service connects to Google Sheets on import.
+jest.mock('../../src/services/email.service', () => ({ emailService: {} }));
+
+// INV-1 was raised from plan 3: procedures 201 and 202 are billed on its lines 101 and 102.
+const scriptPlanInvoice = () => {
+    fakeDb
+        .respond(/from `invoices` where .* for update/, [
+            fakeDb.row(invoices, { id: 10, invoiceNumber: 'INV-1', patientId: 7, invoiceDate: new Date('2026-10-01T10:00:00Z'), status: 'issued', subtotal: '500.00', coveredAmount: '0.00', totalDue: '500.00', isHmoCovered: false }),
+        ])
+        .respond(/^select .* from `invoice_items` where/, [
+            fakeDb.row(invoiceItems, { id: 101, invoiceId: 10, description: 'Filling (tooth 16)', quantity: 1, unitPrice: '300.00', totalPrice: '300.00', patientShare: '300.00' }),
+            fakeDb.row(invoiceItems, { id: 102, invoiceId: 10, description: 'Scaling', quantity: 1, unitPrice: '200.00', totalPrice: '200.00', patientShare: '200.00' }),
+        ])
+        .respond(/from `treatment_plan_procedures` inner join `invoice_items`/, [[201, 101], [202, 102]]);
+};
+
+describe('InvoiceService.updateInvoice on an invoice billed from a treatment plan', () => {
+    beforeEach(() => {
+        fakeDb.reset();
+        jest.spyOn(paymentAllocationService, 'invoiceHasPayments').mockResolvedValue(false);
+        jest.spyOn(hmoClaimService, 'invoiceHasActiveClaim').mockResolvedValue(false);
+        jest.spyOn(ledgerService, 'recalculateOutstanding').mockResolvedValue(undefined as never);
+        jest.spyOn(invoiceService, 'getInvoiceById').mockResolvedValue(null as never);
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    it('moves the billed procedures onto the rebuilt lines, so they are not billed again', async () => {
+        scriptPlanInvoice();
+        fakeDb.respond(/^select .* from `invoice_items` where/, [[301], [302]]);
+
+        const updated = await invoiceService.updateInvoice(10, { coveredAmount: 100, totalDue: 400 });
+
+        expect(updated.success).toBe(true);
+        const relinks = fakeDb.find(/^update `treatment_plan_procedures`/).map(query => [query.params[0], query.params[query.params.length - 1]]);
+        expect(relinks).toEqual([[301, 201], [302, 202]]);
+
+        // Billing the plan afterwards finds both procedures still on the (issued) invoice.
+        const createInvoice = jest.spyOn(invoiceService, 'createInvoice');
+        fakeDb
+            .respond(/from `treatment_plans` where/, [fakeDb.row(treatmentPlans, { id: 3, patientId: 7, title: 'Upper right' })])
+            .respond(/from `treatment_plan_procedures` left join/, [
+                [...fakeDb.row(treatmentPlanProcedures, { id: 201, planId: 3, description: 'Filling', tooth: 16, price: '300.00', status: 'completed', invoiceItemId: 301 }), 'issued'],
+                [...fakeDb.row(treatmentPlanProcedures, { id: 202, planId: 3, description: 'Scaling', price: '200.00', status: 'completed', invoiceItemId: 302 }), 'issued'],
+            ]);
+
+        const billed = await treatmentPlanService.invoiceCompletedProcedures(3);
+
+        expect(billed).toEqual({ success: false, message: 'There are no completed procedures left to invoice.' });
+        expect(createInvoice).not.toHaveBeenCalled();
+    });
+
+    it('refuses to replace the lines of a plan invoice', async () => {
+        scriptPlanInvoice();
+
+        const result = await invoiceService.updateInvoice(10, { items: [{ description: 'Crown', quantity: 1, unitPrice: 900 }], totalDue: 900 });
+
+        expect(result.success).toBe(false);
+        expect(fakeDb.find(/^delete from `invoice_items`/)).toHaveLength(0);
+        expect(fakeDb.find(/^update `treatment_plan_procedures`/)).toHaveLength(0);
+    });
+});
+
+describe('InvoiceService.voidInvoice', () => {
+    beforeEach(() => {
+        fakeDb.reset();
+        jest.spyOn(hmoClaimService, 'invoiceHasActiveClaim').mockResolvedValue(false);
+        jest.spyOn(ledgerService, 'recalculateOutstanding').mockResolvedValue('0.00');
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    it('checks for payments under the invoice lock, in the same transaction as the void', async () => {
+        fakeDb.respond(/from `invoices` where .* for update/, [fakeDb.row(invoices, { id: 10, patientId: 7, status: 'issued', totalDue: '500.00' })]);
+        const hasPayments = jest.spyOn(paymentAllocationService, 'invoiceHasPayments').mockResolvedValue(true);
+
+        const result = await invoiceService.voidInvoice(10);
+
+        expect(result.success).toBe(false);
+        expect(hasPayments).toHaveBeenCalledWith(10, expect.anything());
+        expect(hasPayments.mock.calls[0][1]).not.toBe(fakeDb.db);
+        expect(fakeDb.find(/^update `invoices`/)).toHaveLength(0);
+    });
+
+    it('voids an unpaid, unclaimed invoice and recomputes the balance', async () => {
+        fakeDb.respond(/from `invoices` where .* for update/, [fakeDb.row(invoices, { id: 10, patientId: 7, status: 'issued', totalDue: '500.00' })]);
+        jest.spyOn(paymentAllocationService, 'invoiceHasPayments').mockResolvedValue(false);
+
+        const result = await invoiceService.voidInvoice(10);
+
+        expect(result).toEqual({ success: true, message: 'Invoice voided successfully.' });
+        expect(fakeDb.find(/^update `invoices` set `status` = \?/)[0].params[0]).toBe('void');
+        expect(ledgerService.recalculateOutstanding).toHaveBeenCalledWith(7, expect.anything());
+    });
+});
@@ -0,0 +1,57 @@
+// test/services/ledger.service.spec.ts
+import { fakeDb } from '../fakeDb';
+import { ledgerService } from '../../src/services/ledger.service';
+
+jest.mock('../../src/config/database', () => ({ db: require('../fakeDb').fakeDb.db }));
+
+// The four sums recalculateOutstanding reads, in the order it reads them.
+const scriptTotals = (totals: { charges: string; settled: string; paid: string; allocatedFromPaid: string }) => {
+    fakeDb
+        .respond(/from `invoices` where/, [[totals.charges]])
+        .respond(/from `payment_allocations` inner join `payments` .* inner join `invoices`/, [[totals.settled]])
+        .respond(/from `payments` where/, [[totals.paid]])
+        .respond(/from `payment_allocations` inner join `payments` on [^]* where/, [[totals.allocatedFromPaid]]);
+};
+
+describe('LedgerService.recalculateOutstanding', () => {
+    beforeEach(() => fakeDb.reset());
+
+    it('is issued invoices less allocations to them less unallocated payments, and caches the result', async () => {
+        scriptTotals({ charges: '1000.00', settled: '400.00', paid: '700.00', allocatedFromPaid: '400.00' });
+
+        const outstanding = await ledgerService.recalculateOutstanding(7);
+
+        expect(outstanding).toBe('300.00');
+        const [update] = fakeDb.find(/^update `patients`/);
+        expect(update.params).toEqual(expect.arrayContaining(['300.00', 7]));
+    });
+
+    it('goes negative when the patient has paid more than they owe', async () => {
+        scriptTotals({ charges: '200.00', settled: '200.00', paid: '500.00', allocatedFromPaid: '200.00' });
+
+        expect(await ledgerService.recalculateOutstanding(7)).toBe('-300.00');
+    });
+
+    it("counts a family head's payment towards a member's invoice, not the head's own credit", async () => {
+        // The member owes 500, all settled by the head; the member has paid nothing themselves.
+        scriptTotals({ charges: '500.00', settled: '500.00', paid: '0', allocatedFromPaid: '0' });
+
+        expect(await ledgerService.recalculateOutstanding(8)).toBe('0.00');
+    });
+
+    it('reads only issued invoices and completed payments', async () => {
+        scriptTotals({ charges: '0', settled: '0', paid: '0', allocatedFromPaid: '0' });
+
+        await ledgerService.recalculateOutstanding(7);
+
+        const [charges, settled, paid, allocatedFromPaid] = fakeDb.find(/^select/);
+        expect(charges.params).toEqual([7, 'issued']);
+        expect(settled.params).toEqual([7, 'completed']);
+        expect(paid.params).toEqual([7, 'completed']);
+        expect(allocatedFromPaid.params).toEqual([7, 'completed']);
+    });
+
+    it('treats a patient with no ledger entries as owing nothing', async () => {
+        expect(await ledgerService.recalculateOutstanding(9)).toBe('0.00');
+    });
+});
@@ -0,0 +1,43 @@
+// test/services/odontogram.service.spec.ts
+import { fakeDb } from '../fakeDb';
+import { toothConditions } from '../../db/schema';
+import { odontogramService } from '../../src/services/odontogram.service';
+
+jest.mock('../../src/config/database', () => ({ db: require('../fakeDb').fakeDb.db }));
+
+describe('OdontogramService.findPatientsWithCondition', () => {
+    beforeEach(() => fakeDb.reset());
+
+    it('agrees with the current chart about records that only have legacy columns', async () => {
+        // Patient 7 has one legacy record listing 36 as carious. Patient 8 had caries on 36 charted,
+        // then a later legacy record lists 36 as filled.
+        fakeDb
+            .respond(/^select distinct `tooth_conditions`/, [[8]])
+            .respond(/^select distinct `patient_id` from `dental_records`/, [[7]])
+            .respond(/^select `id`, `patient_id`, `created_at`/, [
+                [50, 7, '2026-01-10 09:00:00.000', [36], null, null, null],
+                [60, 8, '2026-02-10 09:00:00.000', null, null, null, null],
+                [61, 8, '2026-03-10 09:00:00.000', null, [36], null, null],
+            ])
+            .respond(/from `tooth_conditions` where `tooth_conditions`.`dental_record_id` in/, [
+                fakeDb.row(toothConditions, { id: 1, dentalRecordId: 60, patientId: 8, tooth: 36, surface: 'occlusal', condition: 'caries' }),
+            ])
+            .respond(/^select `id`, `name` from `patients`/, [[7, 'Ada Obi'], [8, 'Bola Ade']]);
+
+        const matches = await odontogramService.findPatientsWithCondition(36, 'caries');
+
+        expect(matches).toEqual([{ patientId: 7, patientName: 'Ada Obi', dentalRecordId: 50, chartedAt: expect.any(Date) }]);
+        const [legacySearch] = fakeDb.find(/^select distinct `patient_id` from `dental_records`/);
+        expect(legacySearch.sql).toContain('cast(`dental_records`.`carious_cavity` as char) like ?');
+        expect(legacySearch.params).toContain('%36%');
+    });
+
+    it('does not look at legacy columns for a surface search, since they hold no surfaces', async () => {
+        fakeDb.respond(/^select distinct `tooth_conditions`/, []);
+
+        const matches = await odontogramService.findPatientsWithCondition(36, 'caries', 'occlusal');
+
+        expect(matches).toEqual([]);
+        expect(fakeDb.find(/^select distinct `patient_id` from `dental_records`/)).toHaveLength(0);
+    });
+});
@@ -0,0 +1,36 @@
+// test/services/patientMerge.service.spec.ts
+import { fakeDb } from '../fakeDb';
+import { patients } from '../../db/schema';
+import { patientMergeService } from '../../src/services/patientMerge.service';
+import { ledgerService } from '../../src/services/ledger.service';
+import { medicalHistoryService } from '../../src/services/medicalHistory.service';
+import { appointmentService } from '../../src/services/appointment.service';
+
+jest.mock('../../src/config/database', () => ({ db: require('../fakeDb').fakeDb.db }));
+
+describe('PatientMergeService.mergePatients', () => {
+    beforeEach(() => {
+        fakeDb.reset();
+        jest.spyOn(ledgerService, 'recalculateOutstanding').mockResolvedValue('0.00');
+        jest.spyOn(medicalHistoryService, 'mergeHistories').mockResolvedValue(undefined);
+        jest.spyOn(appointmentService, 'syncNextAppointment').mockResolvedValue(undefined);
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    it('hands the duplicate\'s own merge history to the survivor before deleting it', async () => {
+        // Patient 2 once absorbed another registration; now 2 is itself folded into 1.
+        const survivor = fakeDb.row(patients, { id: 1, name: 'Ada Obi', outstanding: '0.00', isFamilyHead: true });
+        fakeDb
+            .respond(/from `patients` where .* for update/, [survivor, fakeDb.row(patients, { id: 2, name: 'Ada Obi', outstanding: '0.00', isFamilyHead: true })])
+            .respond(/from `patients` where `patients`.`id` = \? limit/, [survivor]);
+
+        const result = await patientMergeService.mergePatients(1, 2, 9);
+
+        expect(result.success).toBe(true);
+        const [repoint] = fakeDb.find(/^update `patient_merges` set `survivor_id` = \? where `patient_merges`.`survivor_id` = \?/);
+        expect(repoint.params).toEqual([1, 2]);
+        const order = fakeDb.queries.map(query => query.sql);
+        const deleted = order.findIndex(sql => /^delete from `patients`/.test(sql));
+        expect(order.indexOf(repoint.sql)).toBeLessThan(deleted);
+    });
+});
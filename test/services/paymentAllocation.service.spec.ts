@@ -0,0 +1,147 @@
+// test/services/paymentAllocation.service.spec.ts
+import { fakeDb } from '../fakeDb';
+import { invoices, invoiceItems } from '../../db/schema';
+import { paymentAllocationService } from '../../src/services/paymentAllocation.service';
+
+jest.mock('../../src/config/database', () => ({ db: require('../fakeDb').fakeDb.db }));
+
+// Two open invoices: INV-1 (lines of 300 and 200) and the later INV-2 (one line of 500).
+const scriptOpenInvoices = (allocated: [number, number | null, string][] = []) => {
+    fakeDb
+        .respond(/from `invoices` where/, [
+            fakeDb.row(invoices, { id: 10, invoiceNumber: 'INV-1', patientId: 7, invoiceDate: new Date('2026-01-05T10:00:00Z'), status: 'issued', totalDue: '500.00' }),
+            fakeDb.row(invoices, { id: 11, invoiceNumber: 'INV-2', patientId: 7, invoiceDate: new Date('2026-02-01T10:00:00Z'), status: 'issued', totalDue: '500.00' }),
+        ])
+        .respond(/from `invoice_items`/, [
+            fakeDb.row(invoiceItems, { id: 101, invoiceId: 10, description: 'Scaling', patientShare: '300.00' }),
+            fakeDb.row(invoiceItems, { id: 102, invoiceId: 10, description: 'X-ray', patientShare: '200.00' }),
+            fakeDb.row(invoiceItems, { id: 111, invoiceId: 11, description: 'Filling', patientShare: '500.00' }),
+        ])
+        .respond(/from `payment_allocations`/, allocated);
+};
+
+// The allocation rows written, as [invoiceId, invoiceItemId, amount].
+const writtenAllocations = () => {
+    const [insert] = fakeDb.find(/^insert into `payment_allocations`/);
+    if (!insert) return [];
+    const rows: unknown[][] = [];
+    // Each row binds paymentId, invoiceId, invoiceItemId and amount; id and createdAt are left to their defaults.
+    for (let i = 0; i < insert.params.length; i += 4) rows.push(insert.params.slice(i + 1, i + 4));
+    return rows;
+};
+
+describe('PaymentAllocationService.allocatePayment', () => {
+    beforeEach(() => fakeDb.reset());
+
+    it('settles the oldest open lines first', async () => {
+        scriptOpenInvoices();
+
+        const result = await paymentAllocationService.allocatePayment({ id: 5, patientId: 7, amount: 600 }, {}, fakeDb.db);
+
+        expect(result.success).toBe(true);
+        expect(result.allocations).toEqual([
+            { invoiceId: 10, invoiceItemId: 101, amount: 300 },
+            { invoiceId: 10, invoiceItemId: 102, amount: 200 },
+            { invoiceId: 11, invoiceItemId: 111, amount: 100 },
+        ]);
+        expect(writtenAllocations()).toEqual([[10, 101, '300.00'], [10, 102, '200.00'], [11, 111, '100.00']]);
+    });
+
+    it('leaves whatever is left after every open line is paid as unallocated credit', async () => {
+        scriptOpenInvoices();
+
+        const result = await paymentAllocationService.allocatePayment({ id: 5, patientId: 7, amount: 1250 }, {}, fakeDb.db);
+
+        expect(result.allocations!.reduce((sum, row) => sum + row.amount, 0)).toBe(1000);
+    });
+
+    it('spreads earlier invoice-level payments over the lines before allocating', async () => {
+        scriptOpenInvoices([[10, null, '350.00']]);
+
+        const result = await paymentAllocationService.allocatePayment({ id: 5, patientId: 7, amount: 200 }, {}, fakeDb.db);
+
+        expect(result.allocations).toEqual([
+            { invoiceId: 10, invoiceItemId: 102, amount: 150 },
+            { invoiceId: 11, invoiceItemId: 111, amount: 50 },
+        ]);
+    });
+
+    it('skips lines that earlier payments have already settled', async () => {
+        scriptOpenInvoices([[10, 101, '300.00']]);
+
+        const result = await paymentAllocationService.allocatePayment({ id: 5, patientId: 7, amount: 100 }, {}, fakeDb.db);
+
+        expect(result.allocations).toEqual([{ invoiceId: 10, invoiceItemId: 102, amount: 100 }]);
+    });
+
+    it('follows an explicit split', async () => {
+        scriptOpenInvoices();
+
+        const result = await paymentAllocationService.allocatePayment(
+            { id: 5, patientId: 7, amount: 400 },
+            { allocations: [{ invoiceItemId: 111, amount: '250' }, { invoiceItemId: 102, amount: 150 }] },
+            fakeDb.db,
+        );
+
+        expect(result.allocations).toEqual([
+            { invoiceId: 11, invoiceItemId: 111, amount: 250 },
+            { invoiceId: 10, invoiceItemId: 102, amount: 150 },
+        ]);
+    });
+
+    it('refuses an explicit split that pays more than a line still owes', async () => {
+        scriptOpenInvoices([[10, 102, '150.00']]);
+
+        const result = await paymentAllocationService.allocatePayment(
+            { id: 5, patientId: 7, amount: 100 },
+            { allocations: [{ invoiceItemId: 102, amount: 60 }] },
+            fakeDb.db,
+        );
+
+        expect(result).toEqual({ success: false, message: 'Allocation of 60.00 exceeds the 50.00 still owed on "X-ray".' });
+        expect(writtenAllocations()).toEqual([]);
+    });
+
+    it('refuses an explicit split that adds up to more than was paid', async () => {
+        scriptOpenInvoices();
+
+        const result = await paymentAllocationService.allocatePayment(
+            { id: 5, patientId: 7, amount: 100 },
+            { allocations: [{ invoiceItemId: 101, amount: 80 }, { invoiceItemId: 102, amount: 80 }] },
+            fakeDb.db,
+        );
+
+        expect(result).toEqual({ success: false, message: 'Allocations exceed the amount paid.' });
+        expect(writtenAllocations()).toEqual([]);
+    });
+
+    it("refuses a split that targets a line outside the patient's open invoices", async () => {
+        scriptOpenInvoices();
+
+        const result = await paymentAllocationService.allocatePayment(
+            { id: 5, patientId: 7, amount: 100 },
+            { allocations: [{ invoiceItemId: 999, amount: 100 }] },
+            fakeDb.db,
+        );
+
+        expect(result).toEqual({ success: false, message: "Allocation target not found among this patient's open invoices." });
+    });
+
+    it('settles an invoice without lines as a whole', async () => {
+        fakeDb.respond(/from `invoices` where/, [
+            fakeDb.row(invoices, { id: 12, invoiceNumber: 'INV-3', patientId: 7, invoiceDate: new Date('2026-03-01T10:00:00Z'), status: 'issued', totalDue: '80.00' }),
+        ]);
+
+        const result = await paymentAllocationService.allocatePayment({ id: 5, patientId: 7, amount: 100 }, { invoiceId: 12 }, fakeDb.db);
+
+        expect(result.allocations).toEqual([{ invoiceId: 12, invoiceItemId: null, amount: 80 }]);
+        expect(fakeDb.find(/from `invoices` where/)[0].params).toEqual([7, 'issued', 12]);
+    });
+
+    it('writes nothing when there is nothing open', async () => {
+        const result = await paymentAllocationService.allocatePayment({ id: 5, patientId: 7, amount: 100 }, {}, fakeDb.db);
+
+        expect(result).toEqual({ success: true, allocations: [] });
+        expect(writtenAllocations()).toEqual([]);
+    });
+});
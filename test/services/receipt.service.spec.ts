@@ -0,0 +1,16 @@
+// test/services/receipt.service.spec.ts
+import { fakeDb } from '../fakeDb';
+import { receiptService } from '../../src/services/receipt.service';
+
+jest.mock('../../src/config/database', () => ({ db: require('../fakeDb').fakeDb.db }));
+
+describe('ReceiptService.createReceipt', () => {
+    beforeEach(() => fakeDb.reset());
+
+    it.each(['abc', -50])('refuses an amount paid of %p before touching the ledger', async (amountPaid) => {
+        const result = await receiptService.createReceipt({ patientId: 7, receiptDate: new Date('2026-10-18T10:00:00Z'), amountPaid, paymentMethod: 'cash' });
+
+        expect(result).toEqual({ success: false, message: 'Amount paid must be zero or a positive number.' });
+        expect(fakeDb.queries).toHaveLength(0);
+    });
+});
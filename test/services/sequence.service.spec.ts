@@ -0,0 +1,66 @@
+// test/services/sequence.service.spec.ts
+import { fakeDb } from '../fakeDb';
+import { documentSequences } from '../../db/schema';
+import { sequenceService } from '../../src/services/sequence.service';
+import { settingsService } from '../../src/services/settings.service';
+
+jest.mock('../../src/config/database', () => ({ db: require('../fakeDb').fakeDb.db }));
+
+const numbering = { invoicePrefix: 'PDC-INV', receiptPrefix: 'PDC-RCT', creditNotePrefix: 'PDC-CRN', padLength: 6 };
+
+describe('SequenceService.allocateNumber', () => {
+    beforeEach(() => {
+        fakeDb.reset();
+        jest.spyOn(settingsService, 'getNumberingSettings').mockResolvedValue(numbering);
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    const scriptCounter = (documentType: 'invoice' | 'receipt' | 'credit_note', year: number, lastValue: number) =>
+        fakeDb.respond(/^select .* from `document_sequences`/, [fakeDb.row(documentSequences, { id: 3, documentType, year, lastValue })]);
+
+    it('advances the counter and formats the number with the prefix, year and padding', async () => {
+        scriptCounter('invoice', 2026, 122);
+
+        const number = await sequenceService.allocateNumber('invoice', new Date(2026, 9, 18), fakeDb.db);
+
+        expect(number).toBe('PDC-INV-2026-000123');
+        const [update] = fakeDb.find(/^update `document_sequences`/);
+        expect(update.params).toEqual([123, 3]);
+    });
+
+    it('creates the counter row without overwriting one a concurrent transaction created', async () => {
+        scriptCounter('receipt', 2026, 0);
+
+        await sequenceService.allocateNumber('receipt', new Date(2026, 0, 1), fakeDb.db);
+
+        const [insert] = fakeDb.find(/^insert into `document_sequences`/);
+        expect(insert.sql).toMatch(/on duplicate key update `last_value` = `document_sequences`.`last_value`/);
+        expect(insert.params).toEqual(expect.arrayContaining(['receipt', 2026, 0]));
+    });
+
+    it('locks the counter row for the rest of the transaction', async () => {
+        scriptCounter('invoice', 2026, 5);
+
+        await sequenceService.allocateNumber('invoice', new Date(2026, 5, 1), fakeDb.db);
+
+        const [select] = fakeDb.find(/^select .* from `document_sequences`/);
+        expect(select.sql).toMatch(/for update$/);
+        expect(select.params).toEqual(['invoice', 2026]);
+    });
+
+    it("keeps a separate counter per calendar year, taken from the document's date", async () => {
+        scriptCounter('invoice', 2027, 0);
+
+        const number = await sequenceService.allocateNumber('invoice', new Date(2027, 0, 2), fakeDb.db);
+
+        expect(number).toBe('PDC-INV-2027-000001');
+        expect(fakeDb.find(/^select .* from `document_sequences`/)[0].params).toEqual(['invoice', 2027]);
+    });
+
+    it('uses the prefix and padding from the numbering settings', async () => {
+        jest.spyOn(settingsService, 'getNumberingSettings').mockResolvedValue({ ...numbering, creditNotePrefix: 'CN', padLength: 3 });
+        scriptCounter('credit_note', 2026, 41);
+
+        expect(await sequenceService.allocateNumber('credit_note', new Date(2026, 3, 9), fakeDb.db)).toBe('CN-2026-042');
+    });
+});
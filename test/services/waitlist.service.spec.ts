@@ -0,0 +1,121 @@
+// test/services/waitlist.service.spec.ts
+import { createHash } from 'crypto';
+import { fakeDb } from '../fakeDb';
+import { waitlistEntries, waitlistOffers } from '../../db/schema';
+import { appointmentService } from '../../src/services/appointment.service';
+import { waitlistService } from '../../src/services/waitlist.service';
+
+jest.mock('../../src/config/database', () => ({ db: require('../fakeDb').fakeDb.db }));
+// The real email service connects to Google Sheets when loaded.
+jest.mock('../../src/services/email.service', () => ({ emailService: { sendWaitlistOffer: jest.fn() } }));
+
+const token = 'a'.repeat(64);
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+const offer = (values: Partial<typeof waitlistOffers.$inferSelect> = {}) => fakeDb.row(waitlistOffers, {
+    id: 20, entryId: 30, sourceAppointmentId: 40, doctorId: 3, chair: 'Chair 1', procedure: 'Scaling',
+    startTime: new Date('2026-10-22T10:00:00Z'), endTime: new Date('2026-10-22T10:30:00Z'),
+    tokenHash: 'hash', status: 'pending', expiresAt: hoursFromNow(12),
+    ...values,
+});
+const entry = (values: Partial<typeof waitlistEntries.$inferSelect> = {}) => fakeDb.row(waitlistEntries, {
+    id: 30, patientId: 7, priority: 0, status: 'waiting', createdAt: new Date('2026-10-01T09:00:00Z'), ...values,
+});
+
+const scriptOffer = (offerValues?: Partial<typeof waitlistOffers.$inferSelect>, entryValues?: Partial<typeof waitlistEntries.$inferSelect>) => fakeDb
+    .respond(/from `waitlist_offers`/, [offer(offerValues)])
+    .respond(/from `waitlist_entries`/, [entry(entryValues)]);
+
+type BookingResult = Awaited<ReturnType<typeof appointmentService.createAppointment>>;
+
+// Only the fields acceptOffer reads from the booked appointment.
+const booked = { success: true, message: 'Appointment booked.', appointment: { id: 55, doctorName: 'Dr Ade' } } as unknown as BookingResult;
+
+describe('WaitlistService.acceptOffer', () => {
+    let createAppointment: jest.SpyInstance;
+    let updateAppointment: jest.SpyInstance;
+
+    beforeEach(() => {
+        fakeDb.reset();
+        createAppointment = jest.spyOn(appointmentService, 'createAppointment').mockResolvedValue(booked);
+        updateAppointment = jest.spyOn(appointmentService, 'updateAppointment').mockResolvedValue(booked);
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    it('looks the offer up by the hash of its token, under a lock', async () => {
+        await waitlistService.acceptOffer(token);
+
+        const [lookup] = fakeDb.find(/from `waitlist_offers`/);
+        expect(lookup.params).toEqual([createHash('sha256').update(token).digest('hex')]);
+        expect(lookup.sql).toMatch(/for update$/);
+    });
+
+    it('books the offered slot for the waitlisted patient and confirms it', async () => {
+        scriptOffer();
+
+        const result = await waitlistService.acceptOffer(token);
+
+        expect(result).toEqual({
+            success: true,
+            message: 'Your appointment is confirmed.',
+            appointment: { startTime: new Date('2026-10-22T10:00:00Z'), endTime: new Date('2026-10-22T10:30:00Z'), doctorName: 'Dr Ade', procedure: 'Scaling' },
+        });
+        expect(createAppointment).toHaveBeenCalledWith(expect.objectContaining({
+            patientId: 7, doctorId: 3, chair: 'Chair 1', procedure: 'Scaling',
+            startTime: new Date('2026-10-22T10:00:00Z'), endTime: new Date('2026-10-22T10:30:00Z'),
+        }), null, expect.anything());
+        expect(updateAppointment).toHaveBeenCalledWith(55, expect.objectContaining({ status: 'confirmed' }), null, expect.anything());
+    });
+
+    it('marks the offer accepted, takes the patient off the list and withdraws the slot\'s other offers', async () => {
+        scriptOffer();
+
+        await waitlistService.acceptOffer(token);
+
+        const [accepted, withdrawn] = fakeDb.find(/^update `waitlist_offers`/);
+        expect(accepted.params[0]).toBe('accepted');
+        expect(accepted.params).toEqual(expect.arrayContaining([55, 20]));
+        expect(withdrawn.params).toEqual(['superseded', 'pending', 20, 40]);
+        const [entryUpdate] = fakeDb.find(/^update `waitlist_entries`/);
+        expect(entryUpdate.params[0]).toBe('booked');
+        expect(entryUpdate.params).toEqual(expect.arrayContaining([55, 30]));
+    });
+
+    it('withdraws the offer when the slot has been taken in the meantime', async () => {
+        scriptOffer();
+        createAppointment.mockResolvedValue({ success: false, message: 'The slot clashes with an appointment.', conflicts: [] });
+
+        const result = await waitlistService.acceptOffer(token);
+
+        expect(result).toEqual({ success: false, message: 'Sorry, this slot has just been taken.' });
+        const updates = fakeDb.find(/^update `waitlist_offers`/);
+        expect(updates).toHaveLength(1);
+        expect(updates[0].params[0]).toBe('superseded');
+        expect(fakeDb.find(/^update `waitlist_entries`/)).toHaveLength(0);
+    });
+
+    it('refuses an unknown token', async () => {
+        expect(await waitlistService.acceptOffer(token)).toEqual({ success: false, message: 'Offer not found.' });
+        expect(createAppointment).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        ['expired', { expiresAt: hoursFromNow(-1) }, 'This offer has expired.'],
+        ['withdrawn', { status: 'superseded' as const }, 'Sorry, this slot is no longer available.'],
+        ['declined', { status: 'declined' as const }, 'This offer has already been declined.'],
+        ['accepted', { status: 'accepted' as const }, 'This offer has already been accepted.'],
+    ])('refuses an offer that was %s', async (_state, offerValues, message) => {
+        scriptOffer(offerValues);
+
+        expect(await waitlistService.acceptOffer(token)).toEqual({ success: false, message });
+        expect(createAppointment).not.toHaveBeenCalled();
+        expect(fakeDb.find(/^update/)).toHaveLength(0);
+    });
+
+    it('refuses the offer once the patient is no longer waiting', async () => {
+        scriptOffer({}, { status: 'booked' });
+
+        expect(await waitlistService.acceptOffer(token)).toEqual({ success: false, message: 'This offer is no longer open.' });
+        expect(createAppointment).not.toHaveBeenCalled();
+    });
+});